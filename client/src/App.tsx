@@ -7,11 +7,14 @@ import Dashboard from "@/pages/dashboard";
 import Lanes from "@/pages/lanes";
 import Simulation from "@/pages/simulation";
 import Quotes from "@/pages/quotes";
+import Policies from "@/pages/policies";
+import Carriers from "@/pages/carriers";
 import Alternatives from "@/pages/alternatives";
 import Risk from "@/pages/risk";
 import Shipments from "@/pages/shipments";
 import OpenShipments from "@/pages/open-shipments";
 import Workflow from "@/pages/workflow";
+import RfqResponse from "@/pages/rfq-response";
 import NotFound from "@/pages/not-found";
 import Sidebar from "@/components/layout/sidebar";
 import Header from "@/components/layout/header";
@@ -28,6 +31,8 @@ function Router() {
           <Route path="/lanes" component={Lanes} />
           <Route path="/simulation" component={Simulation} />
           <Route path="/quotes" component={Quotes} />
+          <Route path="/policies" component={Policies} />
+          <Route path="/carriers" component={Carriers} />
           <Route path="/alternatives" component={Alternatives} />
           <Route path="/risk" component={Risk} />
           <Route path="/shipments" component={Shipments} />
@@ -45,8 +50,14 @@ function App() {
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
         <Toaster />
-        <Router />
-        <FloatingChatbot />
+        {/* Carriers answering an RFQ link see only their invitation, without the app shell */}
+        <Switch>
+          <Route path="/rfq/:token" component={RfqResponse} />
+          <Route>
+            <Router />
+            <FloatingChatbot />
+          </Route>
+        </Switch>
       </TooltipProvider>
     </QueryClientProvider>
   );
@@ -0,0 +1,215 @@
+import { useState, type ReactNode } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { BookingOutcome, Carrier, Quote } from "@shared/schema";
+
+interface BookingOutcomeDialogProps {
+  carrier: Carrier;
+  quotes?: Quote[]; // The carrier's quotes an outcome can be recorded against
+  defaultQuoteId?: string;
+  outcome?: BookingOutcome; // Edits this outcome instead of recording a new one
+  trigger: ReactNode;
+}
+
+// Sentinel for "not booked through a quote" since Select items cannot have an empty value
+const NO_QUOTE = "none";
+
+type OnTimeChoice = "auto" | "yes" | "no";
+
+function toDateInput(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Record how a booking with the carrier turned out, or complete a recorded outcome once the invoice arrives
+export function BookingOutcomeDialog({ carrier, quotes = [], defaultQuoteId, outcome, trigger }: BookingOutcomeDialogProps) {
+  const initialQuoteId = () => outcome ? NO_QUOTE : defaultQuoteId ?? NO_QUOTE;
+  const [open, setOpen] = useState(false);
+  const [quoteId, setQuoteId] = useState(initialQuoteId);
+  const [bookedRate, setBookedRate] = useState("");
+  const [invoicedAmount, setInvoicedAmount] = useState(() => outcome?.invoicedAmount?.toString() ?? "");
+  const [deliveredAt, setDeliveredAt] = useState(() => toDateInput(outcome ? new Date(outcome.deliveredAt) : new Date()));
+  const [onTime, setOnTime] = useState<OnTimeChoice>(() => outcome ? (outcome.onTime ? "yes" : "no") : "auto");
+  const [rolled, setRolled] = useState(outcome?.rolled ?? false);
+  const [damaged, setDamaged] = useState(outcome?.damaged ?? false);
+  const [notes, setNotes] = useState(outcome?.notes ?? "");
+  const { toast } = useToast();
+
+  const resetForm = () => {
+    setQuoteId(initialQuoteId());
+    setBookedRate("");
+    setInvoicedAmount(outcome?.invoicedAmount?.toString() ?? "");
+    setDeliveredAt(toDateInput(outcome ? new Date(outcome.deliveredAt) : new Date()));
+    setOnTime(outcome ? (outcome.onTime ? "yes" : "no") : "auto");
+    setRolled(outcome?.rolled ?? false);
+    setDamaged(outcome?.damaged ?? false);
+    setNotes(outcome?.notes ?? "");
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const common = {
+        deliveredAt: new Date(`${deliveredAt}T12:00:00Z`).toISOString(),
+        rolled,
+        damaged,
+        ...(onTime !== "auto" ? { onTime: onTime === "yes" } : {})
+      };
+      const response = outcome
+        ? await apiRequest('PATCH', `/api/booking-outcomes/${outcome.id}`, {
+            ...common,
+            invoicedAmount: invoicedAmount ? Number(invoicedAmount) : null,
+            notes: notes.trim() || null
+          })
+        : await apiRequest('POST', `/api/carriers/${carrier.id}/outcomes`, {
+            ...common,
+            ...(quoteId !== NO_QUOTE ? { quoteId } : { bookedRate: Number(bookedRate) }),
+            ...(invoicedAmount ? { invoicedAmount: Number(invoicedAmount) } : {}),
+            ...(notes.trim() ? { notes: notes.trim() } : {})
+          });
+      return response.json() as Promise<BookingOutcome>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/carriers'] });
+      toast({
+        title: outcome ? "Outcome Updated" : "Outcome Recorded",
+        description: `${carrier.name}'s scorecard now reflects this booking`
+      });
+      setOpen(false);
+      resetForm();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save booking outcome",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const isPositive = (value: string) => Number.isFinite(Number(value)) && Number(value) > 0;
+  const isValid = deliveredAt !== ""
+    && (outcome || quoteId !== NO_QUOTE || isPositive(bookedRate))
+    && (invoicedAmount === "" || isPositive(invoicedAmount));
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => { setOpen(value); if (!value) resetForm(); }}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{outcome ? "Update Booking Outcome" : `Record Booking Outcome for ${carrier.name}`}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!outcome && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Booked quote</Label>
+                <Select value={quoteId} onValueChange={setQuoteId}>
+                  <SelectTrigger data-testid="select-outcome-quote">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_QUOTE}>Not booked through a quote</SelectItem>
+                    {quotes.map(quote => (
+                      <SelectItem key={quote.id} value={quote.id}>
+                        ${quote.rate.toLocaleString()}{quote.createdAt ? ` · ${new Date(quote.createdAt).toLocaleDateString()}` : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {quoteId === NO_QUOTE && (
+                <div className="space-y-2">
+                  <Label htmlFor="outcome-booked-rate">Booked rate ($)</Label>
+                  <Input
+                    id="outcome-booked-rate"
+                    type="number"
+                    min="0"
+                    value={bookedRate}
+                    onChange={(e) => setBookedRate(e.target.value)}
+                    data-testid="input-outcome-booked-rate"
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="outcome-delivered">Delivered</Label>
+              <Input
+                id="outcome-delivered"
+                type="date"
+                value={deliveredAt}
+                onChange={(e) => setDeliveredAt(e.target.value)}
+                data-testid="input-outcome-delivered"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>On time</Label>
+              <Select value={onTime} onValueChange={(value) => setOnTime(value as OnTimeChoice)}>
+                <SelectTrigger data-testid="select-outcome-on-time">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {!outcome && <SelectItem value="auto">By required date</SelectItem>}
+                  <SelectItem value="yes">Yes</SelectItem>
+                  <SelectItem value="no">No</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="outcome-invoiced">Invoiced ($)</Label>
+              <Input
+                id="outcome-invoiced"
+                type="number"
+                min="0"
+                value={invoicedAmount}
+                onChange={(e) => setInvoicedAmount(e.target.value)}
+                placeholder="Not yet"
+                data-testid="input-outcome-invoiced"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-6">
+            <div className="flex items-center gap-2">
+              <Switch id="outcome-rolled" checked={rolled} onCheckedChange={setRolled} data-testid="switch-outcome-rolled" />
+              <Label htmlFor="outcome-rolled">Rolled</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="outcome-damaged" checked={damaged} onCheckedChange={setDamaged} data-testid="switch-outcome-damaged" />
+              <Label htmlFor="outcome-damaged">Damaged</Label>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="outcome-notes">Notes</Label>
+            <Textarea
+              id="outcome-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Claims, delays, surcharges"
+              data-testid="input-outcome-notes"
+            />
+          </div>
+
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!isValid || saveMutation.isPending}
+            data-testid="button-save-outcome"
+          >
+            {outcome ? "Save Outcome" : "Record Outcome"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
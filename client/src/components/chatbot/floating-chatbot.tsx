@@ -4,6 +4,10 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { MessageCircle, X, Send, Bot, User } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { MarketIndex } from "@shared/schema";
+import { selectedForecast, FORECAST_MODEL_LABELS, type IndexForecastReport } from "@shared/index-forecast";
+import type { CarrierWithScorecard } from "@shared/carrier-scorecard";
 
 interface ChatMessage {
   id: string;
@@ -37,16 +41,6 @@ const MOCK_RESPONSES = {
     "Contract vs spot rate spread is currently 20-25%. Long-term agreements offer predictability but less flexibility. Current market favors short-term bookings."
   ],
   
-  // Vendor/carrier questions
-  'vendor': [
-    "🚢 **Top Carrier Analysis for Your Routes:**\n\n🥇 **MSC** - Premium Service\n• Rate: $2,580/TEU\n• Transit: 18.5 days\n• Reliability: 94%\n• Best for: Consistent schedules\n\n🥈 **COSCO** - Best Value\n• Rate: $2,420/TEU ⭐\n• Transit: 19.2 days\n• Reliability: 89%\n• Best for: Cost-conscious shippers\n\n🥉 **Evergreen** - Balanced Choice\n• Rate: $2,510/TEU\n• Transit: 18.8 days\n• Reliability: 91%\n• Best for: Reliable mid-tier option",
-    "Carrier comparison based on Q3 performance: MSC leads in reliability (94%) but COSCO wins on price ($2,420/TEU vs $2,580). For your volume, I'd recommend a COSCO-MSC split: 70% COSCO for savings, 30% MSC for critical shipments."
-  ],
-  'carrier': [
-    "📊 **Carrier Scorecard (Updated Weekly):**\n\n🏆 **Premium Tier:**\n• Hapag-Lloyd: 96% OTP, +$300 premium\n• MSC: 94% OTP, market rates\n• Maersk: 93% OTP, +$150 premium\n\n⚖️ **Value Tier:**\n• COSCO: 89% OTP, -$160 discount\n• OOCL: 90% OTP, -$120 discount\n• Evergreen: 91% OTP, market rates\n\nRecommendation depends on your priority: cost vs reliability.",
-    "For time-critical cargo, premium carriers offer express services: Hapag-Lloyd Express (14 days, +20% rate), MSC Santana (15 days, +15% rate). Standard service delays currently 2-3 days due to port congestion."
-  ],
-  
   // Quote-related questions
   'quote': [
     "📋 **Your Quote Analysis:**\n\n**MSC Quote #Q-2024-0847:**\n• Rate: $2,650/TEU\n• Transit: 18 days\n• Valid until: Tomorrow 5PM\n• Market position: 8% below average ✅\n\n**Recommendation:** Excellent rate - 12% below peak season. High reliability carrier. Suggest booking 60% of Q4 volume.",
@@ -60,8 +54,7 @@ const MOCK_RESPONSES = {
   // Transit time questions
   'transit': [
     "⏱️ **Shanghai-LA Transit Times:**\n\n• Standard Service: 18-22 days\n• Express Service: 14-16 days\n• Economy Service: 24-28 days\n\n🚨 Current delays: LA/LB ports +2-3 days due to peak season congestion\n\n💡 Alternative: Consider Oakland (OAK) for faster clearance.",
-    "Transit time analysis for your route shows 16-21 days average. Current LA port congestion adds 2-3 days. I recommend Oakland or Seattle for faster clearance - only 1-day delays vs 3 days at LA.",
-    "Current transit performance:\n\n🥇 MSC: 18.5 days avg (94% on-time)\n🥈 COSCO: 19.2 days avg (89% on-time)\n🥉 Evergreen: 20.1 days avg (91% on-time)\n\nPremium services available for time-critical cargo."
+    "Transit time analysis for your route shows 16-21 days average. Current LA port congestion adds 2-3 days. I recommend Oakland or Seattle for faster clearance - only 1-day delays vs 3 days at LA."
   ],
   'delivery': [
     "Your last 10 shipments averaged 18.5 days Shanghai-LA. Peak season may add 2-4 days due to port congestion.",
@@ -73,10 +66,6 @@ const MOCK_RESPONSES = {
     "📊 **Market Intelligence Report:**\n\n📈 **Indices:**\n• SCFI: 1,247 (+3.2% WoW)\n• CCFI: 1,156 (+1.8% WoW)\n• Baltic Dry: 1,423 (+8.3% WoW)\n\n🔮 **Outlook:**\n• Q4 2024: Rate stabilization expected\n• Q1 2025: 10-15% decline likely\n• New capacity: 2.3M TEU entering market\n\n💡 Strategy: Book Q4 now, wait for Q1 contracts.",
     "Current market shows mixed signals. Container rates stabilizing after peak season volatility, but bulk rates surging (+8.3% Baltic Dry). Fuel costs stable, but geopolitical tensions creating supply chain uncertainties."
   ],
-  'forecast': [
-    "🔮 **6-Month Market Forecast:**\n\n**Q4 2024:** Rate stabilization around $2,400-2,600/TEU\n**Q1 2025:** Expected 10-15% decline to $2,100-2,300/TEU\n**Q2 2025:** Recovery begins, rates trending up\n\n**Key Drivers:**\n• New vessel deliveries (+2.3M TEU capacity)\n• Demand normalization post-peak season\n• Potential labor negotiations at US ports\n\n**Recommendation:** Secure Q4 capacity, delay Q1 contracts.",
-    "Market sentiment survey shows 65% of shippers delaying bookings, expecting further declines. However, early Q1 capacity may tighten due to Chinese New Year. Balanced approach recommended."
-  ],
   
   // General/default responses
   'default': [
@@ -87,6 +76,64 @@ const MOCK_RESPONSES = {
   ]
 };
 
+const formatIndex = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 0 });
+
+// Forecast questions are answered from the fitted index models: the index named in the question (SCFI otherwise),
+// over a quarter when one is mentioned. Null when the forecast is unavailable, so the canned answers take over.
+async function generateForecastResponse(message: string): Promise<string | null> {
+  try {
+    const indices: MarketIndex[] = await (await apiRequest('GET', '/api/indices')).json();
+    const index = indices.find(i => message.includes(i.code.toLowerCase()))
+      ?? indices.find(i => i.code === 'SCFI')
+      ?? indices[0];
+    if (!index) return null;
+
+    const horizon = message.includes('quarter') ? 90 : 30;
+    const report: IndexForecastReport = await (await apiRequest('GET', `/api/indices/${index.code}/forecast?horizon=${horizon}`)).json();
+    const best = selectedForecast(report);
+    const change = (best.forecast.p50 / report.lastValue - 1) * 100;
+    const backtest = best.backtest
+      ? `\n\nBacktest at this horizon: ${best.backtest.mape.toFixed(1)}% mean absolute error, ${best.backtest.coverage.toFixed(0)}% of outcomes inside P10–P90 (${best.backtest.count} origins).`
+      : '';
+
+    return `🔮 **${index.code} ${horizon}-Day Forecast** (${FORECAST_MODEL_LABELS[best.model]})\n\n` +
+      `• Now: ${formatIndex(report.lastValue)}\n` +
+      `• Median: ${formatIndex(best.forecast.p50)} (${change >= 0 ? '+' : ''}${change.toFixed(1)}%)\n` +
+      `• Range: ${formatIndex(best.forecast.p10)} – ${formatIndex(best.forecast.p90)} (P10–P90)` +
+      backtest +
+      `\n\n${change > 0 ? 'Rates are projected to rise: booking sooner locks in today\'s level.' : 'Rates are projected to soften: waiting may pay off if the schedule allows.'}`;
+  } catch {
+    return null;
+  }
+}
+
+const CARRIER_KEYWORDS = ['carrier', 'vendor', 'reliab', 'on-time', 'on time'];
+
+// Carrier questions are answered from the booking-outcome scorecards. Null when none are available.
+async function generateCarrierResponse(): Promise<string | null> {
+  try {
+    const carriers: CarrierWithScorecard[] = await (await apiRequest('GET', '/api/carriers')).json();
+    const ranked = carriers
+      .filter(carrier => carrier.active)
+      .sort((a, b) => b.scorecard.reliabilityScore - a.scorecard.reliabilityScore);
+    if (ranked.length === 0) return null;
+
+    const lines = ranked.map((carrier, i) => {
+      const { scorecard } = carrier;
+      const onTime = scorecard.onTimeRate !== null ? `${(scorecard.onTimeRate * 100).toFixed(0)}% on-time` : 'no recent bookings';
+      const invoice = scorecard.invoiceVariance !== null
+        ? `, invoices ${scorecard.invoiceVariance >= 0 ? '+' : ''}${(scorecard.invoiceVariance * 100).toFixed(1)}% vs booked`
+        : '';
+      return `${i + 1}. **${carrier.name}**: reliability ${scorecard.reliabilityScore.toFixed(0)}/100 (${onTime} over ${scorecard.bookings} bookings${invoice})`;
+    });
+
+    return `🚢 **Carrier Scorecards** (last ${ranked[0].scorecard.windowDays} days)\n\n${lines.join('\n')}` +
+      `\n\nScores come from recorded booking outcomes; see the Carriers page for trends and details.`;
+  } catch {
+    return null;
+  }
+}
+
 function generateResponse(userMessage: string): string {
   const message = userMessage.toLowerCase();
   
@@ -138,11 +185,19 @@ export function FloatingChatbot() {
     setInputValue("");
     setIsTyping(true);
 
+    const lowerInput = currentInput.toLowerCase();
+    // Forecast and carrier questions are answered from live data when it is available
+    const answer = lowerInput.includes('forecast')
+      ? await generateForecastResponse(lowerInput)
+      : CARRIER_KEYWORDS.some(keyword => lowerInput.includes(keyword))
+        ? await generateCarrierResponse()
+        : null;
+
     // Simulate bot thinking time
     setTimeout(() => {
       const botResponse: ChatMessage = {
         id: (Date.now() + 1).toString(),
-        text: generateResponse(currentInput),
+        text: answer ?? generateResponse(currentInput),
         sender: 'bot',
         timestamp: new Date()
       };
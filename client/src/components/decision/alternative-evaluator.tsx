@@ -1,11 +1,21 @@
 import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import type { Quote, Lane } from "@shared/schema";
+import { AlternativeDistributionChart } from "@/components/visualization/alternative-distribution-chart";
+import { IndexModelSelector } from "@/components/decision/index-model-selector";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Quote, Lane, Alternative, AlternativeAnalysisRun, AlternativeAnalysisRequest, IndexModel } from "@shared/schema";
+import type { AlternativeAnalysis, AlternativeOutcome, AlternativeType } from "@shared/alternatives";
 import { Calculator, Clock, Split, Route, Zap } from "lucide-react";
 
 interface AlternativeEvaluatorProps {
@@ -13,134 +23,71 @@ interface AlternativeEvaluatorProps {
   lane: Lane;
 }
 
-interface AlternativeResult {
-  type: 'book' | 'wait' | 'split' | 'reroute';
-  name: string;
-  description: string;
-  expectedCost: number;
-  confidence: number;
-  riskLevel: 'low' | 'medium' | 'high';
-  timeToDecision: string;
-  pros: string[];
-  cons: string[];
-  parameters: Record<string, any>;
+const formatCurrency = (value: number) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+const formatDays = (value: number) => `${value.toFixed(1)}d`;
+
+// Coefficient of variation of landed cost, bucketed for the badge
+function getRiskLevel(outcome: AlternativeOutcome): 'low' | 'medium' | 'high' {
+  const spread = outcome.costStats.mean > 0 ? outcome.costStats.stdDev / outcome.costStats.mean : 0;
+  if (spread < 0.02) return 'low';
+  if (spread < 0.06) return 'medium';
+  return 'high';
 }
 
 export function AlternativeEvaluator({ quote, lane }: AlternativeEvaluatorProps) {
-  const [analyzing, setAnalyzing] = useState(false);
-  const [results, setResults] = useState<AlternativeResult[] | null>(null);
+  const [waitDays, setWaitDays] = useState("7");
+  const [splitNowPercent, setSplitNowPercent] = useState("30");
+  const [splitDelayDays, setSplitDelayDays] = useState("7");
+  const [rerouteLaneIds, setRerouteLaneIds] = useState<string[]>([]);
+  const [deadlineDays, setDeadlineDays] = useState("");
+  const [iterations, setIterations] = useState("10000");
+  const [indexModel, setIndexModel] = useState<IndexModel>("auto");
+  const [results, setResults] = useState<AlternativeAnalysis | null>(null);
   const [selectedAlternative, setSelectedAlternative] = useState<string>('book');
+  const { toast } = useToast();
+
+  const { data: lanes } = useQuery<Lane[]>({
+    queryKey: ["/api/lanes"]
+  });
+  const otherLanes = lanes?.filter(l => l.id !== lane.id) ?? [];
+
+  const analysisMutation = useMutation({
+    mutationFn: async (request: Partial<AlternativeAnalysisRequest>) => {
+      const response = await apiRequest('POST', `/api/quotes/${quote.id}/alternatives/simulate`, request);
+      return response.json() as Promise<{ run: AlternativeAnalysisRun; analysis: AlternativeAnalysis; alternatives: Alternative[] }>;
+    },
+    onSuccess: ({ analysis }) => {
+      setResults(analysis);
+      setSelectedAlternative(analysis.outcomes[0]?.key ?? 'book');
+      queryClient.invalidateQueries({ queryKey: ['/api/quotes', quote.id, 'alternative-analyses'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/quotes', quote.id, 'alternatives'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to simulate alternatives",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const runAlternativeAnalysis = () => {
+    const deadline = parseFloat(deadlineDays);
+    analysisMutation.mutate({
+      iterations: parseInt(iterations),
+      waitDays: parseFloat(waitDays) || 0,
+      split: {
+        nowPercent: Math.min(100, Math.max(0, parseFloat(splitNowPercent) || 0)),
+        delayDays: parseFloat(splitDelayDays) || 0
+      },
+      rerouteLaneIds,
+      indexModel,
+      deadlineDays: deadline > 0 ? deadline : undefined
+    });
+  };
 
-  const runAlternativeAnalysis = async () => {
-    setAnalyzing(true);
-    
-    // Simulate Monte Carlo analysis for each alternative
-    setTimeout(() => {
-      const baseRate = quote.rate;
-      const holdingCostPerDay = baseRate * 0.001; // 0.1% per day
-      
-      const alternatives: AlternativeResult[] = [
-        {
-          type: 'book',
-          name: 'Book Now',
-          description: 'Accept current quote immediately',
-          expectedCost: baseRate,
-          confidence: 95,
-          riskLevel: 'low',
-          timeToDecision: 'Immediate',
-          pros: [
-            'Locked-in rate, no market risk',
-            'Immediate confirmation',
-            'Predictable cost structure'
-          ],
-          cons: [
-            'No opportunity for better rates',
-            'May miss market improvements'
-          ],
-          parameters: {
-            rate: baseRate,
-            transitRisk: 'Low',
-            marketExposure: 'None'
-          }
-        },
-        {
-          type: 'wait',
-          name: 'Wait 1 Week',
-          description: 'Hold inventory and wait for better market rates',
-          expectedCost: baseRate * 0.94 + (holdingCostPerDay * 7),
-          confidence: 67,
-          riskLevel: 'medium',
-          timeToDecision: '7 days',
-          pros: [
-            'Potential for 6% rate reduction',
-            'Market trend analysis available',
-            'Limited holding period'
-          ],
-          cons: [
-            'Holding costs accumulate',
-            'Rate may increase instead',
-            'Inventory risk exposure'
-          ],
-          parameters: {
-            expectedRateReduction: 0.06,
-            holdingCost: holdingCostPerDay * 7,
-            marketVolatility: lane.historicalVolatility
-          }
-        },
-        {
-          type: 'split',
-          name: 'Split 30/70',
-          description: 'Ship 30% now, 70% in one week',
-          expectedCost: (baseRate * 0.3) + ((baseRate * 0.94 + holdingCostPerDay * 7) * 0.7),
-          confidence: 78,
-          riskLevel: 'medium',
-          timeToDecision: 'Immediate + 7 days',
-          pros: [
-            'Risk diversification',
-            'Partial immediate shipment',
-            'Balanced exposure to market changes'
-          ],
-          cons: [
-            'Complexity in execution',
-            'Partial holding costs',
-            'Two separate bookings required'
-          ],
-          parameters: {
-            immediatePercent: 30,
-            delayedPercent: 70,
-            riskReduction: 'Medium'
-          }
-        },
-        {
-          type: 'reroute',
-          name: 'Alternative Route',
-          description: 'Consider different ports or carriers',
-          expectedCost: baseRate * 1.05,
-          confidence: 45,
-          riskLevel: 'high',
-          timeToDecision: '3-5 days',
-          pros: [
-            'Potential carrier competition',
-            'Different market dynamics',
-            'Operational flexibility'
-          ],
-          cons: [
-            'Unknown transit times',
-            'Limited market data',
-            'Operational complexity',
-            'May require new negotiations'
-          ],
-          parameters: {
-            routeChanges: 'Multiple options',
-            timeToEvaluate: '3-5 days',
-            dataQuality: 'Limited'
-          }
-        }
-      ];
-      
-      setResults(alternatives);
-      setAnalyzing(false);
-    }, 3000);
+  const toggleRerouteLane = (laneId: string, checked: boolean) => {
+    setRerouteLaneIds(ids => checked ? [...ids, laneId] : ids.filter(id => id !== laneId));
   };
 
   const getRiskColor = (level: string) => {
@@ -152,7 +99,7 @@ export function AlternativeEvaluator({ quote, lane }: AlternativeEvaluatorProps)
     }
   };
 
-  const getAlternativeIcon = (type: string) => {
+  const getAlternativeIcon = (type: AlternativeType) => {
     switch (type) {
       case 'book': return Zap;
       case 'wait': return Clock;
@@ -162,15 +109,12 @@ export function AlternativeEvaluator({ quote, lane }: AlternativeEvaluatorProps)
     }
   };
 
-  const getRecommendedAlternative = (): AlternativeResult | null => {
-    if (!results) return null;
-    // Simple logic: lowest expected cost with confidence > 60%
-    return results
-      .filter(alt => alt.confidence > 60)
-      .sort((a, b) => a.expectedCost - b.expectedCost)[0] || null;
-  };
-
-  const recommended = getRecommendedAlternative();
+  const outcomes = results?.outcomes ?? [];
+  const bookNow = outcomes.find(outcome => outcome.type === 'book');
+  // Lowest expected landed cost wins
+  const recommended = outcomes.length > 0
+    ? outcomes.reduce((best, outcome) => outcome.costStats.mean < best.costStats.mean ? outcome : best)
+    : null;
 
   return (
     <div className="space-y-6" data-testid="alternative-evaluator">
@@ -179,38 +123,86 @@ export function AlternativeEvaluator({ quote, lane }: AlternativeEvaluatorProps)
         <CardHeader>
           <CardTitle>Alternative Strategy Analysis</CardTitle>
           <p className="text-sm text-muted-foreground">
-            Evaluate different booking strategies using Monte Carlo simulation
+            Simulate waiting, splitting and rerouting against booking {quote.carrier} at {formatCurrency(quote.rate)} now
           </p>
         </CardHeader>
-        <CardContent>
-          {!results && !analyzing && (
-            <div className="text-center py-4">
-              <Button onClick={runAlternativeAnalysis} size="lg" data-testid="button-run-analysis">
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-7 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="wait-days">Wait (days)</Label>
+              <Input id="wait-days" type="number" min="0" max="90" value={waitDays} onChange={(e) => setWaitDays(e.target.value)} data-testid="input-wait-days" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="split-now">Split: ship now (%)</Label>
+              <Input id="split-now" type="number" min="0" max="100" step="10" value={splitNowPercent} onChange={(e) => setSplitNowPercent(e.target.value)} data-testid="input-split-now" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="split-delay">Split: rest after (days)</Label>
+              <Input id="split-delay" type="number" min="0" max="90" value={splitDelayDays} onChange={(e) => setSplitDelayDays(e.target.value)} data-testid="input-split-delay" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="deadline">Arrival deadline (days)</Label>
+              <Input id="deadline" type="number" min="1" placeholder="Optional" value={deadlineDays} onChange={(e) => setDeadlineDays(e.target.value)} data-testid="input-deadline" />
+            </div>
+            <div className="space-y-2">
+              <Label>Iterations</Label>
+              <Select value={iterations} onValueChange={setIterations}>
+                <SelectTrigger data-testid="select-alternative-iterations">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="5000">5,000</SelectItem>
+                  <SelectItem value="10000">10,000</SelectItem>
+                  <SelectItem value="50000">50,000</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <IndexModelSelector value={indexModel} onChange={setIndexModel} testId="alternative-index-model" />
+            <div className="space-y-2">
+              <Label>Analysis</Label>
+              <Button
+                onClick={runAlternativeAnalysis}
+                disabled={analysisMutation.isPending}
+                className="w-full"
+                data-testid="button-run-analysis"
+              >
                 <Calculator className="h-4 w-4 mr-2" />
-                Run Alternative Analysis
+                {analysisMutation.isPending ? "Simulating..." : results ? "Re-run" : "Run Analysis"}
               </Button>
-              <p className="text-xs text-muted-foreground mt-2">
-                Analysis will evaluate 4 different strategies with 10,000 iterations each
-              </p>
+            </div>
+          </div>
+
+          {otherLanes.length > 0 && (
+            <div className="space-y-2">
+              <Label>Reroute candidates</Label>
+              <div className="flex flex-wrap gap-4">
+                {otherLanes.map(candidate => (
+                  <label key={candidate.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={rerouteLaneIds.includes(candidate.id)}
+                      onCheckedChange={(checked) => toggleRerouteLane(candidate.id, checked === true)}
+                      data-testid={`checkbox-reroute-${candidate.id}`}
+                    />
+                    {candidate.name}
+                  </label>
+                ))}
+              </div>
             </div>
           )}
-          
-          {analyzing && (
-            <div className="text-center py-8">
-              <Calculator className="h-12 w-12 text-primary mx-auto mb-4 animate-pulse" />
-              <h3 className="text-lg font-medium mb-2">Analyzing Alternatives</h3>
-              <p className="text-sm text-muted-foreground mb-4">
-                Running Monte Carlo simulations for each strategy...
+
+          {analysisMutation.isPending && (
+            <div className="text-center py-4">
+              <Calculator className="h-10 w-10 text-primary mx-auto mb-2 animate-pulse" />
+              <p className="text-sm text-muted-foreground">
+                Running {parseInt(iterations).toLocaleString()} Monte Carlo iterations per strategy...
               </p>
-              <Progress value={65} className="w-full max-w-sm mx-auto" />
-              <p className="text-xs text-muted-foreground mt-2">ETA: 45 seconds</p>
             </div>
           )}
         </CardContent>
       </Card>
 
       {/* Results Display */}
-      {results && (
+      {results && bookNow && (
         <>
           {/* Recommended Strategy */}
           {recommended && (
@@ -221,12 +213,12 @@ export function AlternativeEvaluator({ quote, lane }: AlternativeEvaluatorProps)
                   <div>
                     <div className="font-medium text-green-800">Recommended: {recommended.name}</div>
                     <div className="text-sm text-green-700">
-                      Expected cost: ${recommended.expectedCost.toLocaleString()} 
-                      ({recommended.confidence}% confidence)
+                      Expected landed cost: {formatCurrency(recommended.costStats.mean)}
+                      {' '}(cheapest in {recommended.confidence.toFixed(0)}% of iterations)
                     </div>
                   </div>
                   <Badge className="bg-green-100 text-green-800">
-                    OPTIMAL
+                    LOWEST EXPECTED COST
                   </Badge>
                 </div>
               </AlertDescription>
@@ -235,11 +227,11 @@ export function AlternativeEvaluator({ quote, lane }: AlternativeEvaluatorProps)
 
           {/* Strategy Comparison */}
           <Tabs value={selectedAlternative} onValueChange={setSelectedAlternative}>
-            <TabsList className="grid w-full grid-cols-4">
-              {results.map((alt) => {
+            <TabsList className="flex w-full flex-wrap h-auto">
+              {outcomes.map((alt) => {
                 const Icon = getAlternativeIcon(alt.type);
                 return (
-                  <TabsTrigger key={alt.type} value={alt.type} className="flex items-center gap-2">
+                  <TabsTrigger key={alt.key} value={alt.key} className="flex items-center gap-2">
                     <Icon className="h-4 w-4" />
                     {alt.name}
                   </TabsTrigger>
@@ -247,132 +239,161 @@ export function AlternativeEvaluator({ quote, lane }: AlternativeEvaluatorProps)
               })}
             </TabsList>
 
-            {results.map((alt) => (
-              <TabsContent key={alt.type} value={alt.type}>
-                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-                  {/* Strategy Overview */}
-                  <Card>
-                    <CardHeader>
-                      <div className="flex items-center justify-between">
-                        <CardTitle className="text-lg">{alt.name}</CardTitle>
-                        <Badge className={getRiskColor(alt.riskLevel)}>
-                          {alt.riskLevel.toUpperCase()} RISK
-                        </Badge>
-                      </div>
-                      <p className="text-sm text-muted-foreground">{alt.description}</p>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="space-y-4">
-                        <div className="grid grid-cols-2 gap-4">
-                          <div>
-                            <p className="text-sm text-muted-foreground">Expected Cost</p>
-                            <p className="text-2xl font-bold text-foreground">
-                              ${alt.expectedCost.toLocaleString()}
-                            </p>
+            {outcomes.map((alt) => {
+              const riskLevel = getRiskLevel(alt);
+              return (
+                <TabsContent key={alt.key} value={alt.key}>
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                    {/* Strategy Overview */}
+                    <Card>
+                      <CardHeader>
+                        <div className="flex items-center justify-between">
+                          <CardTitle className="text-lg">{alt.name}</CardTitle>
+                          <Badge className={getRiskColor(riskLevel)}>
+                            {riskLevel.toUpperCase()} COST RISK
+                          </Badge>
+                        </div>
+                        <p className="text-sm text-muted-foreground">{alt.description}</p>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="space-y-4">
+                          <div className="grid grid-cols-2 gap-4">
+                            <div>
+                              <p className="text-sm text-muted-foreground">Expected Landed Cost</p>
+                              <p className="text-2xl font-bold text-foreground">{formatCurrency(alt.costStats.mean)}</p>
+                            </div>
+                            <div>
+                              <p className="text-sm text-muted-foreground">Cheapest Option</p>
+                              <p className="text-2xl font-bold text-foreground">{alt.confidence.toFixed(0)}%</p>
+                            </div>
                           </div>
+
                           <div>
-                            <p className="text-sm text-muted-foreground">Confidence</p>
-                            <p className="text-2xl font-bold text-foreground">{alt.confidence}%</p>
+                            <p className="text-sm text-muted-foreground mb-1">Share of iterations where this strategy cost least</p>
+                            <Progress value={alt.confidence} className="h-2" />
                           </div>
-                        </div>
-                        
-                        <div>
-                          <p className="text-sm text-muted-foreground mb-1">Confidence Level</p>
-                          <Progress value={alt.confidence} className="h-2" />
-                        </div>
-                        
-                        <div>
-                          <p className="text-sm text-muted-foreground">Time to Decision</p>
-                          <p className="font-medium">{alt.timeToDecision}</p>
-                        </div>
-                      </div>
-                    </CardContent>
-                  </Card>
 
-                  {/* Pros and Cons */}
-                  <Card>
-                    <CardHeader>
-                      <CardTitle className="text-lg">Analysis</CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="space-y-4">
-                        <div>
-                          <h4 className="font-medium text-green-700 mb-2">Advantages</h4>
-                          <ul className="space-y-1">
-                            {alt.pros.map((pro, index) => (
-                              <li key={index} className="text-sm text-green-600 flex items-start gap-2">
-                                <span className="text-green-500 mt-0.5">•</span>
-                                {pro}
-                              </li>
-                            ))}
-                          </ul>
+                          {alt.onTimeProbability !== null && (
+                            <div>
+                              <p className="text-sm text-muted-foreground mb-1">
+                                On-time probability (within {results.deadlineDays} days): {alt.onTimeProbability.toFixed(1)}%
+                              </p>
+                              <Progress value={alt.onTimeProbability} className="h-2" />
+                            </div>
+                          )}
                         </div>
-                        
-                        <div>
-                          <h4 className="font-medium text-red-700 mb-2">Disadvantages</h4>
-                          <ul className="space-y-1">
-                            {alt.cons.map((con, index) => (
-                              <li key={index} className="text-sm text-red-600 flex items-start gap-2">
-                                <span className="text-red-500 mt-0.5">•</span>
-                                {con}
-                              </li>
-                            ))}
-                          </ul>
-                        </div>
-                        
-                        <div>
-                          <h4 className="font-medium mb-2">Key Parameters</h4>
-                          <div className="space-y-1">
-                            {Object.entries(alt.parameters).map(([key, value]) => (
-                              <div key={key} className="flex justify-between text-sm">
-                                <span className="text-muted-foreground capitalize">
-                                  {key.replace(/([A-Z])/g, ' $1').trim()}
-                                </span>
-                                <span className="font-medium">
-                                  {typeof value === 'number' ? 
-                                    (value < 1 ? (value * 100).toFixed(1) + '%' : value.toLocaleString()) : 
-                                    value.toString()}
-                                </span>
+                      </CardContent>
+                    </Card>
+
+                    {/* Simulated distributions */}
+                    <Card>
+                      <CardHeader>
+                        <CardTitle className="text-lg">Simulated Outcomes</CardTitle>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="space-y-4 text-sm">
+                          <div className="grid grid-cols-4 gap-2">
+                            <span className="text-muted-foreground"></span>
+                            <span className="text-muted-foreground text-right">P10</span>
+                            <span className="text-muted-foreground text-right">P50</span>
+                            <span className="text-muted-foreground text-right">P90</span>
+                            <span className="text-muted-foreground">Landed cost</span>
+                            <span className="font-mono text-right">{formatCurrency(alt.costStats.p10)}</span>
+                            <span className="font-mono text-right">{formatCurrency(alt.costStats.p50)}</span>
+                            <span className="font-mono text-right">{formatCurrency(alt.costStats.p90)}</span>
+                            <span className="text-muted-foreground">Arrival</span>
+                            <span className="font-mono text-right">{formatDays(alt.arrivalStats.p10)}</span>
+                            <span className="font-mono text-right">{formatDays(alt.arrivalStats.p50)}</span>
+                            <span className="font-mono text-right">{formatDays(alt.arrivalStats.p90)}</span>
+                          </div>
+
+                          <div>
+                            <h4 className="font-medium mb-2">Key Parameters</h4>
+                            <div className="space-y-1">
+                              <div className="flex justify-between">
+                                <span className="text-muted-foreground">Holding cost</span>
+                                <span className="font-medium">{formatCurrency(alt.holdingCost)}</span>
                               </div>
-                            ))}
+                              {Object.entries(alt.parameters).filter(([key]) => key !== 'laneId').map(([key, value]) => (
+                                <div key={key} className="flex justify-between">
+                                  <span className="text-muted-foreground capitalize">
+                                    {key.replace(/([A-Z])/g, ' $1').trim()}
+                                  </span>
+                                  <span className="font-medium">
+                                    {typeof value === 'number' ? value.toLocaleString(undefined, { maximumFractionDigits: 3 }) : value}
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
                           </div>
                         </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-                </div>
-              </TabsContent>
-            ))}
+                      </CardContent>
+                    </Card>
+                  </div>
+                </TabsContent>
+              );
+            })}
           </Tabs>
 
-          {/* Cost Comparison Chart */}
+          {/* Distribution Comparison */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Landed Cost Distributions</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <AlternativeDistributionChart
+                  series={outcomes.map(alt => ({ key: alt.key, name: alt.name, sketch: alt.sketches.cost }))}
+                  formatValue={formatCurrency}
+                />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>Arrival Distributions (days from today)</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <AlternativeDistributionChart
+                  series={outcomes.map(alt => ({ key: alt.key, name: alt.name, sketch: alt.sketches.arrival }))}
+                  formatValue={formatDays}
+                  referenceValue={results.deadlineDays ?? undefined}
+                  referenceLabel="Deadline"
+                />
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Cost Comparison */}
           <Card>
             <CardHeader>
               <CardTitle>Cost Comparison</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                {results.iterations.toLocaleString()} iterations per strategy · seed {results.seed}
+              </p>
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                {results.map((alt) => {
-                  const costDiff = alt.expectedCost - quote.rate;
-                  const costDiffPercent = (costDiff / quote.rate) * 100;
+                {outcomes.map((alt) => {
+                  const costDiff = alt.costStats.mean - bookNow.costStats.mean;
+                  const costDiffPercent = (costDiff / bookNow.costStats.mean) * 100;
                   const Icon = getAlternativeIcon(alt.type);
-                  
+
                   return (
-                    <div key={alt.type} className="flex items-center justify-between p-3 border rounded-md">
+                    <div key={alt.key} className="flex items-center justify-between p-3 border rounded-md">
                       <div className="flex items-center gap-3">
                         <Icon className="h-5 w-5 text-muted-foreground" />
                         <div>
                           <p className="font-medium">{alt.name}</p>
-                          <p className="text-sm text-muted-foreground">{alt.confidence}% confidence</p>
+                          <p className="text-sm text-muted-foreground">
+                            P90 {formatCurrency(alt.costStats.p90)} · cheapest in {alt.confidence.toFixed(0)}%
+                          </p>
                         </div>
                       </div>
                       <div className="text-right">
-                        <p className="font-mono font-bold">
-                          ${alt.expectedCost.toLocaleString()}
-                        </p>
+                        <p className="font-mono font-bold">{formatCurrency(alt.costStats.mean)}</p>
                         <p className={`text-sm ${costDiff >= 0 ? 'text-red-600' : 'text-green-600'}`}>
-                          {costDiff >= 0 ? '+' : ''}${costDiff.toLocaleString()} 
-                          ({costDiffPercent >= 0 ? '+' : ''}{costDiffPercent.toFixed(1)}%)
+                          {costDiff >= 0 ? '+' : '-'}{formatCurrency(Math.abs(costDiff))}
+                          {' '}({costDiffPercent >= 0 ? '+' : ''}{costDiffPercent.toFixed(1)}%)
                         </p>
                       </div>
                     </div>
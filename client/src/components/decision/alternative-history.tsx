@@ -0,0 +1,238 @@
+import { useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlternativeDistributionChart } from "@/components/visualization/alternative-distribution-chart";
+import { LambdaRankingChart } from "@/components/visualization/lambda-ranking-chart";
+import { CriterionSelector } from "@/components/decision/criterion-selector";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Quote, Alternative, AlternativeAnalysisRun, AutomationProcess, DecisionCriterion } from "@shared/schema";
+import { outcomeFromAlternative, type AlternativeAnalysisRunSummary } from "@shared/alternatives";
+import { rankOutcomes, DECISION_CRITERION_LABELS } from "@shared/decision-criteria";
+import { CheckCircle, History } from "lucide-react";
+
+interface AlternativeHistoryProps {
+  quote: Quote;
+}
+
+const formatCurrency = (value: number) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+const CHARTED_OUTCOMES = 5;
+
+function formatCriterionValue(criterion: DecisionCriterion, value: number) {
+  return criterion.type === 'onTime' ? `${value.toFixed(1)}%` : formatCurrency(value);
+}
+
+export function AlternativeHistory({ quote }: AlternativeHistoryProps) {
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [criterion, setCriterion] = useState<DecisionCriterion>({ type: 'expectedValue' });
+  const { toast } = useToast();
+
+  const { data: runs, isLoading } = useQuery<AlternativeAnalysisRun[]>({
+    queryKey: ['/api/quotes', quote.id, 'alternative-analyses']
+  });
+
+  const { data: quoteAlternatives } = useQuery<Alternative[]>({
+    queryKey: ['/api/quotes', quote.id, 'alternatives']
+  });
+
+  const activeRunId = selectedRunId ?? runs?.[0]?.id ?? null;
+  const { data: runDetail } = useQuery<{ run: AlternativeAnalysisRun; alternatives: Alternative[] }>({
+    queryKey: ['/api/alternative-analyses', activeRunId],
+    enabled: !!activeRunId
+  });
+
+  const chosen = quoteAlternatives?.find(alternative => alternative.chosen);
+  const chosenOutcome = chosen ? outcomeFromAlternative(chosen) : null;
+
+  const ranked = useMemo(() => {
+    const alternatives = runDetail?.alternatives ?? [];
+    const outcomes = alternatives.map(outcomeFromAlternative);
+    return rankOutcomes(outcomes, criterion)
+      .map(entry => ({ ...entry, alternative: alternatives[outcomes.indexOf(entry.outcome)] }));
+  }, [runDetail, criterion]);
+  // The lambda chart follows the options that lead on expected cost, so it stays readable for large grids
+  const sensitivityOutcomes = useMemo(() => [...ranked]
+    .sort((a, b) => a.outcome.costStats.mean - b.outcome.costStats.mean)
+    .slice(0, CHARTED_OUTCOMES)
+    .map(({ outcome }) => outcome), [ranked]);
+  const summary = runDetail?.run.summary as AlternativeAnalysisRunSummary | undefined;
+
+  const chooseMutation = useMutation({
+    mutationFn: async (alternativeId: string) => {
+      const response = await apiRequest('POST', `/api/alternatives/${alternativeId}/choose`);
+      return response.json() as Promise<{ alternative: Alternative; process: AutomationProcess | null }>;
+    },
+    onSuccess: ({ process }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/quotes', quote.id, 'alternatives'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/alternative-analyses'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/automation-processes'] });
+      toast({
+        title: "Success",
+        description: process
+          ? "Strategy chosen and recorded in the shipment workflow"
+          : quote.shipmentId
+            ? "Strategy chosen. The shipment's workflow is past its decision, so it was left unchanged"
+            : "Strategy chosen. Link the quote to a shipment to feed its workflow"
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to choose strategy",
+        variant: "destructive"
+      });
+    }
+  });
+
+  return (
+    <Card data-testid="alternative-history">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Analysis History
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Saved simulation and optimisation runs for this quote. Choose a strategy to record the decision.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {chosen && chosenOutcome && (
+          <Alert className="border-green-200 bg-green-50">
+            <CheckCircle className="h-4 w-4 text-green-600" />
+            <AlertDescription>
+              <div className="font-medium text-green-800">Chosen strategy: {chosenOutcome.name}</div>
+              <div className="text-sm text-green-700">
+                Expected landed cost {formatCurrency(chosenOutcome.costStats.mean)}
+                {chosen.chosenAt && ` · chosen ${new Date(chosen.chosenAt).toLocaleString()}`}
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="h-24 bg-muted rounded animate-pulse" />
+        ) : !runs?.length ? (
+          <div className="text-sm text-muted-foreground">No saved analyses yet. Run a comparison or an optimisation above.</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Run</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Strategies</TableHead>
+                <TableHead className="text-right">Iterations</TableHead>
+                <TableHead>Best</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {runs.map(run => {
+                const runSummary = run.summary as AlternativeAnalysisRunSummary;
+                return (
+                  <TableRow
+                    key={run.id}
+                    className={`cursor-pointer ${run.id === activeRunId ? 'bg-muted' : ''}`}
+                    onClick={() => setSelectedRunId(run.id)}
+                    data-testid={`row-analysis-run-${run.id}`}
+                  >
+                    <TableCell>{run.createdAt ? new Date(run.createdAt).toLocaleString() : '—'}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{run.kind === 'optimise' ? 'Optimisation' : 'Comparison'}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{runSummary.outcomeCount}</TableCell>
+                    <TableCell className="text-right">{runSummary.iterations.toLocaleString()}</TableCell>
+                    <TableCell>{runSummary.bestName ?? 'None met the constraint'}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        {runDetail && summary && (
+          <div className="space-y-4">
+            <div className="text-sm text-muted-foreground">
+              Seed {summary.seed}
+              {summary.deadlineDays !== null && ` · deadline ${summary.deadlineDays} days`}
+              {summary.constraint?.type === 'p90Budget' && ` · P90 ≤ ${formatCurrency(summary.constraint.budget)}`}
+              {summary.constraint?.type === 'onTime' && ` · ≥ ${summary.constraint.minProbability}% on time`}
+              {summary.criterion && ` · best by ${DECISION_CRITERION_LABELS[summary.criterion.type].toLowerCase()}`}
+            </div>
+
+            <AlternativeDistributionChart
+              series={ranked.slice(0, CHARTED_OUTCOMES).map(({ outcome }) => ({ key: outcome.key, name: outcome.name, sketch: outcome.sketches.cost }))}
+              formatValue={formatCurrency}
+            />
+
+            <div className="max-w-md">
+              <CriterionSelector value={criterion} onChange={setCriterion} label="Rank by" testId="history-criterion" />
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-12">Rank</TableHead>
+                  <TableHead>Strategy</TableHead>
+                  <TableHead className="text-right">{DECISION_CRITERION_LABELS[criterion.type]}</TableHead>
+                  <TableHead className="text-right">Expected</TableHead>
+                  <TableHead className="text-right">P90</TableHead>
+                  <TableHead className="text-right">Arrival P50</TableHead>
+                  <TableHead className="text-right">On Time</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ranked.map(({ alternative, outcome, value, rank }) => (
+                  <TableRow key={alternative.id} data-testid={`row-saved-alternative-${alternative.id}`}>
+                    <TableCell className="font-mono">#{rank}</TableCell>
+                    <TableCell className="font-medium">
+                      {outcome.name}
+                      {outcome.key === summary.bestKey && <Badge className="ml-2 bg-green-100 text-green-800">BEST</Badge>}
+                      {outcome.feasible === false && <Badge variant="outline" className="ml-2">Constraint missed</Badge>}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{formatCriterionValue(criterion, value)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(outcome.costStats.mean)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(outcome.costStats.p90)}</TableCell>
+                    <TableCell className="text-right font-mono">{outcome.arrivalStats.p50.toFixed(1)}d</TableCell>
+                    <TableCell className="text-right">
+                      {outcome.onTimeProbability !== null ? `${outcome.onTimeProbability.toFixed(1)}%` : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {alternative.id === chosen?.id ? (
+                        <Badge className="bg-green-100 text-green-800">CHOSEN</Badge>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => chooseMutation.mutate(alternative.id)}
+                          disabled={chooseMutation.isPending}
+                          data-testid={`button-choose-${alternative.id}`}
+                        >
+                          Choose
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="space-y-2">
+              <h4 className="font-medium">Ranking Sensitivity to Risk Aversion</h4>
+              <p className="text-sm text-muted-foreground">
+                Mean-variance rank of the {sensitivityOutcomes.length} lowest expected-cost options as λ grows
+              </p>
+              <LambdaRankingChart
+                outcomes={sensitivityOutcomes}
+                lambda={criterion.type === 'meanVariance' ? criterion.lambda : undefined}
+              />
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
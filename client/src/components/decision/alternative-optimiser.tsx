@@ -0,0 +1,358 @@
+import { useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { CriterionSelector } from "@/components/decision/criterion-selector";
+import { IndexModelSelector } from "@/components/decision/index-model-selector";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type {
+  Quote, Lane, Alternative, AlternativeAnalysisRun, AlternativeOptimisationRequest, RiskConstraint, DecisionCriterion, IndexModel
+} from "@shared/schema";
+import type { AlternativeOptimisation } from "@shared/alternatives";
+import { rankOutcomes, DECISION_CRITERION_LABELS } from "@shared/decision-criteria";
+import { Target, AlertTriangle } from "lucide-react";
+
+interface AlternativeOptimiserProps {
+  quote: Quote;
+  lane: Lane;
+}
+
+const SPLIT_COLORS = ['#f59e0b', '#3b82f6', '#10b981', '#8b5cf6', '#ef4444', '#06b6d4', '#ec4899', '#84cc16', '#64748b'];
+const formatCurrency = (value: number) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+const TOP_RESULTS = 15;
+
+export function AlternativeOptimiser({ quote, lane }: AlternativeOptimiserProps) {
+  const [wait, setWait] = useState({ min: "0", max: "28", step: "7" });
+  const [split, setSplit] = useState({ min: "0", max: "100", step: "25" });
+  const [rerouteLaneIds, setRerouteLaneIds] = useState<string[]>([]);
+  const [constraintType, setConstraintType] = useState<RiskConstraint['type']>("none");
+  const [budget, setBudget] = useState(String(Math.round(quote.rate * 1.05)));
+  const [deadlineDays, setDeadlineDays] = useState("30");
+  const [minProbability, setMinProbability] = useState("95");
+  const [iterations, setIterations] = useState("5000");
+  const [criterion, setCriterion] = useState<DecisionCriterion>({ type: 'expectedValue' });
+  const [indexModel, setIndexModel] = useState<IndexModel>("auto");
+  const [result, setResult] = useState<AlternativeOptimisation | null>(null);
+  const { toast } = useToast();
+
+  const { data: lanes } = useQuery<Lane[]>({
+    queryKey: ["/api/lanes"]
+  });
+  const otherLanes = lanes?.filter(l => l.id !== lane.id) ?? [];
+
+  const optimiseMutation = useMutation({
+    mutationFn: async (request: Partial<AlternativeOptimisationRequest>) => {
+      const response = await apiRequest('POST', `/api/quotes/${quote.id}/alternatives/optimise`, request);
+      return response.json() as Promise<{ run: AlternativeAnalysisRun; optimisation: AlternativeOptimisation; alternatives: Alternative[] }>;
+    },
+    onSuccess: ({ optimisation, alternatives }) => {
+      setResult(optimisation);
+      queryClient.invalidateQueries({ queryKey: ['/api/quotes', quote.id, 'alternative-analyses'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/quotes', quote.id, 'alternatives'] });
+      toast({
+        title: "Success",
+        description: `Evaluated and saved ${alternatives.length} alternatives`
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to optimise alternatives",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const parseRange = (range: { min: string; max: string; step: string }) => ({
+    min: parseFloat(range.min) || 0,
+    max: parseFloat(range.max) || 0,
+    step: parseFloat(range.step) || 1
+  });
+
+  const getConstraint = (): RiskConstraint => {
+    switch (constraintType) {
+      case 'p90Budget': return { type: 'p90Budget', budget: parseFloat(budget) };
+      case 'onTime': return { type: 'onTime', deadlineDays: parseFloat(deadlineDays), minProbability: parseFloat(minProbability) };
+      default: return { type: 'none' };
+    }
+  };
+
+  const runOptimisation = () => {
+    optimiseMutation.mutate({
+      iterations: parseInt(iterations),
+      waitDays: parseRange(wait),
+      splitPercent: parseRange(split),
+      rerouteLaneIds,
+      constraint: getConstraint(),
+      criterion,
+      indexModel
+    });
+  };
+
+  const toggleRerouteLane = (laneId: string, checked: boolean) => {
+    setRerouteLaneIds(ids => checked ? [...ids, laneId] : ids.filter(id => id !== laneId));
+  };
+
+  const best = result?.outcomes.find(outcome => outcome.key === result.bestKey) ?? null;
+  // Feasible points first, each group in the run's criterion order
+  const ranked = useMemo(() => result
+    ? rankOutcomes(result.outcomes, result.criterion)
+        .sort((a, b) => Number(b.outcome.feasible) - Number(a.outcome.feasible) || a.rank - b.rank)
+        .slice(0, TOP_RESULTS)
+    : [], [result]);
+  const showCriterionValue = result?.criterion.type !== 'expectedValue';
+
+  // Expected cost against delay: one line per split share, with 0% as pure waiting and 100% as booking now
+  const surface = useMemo(() => {
+    if (!result) return { data: [], shares: [] as number[] };
+    const bookNow = result.outcomes.find(outcome => outcome.type === 'book');
+    const rows = new Map<number, Record<string, number>>();
+    const shares = new Set<number>();
+
+    result.outcomes.forEach(outcome => {
+      if (outcome.type !== 'wait' && outcome.type !== 'split') return;
+      const days = Number(outcome.type === 'wait' ? outcome.parameters.waitDays : outcome.parameters.delayDays);
+      const share = outcome.type === 'wait' ? 0 : Number(outcome.parameters.nowPercent);
+      shares.add(share);
+      const row = rows.get(days) ?? { days, ...(bookNow ? { book: bookNow.costStats.mean } : {}) };
+      row[`split${share}`] = outcome.costStats.mean;
+      rows.set(days, row);
+    });
+
+    return {
+      data: Array.from(rows.values()).sort((a, b) => a.days - b.days),
+      shares: Array.from(shares).sort((a, b) => a - b)
+    };
+  }, [result]);
+
+  const rangeInputs = (label: string, range: { min: string; max: string; step: string }, onChange: (range: { min: string; max: string; step: string }) => void, testId: string) => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <div className="grid grid-cols-3 gap-2">
+        {(['min', 'max', 'step'] as const).map(key => (
+          <Input
+            key={key}
+            type="number"
+            min="0"
+            placeholder={key}
+            aria-label={`${label} ${key}`}
+            value={range[key]}
+            onChange={(e) => onChange({ ...range, [key]: e.target.value })}
+            data-testid={`input-${testId}-${key}`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6" data-testid="alternative-optimiser">
+      <Card>
+        <CardHeader>
+          <CardTitle>Optimise Strategy</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Search wait days, split shares and reroute lanes for the best option under the objective that meets a risk constraint.
+            Every evaluated point is saved against the quote.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {rangeInputs("Wait days (min / max / step)", wait, setWait, "wait-range")}
+            {rangeInputs("Ship now % (min / max / step)", split, setSplit, "split-range")}
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label>Risk constraint</Label>
+              <Select value={constraintType} onValueChange={(value) => setConstraintType(value as RiskConstraint['type'])}>
+                <SelectTrigger data-testid="select-constraint">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  <SelectItem value="p90Budget">P90 cost ≤ budget</SelectItem>
+                  <SelectItem value="onTime">On-time probability ≥ target</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {constraintType === 'p90Budget' && (
+              <div className="space-y-2">
+                <Label htmlFor="budget">P90 budget ($)</Label>
+                <Input id="budget" type="number" min="1" value={budget} onChange={(e) => setBudget(e.target.value)} data-testid="input-budget" />
+              </div>
+            )}
+            {constraintType === 'onTime' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="optimiser-deadline">Deadline (days)</Label>
+                  <Input id="optimiser-deadline" type="number" min="1" value={deadlineDays} onChange={(e) => setDeadlineDays(e.target.value)} data-testid="input-optimiser-deadline" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="min-probability">On-time target (%)</Label>
+                  <Input id="min-probability" type="number" min="0" max="100" value={minProbability} onChange={(e) => setMinProbability(e.target.value)} data-testid="input-min-probability" />
+                </div>
+              </>
+            )}
+            <div className="space-y-2">
+              <Label>Iterations per point</Label>
+              <Select value={iterations} onValueChange={setIterations}>
+                <SelectTrigger data-testid="select-optimiser-iterations">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="2000">2,000</SelectItem>
+                  <SelectItem value="5000">5,000</SelectItem>
+                  <SelectItem value="10000">10,000</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="md:col-span-2">
+              <CriterionSelector value={criterion} onChange={setCriterion} label="Objective" testId="optimiser-criterion" />
+            </div>
+            <IndexModelSelector value={indexModel} onChange={setIndexModel} testId="optimiser-index-model" />
+          </div>
+
+          {otherLanes.length > 0 && (
+            <div className="space-y-2">
+              <Label>Reroute candidates</Label>
+              <div className="flex flex-wrap gap-4">
+                {otherLanes.map(candidate => (
+                  <label key={candidate.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={rerouteLaneIds.includes(candidate.id)}
+                      onCheckedChange={(checked) => toggleRerouteLane(candidate.id, checked === true)}
+                      data-testid={`checkbox-optimiser-reroute-${candidate.id}`}
+                    />
+                    {candidate.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <Button onClick={runOptimisation} disabled={optimiseMutation.isPending} data-testid="button-run-optimisation">
+            <Target className="h-4 w-4 mr-2" />
+            {optimiseMutation.isPending ? "Optimising..." : "Run Optimisation"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <>
+          {best ? (
+            <Alert className="border-green-200 bg-green-50">
+              <Target className="h-4 w-4 text-green-600" />
+              <AlertDescription>
+                <div className="font-medium text-green-800">Optimal: {best.name}</div>
+                <div className="text-sm text-green-700">
+                  Expected landed cost {formatCurrency(best.costStats.mean)} · P90 {formatCurrency(best.costStats.p90)}
+                  {best.onTimeProbability !== null && ` · ${best.onTimeProbability.toFixed(1)}% on time`}
+                </div>
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                None of the {result.outcomes.length} evaluated points meets the risk constraint
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {surface.data.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Expected Cost by Delay and Split</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="h-72">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={surface.data} margin={{ top: 5, right: 10, bottom: 5, left: 10 }}>
+                      <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                      <XAxis dataKey="days" tickFormatter={(value: number) => `${value}d`} tick={{ fontSize: 11 }} />
+                      <YAxis domain={["auto", "auto"]} tickFormatter={formatCurrency} tick={{ fontSize: 11 }} width={70} />
+                      <Tooltip formatter={(value: number, name: string) => [formatCurrency(value), name]} labelFormatter={(value: number) => `${value} days`} />
+                      <Legend />
+                      <Line dataKey="book" name="Book now" stroke="hsl(var(--primary))" strokeDasharray="5 5" dot={false} isAnimationActive={false} />
+                      {surface.shares.map((share, i) => (
+                        <Line
+                          key={share}
+                          dataKey={`split${share}`}
+                          name={share === 0 ? "Wait" : `${share}% now`}
+                          stroke={SPLIT_COLORS[i % SPLIT_COLORS.length]}
+                          isAnimationActive={false}
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Top Alternatives</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                {result.outcomes.length} points × {result.iterations.toLocaleString()} iterations · seed {result.seed}
+              </p>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Strategy</TableHead>
+                    {showCriterionValue && (
+                      <TableHead className="text-right">{DECISION_CRITERION_LABELS[result.criterion.type]}</TableHead>
+                    )}
+                    <TableHead className="text-right">Expected</TableHead>
+                    <TableHead className="text-right">P90</TableHead>
+                    <TableHead className="text-right">Arrival P50</TableHead>
+                    <TableHead className="text-right">On Time</TableHead>
+                    <TableHead>Constraint</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {ranked.map(({ outcome, value }) => (
+                    <TableRow key={outcome.key} data-testid={`row-optimised-${outcome.key}`}>
+                      <TableCell className="font-medium">
+                        {outcome.name}
+                        {outcome.key === result.bestKey && <Badge className="ml-2 bg-green-100 text-green-800">BEST</Badge>}
+                      </TableCell>
+                      {showCriterionValue && (
+                        <TableCell className="text-right font-mono">
+                          {result.criterion.type === 'onTime' ? `${value.toFixed(1)}%` : formatCurrency(value)}
+                        </TableCell>
+                      )}
+                      <TableCell className="text-right font-mono">{formatCurrency(outcome.costStats.mean)}</TableCell>
+                      <TableCell className="text-right font-mono">{formatCurrency(outcome.costStats.p90)}</TableCell>
+                      <TableCell className="text-right font-mono">{outcome.arrivalStats.p50.toFixed(1)}d</TableCell>
+                      <TableCell className="text-right">
+                        {outcome.onTimeProbability !== null ? `${outcome.onTimeProbability.toFixed(1)}%` : '—'}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={outcome.feasible ? "default" : "outline"}>{outcome.feasible ? "Met" : "Missed"}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
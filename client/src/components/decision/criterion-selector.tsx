@@ -0,0 +1,68 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DECISION_CRITERION_LABELS } from "@shared/decision-criteria";
+import type { DecisionCriterion } from "@shared/schema";
+
+interface CriterionSelectorProps {
+  value: DecisionCriterion;
+  onChange: (criterion: DecisionCriterion) => void;
+  label?: string;
+  testId?: string;
+}
+
+const DEFAULTS: { [K in DecisionCriterion['type']]: Extract<DecisionCriterion, { type: K }> } = {
+  expectedValue: { type: 'expectedValue' },
+  cvar: { type: 'cvar', alpha: 0.95 },
+  meanVariance: { type: 'meanVariance', lambda: 0.001 },
+  onTime: { type: 'onTime', deadlineDays: 30 }
+};
+
+// Criterion type plus its one parameter: CVaR alpha, mean-variance lambda or the on-time deadline
+export function CriterionSelector({ value, onChange, label = "Decision criterion", testId = "criterion" }: CriterionSelectorProps) {
+  const updateParameter = (raw: string) => {
+    const parsed = parseFloat(raw);
+    if (isNaN(parsed)) return;
+    switch (value.type) {
+      case 'cvar': return onChange({ ...value, alpha: parsed / 100 });
+      case 'meanVariance': return onChange({ ...value, lambda: parsed });
+      case 'onTime': return onChange({ ...value, deadlineDays: parsed });
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <div className="space-y-2">
+        <Label>{label}</Label>
+        <Select value={value.type} onValueChange={(type) => onChange(DEFAULTS[type as DecisionCriterion['type']])}>
+          <SelectTrigger data-testid={`select-${testId}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(DECISION_CRITERION_LABELS) as DecisionCriterion['type'][]).map(type => (
+              <SelectItem key={type} value={type}>{DECISION_CRITERION_LABELS[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {value.type === 'cvar' && (
+        <div className="space-y-2">
+          <Label>Alpha (%)</Label>
+          <Input type="number" min="50" max="99.9" step="0.5" defaultValue={value.alpha * 100} onChange={(e) => updateParameter(e.target.value)} data-testid={`input-${testId}-alpha`} />
+        </div>
+      )}
+      {value.type === 'meanVariance' && (
+        <div className="space-y-2">
+          <Label>Risk aversion λ (per $)</Label>
+          <Input type="number" min="0" max="1" step="0.0005" defaultValue={value.lambda} onChange={(e) => updateParameter(e.target.value)} data-testid={`input-${testId}-lambda`} />
+        </div>
+      )}
+      {value.type === 'onTime' && (
+        <div className="space-y-2">
+          <Label>Deadline (days)</Label>
+          <Input type="number" min="1" defaultValue={value.deadlineDays} onChange={(e) => updateParameter(e.target.value)} data-testid={`input-${testId}-deadline`} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FORECAST_MODELS, FORECAST_MODEL_LABELS } from "@shared/index-forecast";
+import type { IndexModel } from "@shared/schema";
+
+interface IndexModelSelectorProps {
+  value: IndexModel;
+  onChange: (model: IndexModel) => void;
+  testId?: string;
+}
+
+// How waits price the lane's index at their booking date
+export function IndexModelSelector({ value, onChange, testId = "index-model" }: IndexModelSelectorProps) {
+  return (
+    <div className="space-y-2">
+      <Label>Index forecast</Label>
+      <Select value={value} onValueChange={(model) => onChange(model as IndexModel)}>
+        <SelectTrigger data-testid={`select-${testId}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="auto">Best backtest</SelectItem>
+          {FORECAST_MODELS.map(model => (
+            <SelectItem key={model} value={model}>{FORECAST_MODEL_LABELS[model]}</SelectItem>
+          ))}
+          <SelectItem value="lane">Lane volatility</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -6,86 +7,46 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Progress } from "@/components/ui/progress";
 import { RiskGauge } from "@/components/visualization/risk-gauge";
 import type { Quote, Lane, QuoteEvaluation } from "@shared/schema";
-import { calculateStatistics } from "@/lib/statistics";
-import { TrendingUp, TrendingDown, Target, AlertCircle, CheckCircle, Calculator } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { TrendingUp, TrendingDown, Target, AlertCircle, CheckCircle, Calculator, RefreshCw } from "lucide-react";
 
 interface QuoteAnalyzerProps {
   quote: Quote;
   lane: Lane | null | undefined;
 }
 
+// Evaluations written before the server computed them lack the audit fields; treat those as missing
+function getStoredEvaluation(quote: Quote): QuoteEvaluation | null {
+  const evaluation = quote.evaluation as QuoteEvaluation | null;
+  return evaluation?.evaluatedAt ? evaluation : null;
+}
+
 export function QuoteAnalyzer({ quote, lane }: QuoteAnalyzerProps) {
-  const [analyzing, setAnalyzing] = useState(false);
-  const [evaluation, setEvaluation] = useState<QuoteEvaluation | null>(null);
+  // Verdicts are computed and stored by the server; a quote without one is evaluated on first view
+  const [evaluation, setEvaluation] = useState<QuoteEvaluation | null>(getStoredEvaluation(quote));
 
-  useEffect(() => {
-    if (quote && lane) {
-      analyzeQuote();
+  const evaluateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/quotes/${quote.id}/evaluate`);
+      return response.json() as Promise<Quote>;
+    },
+    onSuccess: (updated) => {
+      setEvaluation(updated.evaluation as QuoteEvaluation);
+      queryClient.invalidateQueries({ queryKey: ['/api/quotes'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/simulations'] });
     }
-  }, [quote, lane]);
+  });
 
-  const analyzeQuote = async () => {
-    if (!lane) return;
-    
-    setAnalyzing(true);
-    
-    // Simulate quote evaluation process
-    setTimeout(() => {
-      const baseRate = lane.indexValue * lane.laneRatio;
-      const marketVariance = (quote.rate - baseRate) / baseRate;
-      
-      // Simulate Monte Carlo results for comparison
-      const mockSimulationResults = generateMockSimulationResults(baseRate, 1000);
-      const statistics = calculateStatistics(mockSimulationResults);
-      
-      const percentile = calculatePercentile(quote.rate, mockSimulationResults);
-      const modelVariance = (quote.rate - statistics.mean) / statistics.mean;
-      
-      // Risk scoring (lower rates = lower risk score)
-      let riskScore = 5.0; // Base score
-      if (percentile < 25) riskScore = 2.0 + (percentile / 25) * 2; // Low risk
-      else if (percentile < 75) riskScore = 4.0 + ((percentile - 25) / 50) * 3; // Medium risk  
-      else riskScore = 7.0 + ((percentile - 75) / 25) * 3; // High risk
-      
-      // Recommendation logic
-      let recommendation: QuoteEvaluation['recommendation'] = 'BOOK_NOW';
-      if (percentile > 75) recommendation = 'NEGOTIATE';
-      if (percentile > 90) recommendation = 'REJECT';
-      if (percentile < 10) recommendation = 'BOOK_NOW';
-      if (percentile >= 10 && percentile <= 40 && marketVariance > -0.05) recommendation = 'WAIT';
-      
-      // Confidence based on data quality and percentile position
-      const confidence = Math.min(95, 60 + (40 - Math.abs(percentile - 50)));
-      
-      const newEvaluation: QuoteEvaluation = {
-        marketVariance,
-        modelVariance,
-        percentile,
-        riskScore,
-        recommendation,
-        confidence
-      };
-      
-      setEvaluation(newEvaluation);
-      setAnalyzing(false);
-    }, 2000);
-  };
-
-  const generateMockSimulationResults = (baseRate: number, iterations: number): number[] => {
-    const results: number[] = [];
-    for (let i = 0; i < iterations; i++) {
-      // Simple normal distribution simulation
-      const randomFactor = 1 + (Math.random() - 0.5) * 0.3; // ±15% variation
-      results.push(baseRate * randomFactor);
+  useEffect(() => {
+    const stored = getStoredEvaluation(quote);
+    setEvaluation(stored);
+    if (!stored && lane) {
+      evaluateMutation.mutate();
     }
-    return results;
-  };
+  }, [quote.id, lane?.id]);
 
-  const calculatePercentile = (value: number, data: number[]): number => {
-    const sorted = [...data].sort((a, b) => a - b);
-    const index = sorted.findIndex(v => v >= value);
-    return index === -1 ? 100 : (index / sorted.length) * 100;
-  };
+  const analyzeQuote = () => evaluateMutation.mutate();
+  const analyzing = evaluateMutation.isPending;
 
   const getRecommendationInfo = (rec: QuoteEvaluation['recommendation']) => {
     switch (rec) {
@@ -139,7 +100,7 @@ export function QuoteAnalyzer({ quote, lane }: QuoteAnalyzerProps) {
             <Calculator className="h-12 w-12 text-primary mx-auto animate-pulse" />
             <h3 className="text-lg font-medium">Analyzing Quote</h3>
             <p className="text-sm text-muted-foreground">
-              Running Monte Carlo comparison against market data...
+              Comparing against the lane's latest Monte Carlo simulation...
             </p>
             <Progress value={67} className="w-full max-w-sm mx-auto" />
           </div>
@@ -152,7 +113,12 @@ export function QuoteAnalyzer({ quote, lane }: QuoteAnalyzerProps) {
     return (
       <Card>
         <CardContent className="py-8">
-          <div className="text-center">
+          <div className="text-center space-y-4">
+            {evaluateMutation.isError && (
+              <p className="text-sm text-destructive">
+                Evaluation failed: {evaluateMutation.error instanceof Error ? evaluateMutation.error.message : 'Unknown error'}
+              </p>
+            )}
             <Button onClick={analyzeQuote} data-testid="button-analyze-quote">
               <Calculator className="h-4 w-4 mr-2" />
               Analyze Quote
@@ -176,11 +142,21 @@ export function QuoteAnalyzer({ quote, lane }: QuoteAnalyzerProps) {
               <CardTitle className="text-lg">Quote Analysis</CardTitle>
               <p className="text-sm text-muted-foreground">{quote.carrier} • {lane.name}</p>
             </div>
-            <Badge className={recommendationInfo.color}>
-              <RecommendationIcon className="h-3 w-3 mr-1" />
-              {recommendationInfo.label}
-            </Badge>
+            <div className="flex items-center gap-2">
+              <Badge className={recommendationInfo.color}>
+                <RecommendationIcon className="h-3 w-3 mr-1" />
+                {recommendationInfo.label}
+              </Badge>
+              <Button variant="outline" size="sm" onClick={analyzeQuote} data-testid="button-reevaluate-quote">
+                <RefreshCw className="h-3 w-3 mr-1" />
+                Re-evaluate
+              </Button>
+            </div>
           </div>
+          <p className="text-xs text-muted-foreground">
+            Evaluated {new Date(evaluation.evaluatedAt).toLocaleString()} against simulation {evaluation.simulationId.slice(0, 8)} ({evaluation.simulationIterations.toLocaleString()} iterations)
+            {' '}using {evaluation.policyName} {evaluation.policyId ? `v${evaluation.policyVersion}` : 'policy'}
+          </p>
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -240,16 +216,29 @@ export function QuoteAnalyzer({ quote, lane }: QuoteAnalyzerProps) {
               <div>
                 <div className="flex justify-between text-sm mb-1">
                   <span>Market Baseline</span>
-                  <span className="font-mono">${(lane.indexValue * lane.laneRatio).toLocaleString()}</span>
+                  <span className="font-mono">${evaluation.marketBaseline.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span>
                 </div>
                 <div className="flex justify-between text-sm mb-1">
                   <span>Model Prediction</span>
-                  <span className="font-mono">${(lane.indexValue * lane.laneRatio * 1.08).toLocaleString()}</span>
+                  <span className="font-mono">${evaluation.modelMean.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span>
                 </div>
                 <div className="flex justify-between text-sm mb-3">
                   <span>Quoted Rate</span>
                   <span className="font-mono font-bold">${quote.rate.toLocaleString()}</span>
                 </div>
+                {evaluation.expectedRate !== undefined && evaluation.expectedRate !== quote.rate && (
+                  <div className="flex justify-between text-sm mb-3">
+                    <span>Expected Invoice</span>
+                    <span className="font-mono">${evaluation.expectedRate.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span>
+                  </div>
+                )}
+                {evaluation.carrier && (
+                  <div className="text-xs text-muted-foreground" data-testid="text-carrier-record">
+                    {evaluation.carrier.name}: reliability {evaluation.carrier.reliabilityScore.toFixed(0)}/100
+                    {evaluation.carrier.onTimeRate !== null && `, ${(evaluation.carrier.onTimeRate * 100).toFixed(0)}% on time`}
+                    {' '}over {evaluation.carrier.bookings} recent {evaluation.carrier.bookings === 1 ? 'booking' : 'bookings'}
+                  </div>
+                )}
               </div>
 
               <div className="space-y-2">
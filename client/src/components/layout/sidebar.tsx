@@ -11,7 +11,9 @@ import {
   AlertTriangle,
   Package,
   User,
-  Clock
+  Clock,
+  SlidersHorizontal,
+  Ship
 } from "lucide-react";
 
 const navigation = [
@@ -21,6 +23,8 @@ const navigation = [
   { name: "Lane Configuration", href: "/lanes", icon: Route },
   { name: "Monte Carlo Simulation", href: "/simulation", icon: Dices },
   { name: "Quote Evaluation", href: "/quotes", icon: FileText },
+  { name: "Recommendation Policies", href: "/policies", icon: SlidersHorizontal },
+  { name: "Carriers", href: "/carriers", icon: Ship },
   { name: "Alternative Strategies", href: "/alternatives", icon: GitBranch },
   { name: "Risk Analysis", href: "/risk", icon: AlertTriangle },
 ];
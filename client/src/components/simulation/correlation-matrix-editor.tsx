@@ -0,0 +1,139 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import type { CorrelationMatrix, RateFactor, TransitSegment } from "@shared/schema";
+import { factorVariable, segmentVariable, validateCorrelationMatrix, CorrelationMatrixError } from "@shared/copula";
+import { AlertTriangle, RotateCcw } from "lucide-react";
+
+interface CorrelationMatrixEditorProps {
+  factors: RateFactor[];
+  segments: TransitSegment[];
+  value: CorrelationMatrix | null;
+  onChange: (value: CorrelationMatrix | null) => void;
+}
+
+// Returns the validation message for a matrix, or null when it can be sampled
+export function getCorrelationMatrixError(
+  value: CorrelationMatrix | null,
+  factors: RateFactor[],
+  segments: TransitSegment[]
+): string | null {
+  if (!value) return null;
+  try {
+    validateCorrelationMatrix(value, factors, segments);
+    return null;
+  } catch (error) {
+    if (error instanceof CorrelationMatrixError) return error.message;
+    throw error;
+  }
+}
+
+export function CorrelationMatrixEditor({ factors, segments, value, onChange }: CorrelationMatrixEditorProps) {
+  const variables = [
+    ...factors.map(factor => ({ key: factorVariable(factor.name), label: factor.name })),
+    ...segments.map(segment => ({ key: segmentVariable(segment.name), label: segment.name }))
+  ];
+
+  // Read from the stored matrix by variable name so reordered or newly added factors default to independent
+  const getCorrelation = (row: string, column: string) => {
+    if (row === column) return 1;
+    if (!value) return 0;
+    const i = value.variables.indexOf(row);
+    const j = value.variables.indexOf(column);
+    return i >= 0 && j >= 0 ? value.matrix[i]?.[j] ?? 0 : 0;
+  };
+
+  const updateCorrelation = (row: string, column: string, correlation: number) => {
+    const keys = variables.map(variable => variable.key);
+    const matrix = keys.map(i => keys.map(j => {
+      if ((i === row && j === column) || (i === column && j === row)) return correlation;
+      return getCorrelation(i, j);
+    }));
+
+    // An all-zero matrix is the same as independent sampling
+    const hasCorrelation = matrix.some((cells, i) => cells.some((cell, j) => i !== j && cell !== 0));
+    onChange(hasCorrelation ? { variables: keys, matrix } : null);
+  };
+
+  const error = getCorrelationMatrixError(value, factors, segments);
+
+  if (variables.length < 2) {
+    return (
+      <p className="text-sm text-muted-foreground">Add at least two factors or segments to correlate them.</p>
+    );
+  }
+
+  return (
+    <div className="space-y-3" data-testid="correlation-matrix-editor">
+      <div className="flex items-center justify-between">
+        <div>
+          <Label>Correlation Matrix</Label>
+          <p className="text-xs text-muted-foreground">
+            Gaussian copula between rate factors and transit segments; 0 = independent
+          </p>
+        </div>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange(null)}
+          disabled={!value}
+          data-testid="button-reset-correlation"
+        >
+          <RotateCcw className="h-4 w-4 mr-1" />
+          Independent
+        </Button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="text-xs">
+          <thead>
+            <tr>
+              <th />
+              {variables.map(variable => (
+                <th key={variable.key} className="px-1 pb-1 font-medium text-muted-foreground max-w-20 truncate" title={variable.label}>
+                  {variable.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {variables.map((row, i) => (
+              <tr key={row.key}>
+                <td className="pr-2 font-medium text-muted-foreground whitespace-nowrap">{row.label}</td>
+                {variables.map((column, j) => (
+                  <td key={column.key} className="p-0.5">
+                    {j > i ? (
+                      <Input
+                        type="number"
+                        step="0.05"
+                        min={-1}
+                        max={1}
+                        className="h-7 w-20 text-xs font-mono"
+                        value={getCorrelation(row.key, column.key)}
+                        onChange={(e) => updateCorrelation(row.key, column.key, parseFloat(e.target.value) || 0)}
+                        data-testid={`input-correlation-${i}-${j}`}
+                      />
+                    ) : (
+                      // Diagonal is fixed at 1 and the lower triangle mirrors the upper one
+                      <div className="h-7 w-20 flex items-center px-3 font-mono text-muted-foreground">
+                        {getCorrelation(row.key, column.key).toFixed(2)}
+                      </div>
+                    )}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-destructive" data-testid="text-correlation-error">
+          <AlertTriangle className="h-4 w-4" />
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
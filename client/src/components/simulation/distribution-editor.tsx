@@ -0,0 +1,162 @@
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DensityPreview } from "@/components/visualization/density-preview";
+import { DISTRIBUTION_TYPES, type DistributionType, type RateFactor } from "@shared/schema";
+import {
+  DISTRIBUTION_SPECS, defaultDistributionParameters, isDistributionType, type DistributionDefinition
+} from "@shared/distributions";
+
+export type DistributionConfig = Pick<RateFactor, 'distribution' | 'parameters' | 'samples' | 'truncation'>;
+
+interface DistributionEditorProps {
+  config: DistributionConfig;
+  resolved: DistributionDefinition | null; // What the engine samples: fills in defaults and drives the preview
+  center: number; // Multiplier or baseline days used to seed parameters when switching distribution
+  hiddenParameters?: string[];
+  unit?: string;
+  testId: string;
+  onChange: (updates: Partial<DistributionConfig>) => void;
+}
+
+const formatSamples = (samples?: number[]) => (samples ?? []).join(", ");
+
+function parseOptionalNumber(value: string): number | undefined {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+export function DistributionEditor({
+  config,
+  resolved,
+  center,
+  hiddenParameters = [],
+  unit = "",
+  testId,
+  onChange
+}: DistributionEditorProps) {
+  const [samplesText, setSamplesText] = useState(formatSamples(config.samples));
+
+  useEffect(() => {
+    setSamplesText(formatSamples(config.samples));
+  }, [config.samples]);
+
+  const spec = isDistributionType(config.distribution) ? DISTRIBUTION_SPECS[config.distribution] : null;
+  const visibleParameters = spec?.parameters.filter(parameter => !hiddenParameters.includes(parameter.key)) ?? [];
+
+  const changeDistribution = (distribution: DistributionType) => {
+    onChange({ distribution, parameters: defaultDistributionParameters(distribution, center) });
+  };
+
+  const updateParameter = (key: string, value: string) => {
+    const parameters = { ...config.parameters };
+    const parsed = parseOptionalNumber(value);
+    if (parsed === undefined) {
+      // Cleared fields fall back to the factor/segment default
+      delete parameters[key];
+    } else {
+      parameters[key] = parsed;
+    }
+    onChange({ parameters });
+  };
+
+  const updateTruncation = (bound: 'min' | 'max', value: string) => {
+    const truncation = { ...config.truncation, [bound]: parseOptionalNumber(value) };
+    const isEmpty = truncation.min === undefined && truncation.max === undefined;
+    onChange({ truncation: isEmpty ? undefined : truncation });
+  };
+
+  const commitSamples = () => {
+    const samples = samplesText
+      .split(/[\s,;]+/)
+      .map(value => parseFloat(value))
+      .filter(value => Number.isFinite(value));
+    onChange({ samples: samples.length > 0 ? samples : undefined });
+  };
+
+  return (
+    <div className="space-y-3" data-testid={`distribution-editor-${testId}`}>
+      <div className="space-y-2">
+        <Label className="text-xs text-muted-foreground">Distribution Type</Label>
+        <Select
+          value={config.distribution}
+          onValueChange={(value) => changeDistribution(value as DistributionType)}
+        >
+          <SelectTrigger className="h-8" data-testid={`select-distribution-${testId}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DISTRIBUTION_TYPES.map(type => (
+              <SelectItem key={type} value={type}>{DISTRIBUTION_SPECS[type].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {visibleParameters.length > 0 && (
+        <div className="grid grid-cols-2 gap-2">
+          {visibleParameters.map(parameter => (
+            <div key={parameter.key} className="space-y-1">
+              <Label className="text-xs text-muted-foreground">{parameter.label}</Label>
+              <Input
+                type="number"
+                step="any"
+                className="h-8 text-xs font-mono"
+                value={config.parameters[parameter.key] ?? ""}
+                placeholder={resolved?.parameters[parameter.key]?.toFixed(3)}
+                onChange={(e) => updateParameter(parameter.key, e.target.value)}
+                data-testid={`input-${parameter.key}-${testId}`}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {config.distribution === 'empirical' && (
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Observed Values (bootstrapped)</Label>
+          <Textarea
+            className="text-xs font-mono min-h-[60px]"
+            value={samplesText}
+            placeholder="e.g. 13.5, 14.2, 15.0, 18.7"
+            onChange={(e) => setSamplesText(e.target.value)}
+            onBlur={commitSamples}
+            data-testid={`textarea-samples-${testId}`}
+          />
+          <p className="text-xs text-muted-foreground">{config.samples?.length ?? 0} samples</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Truncate Below</Label>
+          <Input
+            type="number"
+            step="any"
+            className="h-8 text-xs font-mono"
+            value={config.truncation?.min ?? ""}
+            placeholder="None"
+            onChange={(e) => updateTruncation('min', e.target.value)}
+            data-testid={`input-truncate-min-${testId}`}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Truncate Above</Label>
+          <Input
+            type="number"
+            step="any"
+            className="h-8 text-xs font-mono"
+            value={config.truncation?.max ?? ""}
+            placeholder="None"
+            onChange={(e) => updateTruncation('max', e.target.value)}
+            data-testid={`input-truncate-max-${testId}`}
+          />
+        </div>
+      </div>
+
+      <DensityPreview definition={resolved} unit={unit} />
+    </div>
+  );
+}
@@ -0,0 +1,316 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ComposedChart, Scatter, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { FreightInvoice, FreightInvoiceBatch, Lane, LaneRatioApplyRequest, RateFactor } from "@shared/schema";
+import { parseInvoiceCsv, type InvoiceCsvResult, type LaneRatioFit } from "@shared/lane-ratio";
+import { AlertTriangle, Trash2, Upload } from "lucide-react";
+
+interface LaneRatioDialogProps {
+  lane: Lane | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: '2-digit', timeZone: 'UTC' });
+const formatMoney = (value: number) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const formatPremium = (premium: number) => `${premium >= 1 ? '+' : ''}${((premium - 1) * 100).toFixed(1)}%`;
+
+function Metric({ label, value, current, testId }: { label: string; value: string; current?: string; testId: string }) {
+  return (
+    <div className="rounded border p-3" data-testid={testId}>
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div className="text-lg font-semibold font-mono">{value}</div>
+      {current && <div className="text-xs text-muted-foreground">lane: {current}</div>}
+    </div>
+  );
+}
+
+// Upload realised invoices for a lane, regress them on its base index and write the implied ratio, volatility and
+// carrier premium back onto the lane
+export function LaneRatioDialog({ lane, onOpenChange }: LaneRatioDialogProps) {
+  const [upload, setUpload] = useState<InvoiceCsvResult | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [replace, setReplace] = useState(true);
+  const [apply, setApply] = useState<Omit<LaneRatioApplyRequest, 'from' | 'to'>>({
+    laneRatio: true,
+    historicalVolatility: true,
+    carrierPremium: true
+  });
+  const { toast } = useToast();
+
+  const { data: invoices } = useQuery<FreightInvoice[]>({
+    queryKey: ['/api/lanes', lane?.id, 'invoices'],
+    enabled: !!lane
+  });
+
+  const { data: fit, isLoading: isFitting, error: fitError } = useQuery<LaneRatioFit>({
+    queryKey: ['/api/lanes', lane?.id, 'ratio-fit'],
+    enabled: !!lane && (invoices?.length ?? 0) > 0,
+    retry: false
+  });
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive"
+    });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async (batch: FreightInvoiceBatch) => {
+      const response = await apiRequest('POST', `/api/lanes/${lane!.id}/invoices`, batch);
+      return response.json() as Promise<{ saved: number; removed: number }>;
+    },
+    onSuccess: ({ saved, removed }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/lanes', lane!.id] });
+      toast({
+        title: "Success",
+        description: `Saved ${saved.toLocaleString()} invoices${removed > 0 ? `, replacing ${removed.toLocaleString()}` : ''}`
+      });
+      setUpload(null);
+      setFileName(null);
+    },
+    onError: onError("Failed to upload invoices")
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('DELETE', `/api/lanes/${lane!.id}/invoices`);
+      return response.json() as Promise<{ removed: number }>;
+    },
+    onSuccess: ({ removed }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/lanes', lane!.id] });
+      toast({ title: "Success", description: `Removed ${removed.toLocaleString()} invoices` });
+    },
+    onError: onError("Failed to delete invoices")
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async (request: Omit<LaneRatioApplyRequest, 'from' | 'to'>) => {
+      const response = await apiRequest('POST', `/api/lanes/${lane!.id}/ratio-fit/apply`, request);
+      return response.json() as Promise<{ lane: Lane; fit: LaneRatioFit }>;
+    },
+    onSuccess: ({ lane: updated }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/lanes'] });
+      toast({
+        title: "Success",
+        description: `${updated.name} set to ratio ${updated.laneRatio.toFixed(3)} and volatility ${formatPercent(updated.historicalVolatility)}`
+      });
+      onOpenChange(false);
+    },
+    onError: onError("Failed to apply lane ratio")
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setUpload(parseInvoiceCsv(await file.text()));
+    setFileName(file.name);
+  };
+
+  const carrierFactor = ((lane?.factors as RateFactor[] | undefined) ?? []).find(factor => factor.type === 'carrierPremium');
+  const chartData = (fit?.points ?? []).map(point => ({
+    date: point.date,
+    amount: point.amount,
+    baseline: Math.round(point.indexValue * fit!.laneRatio)
+  }));
+
+  return (
+    <Dialog
+      open={!!lane}
+      onOpenChange={(open) => {
+        if (!open) {
+          setUpload(null);
+          setFileName(null);
+        }
+        onOpenChange(open);
+      }}
+    >
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Lane Ratio from Invoices{lane ? ` · ${lane.name}` : ''}</DialogTitle>
+        </DialogHeader>
+
+        {lane && (
+          <div className="space-y-6">
+            <div className="space-y-3">
+              <p className="text-sm text-muted-foreground">
+                CSV of paid rates per container with <span className="font-mono">date,carrier,amount</span> columns. Each invoice is
+                matched to the latest {lane.baseIndex} print on or before its date.
+              </p>
+              <div className="flex flex-wrap items-end gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="invoice-file">File</Label>
+                  <Input
+                    id="invoice-file"
+                    type="file"
+                    accept=".csv,.txt,text/csv"
+                    onChange={(e) => handleFile(e.target.files?.[0])}
+                    data-testid="input-invoice-file"
+                  />
+                </div>
+                <div className="flex items-center gap-2 pb-2">
+                  <Checkbox id="invoice-replace" checked={replace} onCheckedChange={(checked) => setReplace(checked === true)} />
+                  <Label htmlFor="invoice-replace">Replace existing</Label>
+                </div>
+                <Button
+                  onClick={() => upload && uploadMutation.mutate({ invoices: upload.invoices, replace })}
+                  disabled={!upload || upload.invoices.length === 0 || uploadMutation.isPending}
+                  data-testid="button-upload-invoices"
+                >
+                  <Upload className="h-4 w-4 mr-2" />
+                  {upload ? `Upload ${upload.invoices.length.toLocaleString()}` : "Upload"}
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => clearMutation.mutate()}
+                  disabled={!invoices?.length || clearMutation.isPending}
+                  data-testid="button-clear-invoices"
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Clear {invoices?.length ? invoices.length.toLocaleString() : ''} stored
+                </Button>
+              </div>
+              {upload && upload.issues.length > 0 && (
+                <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    {fileName}: {upload.issues.length} {upload.issues.length === 1 ? 'row' : 'rows'} skipped.
+                    {" "}{upload.issues.slice(0, 3).map(issue => `Row ${issue.row}: ${issue.message}`).join('; ')}
+                    {upload.issues.length > 3 && '; …'}
+                  </AlertDescription>
+                </Alert>
+              )}
+            </div>
+
+            {!invoices?.length ? (
+              <div className="text-sm text-muted-foreground">No invoices stored for this lane</div>
+            ) : isFitting ? (
+              <div className="h-64 bg-muted rounded animate-pulse" />
+            ) : !fit ? (
+              <div className="text-sm text-muted-foreground">
+                {fitError instanceof Error ? fitError.message : "No fit available"}
+              </div>
+            ) : (
+              <>
+                <div className="text-sm text-muted-foreground">
+                  {fit.matched.toLocaleString()} of {fit.invoices.toLocaleString()} invoices matched, {formatDate(fit.from)} – {formatDate(fit.to)}
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <Metric
+                    label="Lane ratio"
+                    value={`${fit.laneRatio.toFixed(3)} ± ${(fit.laneRatio * fit.ratioStandardError).toFixed(3)}`}
+                    current={lane.laneRatio.toFixed(3)}
+                    testId="metric-lane-ratio"
+                  />
+                  <Metric
+                    label="Volatility"
+                    value={fit.rateVolatility ? formatPercent(fit.rateVolatility.volatility) : '—'}
+                    current={formatPercent(lane.historicalVolatility)}
+                    testId="metric-volatility"
+                  />
+                  <Metric
+                    label="R² (index + carriers)"
+                    value={fit.rSquared.toFixed(2)}
+                    testId="metric-r-squared"
+                  />
+                  <Metric
+                    label="Pass-through"
+                    value={fit.elasticity ? fit.elasticity.slope.toFixed(2) : '—'}
+                    current={fit.elasticity ? `R² ${fit.elasticity.rSquared.toFixed(2)} on index alone` : undefined}
+                    testId="metric-elasticity"
+                  />
+                  <Metric label="Basis risk (log σ)" value={formatPercent(fit.residualStdDev)} testId="metric-residual" />
+                  <Metric label="RMSE" value={formatMoney(fit.rmse)} testId="metric-rmse" />
+                  <Metric label="MAPE" value={`${fit.mape.toFixed(1)}%`} testId="metric-mape" />
+                </div>
+
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={chartData} margin={{ top: 5, right: 10, bottom: 5, left: 10 }}>
+                      <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                      <XAxis dataKey="date" tickFormatter={formatDate} tick={{ fontSize: 11 }} minTickGap={24} />
+                      <YAxis domain={["auto", "auto"]} tickFormatter={formatMoney} tick={{ fontSize: 11 }} width={70} />
+                      <Tooltip formatter={(value: number, name: string) => [formatMoney(value), name]} labelFormatter={(date: string) => formatDate(date)} />
+                      <Legend />
+                      <Scatter dataKey="amount" name="Paid" fill="hsl(var(--primary))" isAnimationActive={false} />
+                      <Line dataKey="baseline" name={`${fit.laneRatio.toFixed(2)} × ${lane.baseIndex}`} stroke="#f59e0b" dot={false} strokeWidth={2} isAnimationActive={false} />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Carrier</TableHead>
+                      <TableHead className="text-right">Invoices</TableHead>
+                      <TableHead className="text-right">Premium</TableHead>
+                      <TableHead className="text-right">± 1 s.e.</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {fit.carriers.map(carrier => (
+                      <TableRow key={carrier.carrier} data-testid={`row-carrier-premium-${carrier.carrier}`}>
+                        <TableCell className="font-medium">
+                          {carrier.carrier}
+                          {carrier.pooled && <Badge variant="outline" className="ml-2">pooled</Badge>}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">{carrier.invoices}</TableCell>
+                        <TableCell className="text-right font-mono">{carrier.pooled ? '—' : formatPremium(carrier.premium)}</TableCell>
+                        <TableCell className="text-right font-mono">{carrier.pooled ? '—' : formatPercent(carrier.standardError)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+
+                <div className="space-y-3 border-t pt-4">
+                  <h4 className="font-medium">Apply to lane</h4>
+                  <div className="flex flex-wrap gap-6">
+                    {([
+                      ['laneRatio', 'Lane ratio'],
+                      ['historicalVolatility', 'Volatility'],
+                      ['carrierPremium', `Carrier premium factor${carrierFactor ? ` (replaces "${carrierFactor.name}")` : ''}`]
+                    ] as const).map(([key, label]) => (
+                      <div key={key} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`apply-${key}`}
+                          checked={apply[key]}
+                          onCheckedChange={(checked) => setApply({ ...apply, [key]: checked === true })}
+                          data-testid={`checkbox-apply-${key}`}
+                        />
+                        <Label htmlFor={`apply-${key}`}>{label}</Label>
+                      </div>
+                    ))}
+                  </div>
+                  {apply.laneRatio && !apply.carrierPremium && carrierFactor && (
+                    <p className="text-xs text-muted-foreground">
+                      The fitted ratio already includes the average carrier premium; keeping "{carrierFactor.name}" at
+                      {" "}{carrierFactor.meanMultiplier.toFixed(2)}× counts it twice.
+                    </p>
+                  )}
+                  <Button
+                    onClick={() => applyMutation.mutate(apply)}
+                    disabled={!(apply.laneRatio || apply.historicalVolatility || apply.carrierPremium) || applyMutation.isPending}
+                    data-testid="button-apply-lane-ratio"
+                  >
+                    Apply
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
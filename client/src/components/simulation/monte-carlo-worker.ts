@@ -1,201 +1,113 @@
 // Monte Carlo simulation worker for non-blocking calculations
-import type { RateFactor, TransitSegment, SimulationResult } from "@shared/schema";
+import {
+  runMonteCarloSimulation,
+  SimulationController,
+  SimulationCancelledError,
+  type SimulationParams
+} from "@shared/monte-carlo";
+import { SHARD_BATCH_SIZE } from "@shared/sharded-simulation";
+import { ResultSummary } from "@shared/result-summary";
+import type { SimulationResult } from "@shared/schema";
 
-export interface SimulationParams {
-  iterations: number;
-  baseRate: number;
-  factors: RateFactor[];
-  segments: TransitSegment[];
-}
+export type { SimulationParams } from "@shared/monte-carlo";
 
 export interface SimulationMessage {
-  type: 'start' | 'progress' | 'complete' | 'error';
+  type: 'start' | 'progress' | 'paused' | 'complete' | 'cancelled' | 'error';
   data?: any;
 }
 
-// Statistical distribution functions
-function normalRandom(mean: number = 0, stdDev: number = 1): number {
-  let u = 0, v = 0;
-  while(u === 0) u = Math.random(); // Converting [0,1) to (0,1)
-  while(v === 0) v = Math.random();
-  const z = Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
-  return z * stdDev + mean;
-}
+type WorkerCommand =
+  | { type: 'start'; params: SimulationParams; keepSamples?: boolean }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'cancel' };
 
-function lognormalRandom(mu: number, sigma: number): number {
-  const normal = normalRandom(0, 1);
-  return Math.exp(mu + sigma * normal);
-}
+let controller: SimulationController | null = null;
 
-function triangularRandom(min: number, mode: number, max: number): number {
-  const u = Math.random();
-  const f = (mode - min) / (max - min);
-  
-  if (u < f) {
-    return min + Math.sqrt(u * (max - min) * (mode - min));
-  } else {
-    return max - Math.sqrt((1 - u) * (max - min) * (max - mode));
-  }
-}
+// Worker message handler
+self.onmessage = async function(e: MessageEvent<WorkerCommand>) {
+  const command = e.data;
 
-function exponentialRandom(lambda: number): number {
-  return -Math.log(1 - Math.random()) / lambda;
-}
+  switch (command.type) {
+    case 'pause':
+      controller?.pause();
+      return;
 
-function simulateRateFactor(factor: RateFactor): number {
-  if (!factor.enabled) return 1.0;
-  
-  const { distribution, meanMultiplier, parameters } = factor;
-  
-  switch (distribution) {
-    case 'normal':
-      return normalRandom(meanMultiplier, parameters.stdDev || 0.02);
-    
-    case 'lognormal':
-      return lognormalRandom(
-        Math.log(meanMultiplier), 
-        parameters.sigma || 0.05
-      );
-    
-    case 'triangle':
-      return triangularRandom(
-        parameters.min || meanMultiplier * 0.9,
-        meanMultiplier,
-        parameters.max || meanMultiplier * 1.1
-      );
-    
-    case 'exponential':
-      return exponentialRandom(parameters.lambda || 1.0);
-    
-    default:
-      return meanMultiplier;
-  }
-}
+    case 'resume':
+      controller?.resume();
+      return;
+
+    case 'cancel':
+      controller?.cancel();
+      return;
+
+    case 'start':
+      break;
 
-function simulateTransitSegment(segment: TransitSegment): number {
-  const { distribution, baselineDays, parameters } = segment;
-  
-  switch (distribution) {
-    case 'normal':
-      return Math.max(0.1, normalRandom(
-        parameters.mean || baselineDays, 
-        parameters.stdDev || baselineDays * 0.1
-      ));
-    
-    case 'lognormal':
-      return lognormalRandom(
-        parameters.mu || Math.log(baselineDays),
-        parameters.sigma || 0.2
-      );
-    
     default:
-      return normalRandom(baselineDays, baselineDays * 0.1);
+      return;
   }
-}
 
-function runSingleIteration(params: SimulationParams): SimulationResult {
-  const { baseRate, factors, segments } = params;
-  
-  // Simulate rate with all factors
-  let finalRate = baseRate;
-  for (const factor of factors) {
-    const multiplier = simulateRateFactor(factor);
-    finalRate *= multiplier;
-  }
-  
-  // Simulate transit time for all segments
-  let totalTransitDays = 0;
-  for (const segment of segments) {
-    totalTransitDays += simulateTransitSegment(segment);
-  }
-  
-  // Calculate delay costs (simplified model)
-  const expectedDays = segments.reduce((sum, seg) => sum + seg.baselineDays, 0);
-  const delayDays = Math.max(0, totalTransitDays - expectedDays);
-  const delayCostPerDay = finalRate * 0.001; // 0.1% per day delay
-  const delayCost = delayDays * delayCostPerDay;
-  
-  const startDate = new Date();
-  const arrivalDate = new Date(startDate.getTime() + totalTransitDays * 24 * 60 * 60 * 1000);
-  
-  return {
-    iteration: 0, // Will be set by caller
-    rate: finalRate,
-    transitDays: totalTransitDays,
-    arrivalDate,
-    delayCost,
-    totalLandedCost: finalRate + delayCost
-  };
-}
+  const { params, keepSamples = false } = command;
+  controller = new SimulationController();
+  // Only summaries cross back to the main thread: the whole run, plus one per batch for sharded runs to fold in
+  // a fixed order
+  const summary = new ResultSummary();
+  let delta = new ResultSummary();
+
+  try {
+    self.postMessage({
+      type: 'progress',
+      data: { progress: 0, completedIterations: 0 }
+    } as SimulationMessage);
 
-export function runMonteCarloSimulation(params: SimulationParams): Promise<SimulationResult[]> {
-  return new Promise((resolve, reject) => {
-    try {
-      const results: SimulationResult[] = [];
-      const batchSize = 100;
-      const totalBatches = Math.ceil(params.iterations / batchSize);
-      
-      let completedIterations = 0;
-      
-      const processBatch = (batchIndex: number) => {
-        const batchStart = batchIndex * batchSize;
-        const batchEnd = Math.min(batchStart + batchSize, params.iterations);
-        
-        for (let i = batchStart; i < batchEnd; i++) {
-          const result = runSingleIteration(params);
-          result.iteration = i;
-          results.push(result);
-          completedIterations++;
-        }
-        
-        // Post progress update
-        const progress = (completedIterations / params.iterations) * 100;
+    const samples: SimulationResult[] = await runMonteCarloSimulation(params, {
+      controller,
+      batchSize: SHARD_BATCH_SIZE,
+      retainResults: keepSamples,
+      onResult: (result) => {
+        summary.add(result);
+        delta.add(result);
+      },
+      onProgress: (progress) => {
         self.postMessage({
           type: 'progress',
-          data: { progress, completedIterations }
+          data: { ...progress, delta: delta.toJSON() }
+        } as SimulationMessage);
+        delta = new ResultSummary();
+      },
+      onPause: (_partialResults, progress) => {
+        // Every batch's delta has already been sent, so the main thread can show partial statistics
+        self.postMessage({
+          type: 'paused',
+          data: progress
         } as SimulationMessage);
-        
-        if (batchIndex < totalBatches - 1) {
-          // Schedule next batch asynchronously
-          setTimeout(() => processBatch(batchIndex + 1), 0);
-        } else {
-          // Simulation complete
-          resolve(results);
-        }
       }
-      
-      // Start first batch
-      processBatch(0);
-      
-    } catch (error) {
-      reject(error);
-    }
-  });
-}
+    });
 
-// Worker message handler
-self.onmessage = async function(e: MessageEvent<{ type: string; params: SimulationParams }>) {
-  const { type, params } = e.data;
-  
-  if (type === 'start') {
-    try {
-      self.postMessage({
-        type: 'progress',
-        data: { progress: 0, completedIterations: 0 }
-      } as SimulationMessage);
-      
-      const results = await runMonteCarloSimulation(params);
-      
-      self.postMessage({
-        type: 'complete',
-        data: results
-      } as SimulationMessage);
-      
-    } catch (error) {
+    self.postMessage({
+      type: 'complete',
+      data: {
+        summary: summary.toJSON(),
+        // Raw iterations are only shipped when the user asked to export them
+        samples: keepSamples ? samples : undefined
+      }
+    } as SimulationMessage);
+
+  } catch (error) {
+    if (error instanceof SimulationCancelledError) {
       self.postMessage({
-        type: 'error',
-        data: { message: error instanceof Error ? error.message : 'Simulation failed' }
+        type: 'cancelled',
+        data: { completedIterations: error.completedIterations }
       } as SimulationMessage);
+      return;
     }
+
+    self.postMessage({
+      type: 'error',
+      data: { message: error instanceof Error ? error.message : 'Simulation failed' }
+    } as SimulationMessage);
+  } finally {
+    controller = null;
   }
 };
@@ -0,0 +1,182 @@
+// Runs one simulation across a pool of Monte Carlo workers and merges their streamed summaries
+import type { SimulationParams } from "@shared/monte-carlo";
+import type { ConvergencePoint, ConvergenceSummary } from "@shared/convergence";
+import { ShardedRunMerger } from "@shared/sharded-simulation";
+import { ResultSummary, type ResultSummaryData } from "@shared/result-summary";
+import type { SimulationResult } from "@shared/schema";
+
+// Used when the browser does not report its core count
+const DEFAULT_WORKER_COUNT = 4;
+
+export interface ParallelSimulationProgress {
+  progress: number;
+  completedIterations: number;
+  convergence: ConvergencePoint | null;
+}
+
+export interface ParallelSimulationResult {
+  summary: ResultSummary;
+  convergence: ConvergenceSummary;
+  samples: SimulationResult[] | null; // Only when keepSamples was requested
+}
+
+export interface ParallelSimulationCallbacks {
+  onProgress: (progress: ParallelSimulationProgress) => void;
+  onPaused: (partial: ResultSummary, progress: ParallelSimulationProgress) => void;
+  onComplete: (result: ParallelSimulationResult) => void;
+  onError: (message: string) => void;
+}
+
+export function getWorkerCount(): number {
+  return typeof navigator !== 'undefined' && navigator.hardwareConcurrency
+    ? navigator.hardwareConcurrency
+    : DEFAULT_WORKER_COUNT;
+}
+
+export class ParallelSimulation {
+  private merger: ShardedRunMerger;
+  private shards: SimulationParams[];
+  private workers: Worker[] = [];
+  private assignments = new Map<Worker, number>(); // Worker -> shard it is running
+  private pausedWorkers = new Set<Worker>();
+  private nextShard = 0;
+  private shardsComplete: boolean[];
+  private shardSamples: (SimulationResult[] | null)[];
+  // Every batch received, in arrival order; only for the partial statistics shown while paused
+  private live = new ResultSummary();
+  private paused = false;
+  private finished = false;
+
+  constructor(
+    private params: SimulationParams,
+    private callbacks: ParallelSimulationCallbacks,
+    private keepSamples: boolean = false
+  ) {
+    this.merger = new ShardedRunMerger(params);
+    this.shards = this.merger.shards;
+    this.shardsComplete = this.shards.map(() => false);
+    this.shardSamples = this.shards.map(() => null);
+  }
+
+  start() {
+    const workerCount = Math.min(getWorkerCount(), this.shards.length);
+
+    for (let i = 0; i < workerCount; i++) {
+      const worker = new Worker(
+        new URL('./monte-carlo-worker.ts', import.meta.url),
+        { type: 'module' }
+      );
+      worker.onmessage = (e) => this.handleMessage(worker, e.data);
+      worker.onerror = (e) => this.fail(e.message || 'Simulation worker failed');
+      this.workers.push(worker);
+      this.dispatch(worker);
+    }
+  }
+
+  pause() {
+    this.paused = true;
+    this.assignments.forEach((_, worker) => worker.postMessage({ type: 'pause' }));
+    this.checkPaused();
+  }
+
+  resume() {
+    this.paused = false;
+    this.pausedWorkers.clear();
+    this.assignments.forEach((_, worker) => worker.postMessage({ type: 'resume' }));
+    // Workers that finished a shard while paused were left idle
+    this.workers.filter(worker => !this.assignments.has(worker)).forEach(worker => this.dispatch(worker));
+  }
+
+  terminate() {
+    this.finished = true;
+    this.workers.forEach(worker => worker.terminate());
+    this.workers = [];
+    this.assignments.clear();
+  }
+
+  private dispatch(worker: Worker) {
+    if (this.paused || this.finished || this.nextShard >= this.shards.length) return;
+
+    const shardIndex = this.nextShard++;
+    this.assignments.set(worker, shardIndex);
+    worker.postMessage({ type: 'start', params: this.shards[shardIndex], keepSamples: this.keepSamples });
+  }
+
+  private handleMessage(worker: Worker, message: { type: string; data?: any }) {
+    if (this.finished) return;
+    const { type, data } = message;
+
+    switch (type) {
+      case 'progress':
+        if (data.delta) this.addBatch(this.assignments.get(worker)!, data.delta);
+        break;
+
+      case 'paused':
+        this.pausedWorkers.add(worker);
+        this.checkPaused();
+        break;
+
+      case 'complete': {
+        const shardIndex = this.assignments.get(worker)!;
+        this.assignments.delete(worker);
+        this.shardsComplete[shardIndex] = true;
+        this.shardSamples[shardIndex] = data.samples ?? null;
+
+        if (this.shardsComplete.every(Boolean)) {
+          this.finish();
+        } else if (this.paused) {
+          this.checkPaused();
+        } else {
+          this.dispatch(worker);
+        }
+        break;
+      }
+
+      case 'error':
+        this.fail(data?.message ?? 'Simulation failed');
+        break;
+    }
+  }
+
+  private addBatch(shardIndex: number, batch: ResultSummaryData) {
+    this.live.merge(ResultSummary.fromJSON(batch));
+    const progress = this.merger.addBatch(shardIndex, batch);
+    if (!progress) return;
+
+    this.callbacks.onProgress(progress);
+    // A full run waits for every shard's completion, which carries its samples
+    if (this.merger.isDone && this.merger.stoppedEarly) this.finish();
+  }
+
+  // Reports partial statistics once every busy worker has stopped between batches
+  private checkPaused() {
+    if (!this.paused || !Array.from(this.assignments.keys()).every(worker => this.pausedWorkers.has(worker))) return;
+
+    const completedIterations = this.live.count;
+    this.callbacks.onPaused(this.live, {
+      progress: (completedIterations / this.params.iterations) * 100,
+      completedIterations,
+      convergence: null
+    });
+  }
+
+  private finish() {
+    const stoppedEarly = this.merger.stoppedEarly;
+    const samples = this.keepSamples && !stoppedEarly
+      ? this.shardSamples.flatMap(shard => shard ?? []).map((result, iteration) => ({ ...result, iteration }))
+      : null;
+
+    this.terminate();
+    this.callbacks.onComplete({
+      summary: this.merger.summary,
+      convergence: this.merger.getConvergence(),
+      samples
+    });
+  }
+
+  private fail(message: string) {
+    if (this.finished) return;
+    this.terminate();
+    this.callbacks.onError(message);
+  }
+}
@@ -2,10 +2,12 @@ import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
 import { Slider } from "@/components/ui/slider";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
+import { DistributionEditor } from "./distribution-editor";
 import type { Lane, RateFactor } from "@shared/schema";
+import { DISTRIBUTION_SPECS, isDistributionType } from "@shared/distributions";
+import { FACTOR_CENTRE_PARAMETERS, getFactorDistribution } from "@shared/monte-carlo";
 import { Settings, TrendingUp } from "lucide-react";
 
 interface RateSimulatorProps {
@@ -36,13 +38,7 @@ export function RateSimulator({ lane, onFactorChange }: RateSimulatorProps) {
   };
 
   const getDistributionLabel = (distribution: string) => {
-    switch (distribution) {
-      case 'normal': return 'Normal';
-      case 'lognormal': return 'Log-Normal';
-      case 'triangle': return 'Triangular';
-      case 'exponential': return 'Exponential';
-      default: return distribution;
-    }
+    return isDistributionType(distribution) ? DISTRIBUTION_SPECS[distribution].label : distribution;
   };
 
   return (
@@ -72,145 +68,75 @@ export function RateSimulator({ lane, onFactorChange }: RateSimulatorProps) {
           </Badge>
         </div>
 
-        {factors.map((factor, index) => (
-          <Card key={index} className={factor.enabled ? 'border-primary/20' : 'border-border'}>
-            <CardHeader className="pb-3">
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-3">
-                  <Switch
-                    checked={factor.enabled}
-                    onCheckedChange={(enabled) => updateFactor(index, { enabled })}
-                    data-testid={`switch-factor-${index}`}
-                  />
-                  <div>
-                    <p className="font-medium text-foreground">{factor.name}</p>
-                    <p className="text-xs text-muted-foreground">
-                      {getDistributionLabel(factor.distribution)} distribution
-                    </p>
-                  </div>
-                </div>
-                <div className="text-right">
-                  <p className={`text-sm font-medium ${factor.enabled ? 'text-foreground' : 'text-muted-foreground'}`}>
-                    {getFactorImpact(factor) > 0 ? '+' : ''}{getFactorImpact(factor).toFixed(1)}%
-                  </p>
-                  <p className="text-xs text-muted-foreground">
-                    Multiplier: {factor.meanMultiplier.toFixed(3)}
-                  </p>
-                </div>
-              </div>
-            </CardHeader>
-            
-            {factor.enabled && (
-              <CardContent className="pt-0">
-                <div className="space-y-4">
-                  {/* Mean Multiplier Slider */}
-                  <div className="space-y-2">
-                    <Label className="text-xs text-muted-foreground">Mean Multiplier</Label>
-                    <Slider
-                      value={[factor.meanMultiplier]}
-                      onValueChange={([value]) => updateFactor(index, { meanMultiplier: value })}
-                      min={0.5}
-                      max={2.0}
-                      step={0.01}
-                      className="w-full"
-                      data-testid={`slider-multiplier-${index}`}
+        {factors.map((factor, index) => {
+          const centreParameter = FACTOR_CENTRE_PARAMETERS[factor.distribution];
+
+          return (
+            <Card key={index} className={factor.enabled ? 'border-primary/20' : 'border-border'}>
+              <CardHeader className="pb-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <Switch
+                      checked={factor.enabled}
+                      onCheckedChange={(enabled) => updateFactor(index, { enabled })}
+                      data-testid={`switch-factor-${index}`}
                     />
-                    <div className="flex justify-between text-xs text-muted-foreground">
-                      <span>0.5x</span>
-                      <span>{factor.meanMultiplier.toFixed(3)}x</span>
-                      <span>2.0x</span>
+                    <div>
+                      <p className="font-medium text-foreground">{factor.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {getDistributionLabel(factor.distribution)} distribution
+                      </p>
                     </div>
                   </div>
-
-                  {/* Distribution Selection */}
-                  <div className="space-y-2">
-                    <Label className="text-xs text-muted-foreground">Distribution Type</Label>
-                    <Select
-                      value={factor.distribution}
-                      onValueChange={(value) => updateFactor(index, { distribution: value as any })}
-                    >
-                      <SelectTrigger className="h-8" data-testid={`select-distribution-${index}`}>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="normal">Normal</SelectItem>
-                        <SelectItem value="lognormal">Log-Normal</SelectItem>
-                        <SelectItem value="triangle">Triangular</SelectItem>
-                        <SelectItem value="exponential">Exponential</SelectItem>
-                      </SelectContent>
-                    </Select>
+                  <div className="text-right">
+                    <p className={`text-sm font-medium ${factor.enabled ? 'text-foreground' : 'text-muted-foreground'}`}>
+                      {getFactorImpact(factor) > 0 ? '+' : ''}{getFactorImpact(factor).toFixed(1)}%
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Multiplier: {factor.meanMultiplier.toFixed(3)}
+                    </p>
                   </div>
-
-                  {/* Distribution Parameters */}
-                  {factor.distribution === 'normal' && (
+                </div>
+              </CardHeader>
+              
+              {factor.enabled && (
+                <CardContent className="pt-0">
+                  <div className="space-y-4">
+                    {/* Mean Multiplier Slider */}
                     <div className="space-y-2">
-                      <Label className="text-xs text-muted-foreground">Standard Deviation</Label>
+                      <Label className="text-xs text-muted-foreground">Mean Multiplier</Label>
                       <Slider
-                        value={[factor.parameters.stdDev || 0.02]}
-                        onValueChange={([value]) => updateFactor(index, { 
-                          parameters: { ...factor.parameters, stdDev: value }
-                        })}
-                        min={0.001}
-                        max={0.1}
-                        step={0.001}
+                        value={[factor.meanMultiplier]}
+                        onValueChange={([value]) => updateFactor(index, { meanMultiplier: value })}
+                        min={0.5}
+                        max={2.0}
+                        step={0.01}
                         className="w-full"
-                        data-testid={`slider-stddev-${index}`}
+                        data-testid={`slider-multiplier-${index}`}
                       />
-                      <div className="text-xs text-muted-foreground">
-                        σ = {(factor.parameters.stdDev || 0.02).toFixed(3)}
+                      <div className="flex justify-between text-xs text-muted-foreground">
+                        <span>0.5x</span>
+                        <span>{factor.meanMultiplier.toFixed(3)}x</span>
+                        <span>2.0x</span>
                       </div>
                     </div>
-                  )}
 
-                  {factor.distribution === 'triangle' && (
-                    <div className="grid grid-cols-3 gap-2">
-                      <div className="space-y-1">
-                        <Label className="text-xs text-muted-foreground">Min</Label>
-                        <Slider
-                          value={[factor.parameters.min || factor.meanMultiplier * 0.9]}
-                          onValueChange={([value]) => updateFactor(index, { 
-                            parameters: { ...factor.parameters, min: value }
-                          })}
-                          min={0.5}
-                          max={factor.meanMultiplier}
-                          step={0.01}
-                          className="w-full"
-                          data-testid={`slider-min-${index}`}
-                        />
-                        <div className="text-xs text-center text-muted-foreground">
-                          {(factor.parameters.min || factor.meanMultiplier * 0.9).toFixed(2)}
-                        </div>
-                      </div>
-                      <div className="space-y-1">
-                        <Label className="text-xs text-muted-foreground">Mode</Label>
-                        <div className="h-6 flex items-center justify-center">
-                          <span className="text-xs font-medium">{factor.meanMultiplier.toFixed(2)}</span>
-                        </div>
-                      </div>
-                      <div className="space-y-1">
-                        <Label className="text-xs text-muted-foreground">Max</Label>
-                        <Slider
-                          value={[factor.parameters.max || factor.meanMultiplier * 1.1]}
-                          onValueChange={([value]) => updateFactor(index, { 
-                            parameters: { ...factor.parameters, max: value }
-                          })}
-                          min={factor.meanMultiplier}
-                          max={2.0}
-                          step={0.01}
-                          className="w-full"
-                          data-testid={`slider-max-${index}`}
-                        />
-                        <div className="text-xs text-center text-muted-foreground">
-                          {(factor.parameters.max || factor.meanMultiplier * 1.1).toFixed(2)}
-                        </div>
-                      </div>
-                    </div>
-                  )}
-                </div>
-              </CardContent>
-            )}
-          </Card>
-        ))}
+                    {/* Distribution and Parameters */}
+                    <DistributionEditor
+                      config={factor}
+                      resolved={getFactorDistribution(factor)}
+                      center={factor.meanMultiplier}
+                      hiddenParameters={centreParameter ? [centreParameter] : []}
+                      unit="x"
+                      testId={String(index)}
+                      onChange={(updates) => updateFactor(index, updates)}
+                    />
+                  </div>
+                </CardContent>
+              )}
+            </Card>
+          );
+        })}
       </div>
 
       {/* Predicted Rate Summary */}
@@ -1,19 +1,23 @@
 import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Slider } from "@/components/ui/slider";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
-import { Progress } from "@/components/ui/progress";
+import { DistributionEditor } from "./distribution-editor";
 import type { TransitSegment, CongestionScenario } from "@shared/schema";
-import { Clock, MapPin, AlertTriangle } from "lucide-react";
+import { DISTRIBUTION_SPECS, distributionQuantile, isDistributionType } from "@shared/distributions";
+import { getSegmentDistribution } from "@shared/monte-carlo";
+import { Clock, MapPin } from "lucide-react";
 
 interface TransitSimulatorProps {
   segments: TransitSegment[];
   onSegmentChange: (segments: TransitSegment[]) => void;
+  departureWeek?: number;
 }
 
-export function TransitSimulator({ segments: initialSegments, onSegmentChange }: TransitSimulatorProps) {
+const OUTLOOK_WEEKS = 5;
+
+export function TransitSimulator({ segments: initialSegments, onSegmentChange, departureWeek = 0 }: TransitSimulatorProps) {
   const [segments, setSegments] = useState<TransitSegment[]>(initialSegments as TransitSegment[]);
 
   const updateSegment = (index: number, updates: Partial<TransitSegment>) => {
@@ -27,22 +31,18 @@ export function TransitSimulator({ segments: initialSegments, onSegmentChange }:
     return segments.reduce((total, segment) => total + segment.baselineDays, 0);
   };
 
+  // Spread above the median from the segment's actual distribution
+  const getSegmentVariance = (segment: TransitSegment) => {
+    const definition = getSegmentDistribution(segment);
+    return Math.max(0, distributionQuantile(definition, 0.9) - distributionQuantile(definition, 0.5));
+  };
+
   const getTotalWithVariance = () => {
-    return segments.reduce((total, segment) => {
-      const variance = segment.distribution === 'normal' 
-        ? (segment.parameters.stdDev || 0.5) 
-        : segment.baselineDays * 0.2;
-      return total + segment.baselineDays + variance;
-    }, 0);
+    return segments.reduce((total, segment) => total + segment.baselineDays + getSegmentVariance(segment), 0);
   };
 
   const getDistributionLabel = (distribution: string) => {
-    switch (distribution) {
-      case 'normal': return 'Normal';
-      case 'lognormal': return 'Log-Normal';
-      case 'exponential': return 'Exponential';
-      default: return distribution;
-    }
+    return isDistributionType(distribution) ? DISTRIBUTION_SPECS[distribution].label : distribution;
   };
 
   const getRiskLevel = (variance: number, baseline: number) => {
@@ -52,27 +52,33 @@ export function TransitSimulator({ segments: initialSegments, onSegmentChange }:
     return { level: 'High', color: 'bg-red-500' };
   };
 
-  // Mock congestion scenarios for demonstration
-  const congestionScenarios: CongestionScenario[] = [
-    {
-      name: "Normal Operations",
-      probability: 70,
-      delayPattern: [0, 0, 0, 0, 0],
-      description: "Standard port operations with minimal delays"
-    },
-    {
-      name: "Gradual Congestion",
-      probability: 20,
-      delayPattern: [1, 3, 5, 3, 1],
-      description: "Progressive delays building over 2-3 weeks"
-    },
-    {
-      name: "Major Disruption",
-      probability: 10,
-      delayPattern: [10, 8, 6, 4, 2],
-      description: "Significant delays due to weather or strikes"
-    }
-  ];
+  const updateScenario = (segmentIndex: number, scenarioIndex: number, updates: Partial<CongestionScenario>) => {
+    const scenarios = [...segments[segmentIndex].congestionScenarios];
+    scenarios[scenarioIndex] = { ...scenarios[scenarioIndex], ...updates };
+    updateSegment(segmentIndex, { congestionScenarios: scenarios });
+  };
+
+  const segmentsWithScenarios = segments
+    .map((segment, index) => ({ segment, index }))
+    .filter(({ segment }) => segment.congestionScenarios?.length > 0);
+
+  // Probability-weighted congestion delay per departure week, matching how the simulation applies delayPattern
+  const outlookWeeks = Array.from({ length: OUTLOOK_WEEKS }, (_, week) => {
+    const expectedDelay = segmentsWithScenarios.reduce((total, { segment }) => {
+      return total + segment.congestionScenarios.reduce((sum, scenario) => {
+        const pattern = scenario.delayPattern || [];
+        const delay = pattern.length > 0 ? pattern[Math.min(week, pattern.length - 1)] || 0 : 0;
+        return sum + (scenario.probability / 100) * delay;
+      }, 0);
+    }, 0);
+    return { week, expectedDelay };
+  });
+
+  const getOutlookColor = (expectedDelay: number) => {
+    if (expectedDelay < 0.5) return 'bg-green-100 text-green-800';
+    if (expectedDelay < 1.5) return 'bg-yellow-100 text-yellow-800';
+    return 'bg-red-100 text-red-800';
+  };
 
   return (
     <div className="space-y-4" data-testid="transit-simulator">
@@ -104,9 +110,7 @@ export function TransitSimulator({ segments: initialSegments, onSegmentChange }:
         <h4 className="text-sm font-medium text-foreground">Transit Segments</h4>
 
         {segments.map((segment, index) => {
-          const variance = segment.distribution === 'normal' 
-            ? (segment.parameters.stdDev || 0.5) 
-            : segment.baselineDays * 0.2;
+          const variance = getSegmentVariance(segment);
           const risk = getRiskLevel(variance, segment.baselineDays);
 
           return (
@@ -155,84 +159,15 @@ export function TransitSimulator({ segments: initialSegments, onSegmentChange }:
                     </div>
                   </div>
 
-                  {/* Distribution Selection */}
-                  <div className="space-y-2">
-                    <Label className="text-xs text-muted-foreground">Distribution Type</Label>
-                    <Select
-                      value={segment.distribution}
-                      onValueChange={(value) => updateSegment(index, { distribution: value as any })}
-                    >
-                      <SelectTrigger className="h-8" data-testid={`select-distribution-${index}`}>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="normal">Normal</SelectItem>
-                        <SelectItem value="lognormal">Log-Normal</SelectItem>
-                        <SelectItem value="exponential">Exponential</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-
-                  {/* Distribution Parameters */}
-                  {segment.distribution === 'normal' && (
-                    <div className="space-y-2">
-                      <Label className="text-xs text-muted-foreground">Standard Deviation (days)</Label>
-                      <Slider
-                        value={[segment.parameters.stdDev || 0.5]}
-                        onValueChange={([value]) => updateSegment(index, { 
-                          parameters: { ...segment.parameters, stdDev: value }
-                        })}
-                        min={0.1}
-                        max={5.0}
-                        step={0.1}
-                        className="w-full"
-                        data-testid={`slider-stddev-${index}`}
-                      />
-                      <div className="text-xs text-muted-foreground">
-                        σ = {(segment.parameters.stdDev || 0.5).toFixed(1)} days
-                      </div>
-                    </div>
-                  )}
-
-                  {segment.distribution === 'lognormal' && (
-                    <div className="space-y-2">
-                      <Label className="text-xs text-muted-foreground">Shape Parameter (σ)</Label>
-                      <Slider
-                        value={[segment.parameters.sigma || 0.2]}
-                        onValueChange={([value]) => updateSegment(index, { 
-                          parameters: { ...segment.parameters, sigma: value }
-                        })}
-                        min={0.05}
-                        max={1.0}
-                        step={0.05}
-                        className="w-full"
-                        data-testid={`slider-sigma-${index}`}
-                      />
-                      <div className="text-xs text-muted-foreground">
-                        σ = {(segment.parameters.sigma || 0.2).toFixed(2)}
-                      </div>
-                    </div>
-                  )}
-
-                  {(segment.distribution as string) === 'exponential' && (
-                    <div className="space-y-2">
-                      <Label className="text-xs text-muted-foreground">Rate Parameter (λ)</Label>
-                      <Slider
-                        value={[segment.parameters.lambda || 1.0]}
-                        onValueChange={([value]) => updateSegment(index, { 
-                          parameters: { ...segment.parameters, lambda: value }
-                        })}
-                        min={0.1}
-                        max={5.0}
-                        step={0.1}
-                        className="w-full"
-                        data-testid={`slider-lambda-${index}`}
-                      />
-                      <div className="text-xs text-muted-foreground">
-                        λ = {(segment.parameters.lambda || 1.0).toFixed(1)}
-                      </div>
-                    </div>
-                  )}
+                  {/* Distribution and Parameters */}
+                  <DistributionEditor
+                    config={segment}
+                    resolved={getSegmentDistribution(segment)}
+                    center={segment.baselineDays}
+                    unit=" days"
+                    testId={String(index)}
+                    onChange={(updates) => updateSegment(index, updates)}
+                  />
 
                   {/* Variance Indicator */}
                   <div className="pt-2 border-t border-border">
@@ -256,31 +191,64 @@ export function TransitSimulator({ segments: initialSegments, onSegmentChange }:
           <CardTitle className="text-base">Congestion Scenarios</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="space-y-4">
-            {congestionScenarios.map((scenario, index) => (
-              <div key={index} className="p-3 border border-border rounded-md">
-                <div className="flex items-center justify-between mb-2">
-                  <span className="font-medium text-foreground">{scenario.name}</span>
-                  <span className={`text-sm ${
-                    scenario.probability >= 50 ? 'text-blue-600' : 
-                    scenario.probability >= 20 ? 'text-yellow-600' : 'text-red-600'
-                  }`}>
-                    {scenario.probability}% probability
-                  </span>
-                </div>
-                <Progress 
-                  value={scenario.probability} 
-                  className="h-2 mb-2" 
-                />
-                <p className="text-xs text-muted-foreground">{scenario.description}</p>
-                {scenario.delayPattern.some(delay => delay > 0) && (
-                  <div className="mt-2 text-xs text-muted-foreground">
-                    Max delays: {Math.max(...scenario.delayPattern)} days
+          {segmentsWithScenarios.length === 0 ? (
+            <p className="text-sm text-muted-foreground" data-testid="congestion-scenarios-empty">
+              No congestion scenarios configured for this lane
+            </p>
+          ) : (
+            <div className="space-y-6">
+              {segmentsWithScenarios.map(({ segment, index: segmentIndex }) => {
+                const totalProbability = segment.congestionScenarios.reduce((sum, scenario) => sum + scenario.probability, 0);
+                return (
+                  <div key={segmentIndex} className="space-y-3" data-testid={`congestion-segment-${segmentIndex}`}>
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-foreground">{segment.name}</span>
+                      {totalProbability < 100 && (
+                        <span className="text-xs text-muted-foreground">
+                          No congestion: {(100 - totalProbability).toFixed(0)}%
+                        </span>
+                      )}
+                    </div>
+                    {segment.congestionScenarios.map((scenario, scenarioIndex) => (
+                      <div key={scenarioIndex} className="p-3 border border-border rounded-md">
+                        <div className="flex items-center justify-between mb-2">
+                          <span className="font-medium text-foreground">{scenario.name}</span>
+                          <span className={`text-sm ${
+                            scenario.probability >= 50 ? 'text-blue-600' : 
+                            scenario.probability >= 20 ? 'text-yellow-600' : 'text-red-600'
+                          }`}>
+                            {scenario.probability}% probability
+                          </span>
+                        </div>
+                        <Slider
+                          value={[scenario.probability]}
+                          onValueChange={([value]) => updateScenario(segmentIndex, scenarioIndex, { probability: value })}
+                          min={0}
+                          max={100}
+                          step={1}
+                          className="w-full mb-2"
+                          data-testid={`slider-congestion-${segmentIndex}-${scenarioIndex}`}
+                        />
+                        <p className="text-xs text-muted-foreground">{scenario.description}</p>
+                        {scenario.delayPattern.some(delay => delay > 0) && (
+                          <div className="mt-2 flex gap-1 text-xs">
+                            {scenario.delayPattern.map((delay, week) => (
+                              <Badge
+                                key={week}
+                                variant={week === Math.min(departureWeek, scenario.delayPattern.length - 1) ? 'default' : 'outline'}
+                              >
+                                W{week + 1}: +{delay}d
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    ))}
                   </div>
-                )}
-              </div>
-            ))}
-          </div>
+                );
+              })}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -290,13 +258,23 @@ export function TransitSimulator({ segments: initialSegments, onSegmentChange }:
           <CardTitle className="text-base">5-Week Outlook</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="h-32 bg-muted/20 rounded-md flex items-center justify-center">
-            <div className="text-center">
-              <AlertTriangle className="h-8 w-8 text-muted-foreground mx-auto mb-2" />
-              <p className="text-sm text-muted-foreground">Delay probability calendar</p>
-              <p className="text-xs text-muted-foreground">Visual heat map would be implemented here</p>
-            </div>
+          <div className="grid grid-cols-5 gap-2" data-testid="congestion-outlook">
+            {outlookWeeks.map(({ week, expectedDelay }) => (
+              <div
+                key={week}
+                className={`rounded-md p-3 text-center ${getOutlookColor(expectedDelay)} ${
+                  week === departureWeek ? 'ring-2 ring-primary' : ''
+                }`}
+              >
+                <p className="text-xs font-medium">Week {week + 1}</p>
+                <p className="text-lg font-bold">+{expectedDelay.toFixed(1)}</p>
+                <p className="text-xs">days expected</p>
+              </div>
+            ))}
           </div>
+          <p className="text-xs text-muted-foreground mt-2">
+            Expected congestion delay by departure week, weighted by scenario probability
+          </p>
         </CardContent>
       </Card>
     </div>
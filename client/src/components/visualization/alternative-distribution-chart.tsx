@@ -0,0 +1,85 @@
+import { useMemo } from "react";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine, ResponsiveContainer } from "recharts";
+import { generateHistogram } from "@shared/statistics";
+import { StreamingSummary, type StreamingSummaryData } from "@shared/streaming-summary";
+
+const SERIES_COLORS = ['hsl(var(--primary))', '#f59e0b', '#3b82f6', '#10b981', '#8b5cf6', '#ef4444', '#06b6d4'];
+const NUM_BINS = 40;
+
+export interface DistributionSeries {
+  key: string;
+  name: string;
+  sketch: StreamingSummaryData;
+}
+
+interface AlternativeDistributionChartProps {
+  series: DistributionSeries[];
+  formatValue: (value: number) => string;
+  referenceValue?: number; // e.g. an arrival deadline
+  referenceLabel?: string;
+}
+
+// Overlays several distributions on shared bins so their shapes can be compared directly
+export function AlternativeDistributionChart({ series, formatValue, referenceValue, referenceLabel }: AlternativeDistributionChartProps) {
+  const chartData = useMemo(() => {
+    const summaries = series.map(s => StreamingSummary.fromJSON(s.sketch));
+    const populated = summaries.filter(summary => summary.size > 0);
+    if (populated.length === 0) return [];
+
+    // Clip to the P0.5-P99.5 envelope so one long tail does not flatten the rest
+    const min = Math.min(...populated.map(summary => summary.quantile(0.005)));
+    const max = Math.max(...populated.map(summary => summary.quantile(0.995)));
+    if (!(max > min)) return [];
+
+    const histograms = summaries.map(summary => summary.size > 0 ? generateHistogram(summary, NUM_BINS, { min, max }) : null);
+    return Array.from({ length: NUM_BINS }, (_, i) => {
+      const binStart = min + (i * (max - min)) / NUM_BINS;
+      const row: Record<string, number> = { value: binStart + (max - min) / NUM_BINS / 2 };
+      series.forEach((s, j) => {
+        row[s.key] = (histograms[j]?.[i]?.frequency ?? 0) * 100;
+      });
+      return row;
+    });
+  }, [series]);
+
+  if (chartData.length === 0) {
+    return <div className="text-sm text-muted-foreground">No distribution data</div>;
+  }
+
+  return (
+    <div className="h-64">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={chartData} margin={{ top: 5, right: 10, bottom: 5, left: 10 }}>
+          <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+          <XAxis
+            dataKey="value"
+            type="number"
+            domain={["dataMin", "dataMax"]}
+            tickFormatter={formatValue}
+            tick={{ fontSize: 11 }}
+          />
+          <YAxis tickFormatter={(value: number) => `${value.toFixed(0)}%`} tick={{ fontSize: 11 }} width={45} />
+          <Tooltip
+            formatter={(value: number, name: string) => [`${value.toFixed(1)}%`, name]}
+            labelFormatter={(value: number) => formatValue(value)}
+          />
+          <Legend />
+          {referenceValue !== undefined && (
+            <ReferenceLine x={referenceValue} stroke="#ef4444" strokeDasharray="4 4" label={referenceLabel} />
+          )}
+          {series.map((s, i) => (
+            <Line
+              key={s.key}
+              dataKey={s.key}
+              name={s.name}
+              stroke={SERIES_COLORS[i % SERIES_COLORS.length]}
+              dot={false}
+              strokeWidth={2}
+              isAnimationActive={false}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
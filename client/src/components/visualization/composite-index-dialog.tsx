@@ -0,0 +1,265 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { CompositeIndex, CompositeIndexComponent, InsertCompositeIndex, MarketIndex } from "@shared/schema";
+import { componentLabel, componentShares } from "@shared/composite-index";
+import { Layers, Plus, Edit, Trash2 } from "lucide-react";
+
+interface CompositeIndexDialogProps {
+  indices: MarketIndex[]; // Stored indices only: composites cannot be components
+  composites: CompositeIndex[];
+}
+
+interface ComponentRow {
+  code: string;
+  weight: string;
+  lagDays: string;
+}
+
+const emptyRow = (code: string): ComponentRow => ({ code, weight: "", lagDays: "0" });
+
+// "60% SCFI + 40% WCI (lag 7d)": weights as the shares the composite applies
+function describeBlend(components: CompositeIndexComponent[]): string {
+  const shares = componentShares(components);
+  return components.map((component, i) => `${Math.round(shares[i] * 1000) / 10}% ${componentLabel(component)}`).join(" + ");
+}
+
+// Define, edit and delete weighted, lagged blends of stored indices
+export function CompositeIndexDialog({ indices, composites }: CompositeIndexDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [name, setName] = useState("");
+  const [rows, setRows] = useState<ComponentRow[]>([emptyRow(indices[0]?.code ?? "")]);
+  const { toast } = useToast();
+
+  const resetForm = () => {
+    setEditing(null);
+    setCode("");
+    setName("");
+    setRows([emptyRow(indices[0]?.code ?? "")]);
+  };
+
+  const editComposite = (composite: CompositeIndex) => {
+    setEditing(composite.code);
+    setCode(composite.code);
+    setName(composite.name);
+    setRows((composite.components as CompositeIndexComponent[]).map(component => ({
+      code: component.code,
+      weight: String(component.weight),
+      lagDays: String(component.lagDays)
+    })));
+  };
+
+  const onSuccess = (description: string) => {
+    queryClient.invalidateQueries({ queryKey: ['/api/composite-indices'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/indices'] });
+    toast({ title: "Success", description });
+  };
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive"
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (composite: InsertCompositeIndex) => {
+      const response = editing
+        ? await apiRequest('PATCH', `/api/composite-indices/${editing}`, { name: composite.name, components: composite.components })
+        : await apiRequest('POST', '/api/composite-indices', composite);
+      return response.json() as Promise<CompositeIndex>;
+    },
+    onSuccess: (composite) => {
+      onSuccess(`${composite.code} ${editing ? 'updated' : 'created'}`);
+      resetForm();
+    },
+    onError: onError("Failed to save composite index")
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (compositeCode: string) => {
+      await apiRequest('DELETE', `/api/composite-indices/${compositeCode}`);
+      return compositeCode;
+    },
+    onSuccess: (compositeCode) => {
+      onSuccess(`${compositeCode} deleted`);
+      if (editing === compositeCode) resetForm();
+    },
+    onError: onError("Failed to delete composite index")
+  });
+
+  const updateRow = (i: number, updates: Partial<ComponentRow>) =>
+    setRows(rows.map((row, j) => (j === i ? { ...row, ...updates } : row)));
+
+  const components = rows.map(row => ({ code: row.code, weight: Number(row.weight), lagDays: Number(row.lagDays) }));
+  const isValid = code.trim() !== ""
+    && name.trim() !== ""
+    && components.every(component => component.code && component.weight > 0 && Number.isInteger(component.lagDays) && component.lagDays >= 0);
+  const weightSum = components.reduce((sum, component) => sum + (component.weight || 0), 0);
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => { setOpen(value); if (!value) resetForm(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-composite-indices">
+          <Layers className="h-4 w-4 mr-2" />
+          Composites
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Composite Indices</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {composites.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Blend</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {composites.map(composite => (
+                  <TableRow key={composite.code} data-testid={`row-composite-${composite.code}`}>
+                    <TableCell>
+                      <div className="font-medium">{composite.code}</div>
+                      <div className="text-xs text-muted-foreground">{composite.name}</div>
+                    </TableCell>
+                    <TableCell className="text-sm font-mono">
+                      {describeBlend(composite.components as CompositeIndexComponent[])}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2 justify-end">
+                        <Button variant="ghost" size="sm" onClick={() => editComposite(composite)} data-testid={`button-edit-composite-${composite.code}`}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteMutation.mutate(composite.code)}
+                          disabled={deleteMutation.isPending}
+                          data-testid={`button-delete-composite-${composite.code}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <div className="space-y-4 border-t pt-4">
+            <h4 className="font-medium">{editing ? `Edit ${editing}` : "New composite"}</h4>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="composite-code">Code</Label>
+                <Input
+                  id="composite-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value.toUpperCase())}
+                  disabled={!!editing}
+                  placeholder="e.g. TPBLEND"
+                  data-testid="input-composite-code"
+                />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="composite-name">Name</Label>
+                <Input
+                  id="composite-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Transpacific Blend"
+                  data-testid="input-composite-name"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="grid grid-cols-[1fr_7rem_7rem_2.5rem] gap-2 text-sm font-medium">
+                <span>Index</span>
+                <span>Weight</span>
+                <span>Lag (days)</span>
+                <span></span>
+              </div>
+              {rows.map((row, i) => (
+                <div key={i} className="grid grid-cols-[1fr_7rem_7rem_2.5rem] gap-2">
+                  <Select value={row.code} onValueChange={(value) => updateRow(i, { code: value })}>
+                    <SelectTrigger data-testid={`select-component-${i}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {indices.map(index => (
+                        <SelectItem key={index.code} value={index.code}>{index.code}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    step="0.05"
+                    min="0"
+                    value={row.weight}
+                    onChange={(e) => updateRow(i, { weight: e.target.value })}
+                    placeholder="0.6"
+                    data-testid={`input-component-weight-${i}`}
+                  />
+                  <Input
+                    type="number"
+                    step="1"
+                    min="0"
+                    value={row.lagDays}
+                    onChange={(e) => updateRow(i, { lagDays: e.target.value })}
+                    data-testid={`input-component-lag-${i}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setRows(rows.filter((_, j) => j !== i))}
+                    disabled={rows.length === 1}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <div className="flex items-center justify-between">
+                <Button variant="outline" size="sm" onClick={() => setRows([...rows, emptyRow(indices[0]?.code ?? "")])} disabled={rows.length >= 10}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Component
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  {weightSum > 0 ? describeBlend(components.filter(component => component.weight > 0)) : "Weights are relative and rescaled to 100%"}
+                </span>
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <Button
+                onClick={() => saveMutation.mutate({ code: code.trim(), name: name.trim(), components })}
+                disabled={!isValid || saveMutation.isPending}
+                data-testid="button-save-composite"
+              >
+                {editing ? "Save" : "Create"}
+              </Button>
+              {editing && (
+                <Button variant="outline" onClick={resetForm}>Cancel</Button>
+              )}
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
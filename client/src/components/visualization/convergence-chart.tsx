@@ -0,0 +1,112 @@
+import { useMemo } from "react";
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceArea, ResponsiveContainer } from "recharts";
+import { Badge } from "@/components/ui/badge";
+import { MC_ERROR_Z, type ConvergencePoint } from "@shared/convergence";
+
+interface ConvergenceChartProps {
+  points: ConvergencePoint[];
+  tolerance?: number;
+  converged?: boolean;
+  stoppedEarly?: boolean;
+}
+
+export function ConvergenceChart({ points, tolerance, converged, stoppedEarly }: ConvergenceChartProps) {
+  const chartData = useMemo(() => points.map(point => ({
+    iterations: point.iterations,
+    p90: point.p90,
+    mean: point.mean,
+    // Range areas for the 95% Monte Carlo error bands
+    p90Band: [point.p90 - MC_ERROR_Z * point.p90StandardError, point.p90 + MC_ERROR_Z * point.p90StandardError],
+    meanBand: [point.mean - MC_ERROR_Z * point.standardError, point.mean + MC_ERROR_Z * point.standardError]
+  })), [points]);
+
+  const last = points[points.length - 1];
+
+  if (!last) {
+    return (
+      <div className="text-sm text-muted-foreground" data-testid="convergence-chart-empty">
+        Convergence data appears once the first batch completes
+      </div>
+    );
+  }
+
+  const p90Error = MC_ERROR_Z * last.p90StandardError;
+  const relativeError = last.p90 !== 0 ? (p90Error / Math.abs(last.p90)) * 100 : 0;
+  const formatCurrency = (value: number) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+  return (
+    <div className="space-y-3" data-testid="convergence-chart">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium">Convergence (Landed Cost)</h4>
+        <div className="flex items-center gap-2">
+          {tolerance !== undefined && (
+            <Badge variant={converged ? 'default' : 'outline'}>
+              {converged ? 'Converged' : 'Not converged'} at ±{(tolerance * 100).toFixed(2)}%
+            </Badge>
+          )}
+          {stoppedEarly && (
+            <Badge variant="secondary">Stopped at {last.iterations.toLocaleString()} iterations</Badge>
+          )}
+        </div>
+      </div>
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={chartData} margin={{ top: 5, right: 10, bottom: 5, left: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+            <XAxis
+              dataKey="iterations"
+              type="number"
+              scale="log"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={(value: number) => value >= 1000 ? `${(value / 1000).toFixed(0)}k` : String(value)}
+              tick={{ fontSize: 11 }}
+            />
+            <YAxis
+              domain={["auto", "auto"]}
+              tickFormatter={(value: number) => formatCurrency(value)}
+              tick={{ fontSize: 11 }}
+              width={70}
+            />
+            <Tooltip
+              formatter={(value: number | number[], name: string) =>
+                Array.isArray(value)
+                  ? [`${formatCurrency(value[0])} – ${formatCurrency(value[1])}`, name]
+                  : [formatCurrency(value), name]
+              }
+              labelFormatter={(value: number) => `${value.toLocaleString()} iterations`}
+            />
+            <Legend />
+            {tolerance !== undefined && (
+              <ReferenceArea
+                y1={last.p90 * (1 - tolerance)}
+                y2={last.p90 * (1 + tolerance)}
+                fill="#10b981"
+                fillOpacity={0.08}
+              />
+            )}
+            <Area dataKey="p90Band" name="P90 error band" stroke="none" fill="#ef4444" fillOpacity={0.15} isAnimationActive={false} />
+            <Line dataKey="p90" name="P90" stroke="#ef4444" dot={false} strokeWidth={2} isAnimationActive={false} />
+            <Area dataKey="meanBand" name="Mean error band" stroke="none" fill="hsl(var(--primary))" fillOpacity={0.15} isAnimationActive={false} />
+            <Line dataKey="mean" name="Mean" stroke="hsl(var(--primary))" dot={false} strokeWidth={2} isAnimationActive={false} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 text-sm">
+        <div>
+          <div className="text-muted-foreground text-xs">P90 estimate</div>
+          <div className="font-mono">{formatCurrency(last.p90)} ± {formatCurrency(p90Error)}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground text-xs">P90 relative error</div>
+          <div className="font-mono">±{relativeError.toFixed(2)}%</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground text-xs">Mean standard error</div>
+          <div className="font-mono">{formatCurrency(last.standardError)}</div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { useMemo } from "react";
+import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer } from "recharts";
+import { distributionDensity, type DistributionDefinition } from "@shared/distributions";
+
+interface DensityPreviewProps {
+  definition: DistributionDefinition | null;
+  unit?: string;
+  height?: number;
+}
+
+export function DensityPreview({ definition, unit = "", height = 80 }: DensityPreviewProps) {
+  const points = useMemo(() => {
+    if (!definition) return [];
+    try {
+      return distributionDensity(definition);
+    } catch {
+      // Half-edited parameters can be out of range; show nothing until they are valid again
+      return [];
+    }
+  }, [definition]);
+
+  if (points.length === 0) {
+    return (
+      <div
+        className="flex items-center justify-center text-xs text-muted-foreground border border-dashed border-border rounded"
+        style={{ height }}
+      >
+        No preview for these parameters
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ height }} data-testid="density-preview">
+      <ResponsiveContainer width="100%" height="100%">
+        <AreaChart data={points} margin={{ top: 4, right: 4, bottom: 0, left: 4 }}>
+          <XAxis
+            dataKey="value"
+            type="number"
+            domain={["dataMin", "dataMax"]}
+            tickFormatter={(value: number) => value.toFixed(2)}
+            tick={{ fontSize: 10 }}
+            tickCount={5}
+          />
+          <YAxis hide />
+          <Tooltip
+            formatter={(value: number) => [value.toFixed(3), "Density"]}
+            labelFormatter={(value: number) => `${value.toFixed(3)}${unit}`}
+          />
+          <Area
+            type="monotone"
+            dataKey="density"
+            stroke="hsl(var(--primary))"
+            fill="hsl(var(--primary))"
+            fillOpacity={0.2}
+            isAnimationActive={false}
+          />
+        </AreaChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -1,36 +1,38 @@
 import { useMemo } from "react";
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, LineChart, Line } from "recharts";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, LineChart, Line } from "recharts";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import type { SimulationResult } from "@shared/schema";
-import { calculateStatistics } from "@/lib/statistics";
+import { generateHistogram } from "@shared/statistics";
+import { NO_CONGESTION_KEY, type MetricSummary } from "@shared/result-summary";
+
+const NO_CONGESTION = 'No congestion';
+const SCENARIO_COLORS = ['hsl(var(--primary))', '#f59e0b', '#ef4444', '#10b981', '#8b5cf6', '#06b6d4'];
+
+interface ScenarioBreakdown {
+  names: string[];
+  bins: Array<Record<string, number | string>>;
+  summary: Array<{ name: string; share: number; mean: number }>;
+}
 
 interface DistributionChartProps {
-  data: SimulationResult[];
+  data: MetricSummary | null;
   title: string;
   type: 'rate' | 'transit' | 'cost';
   showStatistics?: boolean;
 }
 
 export function DistributionChart({ data, title, type, showStatistics = true }: DistributionChartProps) {
-  const chartData = useMemo(() => {
-    if (!data || !Array.isArray(data) || data.length === 0) return { histogram: [], statistics: null };
+  const sampleCount = data?.overall.size ?? 0;
 
-    const values = data.map(result => {
-      switch (type) {
-        case 'rate': return result.rate;
-        case 'transit': return result.transitDays;
-        case 'cost': return result.totalLandedCost;
-        default: return result.rate;
-      }
-    });
+  const chartData = useMemo(() => {
+    if (!data || data.overall.size === 0) return { histogram: [], statistics: null, scenarioBreakdown: null };
 
-    const statistics = calculateStatistics(values);
+    const total = data.overall.size;
+    const statistics = data.overall.statistics();
 
     // Create histogram bins
     const numBins = 30;
-    const min = Math.min(...values);
-    const max = Math.max(...values);
+    const { min, max } = statistics;
     const range = max - min;
 
     // Handle case where all values are the same (no variance)
@@ -38,44 +40,52 @@ export function DistributionChart({ data, title, type, showStatistics = true }:
       const singleBin = {
         range: `${min.toFixed(2)}`,
         value: min,
-        count: values.length,
+        count: total,
         frequency: 100,
         density: 1
       };
-      return { histogram: [singleBin], statistics };
+      return { histogram: [singleBin], statistics, scenarioBreakdown: null };
     }
 
-    const binWidth = range / numBins;
-
-    const bins = Array.from({ length: numBins }, (_, i) => ({
-      binStart: min + i * binWidth,
-      binEnd: min + (i + 1) * binWidth,
-      count: 0,
-      frequency: 0
-    }));
-
-    // Count values in each bin
-    values.forEach(value => {
-      const binIndex = Math.min(Math.floor((value - min) / binWidth), numBins - 1);
-      bins[binIndex].count++;
-    });
-
-    // Calculate frequencies
-    bins.forEach(bin => {
-      bin.frequency = bin.count / values.length;
-    });
-
     // Format for chart
-    const histogram = bins.map(bin => ({
+    const histogram = generateHistogram(data.overall, numBins).map(bin => ({
       range: `${bin.binStart.toFixed(0)}-${bin.binEnd.toFixed(0)}`,
       value: (bin.binStart + bin.binEnd) / 2,
       count: bin.count,
       frequency: bin.frequency * 100, // Convert to percentage
-      density: binWidth > 0 ? bin.frequency / binWidth : 0
+      density: bin.density
     }));
 
-    return { histogram, statistics };
-  }, [data, type]);
+    // Break the same bins down by the congestion scenario drawn in each iteration
+    let scenarioBreakdown: ScenarioBreakdown | null = null;
+    if (data.hasScenarios) {
+      const scenarios = Array.from(data.byScenario.entries())
+        .map(([key, summary]) => ({ name: key === NO_CONGESTION_KEY ? NO_CONGESTION : key, summary }))
+        .sort((a, b) => b.summary.size - a.summary.size);
+
+      // Each scenario is binned on the overall edges so the stacked bars line up
+      const scenarioHistograms = scenarios.map(({ summary }) => generateHistogram(summary, numBins, { min, max }));
+      const scenarioBins = histogram.map((bin, i) => {
+        const row: Record<string, number | string> = { range: bin.range };
+        scenarios.forEach(({ name, summary }, j) => {
+          row[name] = scenarioHistograms[j][i].frequency * (summary.size / total) * 100;
+        });
+        return row;
+      });
+
+      scenarioBreakdown = {
+        names: scenarios.map(({ name }) => name),
+        bins: scenarioBins,
+        summary: scenarios.map(({ name, summary }) => ({
+          name,
+          share: (summary.size / total) * 100,
+          mean: summary.statistics().mean
+        }))
+      };
+    }
+
+    return { histogram, statistics, scenarioBreakdown };
+  }, [data]);
 
   const getValueFormatter = () => {
     switch (type) {
@@ -103,7 +113,7 @@ export function DistributionChart({ data, title, type, showStatistics = true }:
 
   const formatValue = getValueFormatter();
 
-  if (!data || data.length === 0) {
+  if (sampleCount === 0) {
     return (
       <Card>
         <CardHeader>
@@ -150,7 +160,7 @@ export function DistributionChart({ data, title, type, showStatistics = true }:
           <div className="flex items-center justify-between">
             <CardTitle className="text-base">{title} Distribution</CardTitle>
             <Badge variant="outline">
-              {data.length.toLocaleString()} samples
+              {sampleCount.toLocaleString()} samples
             </Badge>
           </div>
         </CardHeader>
@@ -195,6 +205,64 @@ export function DistributionChart({ data, title, type, showStatistics = true }:
         </CardContent>
       </Card>
 
+      {/* Congestion Scenario Breakdown */}
+      {chartData.scenarioBreakdown && (
+        <Card data-testid="scenario-breakdown-chart">
+          <CardHeader>
+            <CardTitle className="text-base">By Congestion Scenario</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <ResponsiveContainer width="100%" height={250}>
+              <BarChart data={chartData.scenarioBreakdown.bins} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis 
+                  dataKey="range" 
+                  angle={-45}
+                  textAnchor="end"
+                  height={80}
+                  interval="preserveStartEnd"
+                  tick={{ fontSize: 10 }}
+                  stroke="hsl(var(--muted-foreground))"
+                />
+                <YAxis 
+                  tick={{ fontSize: 10 }}
+                  stroke="hsl(var(--muted-foreground))"
+                />
+                <Tooltip 
+                  formatter={(value: any, name: string) => [`${Number(value).toFixed(2)}%`, name]}
+                  labelFormatter={(label) => `Range: ${label}${getUnit()}`}
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--background))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '6px'
+                  }}
+                />
+                <Legend />
+                {chartData.scenarioBreakdown.names.map((name, index) => (
+                  <Bar 
+                    key={name}
+                    dataKey={name}
+                    stackId="scenario"
+                    fill={SCENARIO_COLORS[index % SCENARIO_COLORS.length]}
+                    opacity={0.8}
+                  />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+            <div className="space-y-1 text-sm">
+              {chartData.scenarioBreakdown.summary.map(({ name, share, mean }) => (
+                <div key={name} className="flex justify-between">
+                  <span className="text-muted-foreground">{name}</span>
+                  <span>
+                    {share.toFixed(1)}% of runs • mean {formatValue(mean)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Percentile Lines Chart */}
       {chartData.statistics && (
         <Card>
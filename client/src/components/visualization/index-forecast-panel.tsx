@@ -0,0 +1,187 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { IndexObservation, MarketIndex } from "@shared/schema";
+import {
+  FORECAST_MODEL_LABELS, type FittedForecastModel, type ForecastModelType, type IndexForecastReport
+} from "@shared/index-forecast";
+
+interface IndexForecastPanelProps {
+  indices: MarketIndex[];
+}
+
+const HORIZONS = [30, 60, 90, 180];
+const HISTORY_DAYS = 182; // Shown before the forecast for context
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+const formatValue = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 0 });
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+function describeFit(fit: FittedForecastModel): string {
+  switch (fit.type) {
+    case 'gbm':
+      return `drift ${formatPercent(fit.drift)}/yr · vol ${formatPercent(fit.volatility)}`;
+    case 'ou':
+      return `half-life ${((Math.LN2 / fit.meanReversion) * 52).toFixed(1)}w · level ${formatValue(fit.longRunLevel)} · vol ${formatPercent(fit.volatility)}`;
+    case 'seasonal':
+      return `trend ${formatPercent(fit.trend)}/yr · residual ${formatPercent(fit.residualStdDev)}`;
+  }
+}
+
+// Fan chart of the index forecast with each model's rolling-origin backtest at the same horizon
+export function IndexForecastPanel({ indices }: IndexForecastPanelProps) {
+  const [code, setCode] = useState(indices[0]?.code ?? "");
+  const [horizon, setHorizon] = useState("30");
+  const [viewedModel, setViewedModel] = useState<ForecastModelType | null>(null);
+
+  const from = new Date(Date.now() - HISTORY_DAYS * 86_400_000).toISOString().slice(0, 10);
+  const { data: history } = useQuery<IndexObservation[]>({
+    queryKey: ['/api/indices', code, `history?from=${from}`],
+    enabled: !!code
+  });
+
+  const { data: report, isLoading, error } = useQuery<IndexForecastReport>({
+    queryKey: ['/api/indices', code, `forecast?horizon=${horizon}`],
+    enabled: !!code,
+    retry: false
+  });
+
+  const shownModel = report?.models.find(model => model.model === (viewedModel ?? report.selectedModel)) ?? report?.models[0];
+
+  const chartData = useMemo(() => {
+    const observed = (history ?? []).map(point => ({ date: point.date, value: point.value as number | undefined }));
+    if (!shownModel) return observed;
+    // The first path point is the last observation, so the fan joins the history line
+    const forecast = shownModel.path.map(point => ({
+      date: point.date,
+      value: point.date === shownModel.fit.lastDate ? shownModel.fit.lastValue : undefined,
+      p50: point.p50,
+      band: [point.p10, point.p90]
+    }));
+    return [...observed.filter(point => point.date < shownModel.fit.lastDate), ...forecast];
+  }, [history, shownModel]);
+
+  return (
+    <Card data-testid="index-forecast">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg font-semibold">Index Forecast</CardTitle>
+            {report && shownModel && (
+              <p className="text-sm text-muted-foreground">
+                {FORECAST_MODEL_LABELS[shownModel.model]}: P50 {formatValue(shownModel.forecast.p50)} in {report.horizonDays} days
+                {" "}(P10 {formatValue(shownModel.forecast.p10)} – P90 {formatValue(shownModel.forecast.p90)}) from {formatValue(report.lastValue)} on {formatDate(report.asOf)}
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            <Select value={code} onValueChange={(value) => { setCode(value); setViewedModel(null); }}>
+              <SelectTrigger className="w-40" data-testid="select-forecast-index">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {indices.map(index => (
+                  <SelectItem key={index.code} value={index.code}>{index.code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Tabs value={horizon} onValueChange={setHorizon}>
+              <TabsList>
+                {HORIZONS.map(days => (
+                  <TabsTrigger key={days} value={String(days)} data-testid={`tab-horizon-${days}`}>{days}d</TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="h-64 bg-muted rounded animate-pulse" />
+        ) : !report ? (
+          <div className="h-64 flex items-center justify-center text-sm text-muted-foreground">
+            {error instanceof Error ? error.message : `No forecast for ${code}`}
+          </div>
+        ) : (
+          <>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={chartData} margin={{ top: 5, right: 10, bottom: 5, left: 10 }}>
+                  <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                  <XAxis dataKey="date" tickFormatter={formatDate} tick={{ fontSize: 11 }} minTickGap={24} />
+                  <YAxis domain={["auto", "auto"]} tickFormatter={formatValue} tick={{ fontSize: 11 }} width={60} />
+                  <Tooltip
+                    formatter={(value: number | number[], name: string) =>
+                      Array.isArray(value)
+                        ? [`${formatValue(value[0])} – ${formatValue(value[1])}`, name]
+                        : [formatValue(value), name]
+                    }
+                    labelFormatter={(date: string) => formatDate(date)}
+                  />
+                  <Legend />
+                  <Area dataKey="band" name="P10–P90" stroke="none" fill="hsl(var(--primary))" fillOpacity={0.15} isAnimationActive={false} />
+                  <Line dataKey="value" name={code} stroke="hsl(var(--primary))" dot={false} strokeWidth={2} isAnimationActive={false} />
+                  <Line dataKey="p50" name="Forecast P50" stroke="#f59e0b" strokeDasharray="4 4" dot={false} strokeWidth={2} isAnimationActive={false} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Model</TableHead>
+                  <TableHead>Fit</TableHead>
+                  <TableHead className="text-right">P50</TableHead>
+                  <TableHead className="text-right">MAE</TableHead>
+                  <TableHead className="text-right">RMSE</TableHead>
+                  <TableHead className="text-right">MAPE</TableHead>
+                  <TableHead className="text-right" title="Share of actuals inside the P10–P90 band; about 80% when well calibrated">Coverage</TableHead>
+                  <TableHead className="text-right">Origins</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.models.map(model => (
+                  <TableRow
+                    key={model.model}
+                    className={`cursor-pointer ${model.model === shownModel?.model ? 'bg-muted' : ''}`}
+                    onClick={() => setViewedModel(model.model)}
+                    data-testid={`row-forecast-model-${model.model}`}
+                  >
+                    <TableCell className="font-medium">
+                      {FORECAST_MODEL_LABELS[model.model]}
+                      {model.model === report.selectedModel && <Badge className="ml-2 bg-green-100 text-green-800">BEST</Badge>}
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{describeFit(model.fit)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatValue(model.forecast.p50)}</TableCell>
+                    {model.backtest ? (
+                      <>
+                        <TableCell className="text-right font-mono">{formatValue(model.backtest.mae)}</TableCell>
+                        <TableCell className="text-right font-mono">{formatValue(model.backtest.rmse)}</TableCell>
+                        <TableCell className="text-right font-mono">{model.backtest.mape.toFixed(1)}%</TableCell>
+                        <TableCell className="text-right font-mono">{model.backtest.coverage.toFixed(0)}%</TableCell>
+                        <TableCell className="text-right font-mono">{model.backtest.count}</TableCell>
+                      </>
+                    ) : (
+                      <TableCell colSpan={5} className="text-right text-sm text-muted-foreground">Too little history to backtest</TableCell>
+                    )}
+                  </TableRow>
+                ))}
+                {report.skipped.map(entry => (
+                  <TableRow key={entry.model}>
+                    <TableCell className="font-medium text-muted-foreground">{FORECAST_MODEL_LABELS[entry.model]}</TableCell>
+                    <TableCell colSpan={7} className="text-sm text-muted-foreground">{entry.reason}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
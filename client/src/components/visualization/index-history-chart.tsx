@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { IndexImportDialog } from "@/components/visualization/index-import-dialog";
+import { CompositeIndexDialog } from "@/components/visualization/composite-index-dialog";
+import type { CompositeIndex, CompositeIndexComponent, MarketIndex } from "@shared/schema";
+import type { IndexPoint, IndexVolatility } from "@shared/index-series";
+import { componentLabel, componentShares, type CompositePoint } from "@shared/composite-index";
+
+interface IndexHistoryChartProps {
+  indices: MarketIndex[];
+}
+
+const RANGES = [
+  { key: "3M", label: "3M", days: 91 },
+  { key: "6M", label: "6M", days: 182 },
+  { key: "1Y", label: "1Y", days: 365 },
+  { key: "2Y", label: "2Y", days: 730 }
+];
+
+const COMPONENT_COLORS = ["#f59e0b", "#10b981", "#8b5cf6", "#ef4444", "#06b6d4"];
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+export function IndexHistoryChart({ indices }: IndexHistoryChartProps) {
+  const [code, setCode] = useState(indices[0]?.code ?? "");
+  const [range, setRange] = useState("1Y");
+
+  const days = RANGES.find(r => r.key === range)?.days ?? 365;
+  const from = new Date(Date.now() - days * 86_400_000).toISOString().slice(0, 10);
+
+  const { data: history, isLoading } = useQuery<(IndexPoint & Partial<CompositePoint>)[]>({
+    queryKey: ['/api/indices', code, `history?from=${from}`],
+    enabled: !!code
+  });
+
+  const { data: composites = [] } = useQuery<CompositeIndex[]>({
+    queryKey: ['/api/composite-indices']
+  });
+  const storedIndices = indices.filter(index => !composites.some(composite => composite.code === index.code));
+
+  // A composite is drawn with the lagged component values it was computed from
+  const composite = composites.find(candidate => candidate.code === code);
+  const components = (composite?.components as CompositeIndexComponent[] | undefined) ?? [];
+  const shares = componentShares(components);
+  const chartData = (history ?? []).map(point => ({
+    date: point.date,
+    value: point.value,
+    ...Object.fromEntries((point.components ?? []).map((value, i) => [`component${i}`, value]))
+  }));
+
+  // Errors (too little history) just hide the badge
+  const { data: volatility } = useQuery<IndexVolatility>({
+    queryKey: ['/api/indices', code, `volatility?from=${from}`],
+    enabled: !!code,
+    retry: false
+  });
+
+  return (
+    <Card data-testid="index-history">
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <CardTitle className="text-lg font-semibold">Index History</CardTitle>
+            {volatility && (
+              <p className="text-sm text-muted-foreground">
+                Annualised volatility{" "}
+                <Badge variant="outline" data-testid="text-index-volatility">{(volatility.volatility * 100).toFixed(1)}%</Badge>
+                {" "}from {volatility.observations} observations
+              </p>
+            )}
+          </div>
+          <div className="flex items-center gap-3">
+            <Select value={code} onValueChange={setCode}>
+              <SelectTrigger className="w-40" data-testid="select-history-index">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {indices.map(index => (
+                  <SelectItem key={index.code} value={index.code}>{index.code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Tabs value={range} onValueChange={setRange}>
+              <TabsList>
+                {RANGES.map(r => (
+                  <TabsTrigger key={r.key} value={r.key} data-testid={`tab-range-${r.key}`}>{r.label}</TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+            <CompositeIndexDialog indices={storedIndices} composites={composites} />
+            <IndexImportDialog indices={storedIndices} />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="h-64 bg-muted rounded animate-pulse" />
+        ) : !history?.length ? (
+          <div className="h-64 flex items-center justify-center text-sm text-muted-foreground">
+            No observations for {code} in this range
+          </div>
+        ) : (
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 5, right: 10, bottom: 5, left: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                <XAxis dataKey="date" tickFormatter={formatDate} tick={{ fontSize: 11 }} minTickGap={24} />
+                <YAxis domain={["auto", "auto"]} tickFormatter={(value: number) => value.toLocaleString()} tick={{ fontSize: 11 }} width={60} />
+                <Tooltip
+                  formatter={(value: number, name: string) => [value.toLocaleString(undefined, { maximumFractionDigits: 2 }), name]}
+                  labelFormatter={(date: string) => formatDate(date)}
+                />
+                {components.length > 0 && <Legend />}
+                <Line dataKey="value" name={code} stroke="hsl(var(--primary))" dot={false} strokeWidth={2} isAnimationActive={false} />
+                {components.map((component, i) => (
+                  <Line
+                    key={`${component.code}-${component.lagDays}`}
+                    dataKey={`component${i}`}
+                    name={`${componentLabel(component)}, ${Math.round(shares[i] * 100)}%`}
+                    stroke={COMPONENT_COLORS[i % COMPONENT_COLORS.length]}
+                    strokeDasharray="4 4"
+                    dot={false}
+                    strokeWidth={1}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,268 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { IndexImportRequest, MarketIndex } from "@shared/schema";
+import type { IndexImportReport } from "@shared/index-import";
+import { Upload, AlertTriangle } from "lucide-react";
+
+interface IndexImportDialogProps {
+  indices: MarketIndex[];
+}
+
+const DATE_FORMAT_LABELS: Record<IndexImportRequest['dateFormat'], string> = {
+  auto: 'Detect',
+  ymd: 'Year-month-day',
+  dmy: 'Day/month/year',
+  mdy: 'Month/day/year'
+};
+
+// Upload a CSV or JSON series, preview the validation report, then commit. The commit is only offered for the
+// exact file and options that were previewed.
+export function IndexImportDialog({ indices }: IndexImportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [content, setContent] = useState("");
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [code, setCode] = useState("none");
+  const [dateFormat, setDateFormat] = useState<IndexImportRequest['dateFormat']>("auto");
+  const [preview, setPreview] = useState<IndexImportReport | null>(null);
+  const { toast } = useToast();
+
+  const request = (dryRun: boolean): Partial<IndexImportRequest> => ({
+    content,
+    code: code === "none" ? undefined : code,
+    dateFormat,
+    dryRun
+  });
+
+  const resetPreview = () => setPreview(null);
+
+  const importMutation = useMutation({
+    mutationFn: async (body: Partial<IndexImportRequest>) => {
+      const response = await apiRequest('POST', '/api/indices/import', body);
+      return response.json() as Promise<IndexImportReport>;
+    },
+    onSuccess: (report) => {
+      if (report.dryRun) {
+        setPreview(report);
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ['/api/indices'] });
+      toast({
+        title: "Success",
+        description: `Imported ${report.written.toLocaleString()} observations across ${report.series.length} ${report.series.length === 1 ? 'index' : 'indices'}`
+      });
+      setOpen(false);
+      setContent("");
+      setFileName(null);
+      resetPreview();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to import index file",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setContent(await file.text());
+    setFileName(file.name);
+    resetPreview();
+  };
+
+  const changes = preview ? preview.series.reduce((sum, series) => sum + series.new + series.updated, 0) : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-import-indices">
+          <Upload className="h-4 w-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Index Data</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            CSV or JSON with a date column and either a value column (plus a code column or the index chosen below)
+            or one column per index, e.g. <span className="font-mono">date,SCFI,CCFI,WCI,BDI</span>. Re-importing the
+            same rows changes nothing.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="index-file">File</Label>
+              <Input
+                id="index-file"
+                type="file"
+                accept=".csv,.json,.txt,text/csv,application/json"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+                data-testid="input-index-file"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Index</Label>
+              <Select value={code} onValueChange={(value) => { setCode(value); resetPreview(); }}>
+                <SelectTrigger data-testid="select-import-index">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">From file</SelectItem>
+                  {indices.map(index => (
+                    <SelectItem key={index.code} value={index.code}>{index.code}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Date format</Label>
+              <Select
+                value={dateFormat}
+                onValueChange={(value) => { setDateFormat(value as IndexImportRequest['dateFormat']); resetPreview(); }}
+              >
+                <SelectTrigger data-testid="select-import-date-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(DATE_FORMAT_LABELS) as IndexImportRequest['dateFormat'][]).map(format => (
+                    <SelectItem key={format} value={format}>{DATE_FORMAT_LABELS[format]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="index-content">{fileName ? `Contents of ${fileName}` : "Or paste data"}</Label>
+            <Textarea
+              id="index-content"
+              rows={6}
+              className="font-mono text-xs"
+              value={content}
+              onChange={(e) => { setContent(e.target.value); setFileName(null); resetPreview(); }}
+              placeholder={"date,code,value\n2024-01-05,SCFI,2239.61"}
+              data-testid="textarea-index-content"
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => importMutation.mutate(request(true))}
+              disabled={!content.trim() || importMutation.isPending}
+              data-testid="button-preview-import"
+            >
+              Preview
+            </Button>
+            <Button
+              onClick={() => importMutation.mutate(request(false))}
+              disabled={!preview || changes === 0 || importMutation.isPending}
+              data-testid="button-commit-import"
+            >
+              {preview ? `Import ${changes.toLocaleString()} ${changes === 1 ? 'change' : 'changes'}` : "Import"}
+            </Button>
+          </div>
+
+          {preview && (
+            <div className="space-y-4" data-testid="import-preview">
+              <div className="text-sm text-muted-foreground">
+                {preview.layout.format.toUpperCase()} · {preview.totalRows.toLocaleString()} rows · dates in "{preview.layout.dateColumn}" ({DATE_FORMAT_LABELS[preview.layout.dateOrder].toLowerCase()})
+                {preview.layout.seriesColumns.length > 0
+                  ? ` · index columns ${preview.layout.seriesColumns.join(", ")}`
+                  : ` · values in "${preview.layout.valueColumn}"${preview.layout.codeColumn ? `, codes in "${preview.layout.codeColumn}"` : ""}`}
+              </div>
+
+              {preview.layout.ambiguousDates && (
+                <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    Every date reads as either day/month or month/day. Day/month was assumed; pick the date format if that is wrong.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {preview.series.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Index</TableHead>
+                      <TableHead>Range</TableHead>
+                      <TableHead className="text-right">Rows</TableHead>
+                      <TableHead className="text-right">New</TableHead>
+                      <TableHead className="text-right">Updated</TableHead>
+                      <TableHead className="text-right">Unchanged</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.series.map(series => (
+                      <TableRow key={series.code} data-testid={`row-import-series-${series.code}`}>
+                        <TableCell className="font-medium">{series.code}</TableCell>
+                        <TableCell className="text-sm">{series.from} – {series.to}</TableCell>
+                        <TableCell className="text-right font-mono">{series.rows.toLocaleString()}</TableCell>
+                        <TableCell className="text-right font-mono">{series.new.toLocaleString()}</TableCell>
+                        <TableCell className="text-right font-mono">{series.updated.toLocaleString()}</TableCell>
+                        <TableCell className="text-right font-mono">{series.unchanged.toLocaleString()}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <div className="text-sm text-muted-foreground">No importable rows</div>
+              )}
+
+              {preview.issues.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="font-medium">
+                    {preview.errors} {preview.errors === 1 ? 'error' : 'errors'} (skipped) · {preview.warnings} {preview.warnings === 1 ? 'warning' : 'warnings'}
+                    {preview.errors + preview.warnings > preview.issues.length && ` · first ${preview.issues.length} shown`}
+                  </h4>
+                  <div className="max-h-64 overflow-y-auto border rounded">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-16">Row</TableHead>
+                          <TableHead>Index</TableHead>
+                          <TableHead>Date</TableHead>
+                          <TableHead></TableHead>
+                          <TableHead>Issue</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {preview.issues.map((issue, i) => (
+                          <TableRow key={`${issue.row}-${issue.code}-${i}`}>
+                            <TableCell className="font-mono">{issue.row}</TableCell>
+                            <TableCell>{issue.code ?? '—'}</TableCell>
+                            <TableCell className="font-mono text-xs">{issue.date ?? '—'}</TableCell>
+                            <TableCell>
+                              <Badge variant={issue.severity === 'error' ? 'destructive' : 'outline'}>{issue.severity}</Badge>
+                            </TableCell>
+                            <TableCell className="text-sm">{issue.message}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
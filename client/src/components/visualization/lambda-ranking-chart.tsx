@@ -0,0 +1,77 @@
+import { useMemo } from "react";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine, ResponsiveContainer } from "recharts";
+import { meanVarianceRankings } from "@shared/decision-criteria";
+import type { AlternativeOutcome } from "@shared/alternatives";
+
+const SERIES_COLORS = ['hsl(var(--primary))', '#f59e0b', '#3b82f6', '#10b981', '#8b5cf6', '#ef4444', '#06b6d4'];
+const LAMBDA_STEPS = 40;
+
+interface LambdaRankingChartProps {
+  outcomes: AlternativeOutcome[];
+  lambda?: number; // Marks the currently selected risk aversion
+}
+
+// Mean-variance rank of each outcome as risk aversion grows; crossings are where the preferred option flips
+export function LambdaRankingChart({ outcomes, lambda }: LambdaRankingChartProps) {
+  const { data, lambdaMax } = useMemo(() => {
+    if (outcomes.length === 0) return { data: [], lambdaMax: 0 };
+    const means = outcomes.map(outcome => outcome.costStats.mean);
+    const maxVariance = Math.max(...outcomes.map(outcome => outcome.costStats.variance));
+    // Two options swap at lambda = 2 Δmean / Δvariance; this span covers every swap whose variance gap
+    // is at least half the largest variance, and always includes the selected lambda
+    const spread = Math.max(...means) - Math.min(...means);
+    const max = Math.max(maxVariance > 0 ? (4 * spread) / maxVariance : 0, (lambda ?? 0) * 2, 1e-6);
+    const lambdas = Array.from({ length: LAMBDA_STEPS + 1 }, (_, i) => (i * max) / LAMBDA_STEPS);
+    return { data: meanVarianceRankings(outcomes, lambdas), lambdaMax: max };
+  }, [outcomes, lambda]);
+
+  if (data.length === 0) {
+    return <div className="text-sm text-muted-foreground">No outcomes to rank</div>;
+  }
+
+  const formatLambda = (value: number) => value.toExponential(1);
+
+  return (
+    <div className="h-64">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data} margin={{ top: 5, right: 10, bottom: 5, left: 10 }}>
+          <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+          <XAxis
+            dataKey="lambda"
+            type="number"
+            domain={[0, lambdaMax]}
+            tickFormatter={formatLambda}
+            tick={{ fontSize: 11 }}
+          />
+          <YAxis
+            reversed
+            allowDecimals={false}
+            domain={[1, outcomes.length]}
+            tick={{ fontSize: 11 }}
+            width={30}
+          />
+          <Tooltip
+            formatter={(value: number, name: string) => [`#${value}`, name]}
+            labelFormatter={(value: number) => `λ = ${formatLambda(value)}`}
+          />
+          <Legend />
+          {lambda !== undefined && (
+            <ReferenceLine x={lambda} stroke="#ef4444" strokeDasharray="4 4" label="selected" />
+          )}
+          {outcomes.map((outcome, i) => (
+            <Line
+              key={outcome.key}
+              dataKey={outcome.key}
+              name={outcome.name}
+              type="stepAfter"
+              stroke={SERIES_COLORS[i % SERIES_COLORS.length]}
+              dot={false}
+              strokeWidth={2}
+              isAnimationActive={false}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,361 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { CarrierContact, Lane, RfqWithInvitations, Shipment } from "@shared/schema";
+import { sameCarrier, type CarrierWithScorecard } from "@shared/carrier-scorecard";
+import { Copy, Plus, Send, Trash2, XCircle } from "lucide-react";
+
+interface RfqPanelProps {
+  shipment: Shipment;
+  canCreate: boolean; // RFQs can only be sent while the process collects quotes
+}
+
+interface CarrierRow {
+  carrier: string;
+  contactEmail: string;
+}
+
+const emptyRow = (): CarrierRow => ({ carrier: "", contactEmail: "" });
+
+const CLOSED_REASONS: Record<string, string> = {
+  quota_reached: "Quota reached",
+  all_responded: "All responded",
+  deadline_passed: "Deadline passed",
+  closed_manually: "Closed manually"
+};
+
+const INVITATION_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  quoted: "default",
+  pending: "secondary",
+  declined: "destructive",
+  expired: "outline"
+};
+
+// datetime-local wants local time without a zone
+function toLocalInput(date: Date): string {
+  const offset = date.getTimezoneOffset() * 60_000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+// Send RFQs for a shipment to a list of carriers and follow each carrier's response through its link
+export function RfqPanel({ shipment, canCreate }: RfqPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [laneId, setLaneId] = useState("");
+  const [rows, setRows] = useState<CarrierRow[]>([emptyRow()]);
+  const [deadline, setDeadline] = useState(() => toLocalInput(new Date(Date.now() + 2 * 24 * 60 * 60 * 1000)));
+  const [quota, setQuota] = useState("");
+  const [notes, setNotes] = useState("");
+  const { toast } = useToast();
+
+  const { data: rfqs } = useQuery<RfqWithInvitations[]>({
+    queryKey: ['/api/shipments', shipment.id, 'rfqs'],
+    refetchInterval: 30_000
+  });
+
+  const { data: lanes } = useQuery<Lane[]>({
+    queryKey: ['/api/lanes'],
+  });
+
+  const { data: carriers } = useQuery<CarrierWithScorecard[]>({
+    queryKey: ['/api/carriers'],
+  });
+
+  const resetForm = () => {
+    setLaneId("");
+    setRows([emptyRow()]);
+    setQuota("");
+    setNotes("");
+  };
+
+  // Closing an RFQ can move the process on to agent evaluation
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/shipments', shipment.id, 'rfqs'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/automation-processes'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/quotes'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/vendor-evaluations'] });
+  };
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive"
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/shipments/${shipment.id}/rfqs`, {
+        laneId,
+        carriers: rows.map(row => ({
+          carrier: row.carrier.trim(),
+          ...(row.contactEmail.trim() ? { contactEmail: row.contactEmail.trim() } : {})
+        })),
+        deadline: new Date(deadline).toISOString(),
+        ...(quota ? { responseQuota: Number(quota) } : {}),
+        ...(notes.trim() ? { notes: notes.trim() } : {})
+      });
+      return response.json() as Promise<RfqWithInvitations>;
+    },
+    onSuccess: (rfq) => {
+      invalidate();
+      toast({ title: "RFQ Sent", description: `${rfq.invitations.length} carriers invited` });
+      resetForm();
+      setOpen(false);
+    },
+    onError: onError("Failed to create RFQ")
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: async (rfqId: string) => {
+      const response = await apiRequest('POST', `/api/rfqs/${rfqId}/close`);
+      return response.json() as Promise<RfqWithInvitations>;
+    },
+    onSuccess: (rfq) => {
+      invalidate();
+      toast({ title: "RFQ Closed", description: `${rfq.quotesReceived} quotes received` });
+    },
+    onError: onError("Failed to close RFQ")
+  });
+
+  const copyLink = async (token: string, carrier: string) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/rfq/${token}`);
+      toast({ title: "Link Copied", description: `Send it to ${carrier}` });
+    } catch {
+      toast({ title: "Error", description: "Could not copy the link", variant: "destructive" });
+    }
+  };
+
+  const updateRow = (i: number, updates: Partial<CarrierRow>) =>
+    setRows(rows.map((row, j) => (j === i ? { ...row, ...updates } : row)));
+
+  // Picking a known carrier fills in its first contact with an email, unless one was typed already
+  const setCarrier = (i: number, name: string) => {
+    const known = carriers?.find(carrier => sameCarrier(carrier.name, name));
+    const email = (known?.contacts as CarrierContact[] | undefined)?.find(contact => contact.email)?.email;
+    updateRow(i, { carrier: name, ...(email && !rows[i].contactEmail ? { contactEmail: email } : {}) });
+  };
+
+  const carrierNames = rows.map(row => row.carrier.trim().toLowerCase());
+  const quotaValue = quota ? Number(quota) : rows.length;
+  const isValid = laneId !== ""
+    && carrierNames.every(name => name !== "")
+    && new Set(carrierNames).size === carrierNames.length
+    && new Date(deadline).getTime() > Date.now()
+    && Number.isInteger(quotaValue) && quotaValue >= 1 && quotaValue <= rows.length;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Requests for Quotes</CardTitle>
+        {canCreate && (
+          <Dialog open={open} onOpenChange={(value) => { setOpen(value); if (!value) resetForm(); }}>
+            <DialogTrigger asChild>
+              <Button size="sm" data-testid="button-new-rfq">
+                <Send className="h-4 w-4 mr-2" />
+                New RFQ
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Request Quotes for {shipment.referenceNumber}</DialogTitle>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label>Lane</Label>
+                    <Select value={laneId} onValueChange={setLaneId}>
+                      <SelectTrigger data-testid="select-rfq-lane">
+                        <SelectValue placeholder="Select lane" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {lanes?.map(lane => (
+                          <SelectItem key={lane.id} value={lane.id}>{lane.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="rfq-deadline">Deadline</Label>
+                    <Input
+                      id="rfq-deadline"
+                      type="datetime-local"
+                      value={deadline}
+                      onChange={(e) => setDeadline(e.target.value)}
+                      data-testid="input-rfq-deadline"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="rfq-quota">Response quota</Label>
+                    <Input
+                      id="rfq-quota"
+                      type="number"
+                      min="1"
+                      max={rows.length}
+                      step="1"
+                      value={quota}
+                      onChange={(e) => setQuota(e.target.value)}
+                      placeholder={`${rows.length} (all)`}
+                      data-testid="input-rfq-quota"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="grid grid-cols-[1fr_1fr_2.5rem] gap-2 text-sm font-medium">
+                    <span>Carrier</span>
+                    <span>Contact email</span>
+                    <span></span>
+                  </div>
+                  {rows.map((row, i) => (
+                    <div key={i} className="grid grid-cols-[1fr_1fr_2.5rem] gap-2">
+                      <Input
+                        value={row.carrier}
+                        onChange={(e) => setCarrier(i, e.target.value)}
+                        list="rfq-known-carriers"
+                        placeholder="e.g. Maersk"
+                        data-testid={`input-rfq-carrier-${i}`}
+                      />
+                      <Input
+                        type="email"
+                        value={row.contactEmail}
+                        onChange={(e) => updateRow(i, { contactEmail: e.target.value })}
+                        placeholder="Optional"
+                        data-testid={`input-rfq-email-${i}`}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setRows(rows.filter((_, j) => j !== i))}
+                        disabled={rows.length === 1}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <datalist id="rfq-known-carriers">
+                    {carriers?.filter(carrier => carrier.active).map(carrier => (
+                      <option key={carrier.id} value={carrier.name} />
+                    ))}
+                  </datalist>
+                  <Button variant="outline" size="sm" onClick={() => setRows([...rows, emptyRow()])} disabled={rows.length >= 50}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Carrier
+                  </Button>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="rfq-notes">Notes for carriers</Label>
+                  <Textarea
+                    id="rfq-notes"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="Pickup window, equipment, anything carriers should know"
+                    data-testid="input-rfq-notes"
+                  />
+                </div>
+
+                <p className="text-sm text-muted-foreground">
+                  The RFQ closes once {quotaValue} {quotaValue === 1 ? 'quote arrives' : 'quotes arrive'} or at the deadline; the last open RFQ to
+                  close starts agent evaluation.
+                </p>
+
+                <Button
+                  onClick={() => createMutation.mutate()}
+                  disabled={!isValid || createMutation.isPending}
+                  data-testid="button-send-rfq"
+                >
+                  Send RFQ
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {(!rfqs || rfqs.length === 0) && (
+          <p className="text-sm text-muted-foreground">
+            {canCreate ? "No RFQs sent yet." : "No RFQs were sent for this shipment."}
+          </p>
+        )}
+
+        {rfqs?.map(rfq => (
+          <div key={rfq.id} className="space-y-2" data-testid={`rfq-${rfq.id}`}>
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="font-medium flex items-center gap-2">
+                  {rfq.laneName}
+                  <Badge variant={rfq.status === 'open' ? 'default' : 'secondary'}>
+                    {rfq.status === 'open' ? 'Open' : CLOSED_REASONS[rfq.closedReason ?? ''] ?? 'Closed'}
+                  </Badge>
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {rfq.quotesReceived} of {rfq.responseQuota} quotes · deadline {new Date(rfq.deadline).toLocaleString()}
+                </div>
+              </div>
+              {rfq.status === 'open' && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => closeMutation.mutate(rfq.id)}
+                  disabled={closeMutation.isPending}
+                  data-testid={`button-close-rfq-${rfq.id}`}
+                >
+                  <XCircle className="h-4 w-4 mr-1" />
+                  Close
+                </Button>
+              )}
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Carrier</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Responded</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rfq.invitations.map(invitation => (
+                  <TableRow key={invitation.id} data-testid={`row-rfq-invitation-${invitation.id}`}>
+                    <TableCell>
+                      <div className="font-medium">{invitation.carrier}</div>
+                      {invitation.contactEmail && <div className="text-xs text-muted-foreground">{invitation.contactEmail}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={INVITATION_VARIANTS[invitation.status] ?? 'outline'}>{invitation.status}</Badge>
+                      {invitation.declineReason && <div className="text-xs text-muted-foreground mt-1">{invitation.declineReason}</div>}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {invitation.respondedAt ? new Date(invitation.respondedAt).toLocaleString() : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {invitation.status === 'pending' && (
+                        <Button variant="ghost" size="sm" onClick={() => copyLink(invitation.token, invitation.carrier)}>
+                          <Copy className="h-4 w-4 mr-1" />
+                          Link
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
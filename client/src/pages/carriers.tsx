@@ -0,0 +1,564 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { BookingOutcomeDialog } from "@/components/carriers/booking-outcome-dialog";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import type { CarrierContact, Lane, Quote } from "@shared/schema";
+import { SCORECARD_WINDOW_DAYS, sameCarrier, type CarrierDetail, type CarrierWithScorecard } from "@shared/carrier-scorecard";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Edit, Trash2, Eye, ClipboardCheck } from "lucide-react";
+
+// Optional fields are edited as strings and sent only when filled in
+const carrierFormSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scac: z.string().trim().regex(/^([A-Z]{2,4})?$/, "SCAC codes are 2-4 uppercase letters"),
+  contacts: z.array(z.object({
+    name: z.string().trim().min(1, "Name is required").max(100),
+    role: z.string().trim().max(100),
+    email: z.union([z.string().trim().email(), z.literal("")]),
+    phone: z.string().trim().max(40)
+  })).max(20),
+  services: z.string(), // Comma separated
+  laneIds: z.array(z.string()),
+  active: z.boolean(),
+  notes: z.string().max(1000)
+});
+
+type CarrierFormValues = z.infer<typeof carrierFormSchema>;
+
+const defaultValues: CarrierFormValues = {
+  name: "",
+  scac: "",
+  contacts: [],
+  services: "",
+  laneIds: [],
+  active: true,
+  notes: ""
+};
+
+function toCarrierRequest(values: CarrierFormValues) {
+  return {
+    name: values.name,
+    scac: values.scac || null,
+    contacts: values.contacts.map(contact => ({
+      name: contact.name,
+      ...(contact.role ? { role: contact.role } : {}),
+      ...(contact.email ? { email: contact.email } : {}),
+      ...(contact.phone ? { phone: contact.phone } : {})
+    })),
+    services: values.services.split(",").map(service => service.trim()).filter(Boolean),
+    laneIds: values.laneIds,
+    active: values.active,
+    notes: values.notes.trim() || null
+  };
+}
+
+function formatRate(rate: number | null): string {
+  return rate === null ? "—" : `${(rate * 100).toFixed(0)}%`;
+}
+
+function formatVariance(variance: number | null): string {
+  return variance === null ? "—" : `${variance >= 0 ? "+" : ""}${(variance * 100).toFixed(1)}%`;
+}
+
+function scoreVariant(score: number): "default" | "secondary" | "destructive" {
+  if (score >= 75) return "default";
+  if (score >= 60) return "secondary";
+  return "destructive";
+}
+
+function CarrierDetailPanel({ carrierId, quotes }: { carrierId: string; quotes: Quote[] }) {
+  const { data: carrier } = useQuery<CarrierDetail>({
+    queryKey: ["/api/carriers", carrierId]
+  });
+
+  if (!carrier) {
+    return <div className="h-64 bg-muted rounded animate-pulse"></div>;
+  }
+
+  const recorded = new Set(carrier.outcomes.map(outcome => outcome.quoteId));
+  const bookableQuotes = quotes.filter(quote =>
+    sameCarrier(quote.carrier, carrier.name) && !recorded.has(quote.id)
+  );
+  const contacts = carrier.contacts as CarrierContact[];
+
+  return (
+    <Card data-testid={`carrier-detail-${carrier.id}`}>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>{carrier.name}{carrier.scac ? ` (${carrier.scac})` : ""}</CardTitle>
+        <BookingOutcomeDialog
+          carrier={carrier}
+          quotes={bookableQuotes}
+          trigger={
+            <Button size="sm" data-testid="button-record-outcome">
+              <ClipboardCheck className="h-4 w-4 mr-2" />
+              Record Outcome
+            </Button>
+          }
+        />
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="space-y-2">
+            <h4 className="font-medium">Contacts</h4>
+            {contacts.length === 0 && <p className="text-sm text-muted-foreground">None recorded</p>}
+            {contacts.map((contact, i) => (
+              <div key={i} className="text-sm">
+                <div className="font-medium">{contact.name}{contact.role ? ` · ${contact.role}` : ""}</div>
+                <div className="text-muted-foreground">{[contact.email, contact.phone].filter(Boolean).join(" · ")}</div>
+              </div>
+            ))}
+            <h4 className="font-medium pt-2">Services</h4>
+            <div className="flex flex-wrap gap-1">
+              {carrier.services.length === 0 && <p className="text-sm text-muted-foreground">None recorded</p>}
+              {carrier.services.map(service => (
+                <Badge key={service} variant="outline">{service}</Badge>
+              ))}
+            </div>
+            {carrier.notes && <p className="text-sm text-muted-foreground pt-2">{carrier.notes}</p>}
+          </div>
+
+          <div className="md:col-span-2 h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={carrier.trend} margin={{ top: 5, right: 10, bottom: 5, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                <XAxis dataKey="month" tick={{ fontSize: 11 }} />
+                <YAxis domain={[0, 100]} tick={{ fontSize: 11 }} width={40} />
+                <Tooltip />
+                <Legend />
+                <Line dataKey="reliabilityScore" name="Reliability" stroke="hsl(var(--primary))" strokeWidth={2} isAnimationActive={false} />
+                <Line dataKey="serviceScore" name="Service" stroke="#f59e0b" strokeWidth={2} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Delivered</TableHead>
+              <TableHead className="text-right">Booked</TableHead>
+              <TableHead className="text-right">Invoiced</TableHead>
+              <TableHead>Outcome</TableHead>
+              <TableHead>Notes</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {carrier.outcomes.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">No bookings recorded yet</TableCell>
+              </TableRow>
+            )}
+            {carrier.outcomes.map(outcome => (
+              <TableRow key={outcome.id} data-testid={`row-outcome-${outcome.id}`}>
+                <TableCell>{new Date(outcome.deliveredAt).toLocaleDateString()}</TableCell>
+                <TableCell className="text-right font-mono">${outcome.bookedRate.toLocaleString()}</TableCell>
+                <TableCell className="text-right font-mono">
+                  {outcome.invoicedAmount != null ? `$${outcome.invoicedAmount.toLocaleString()}` : "—"}
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    <Badge variant={outcome.onTime ? "default" : "destructive"}>{outcome.onTime ? "On time" : "Late"}</Badge>
+                    {outcome.rolled && <Badge variant="secondary">Rolled</Badge>}
+                    {outcome.damaged && <Badge variant="destructive">Damaged</Badge>}
+                  </div>
+                </TableCell>
+                <TableCell className="text-sm text-muted-foreground">{outcome.notes ?? ""}</TableCell>
+                <TableCell className="text-right">
+                  <BookingOutcomeDialog
+                    carrier={carrier}
+                    outcome={outcome}
+                    trigger={
+                      <Button variant="ghost" size="sm" data-testid={`button-edit-outcome-${outcome.id}`}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                    }
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Carriers() {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingCarrier, setEditingCarrier] = useState<CarrierWithScorecard | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const { data: carriers, isLoading } = useQuery<CarrierWithScorecard[]>({
+    queryKey: ["/api/carriers"]
+  });
+
+  const { data: lanes } = useQuery<Lane[]>({
+    queryKey: ["/api/lanes"]
+  });
+
+  const { data: quotes } = useQuery<Quote[]>({
+    queryKey: ["/api/quotes"]
+  });
+
+  const form = useForm<CarrierFormValues>({
+    resolver: zodResolver(carrierFormSchema),
+    defaultValues
+  });
+
+  const { fields: contacts, append: addContact, remove: removeContact } = useFieldArray({
+    control: form.control,
+    name: "contacts"
+  });
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setEditingCarrier(null);
+    form.reset(defaultValues);
+  };
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive"
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (values: CarrierFormValues) => {
+      const response = await apiRequest('POST', '/api/carriers', toCarrierRequest(values));
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/carriers'] });
+      closeDialog();
+      toast({
+        title: "Success",
+        description: "Carrier created successfully"
+      });
+    },
+    onError: onError("Failed to create carrier")
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, values }: { id: string, values: CarrierFormValues }) => {
+      const response = await apiRequest('PATCH', `/api/carriers/${id}`, toCarrierRequest(values));
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/carriers'] });
+      closeDialog();
+      toast({
+        title: "Success",
+        description: "Carrier updated successfully"
+      });
+    },
+    onError: onError("Failed to update carrier")
+  });
+
+  const onSubmit = (values: CarrierFormValues) => {
+    if (editingCarrier) {
+      updateMutation.mutate({ id: editingCarrier.id, values });
+    } else {
+      createMutation.mutate(values);
+    }
+  };
+
+  const openEditDialog = (carrier: CarrierWithScorecard) => {
+    setEditingCarrier(carrier);
+    form.reset({
+      name: carrier.name,
+      scac: carrier.scac ?? "",
+      contacts: (carrier.contacts as CarrierContact[]).map(contact => ({
+        name: contact.name,
+        role: contact.role ?? "",
+        email: contact.email ?? "",
+        phone: contact.phone ?? ""
+      })),
+      services: carrier.services.join(", "),
+      laneIds: carrier.laneIds,
+      active: carrier.active,
+      notes: carrier.notes ?? ""
+    });
+    setDialogOpen(true);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-muted rounded w-1/4 mb-6"></div>
+          <div className="h-64 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6" data-testid="carriers-content">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Carriers</h1>
+          <p className="text-muted-foreground">
+            Carrier master data and reliability scorecards from recorded booking outcomes
+          </p>
+        </div>
+        <Dialog open={dialogOpen} onOpenChange={(open) => open ? setDialogOpen(true) : closeDialog()}>
+          <DialogTrigger asChild>
+            <Button data-testid="button-add-carrier">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Carrier
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editingCarrier ? `Edit ${editingCarrier.name}` : "Add New Carrier"}</DialogTitle>
+            </DialogHeader>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <div className="grid grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem className="col-span-2">
+                        <FormLabel>Name</FormLabel>
+                        <FormControl>
+                          <Input {...field} placeholder="e.g., Maersk" data-testid="input-carrier-name" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="scac"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>SCAC</FormLabel>
+                        <FormControl>
+                          <Input {...field} placeholder="e.g., MAEU" data-testid="input-carrier-scac" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <FormLabel>Contacts</FormLabel>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => addContact({ name: "", role: "", email: "", phone: "" })}
+                      disabled={contacts.length >= 20}
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Contact
+                    </Button>
+                  </div>
+                  {contacts.map((contact, i) => (
+                    <div key={contact.id} className="grid grid-cols-[1fr_1fr_1fr_1fr_2.5rem] gap-2">
+                      {(["name", "role", "email", "phone"] as const).map(key => (
+                        <FormField
+                          key={key}
+                          control={form.control}
+                          name={`contacts.${i}.${key}`}
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormControl>
+                                <Input {...field} placeholder={key[0].toUpperCase() + key.slice(1)} data-testid={`input-contact-${key}-${i}`} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      ))}
+                      <Button type="button" variant="ghost" size="sm" onClick={() => removeContact(i)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="services"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Services</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="e.g., temperature controlled, hazmat, customs clearance" data-testid="input-carrier-services" />
+                      </FormControl>
+                      <FormDescription>Comma separated; matched against shipments' special requirements</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="laneIds"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Lanes served</FormLabel>
+                      <div className="grid grid-cols-2 gap-2">
+                        {lanes?.map(lane => (
+                          <label key={lane.id} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={field.value.includes(lane.id)}
+                              onCheckedChange={(checked) => field.onChange(
+                                checked ? [...field.value, lane.id] : field.value.filter(id => id !== lane.id)
+                              )}
+                              data-testid={`checkbox-carrier-lane-${lane.id}`}
+                            />
+                            {lane.name}
+                          </label>
+                        ))}
+                      </div>
+                      <FormDescription>Leave empty if not known</FormDescription>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="active"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                      <div>
+                        <FormLabel>Active</FormLabel>
+                        <FormDescription>Inactive carriers keep their booking history</FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-carrier-active" />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="notes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Notes</FormLabel>
+                      <FormControl>
+                        <Textarea {...field} data-testid="input-carrier-notes" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button
+                  type="submit"
+                  disabled={createMutation.isPending || updateMutation.isPending}
+                  data-testid="button-save-carrier"
+                >
+                  {editingCarrier ? "Save Carrier" : "Create Carrier"}
+                </Button>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Scorecards</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Bookings delivered in the last {SCORECARD_WINDOW_DAYS} days. Scores start neutral and move toward a carrier's own
+            record as bookings accumulate; fitment and quote evaluation use them for carriers listed here.
+          </p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Carrier</TableHead>
+                <TableHead className="text-right">Bookings</TableHead>
+                <TableHead className="text-right">On time</TableHead>
+                <TableHead className="text-right">Rolled</TableHead>
+                <TableHead className="text-right">Damaged</TableHead>
+                <TableHead className="text-right">Invoice variance</TableHead>
+                <TableHead>Reliability</TableHead>
+                <TableHead>Service</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {carriers?.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={9} className="text-center text-muted-foreground">No carriers yet</TableCell>
+                </TableRow>
+              )}
+              {carriers?.map(carrier => (
+                <TableRow key={carrier.id} data-testid={`row-carrier-${carrier.id}`}>
+                  <TableCell>
+                    <div className="font-medium flex items-center gap-2">
+                      {carrier.name}
+                      {!carrier.active && <Badge variant="outline">Inactive</Badge>}
+                    </div>
+                    {carrier.scac && <div className="text-xs text-muted-foreground font-mono">{carrier.scac}</div>}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{carrier.scorecard.bookings}</TableCell>
+                  <TableCell className="text-right font-mono">{formatRate(carrier.scorecard.onTimeRate)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatRate(carrier.scorecard.rollRate)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatRate(carrier.scorecard.damageRate)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatVariance(carrier.scorecard.invoiceVariance)}</TableCell>
+                  <TableCell>
+                    <Badge variant={scoreVariant(carrier.scorecard.reliabilityScore)}>{carrier.scorecard.reliabilityScore.toFixed(0)}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={scoreVariant(carrier.scorecard.serviceScore)}>{carrier.scorecard.serviceScore.toFixed(0)}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setSelectedId(carrier.id)}
+                        data-testid={`button-view-${carrier.id}`}
+                      >
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openEditDialog(carrier)}
+                        data-testid={`button-edit-${carrier.id}`}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {selectedId && <CarrierDetailPanel carrierId={selectedId} quotes={quotes ?? []} />}
+    </div>
+  );
+}
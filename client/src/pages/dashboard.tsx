@@ -18,6 +18,8 @@ import {
   Trash2,
   Calculator
 } from "lucide-react";
+import { IndexHistoryChart } from "@/components/visualization/index-history-chart";
+import { IndexForecastPanel } from "@/components/visualization/index-forecast-panel";
 import type { Lane, MarketIndex } from "@shared/schema";
 
 export default function Dashboard() {
@@ -227,6 +229,9 @@ export default function Dashboard() {
         </Card>
       </div>
 
+      {indices && indices.length > 0 && <IndexHistoryChart indices={indices} />}
+      {indices && indices.length > 0 && <IndexForecastPanel indices={indices} />}
+
       {/* Lane Configuration Table */}
       <Card>
         <CardHeader>
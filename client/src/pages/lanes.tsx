@@ -6,32 +6,34 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertLaneSchema, type Lane, type InsertLane, type TransitSegment, type RateFactor } from "@shared/schema";
+import { insertLaneSchema, type Lane, type InsertLane, type MarketIndex, type TransitSegment, type RateFactor, type CorrelationMatrix } from "@shared/schema";
+import type { IndexVolatility } from "@shared/index-series";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, Edit, Trash2 } from "lucide-react";
-
-const marketIndices = [
-  { value: "SCFI", label: "SCFI - Shanghai Containerized Freight Index" },
-  { value: "CCFI", label: "CCFI - China Containerized Freight Index" },
-  { value: "WCI", label: "WCI - World Container Index" },
-  { value: "BALTIC", label: "BALTIC - Baltic Dry Index" }
-];
+import { CorrelationMatrixEditor, getCorrelationMatrixError } from "@/components/simulation/correlation-matrix-editor";
+import { LaneRatioDialog } from "@/components/simulation/lane-ratio-dialog";
+import { Plus, Edit, Trash2, Activity, Receipt } from "lucide-react";
 
 export default function Lanes() {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingLane, setEditingLane] = useState<Lane | null>(null);
+  const [ratioLane, setRatioLane] = useState<Lane | null>(null);
   const { toast } = useToast();
 
   const { data: lanes, isLoading } = useQuery<Lane[]>({ 
     queryKey: ["/api/lanes"] 
   });
 
+  // Stored and composite indices; a lane can price off either
+  const { data: marketIndices = [] } = useQuery<MarketIndex[]>({
+    queryKey: ["/api/indices"]
+  });
+
   const form = useForm<InsertLane>({
     resolver: zodResolver(insertLaneSchema),
     defaultValues: {
@@ -54,7 +56,7 @@ export default function Lanes() {
           name: "Ocean Transit",
           baselineDays: 14.0,
           distribution: "lognormal",
-          parameters: { mu: 14.0, sigma: 2.0 },
+          parameters: { mu: 2.64, sigma: 0.15 }, // Log-scale: median e^2.64 ≈ 14 days
           congestionScenarios: []
         },
         {
@@ -82,7 +84,8 @@ export default function Lanes() {
           parameters: { min: 1.08, mode: 1.12, max: 1.18 },
           enabled: true
         }
-      ]
+      ],
+      correlationMatrix: null
     }
   });
 
@@ -153,7 +156,42 @@ export default function Lanes() {
     }
   });
 
+  const deriveVolatilityMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('POST', `/api/lanes/${id}/derive-volatility`, {});
+      return response.json() as Promise<{ lane: Lane; volatility: IndexVolatility }>;
+    },
+    onSuccess: ({ lane, volatility }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/lanes'] });
+      toast({
+        title: "Success",
+        description: `${lane.name} volatility set to ${(volatility.volatility * 100).toFixed(1)}% from ${volatility.observations} ${lane.baseIndex} observations`
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to derive volatility",
+        variant: "destructive"
+      });
+    }
+  });
+
   const onSubmit = (data: InsertLane) => {
+    const correlationError = getCorrelationMatrixError(
+      data.correlationMatrix as CorrelationMatrix | null,
+      data.factors as RateFactor[],
+      data.segments as TransitSegment[]
+    );
+    if (correlationError) {
+      toast({
+        title: "Invalid correlation matrix",
+        description: correlationError,
+        variant: "destructive"
+      });
+      return;
+    }
+
     if (editingLane) {
       updateMutation.mutate({ id: editingLane.id, data });
     } else {
@@ -172,7 +210,8 @@ export default function Lanes() {
       laneRatio: lane.laneRatio,
       historicalVolatility: lane.historicalVolatility,
       segments: lane.segments as TransitSegment[],
-      factors: lane.factors as RateFactor[]
+      factors: lane.factors as RateFactor[],
+      correlationMatrix: (lane.correlationMatrix as CorrelationMatrix | null) ?? null
     });
     setDialogOpen(true);
   };
@@ -212,7 +251,7 @@ export default function Lanes() {
               Add Lane
             </Button>
           </DialogTrigger>
-          <DialogContent className="max-w-2xl">
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>
                 {editingLane ? "Edit Lane" : "Add New Lane"}
@@ -270,7 +309,14 @@ export default function Lanes() {
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel>Market Index</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                        <Select
+                          onValueChange={(code) => {
+                            field.onChange(code);
+                            const index = marketIndices.find(candidate => candidate.code === code);
+                            if (index && index.value > 0) form.setValue("indexValue", index.value);
+                          }}
+                          defaultValue={field.value}
+                        >
                           <FormControl>
                             <SelectTrigger data-testid="select-index">
                               <SelectValue />
@@ -278,8 +324,8 @@ export default function Lanes() {
                           </FormControl>
                           <SelectContent>
                             {marketIndices.map(index => (
-                              <SelectItem key={index.value} value={index.value}>
-                                {index.label}
+                              <SelectItem key={index.code} value={index.code}>
+                                {index.code} - {index.name}
                               </SelectItem>
                             ))}
                           </SelectContent>
@@ -302,6 +348,7 @@ export default function Lanes() {
                             data-testid="input-index-value"
                           />
                         </FormControl>
+                        <FormDescription>Replaced by the index's latest observation once it has history</FormDescription>
                         <FormMessage />
                       </FormItem>
                     )}
@@ -349,6 +396,22 @@ export default function Lanes() {
                   />
                 </div>
 
+                <FormField
+                  control={form.control}
+                  name="correlationMatrix"
+                  render={({ field }) => (
+                    <FormItem>
+                      <CorrelationMatrixEditor
+                        factors={(form.watch("factors") as RateFactor[]) ?? []}
+                        segments={(form.watch("segments") as TransitSegment[]) ?? []}
+                        value={(field.value as CorrelationMatrix | null) ?? null}
+                        onChange={field.onChange}
+                      />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <div className="flex justify-end gap-2 pt-4">
                   <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
                     Cancel
@@ -412,6 +475,25 @@ export default function Lanes() {
                       >
                         <Edit className="h-4 w-4" />
                       </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Derive volatility from index history"
+                        onClick={() => deriveVolatilityMutation.mutate(lane.id)}
+                        disabled={deriveVolatilityMutation.isPending}
+                        data-testid={`button-derive-volatility-${lane.id}`}
+                      >
+                        <Activity className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Fit lane ratio from invoices"
+                        onClick={() => setRatioLane(lane)}
+                        data-testid={`button-lane-ratio-${lane.id}`}
+                      >
+                        <Receipt className="h-4 w-4" />
+                      </Button>
                       <Button 
                         variant="ghost" 
                         size="sm" 
@@ -428,6 +510,8 @@ export default function Lanes() {
           </Table>
         </CardContent>
       </Card>
+
+      <LaneRatioDialog lane={ratioLane} onOpenChange={(open) => !open && setRatioLane(null)} />
     </div>
   );
 }
@@ -0,0 +1,521 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  insertRecommendationPolicySchema, recommendationPolicyRulesSchema, DEFAULT_RECOMMENDATION_RULES,
+  type Lane, type RecommendationPolicy, type RecommendationPolicyVersion, type RecommendationPolicyRules
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Edit, Trash2, History } from "lucide-react";
+
+// Sentinel for "applies to every lane" since Select items cannot have an empty value
+const ALL_LANES = "all";
+
+const policyFormSchema = insertRecommendationPolicySchema.extend({
+  rules: recommendationPolicyRulesSchema
+});
+
+type PolicyFormValues = z.infer<typeof policyFormSchema>;
+
+const defaultValues: PolicyFormValues = {
+  name: "",
+  laneId: null,
+  customer: "",
+  active: true,
+  rules: DEFAULT_RECOMMENDATION_RULES
+};
+
+const thresholdFields = [
+  { name: "rules.rejectAbove", label: "Reject above (percentile)" },
+  { name: "rules.negotiateAbove", label: "Negotiate above (percentile)" },
+  { name: "rules.waitFrom", label: "Wait from (percentile)" },
+  { name: "rules.waitTo", label: "Wait to (percentile)" }
+] as const;
+
+function describeRules(rules: RecommendationPolicyRules) {
+  return `Reject >P${rules.rejectAbove} · Negotiate >P${rules.negotiateAbove} · Wait P${rules.waitFrom}–P${rules.waitTo}`;
+}
+
+function PolicyVersions({ policyId }: { policyId: string }) {
+  const { data: versions, isLoading } = useQuery<RecommendationPolicyVersion[]>({
+    queryKey: ["/api/recommendation-policies", policyId, "versions"]
+  });
+
+  if (isLoading) {
+    return <div className="h-24 bg-muted rounded animate-pulse" />;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Version</TableHead>
+          <TableHead>Name</TableHead>
+          <TableHead>Rules</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Saved</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {versions?.map(version => (
+          <TableRow key={version.id} data-testid={`row-policy-version-${version.version}`}>
+            <TableCell className="font-mono">v{version.version}</TableCell>
+            <TableCell>{version.name}</TableCell>
+            <TableCell className="text-sm">{describeRules(version.rules as RecommendationPolicyRules)}</TableCell>
+            <TableCell>
+              <Badge variant={version.active ? "default" : "outline"}>{version.active ? "Active" : "Inactive"}</Badge>
+            </TableCell>
+            <TableCell className="text-sm text-muted-foreground">
+              {version.createdAt ? new Date(version.createdAt).toLocaleString() : "—"}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function Policies() {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<RecommendationPolicy | null>(null);
+  const [historyPolicy, setHistoryPolicy] = useState<RecommendationPolicy | null>(null);
+  const { toast } = useToast();
+
+  const { data: policies, isLoading } = useQuery<RecommendationPolicy[]>({
+    queryKey: ["/api/recommendation-policies"]
+  });
+
+  const { data: lanes } = useQuery<Lane[]>({
+    queryKey: ["/api/lanes"]
+  });
+
+  const form = useForm<PolicyFormValues>({
+    resolver: zodResolver(policyFormSchema),
+    defaultValues
+  });
+
+  const { fields: riskBands, append: addRiskBand, remove: removeRiskBand } = useFieldArray({
+    control: form.control,
+    name: "rules.riskBands"
+  });
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setEditingPolicy(null);
+    form.reset(defaultValues);
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: PolicyFormValues) => {
+      const response = await apiRequest('POST', '/api/recommendation-policies', data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/recommendation-policies'] });
+      closeDialog();
+      toast({
+        title: "Success",
+        description: "Policy created successfully"
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to create policy",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string, data: Partial<PolicyFormValues> }) => {
+      const response = await apiRequest('PATCH', `/api/recommendation-policies/${id}`, data);
+      return response.json();
+    },
+    onSuccess: (policy: RecommendationPolicy) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/recommendation-policies'] });
+      closeDialog();
+      toast({
+        title: "Success",
+        description: `Policy saved as version ${policy.version}`
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update policy",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest('DELETE', `/api/recommendation-policies/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/recommendation-policies'] });
+      toast({
+        title: "Success",
+        description: "Policy deleted successfully"
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete policy",
+        variant: "destructive"
+      });
+    }
+  });
+
+  const onSubmit = (values: PolicyFormValues) => {
+    const data = { ...values, customer: values.customer?.trim() || null };
+    if (editingPolicy) {
+      updateMutation.mutate({ id: editingPolicy.id, data });
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  const openEditDialog = (policy: RecommendationPolicy) => {
+    setEditingPolicy(policy);
+    form.reset({
+      name: policy.name,
+      laneId: policy.laneId,
+      customer: policy.customer ?? "",
+      active: policy.active,
+      rules: policy.rules as RecommendationPolicyRules
+    });
+    setDialogOpen(true);
+  };
+
+  const getScope = (policy: RecommendationPolicy) => {
+    const lane = lanes?.find(l => l.id === policy.laneId);
+    const parts = [
+      policy.laneId ? lane?.name ?? "Unknown lane" : null,
+      policy.customer
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(" · ") : "Global";
+  };
+
+  if (isLoading) {
+    return (
+      <div className="p-6">
+        <div className="animate-pulse">
+          <div className="h-8 bg-muted rounded w-1/4 mb-6"></div>
+          <div className="h-64 bg-muted rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6" data-testid="policies-content">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Recommendation Policies</h1>
+          <p className="text-muted-foreground">
+            Percentile thresholds and risk bands behind quote verdicts, per lane or customer
+          </p>
+        </div>
+        <Dialog open={dialogOpen} onOpenChange={(open) => open ? setDialogOpen(true) : closeDialog()}>
+          <DialogTrigger asChild>
+            <Button data-testid="button-add-policy">
+              <Plus className="h-4 w-4 mr-2" />
+              Add Policy
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>
+                {editingPolicy ? `Edit Policy (saves as v${editingPolicy.version + 1})` : "Add New Policy"}
+              </DialogTitle>
+            </DialogHeader>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Policy Name</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="e.g., Transpacific contract customers" data-testid="input-policy-name" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="laneId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Lane</FormLabel>
+                        <Select
+                          onValueChange={(value) => field.onChange(value === ALL_LANES ? null : value)}
+                          value={field.value ?? ALL_LANES}
+                        >
+                          <FormControl>
+                            <SelectTrigger data-testid="select-policy-lane">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={ALL_LANES}>All lanes</SelectItem>
+                            {lanes?.map(lane => (
+                              <SelectItem key={lane.id} value={lane.id}>{lane.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="customer"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Customer</FormLabel>
+                        <FormControl>
+                          <Input {...field} value={field.value ?? ""} placeholder="All customers" data-testid="input-policy-customer" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="active"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                      <div>
+                        <FormLabel>Active</FormLabel>
+                        <FormDescription>Inactive policies are kept but never applied</FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value ?? true} onCheckedChange={field.onChange} data-testid="switch-policy-active" />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
+                <div className="grid grid-cols-2 gap-4">
+                  {thresholdFields.map(threshold => (
+                    <FormField
+                      key={threshold.name}
+                      control={form.control}
+                      name={threshold.name}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{threshold.label}</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              {...field}
+                              onChange={(e) => field.onChange(parseFloat(e.target.value))}
+                              data-testid={`input-${threshold.name.replace('rules.', '')}`}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  ))}
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="rules.waitMinMarketVariance"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Wait only if market variance above (%)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="0.5"
+                          value={Number.isFinite(field.value) ? +(field.value * 100).toFixed(2) : ""}
+                          onChange={(e) => field.onChange(parseFloat(e.target.value) / 100)}
+                          data-testid="input-wait-min-market-variance"
+                        />
+                      </FormControl>
+                      <FormDescription>Quotes further below the market baseline are booked rather than held</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <h4 className="font-medium">Risk Score Bands</h4>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => addRiskBand({ upToPercentile: 100, minScore: 0, maxScore: 10 })}
+                      data-testid="button-add-risk-band"
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Band
+                    </Button>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Ascending bands; the score rises linearly from min to max across each band and the last band ends at P100
+                  </p>
+                  {riskBands.map((band, index) => (
+                    <div key={band.id} className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-end">
+                      {(["upToPercentile", "minScore", "maxScore"] as const).map(key => (
+                        <FormField
+                          key={key}
+                          control={form.control}
+                          name={`rules.riskBands.${index}.${key}`}
+                          render={({ field }) => (
+                            <FormItem>
+                              {index === 0 && (
+                                <FormLabel>
+                                  {key === "upToPercentile" ? "Up to percentile" : key === "minScore" ? "Min score" : "Max score"}
+                                </FormLabel>
+                              )}
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  step="0.5"
+                                  {...field}
+                                  onChange={(e) => field.onChange(parseFloat(e.target.value))}
+                                  data-testid={`input-band-${index}-${key}`}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      ))}
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        disabled={riskBands.length === 1}
+                        onClick={() => removeRiskBand(index)}
+                        data-testid={`button-remove-band-${index}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  {form.formState.errors.rules?.riskBands?.message && (
+                    <p className="text-sm font-medium text-destructive">{form.formState.errors.rules.riskBands.message}</p>
+                  )}
+                </div>
+
+                <div className="flex justify-end gap-2 pt-4">
+                  <Button type="button" variant="outline" onClick={closeDialog}>
+                    Cancel
+                  </Button>
+                  <Button
+                    type="submit"
+                    disabled={createMutation.isPending || updateMutation.isPending}
+                    data-testid="button-save-policy"
+                  >
+                    {editingPolicy ? "Update" : "Create"} Policy
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Configured Policies</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            The most specific active policy applies: lane and customer, then customer, then lane, then global.
+            Without one, quotes use the built-in defaults ({describeRules(DEFAULT_RECOMMENDATION_RULES)}).
+          </p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Policy</TableHead>
+                <TableHead>Scope</TableHead>
+                <TableHead>Thresholds</TableHead>
+                <TableHead>Version</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {policies?.map((policy) => (
+                <TableRow key={policy.id} data-testid={`row-policy-${policy.id}`}>
+                  <TableCell className="font-medium">{policy.name}</TableCell>
+                  <TableCell>{getScope(policy)}</TableCell>
+                  <TableCell className="text-sm">{describeRules(policy.rules as RecommendationPolicyRules)}</TableCell>
+                  <TableCell className="font-mono">v{policy.version}</TableCell>
+                  <TableCell>
+                    <Badge variant={policy.active ? "default" : "outline"}>{policy.active ? "Active" : "Inactive"}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setHistoryPolicy(policy)}
+                        data-testid={`button-history-${policy.id}`}
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openEditDialog(policy)}
+                        data-testid={`button-edit-${policy.id}`}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteMutation.mutate(policy.id)}
+                        data-testid={`button-delete-${policy.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!historyPolicy} onOpenChange={(open) => !open && setHistoryPolicy(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Version History: {historyPolicy?.name}</DialogTitle>
+          </DialogHeader>
+          {historyPolicy && <PolicyVersions policyId={historyPolicy.id} />}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
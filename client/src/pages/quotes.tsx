@@ -13,7 +13,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { QuoteAnalyzer } from "@/components/decision/quote-analyzer";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertQuoteSchema, type Quote, type Lane, type InsertQuote } from "@shared/schema";
+import { insertQuoteSchema, type Quote, type Lane, type Shipment, type InsertQuote } from "@shared/schema";
 import { z } from "zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -43,6 +43,10 @@ export default function Quotes() {
     queryKey: ["/api/lanes"] 
   });
 
+  const { data: shipments } = useQuery<Shipment[]>({
+    queryKey: ["/api/shipments"]
+  });
+
   const quoteFormSchema = insertQuoteSchema.extend({
     rate: z.number().min(0.01, "Rate must be greater than 0"),
     laneId: z.string().min(1, "Please select a lane"),
@@ -54,6 +58,8 @@ export default function Quotes() {
     defaultValues: {
       laneId: "",
       carrier: "",
+      customer: null,
+      shipmentId: null,
       rate: undefined as any,
       validUntil: undefined,
       evaluation: null,
@@ -198,6 +204,55 @@ export default function Quotes() {
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="customer"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Customer (Optional)</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="Applies the customer's recommendation policy"
+                          {...field}
+                          value={field.value ?? ''}
+                          onChange={(e) => field.onChange(e.target.value || null)}
+                          data-testid="input-customer"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="shipmentId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Shipment (Optional)</FormLabel>
+                      <Select
+                        onValueChange={(value) => field.onChange(value === 'none' ? null : value)}
+                        value={field.value ?? 'none'}
+                      >
+                        <FormControl>
+                          <SelectTrigger data-testid="select-shipment">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">No shipment</SelectItem>
+                          {shipments?.map(shipment => (
+                            <SelectItem key={shipment.id} value={shipment.id}>
+                              {shipment.referenceNumber} ({shipment.origin} → {shipment.destination})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={form.control}
                   name="rate"
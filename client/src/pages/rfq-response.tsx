@@ -0,0 +1,245 @@
+import { useState } from "react";
+import { useParams } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { RfqCarrierView, RfqResponse } from "@shared/schema";
+import { AlertCircle, CheckCircle, Clock, Loader2, Ship } from "lucide-react";
+
+// Carrier-facing page behind an RFQ invitation link: shows the shipment and takes a quote or a decline
+export default function RfqResponsePage() {
+  const params = useParams();
+  const token = params?.token;
+  const [rate, setRate] = useState("");
+  const [validUntil, setValidUntil] = useState("");
+  const [declining, setDeclining] = useState(false);
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+
+  const { data: rfq, isLoading, error } = useQuery<RfqCarrierView>({
+    queryKey: ['/api/rfq-responses', token],
+    enabled: !!token
+  });
+
+  const respondMutation = useMutation({
+    mutationFn: async (response: RfqResponse) => {
+      const res = await apiRequest('POST', `/api/rfq-responses/${token}`, response);
+      return res.json() as Promise<RfqCarrierView>;
+    },
+    onSuccess: (view) => {
+      queryClient.setQueryData(['/api/rfq-responses', token], view);
+      toast({ title: "Thank you", description: view.status === 'quoted' ? "Your quote was received" : "Your response was recorded" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to submit response",
+        variant: "destructive"
+      });
+    }
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen w-full flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!rfq || error) {
+    return (
+      <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+        <Card className="w-full max-w-md mx-4">
+          <CardContent className="pt-6">
+            <div className="flex mb-4 gap-2">
+              <AlertCircle className="h-8 w-8 text-red-500" />
+              <h1 className="text-2xl font-bold text-gray-900">Invitation not found</h1>
+            </div>
+            <p className="mt-4 text-sm text-gray-600">Check the link you were sent, or contact the shipper.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const rateValue = Number(rate);
+  const canRespond = rfq.status === 'pending' && rfq.rfqStatus === 'open';
+
+  return (
+    <div className="min-h-screen w-full bg-gray-50 py-10">
+      <div className="max-w-2xl mx-auto px-4 space-y-6">
+        <div className="flex items-center gap-3">
+          <Ship className="h-8 w-8 text-primary" />
+          <div>
+            <h1 className="text-2xl font-bold">Request for Quote</h1>
+            <p className="text-muted-foreground">For {rfq.carrier}</p>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span>{rfq.shipment.referenceNumber}</span>
+              <Badge variant="outline">{rfq.lane.name}</Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <div className="text-muted-foreground">Route</div>
+                <div className="font-medium">{rfq.lane.origin} → {rfq.lane.destination}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Commodity</div>
+                <div className="font-medium">{rfq.shipment.commodity}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Weight / volume</div>
+                <div className="font-medium">{rfq.shipment.weight.toLocaleString()} kg · {rfq.shipment.volume} m³</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Required delivery</div>
+                <div className="font-medium">
+                  {rfq.shipment.requiredDeliveryDate ? new Date(rfq.shipment.requiredDeliveryDate).toLocaleDateString() : 'Flexible'}
+                </div>
+              </div>
+            </div>
+            {rfq.shipment.specialRequirements.length > 0 && (
+              <div>
+                <div className="text-muted-foreground">Special requirements</div>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {rfq.shipment.specialRequirements.map(requirement => (
+                    <Badge key={requirement} variant="secondary">{requirement}</Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+            {rfq.notes && (
+              <div>
+                <div className="text-muted-foreground">Notes</div>
+                <p className="whitespace-pre-wrap">{rfq.notes}</p>
+              </div>
+            )}
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <Clock className="h-4 w-4" />
+              Respond by {new Date(rfq.deadline).toLocaleString()}
+            </div>
+          </CardContent>
+        </Card>
+
+        {rfq.status === 'quoted' && rfq.quote && (
+          <Alert>
+            <CheckCircle className="h-4 w-4" />
+            <AlertDescription>
+              You quoted ${rfq.quote.rate.toLocaleString()}
+              {rfq.quote.validUntil ? `, valid until ${new Date(rfq.quote.validUntil).toLocaleDateString()}` : ''}.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {rfq.status === 'declined' && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>You declined this request.</AlertDescription>
+          </Alert>
+        )}
+
+        {rfq.status === 'pending' && rfq.rfqStatus !== 'open' && (
+          <Alert>
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>This request is closed and no longer takes responses.</AlertDescription>
+          </Alert>
+        )}
+
+        {canRespond && !declining && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Your Quote</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="rfq-rate">All-in rate (USD)</Label>
+                  <Input
+                    id="rfq-rate"
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={rate}
+                    onChange={(e) => setRate(e.target.value)}
+                    data-testid="input-rfq-rate"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rfq-valid-until">Valid until</Label>
+                  <Input
+                    id="rfq-valid-until"
+                    type="date"
+                    value={validUntil}
+                    onChange={(e) => setValidUntil(e.target.value)}
+                    data-testid="input-rfq-valid-until"
+                  />
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => respondMutation.mutate({
+                    response: 'quote',
+                    rate: rateValue,
+                    ...(validUntil ? { validUntil: new Date(`${validUntil}T23:59:59`) } : {})
+                  })}
+                  disabled={!(rateValue > 0) || respondMutation.isPending}
+                  data-testid="button-submit-quote"
+                >
+                  Submit Quote
+                </Button>
+                <Button variant="outline" onClick={() => setDeclining(true)} data-testid="button-decline">
+                  Decline
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {canRespond && declining && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Decline</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="rfq-decline-reason">Reason (optional)</Label>
+                <Textarea
+                  id="rfq-decline-reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="e.g. No space on this sailing"
+                  data-testid="input-decline-reason"
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  variant="destructive"
+                  onClick={() => respondMutation.mutate({ response: 'decline', ...(reason.trim() ? { reason: reason.trim() } : {}) })}
+                  disabled={respondMutation.isPending}
+                  data-testid="button-confirm-decline"
+                >
+                  Decline Request
+                </Button>
+                <Button variant="outline" onClick={() => setDeclining(false)}>Back</Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -95,8 +95,6 @@ export default function Shipments() {
       // First create the automation process
       const processData = {
         shipmentId: shipmentId,
-        currentStage: "quote_collection",
-        quotesCollected: 0,
         processData: {
           startedAt: new Date(),
           step: 1,
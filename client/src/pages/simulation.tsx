@@ -7,54 +7,60 @@ import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
 import { RateSimulator } from "@/components/simulation/rate-simulator";
 import { TransitSimulator } from "@/components/simulation/transit-simulator";
 import { DistributionChart } from "@/components/visualization/distribution-chart";
+import { ConvergenceChart } from "@/components/visualization/convergence-chart";
 import { useSimulationStore } from "@/store/simulation-store";
-import type { Lane, Simulation, TransitSegment, RateFactor } from "@shared/schema";
+import type {
+  Lane, Simulation, TransitSegment, RateFactor, CorrelationMatrix, SimulationRateInputs, SimulationTransitInputs,
+  SimulationResult
+} from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { generateSeed, parseSeed } from "@shared/random";
+import type { AutoIterationSettings } from "@shared/convergence";
+import {
+  selectedForecast, FORECAST_MODELS, FORECAST_MODEL_LABELS, type IndexForecastDistribution, type IndexForecastReport
+} from "@shared/index-forecast";
+import { ResultSummary, type ResultSummaryData } from "@shared/result-summary";
 import { useToast } from "@/hooks/use-toast";
-import { Play, Pause, RotateCcw, Info, TrendingUp, TrendingDown, AlertTriangle, Zap } from "lucide-react";
-
-// Process simulation results to create statistics for UI
-function processSimulationResults(rawResults: any[]) {
-  if (!rawResults || rawResults.length === 0) {
-    return { 
-      rawResults: [], 
-      rateStats: { mean: 0, p10: 0, p50: 0, p90: 0, stdDev: 0 }, 
-      transitStats: { mean: 0, p10: 0, p50: 0, p90: 0 }
-    };
-  }
+import { Play, Pause, RotateCcw, Info, TrendingUp, TrendingDown, AlertTriangle, Zap, History, Server, Square, Download } from "lucide-react";
+
+// Rebuild a scenario run's streamed summary for the comparison charts and table
+function processSimulationResults(data: ResultSummaryData) {
+  const summary = ResultSummary.fromJSON(data);
+  const hasResults = summary.count > 0;
 
-  const rates = rawResults.map(r => r.rate).sort((a, b) => a - b);
-  const transits = rawResults.map(r => r.transitDays).sort((a, b) => a - b);
-  
-  // Calculate rate statistics
-  const rateMean = rates.reduce((sum, val) => sum + val, 0) / rates.length;
-  const rateStats = {
-    mean: rateMean,
-    p10: rates[Math.floor(rates.length * 0.1)],
-    p50: rates[Math.floor(rates.length * 0.5)],
-    p90: rates[Math.floor(rates.length * 0.9)],
-    stdDev: Math.sqrt(rates.reduce((sum, val) => sum + Math.pow(val - rateMean, 2), 0) / rates.length)
-  };
-  
-  // Calculate transit statistics
-  const transitMean = transits.reduce((sum, val) => sum + val, 0) / transits.length;
-  const transitStats = {
-    mean: transitMean,
-    p10: transits[Math.floor(transits.length * 0.1)],
-    p50: transits[Math.floor(transits.length * 0.5)],
-    p90: transits[Math.floor(transits.length * 0.9)]
-  };
-  
   return {
-    rawResults, // Keep raw results for DistributionChart
-    rateStats,
-    transitStats
+    summary,
+    rateStats: hasResults ? summary.rate.overall.statistics() : null,
+    transitStats: hasResults ? summary.transit.overall.statistics() : null
   };
 }
 
+function exportSamplesCsv(samples: SimulationResult[], filename: string) {
+  const header = "iteration,rate,transitDays,arrivalDate,delayCost,totalLandedCost,congestionScenario,congestionDelayDays";
+  const rows = samples.map(result => [
+    result.iteration,
+    result.rate,
+    result.transitDays,
+    new Date(result.arrivalDate).toISOString(),
+    result.delayCost,
+    result.totalLandedCost,
+    result.congestionScenario ? `"${result.congestionScenario.replace(/"/g, '""')}"` : "",
+    result.congestionDelayDays ?? 0
+  ].join(","));
+
+  const blob = new Blob([[header, ...rows].join("\n")], { type: "text/csv" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 // What-if scenarios for maritime logistics
 const SCENARIOS = [
   {
@@ -110,18 +116,31 @@ const SCENARIOS = [
 export default function SimulationPage() {
   const [selectedLane, setSelectedLane] = useState<string>("");
   const [iterations, setIterations] = useState("5000");
+  const [seedInput, setSeedInput] = useState("");
+  const [keepSamples, setKeepSamples] = useState(false);
+  const [departureWeek, setDepartureWeek] = useState("0");
+  const [bookingDays, setBookingDays] = useState("0");
+  const [forecastModel, setForecastModel] = useState("auto");
+  const [stoppingRule, setStoppingRule] = useState<"fixed" | "auto">("fixed");
+  const [autoTolerance, setAutoTolerance] = useState("0.5"); // Percent
   const [selectedScenarios, setSelectedScenarios] = useState<string[]>([]);
   const [scenarioResults, setScenarioResults] = useState<{[key: string]: any}>({});
   const [isRunningScenarios, setIsRunningScenarios] = useState(false);
   const { toast } = useToast();
 
   const { 
+    simulationId: activeSimulationId,
     isRunning, 
+    isPaused,
     progress, 
     currentIteration, 
     results,
+    partialResults,
+    convergencePoints,
     startSimulation,
     pauseSimulation,
+    resumeSimulation,
+    cancelSimulation,
     resetSimulation,
     setProgress
   } = useSimulationStore();
@@ -131,7 +150,10 @@ export default function SimulationPage() {
   });
 
   const { data: simulations } = useQuery<Simulation[]>({ 
-    queryKey: ["/api/simulations"] 
+    queryKey: ["/api/simulations"],
+    // Poll while server-side jobs are queued or running
+    refetchInterval: (query) =>
+      query.state.data?.some(s => s.status === "pending" || s.status === "running") ? 2000 : false
   });
 
   const createSimulationMutation = useMutation({
@@ -144,6 +166,48 @@ export default function SimulationPage() {
     }
   });
 
+  // Auto mode treats the iteration count as a cap and stops once P90 landed cost is stable
+  const getAutoIterations = (): AutoIterationSettings | undefined => {
+    if (stoppingRule !== "auto") return undefined;
+    const tolerance = parseFloat(autoTolerance) / 100;
+    return tolerance > 0 ? { tolerance } : undefined;
+  };
+
+  const isAutoToleranceInvalid = () => {
+    if (stoppingRule === "auto" && !getAutoIterations()) {
+      toast({
+        title: "Error",
+        description: "Auto mode needs a tolerance above 0%",
+        variant: "destructive"
+      });
+      return true;
+    }
+    return false;
+  };
+
+  // Booking today uses the index as it stands; a later booking date samples the index from its fitted forecast
+  const fetchIndexForecast = async (lane: Lane): Promise<IndexForecastDistribution | null> => {
+    const days = parseInt(bookingDays);
+    if (!(days > 0)) return null;
+    const model = forecastModel === "auto" ? "" : `&model=${forecastModel}`;
+    const response = await apiRequest('GET', `/api/indices/${lane.baseIndex}/forecast?horizon=${days}${model}`);
+    const report: IndexForecastReport = await response.json();
+    return selectedForecast(report).distribution;
+  };
+
+  const isBookingDaysInvalid = () => {
+    const days = Number(bookingDays);
+    if (!Number.isInteger(days) || days < 0 || days > 365) {
+      toast({
+        title: "Error",
+        description: "Booking date must be 0 to 365 days ahead",
+        variant: "destructive"
+      });
+      return true;
+    }
+    return false;
+  };
+
   const handleRunSimulation = async () => {
     if (!selectedLane) {
       toast({
@@ -157,14 +221,43 @@ export default function SimulationPage() {
     const lane = lanes?.find(l => l.id === selectedLane);
     if (!lane) return;
 
-    // Create simulation record
-    const simulationData = {
-      laneId: selectedLane,
-      iterations: parseInt(iterations),
-      status: "running"
+    if (seedInput.trim() !== "" && parseSeed(seedInput) === undefined) {
+      toast({
+        title: "Error",
+        description: "Seed must be a whole number between 0 and 2,147,483,647",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    if (isAutoToleranceInvalid() || isBookingDaysInvalid()) return;
+
+    const seed = parseSeed(seedInput) ?? generateSeed();
+    const autoIterations = getAutoIterations();
+    const transitInputs: SimulationTransitInputs = {
+      segments: lane.segments as TransitSegment[],
+      departureWeek: parseInt(departureWeek)
     };
 
     try {
+      const rateInputs: SimulationRateInputs = {
+        baseRate: lane.indexValue * lane.laneRatio,
+        factors: lane.factors as RateFactor[],
+        correlationMatrix: lane.correlationMatrix as CorrelationMatrix | null,
+        indexForecast: await fetchIndexForecast(lane)
+      };
+
+      // Create simulation record
+      const simulationData = {
+        laneId: selectedLane,
+        iterations: parseInt(iterations),
+        rateDistribution: rateInputs,
+        transitDistribution: transitInputs,
+        status: "running",
+        seed,
+        autoTolerance: autoIterations?.tolerance ?? null
+      };
+
       const simulation = await createSimulationMutation.mutateAsync(simulationData);
       
       // Start the actual simulation
@@ -172,19 +265,148 @@ export default function SimulationPage() {
         simulationId: simulation.id,
         laneId: selectedLane,
         iterations: parseInt(iterations),
-        factors: lane.factors as RateFactor[],
-        segments: lane.segments as TransitSegment[],
-        baseRate: lane.indexValue * lane.laneRatio
+        factors: rateInputs.factors,
+        segments: transitInputs.segments,
+        baseRate: rateInputs.baseRate,
+        seed,
+        departureWeek: transitInputs.departureWeek,
+        correlation: rateInputs.correlationMatrix,
+        indexForecast: rateInputs.indexForecast,
+        autoIterations,
+        keepSamples,
+        startDate: new Date(simulation.createdAt).getTime()
       });
 
       toast({
         title: "Simulation Started",
-        description: `Running ${iterations} iterations for ${lane.name}`,
+        description: `Running ${iterations} iterations for ${lane.name} (seed ${seed})`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start simulation",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRunOnServer = async () => {
+    const lane = lanes?.find(l => l.id === selectedLane);
+    if (!lane) return;
+
+    const seed = parseSeed(seedInput);
+    if (seedInput.trim() !== "" && seed === undefined) {
+      toast({
+        title: "Error",
+        description: "Seed must be a whole number between 0 and 2,147,483,647",
+        variant: "destructive"
+      });
+      return;
+    }
+    if (isAutoToleranceInvalid() || isBookingDaysInvalid()) return;
+
+    const transitInputs: SimulationTransitInputs = {
+      segments: lane.segments as TransitSegment[],
+      departureWeek: parseInt(departureWeek)
+    };
+
+    try {
+      const rateInputs: SimulationRateInputs = {
+        baseRate: lane.indexValue * lane.laneRatio,
+        factors: lane.factors as RateFactor[],
+        correlationMatrix: lane.correlationMatrix as CorrelationMatrix | null,
+        indexForecast: await fetchIndexForecast(lane)
+      };
+      const simulation = await createSimulationMutation.mutateAsync({
+        laneId: lane.id,
+        iterations: parseInt(iterations),
+        rateDistribution: rateInputs,
+        transitDistribution: transitInputs,
+        status: "pending",
+        seed: seed ?? null,
+        autoTolerance: getAutoIterations()?.tolerance ?? null
+      });
+      await apiRequest('POST', `/api/simulations/${simulation.id}/run`);
+      queryClient.invalidateQueries({ queryKey: ['/api/simulations'] });
+
+      toast({
+        title: "Simulation Queued",
+        description: `${parseInt(iterations).toLocaleString()} iterations for ${lane.name} will run on the server`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to queue server simulation",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleCancelServerSimulation = async (simulationId: string) => {
+    try {
+      await apiRequest('POST', `/api/simulations/${simulationId}/cancel`);
+      queryClient.invalidateQueries({ queryKey: ['/api/simulations'] });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to cancel server simulation",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Replays a stored run with its seed, inputs and start date so the results match exactly
+  const handleRerunSimulation = async (simulation: Simulation) => {
+    if (simulation.seed == null) return;
+
+    const rateInputs = simulation.rateDistribution as SimulationRateInputs;
+    const transitInputs = simulation.transitDistribution as SimulationTransitInputs;
+    const startDate = simulation.createdAt ? new Date(simulation.createdAt).getTime() : undefined;
+
+    try {
+      const rerun = await createSimulationMutation.mutateAsync({
+        laneId: simulation.laneId,
+        iterations: simulation.iterations,
+        rateDistribution: rateInputs,
+        transitDistribution: transitInputs,
+        status: "running",
+        seed: simulation.seed,
+        autoTolerance: simulation.autoTolerance
+      });
+
+      if (simulation.laneId) setSelectedLane(simulation.laneId);
+      setIterations(String(simulation.iterations));
+      setSeedInput(String(simulation.seed));
+      setDepartureWeek(String(transitInputs.departureWeek ?? 0));
+      setBookingDays(String(rateInputs.indexForecast?.horizonDays ?? 0));
+      setForecastModel(rateInputs.indexForecast?.model ?? "auto");
+      setStoppingRule(simulation.autoTolerance ? "auto" : "fixed");
+      if (simulation.autoTolerance) setAutoTolerance(String(simulation.autoTolerance * 100));
+
+      startSimulation({
+        simulationId: rerun.id,
+        laneId: simulation.laneId ?? "",
+        iterations: simulation.iterations,
+        factors: rateInputs.factors,
+        segments: transitInputs.segments,
+        baseRate: rateInputs.baseRate,
+        seed: simulation.seed,
+        startDate,
+        departureWeek: transitInputs.departureWeek,
+        correlation: rateInputs.correlationMatrix,
+        indexForecast: rateInputs.indexForecast,
+        autoIterations: simulation.autoTolerance ? { tolerance: simulation.autoTolerance } : undefined,
+        keepSamples
+      });
+
+      toast({
+        title: "Simulation Re-run Started",
+        description: `Replaying ${simulation.iterations.toLocaleString()} iterations with seed ${simulation.seed}`,
       });
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to start simulation",
+        description: "Failed to re-run simulation",
         variant: "destructive"
       });
     }
@@ -205,6 +427,8 @@ export default function SimulationPage() {
 
     setIsRunningScenarios(true);
     const newResults: {[key: string]: any} = {};
+    // Common random numbers: every scenario shares one seed so differences come from the scenario, not sampling noise
+    const seed = parseSeed(seedInput) ?? generateSeed();
 
     try {
       // Run base scenario first
@@ -220,14 +444,16 @@ export default function SimulationPage() {
             iterations: parseInt(iterations),
             factors: lane.factors as RateFactor[],
             segments: lane.segments as TransitSegment[],
-            baseRate: lane.indexValue * lane.laneRatio
+            baseRate: lane.indexValue * lane.laneRatio,
+            seed,
+            departureWeek: parseInt(departureWeek),
+            correlation: lane.correlationMatrix as CorrelationMatrix | null
           }
         });
 
         worker.onmessage = (e) => {
           if (e.data.type === 'complete') {
-            const rawResults = e.data.data;
-            newResults['baseline'] = processSimulationResults(rawResults);
+            newResults['baseline'] = processSimulationResults(e.data.data.summary);
             worker.terminate();
             resolve();
           }
@@ -270,14 +496,16 @@ export default function SimulationPage() {
               iterations: parseInt(iterations),
               factors: modifiedFactors,
               segments: modifiedSegments,
-              baseRate: lane.indexValue * lane.laneRatio * scenario.factors.rateMultiplier
+              baseRate: lane.indexValue * lane.laneRatio * scenario.factors.rateMultiplier,
+              seed,
+              departureWeek: parseInt(departureWeek),
+              correlation: lane.correlationMatrix as CorrelationMatrix | null
             }
           });
 
           worker.onmessage = (e) => {
             if (e.data.type === 'complete') {
-              const rawResults = e.data.data;
-              newResults[scenarioId] = processSimulationResults(rawResults);
+              newResults[scenarioId] = processSimulationResults(e.data.data.summary);
               worker.terminate();
               resolve();
             }
@@ -312,6 +540,19 @@ export default function SimulationPage() {
 
   const selectedLaneData = lanes?.find(l => l.id === selectedLane);
 
+  const simulationHistory = [...(simulations || [])]
+    .sort((a, b) => new Date(b.createdAt ?? 0).getTime() - new Date(a.createdAt ?? 0).getTime())
+    .slice(0, 10);
+
+  const getStatusVariant = (status: string) => {
+    switch (status) {
+      case 'completed': return 'default';
+      case 'failed': return 'destructive';
+      case 'running': return 'secondary';
+      default: return 'outline';
+    }
+  };
+
   if (lanesLoading) {
     return (
       <div className="p-6">
@@ -339,7 +580,7 @@ export default function SimulationPage() {
           <CardTitle>Simulation Configuration</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-6 gap-4">
             <div className="space-y-2">
               <label className="text-sm font-medium">Select Lane</label>
               <Select value={selectedLane} onValueChange={setSelectedLane} data-testid="select-lane">
@@ -357,7 +598,7 @@ export default function SimulationPage() {
             </div>
 
             <div className="space-y-2">
-              <label className="text-sm font-medium">Iterations</label>
+              <label className="text-sm font-medium">{stoppingRule === "auto" ? "Max Iterations" : "Iterations"}</label>
               <Select value={iterations} onValueChange={setIterations} data-testid="select-iterations">
                 <SelectTrigger>
                   <SelectValue />
@@ -367,16 +608,102 @@ export default function SimulationPage() {
                   <SelectItem value="5000">5,000 iterations</SelectItem>
                   <SelectItem value="10000">10,000 iterations</SelectItem>
                   <SelectItem value="50000">50,000 iterations</SelectItem>
+                  <SelectItem value="100000">100,000 iterations</SelectItem>
+                  <SelectItem value="1000000">1,000,000 iterations</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Stopping Rule</label>
+              <div className="flex gap-2">
+                <Select value={stoppingRule} onValueChange={(value) => setStoppingRule(value as "fixed" | "auto")}>
+                  <SelectTrigger data-testid="select-stopping-rule">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="fixed">Fixed</SelectItem>
+                    <SelectItem value="auto">Auto (P90)</SelectItem>
+                  </SelectContent>
+                </Select>
+                {stoppingRule === "auto" && (
+                  <div className="relative w-24 shrink-0">
+                    <Input
+                      type="number"
+                      step="0.1"
+                      min="0.05"
+                      value={autoTolerance}
+                      onChange={(e) => setAutoTolerance(e.target.value)}
+                      className="pr-6"
+                      title="Stop once P90 landed cost is stable within ± this percentage"
+                      data-testid="input-auto-tolerance"
+                    />
+                    <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">%</span>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Departure</label>
+              <Select value={departureWeek} onValueChange={setDepartureWeek} data-testid="select-departure-week">
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {[0, 1, 2, 3, 4].map(week => (
+                    <SelectItem key={week} value={String(week)}>
+                      {week === 0 ? 'This week' : `Week ${week + 1}`}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
 
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Booking In (days)</label>
+              <div className="flex gap-2">
+                <Input
+                  type="number"
+                  min="0"
+                  max="365"
+                  value={bookingDays}
+                  onChange={(e) => setBookingDays(e.target.value)}
+                  className="w-20 shrink-0"
+                  title="0 books at today's index; later dates sample the index from its forecast"
+                  data-testid="input-booking-days"
+                />
+                <Select value={forecastModel} onValueChange={setForecastModel} disabled={!(parseInt(bookingDays) > 0)}>
+                  <SelectTrigger data-testid="select-forecast-model">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="auto">Best backtest</SelectItem>
+                    {FORECAST_MODELS.map(model => (
+                      <SelectItem key={model} value={model}>{FORECAST_MODEL_LABELS[model]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Seed</label>
+              <Input
+                value={seedInput}
+                onChange={(e) => setSeedInput(e.target.value)}
+                placeholder="Random"
+                inputMode="numeric"
+                data-testid="input-seed"
+              />
+            </div>
+
             <div className="space-y-2">
               <label className="text-sm font-medium">Controls</label>
               <div className="flex gap-2">
                 <Button 
                   onClick={handleRunSimulation} 
-                  disabled={isRunning || !selectedLane}
+                  disabled={isRunning || isPaused || !selectedLane}
                   data-testid="button-run-simulation"
                 >
                   <Play className="h-4 w-4 mr-2" />
@@ -384,12 +711,41 @@ export default function SimulationPage() {
                 </Button>
                 <Button 
                   variant="outline" 
-                  onClick={pauseSimulation}
-                  disabled={!isRunning}
-                  data-testid="button-pause-simulation"
+                  onClick={handleRunOnServer}
+                  disabled={!selectedLane}
+                  data-testid="button-run-server-simulation"
                 >
-                  <Pause className="h-4 w-4 mr-2" />
-                  Pause
+                  <Server className="h-4 w-4 mr-2" />
+                  Server
+                </Button>
+                {isPaused ? (
+                  <Button 
+                    variant="outline" 
+                    onClick={resumeSimulation}
+                    data-testid="button-resume-simulation"
+                  >
+                    <Play className="h-4 w-4 mr-2" />
+                    Resume
+                  </Button>
+                ) : (
+                  <Button 
+                    variant="outline" 
+                    onClick={pauseSimulation}
+                    disabled={!isRunning}
+                    data-testid="button-pause-simulation"
+                  >
+                    <Pause className="h-4 w-4 mr-2" />
+                    Pause
+                  </Button>
+                )}
+                <Button 
+                  variant="outline" 
+                  onClick={cancelSimulation}
+                  disabled={!isRunning && !isPaused}
+                  data-testid="button-cancel-simulation"
+                >
+                  <Square className="h-4 w-4 mr-2" />
+                  Cancel
                 </Button>
                 <Button 
                   variant="outline" 
@@ -403,8 +759,20 @@ export default function SimulationPage() {
             </div>
           </div>
 
+          <div className="mt-4 flex items-center gap-2">
+            <Checkbox
+              id="keep-samples"
+              checked={keepSamples}
+              onCheckedChange={(checked) => setKeepSamples(checked === true)}
+              data-testid="checkbox-keep-samples"
+            />
+            <label htmlFor="keep-samples" className="text-sm text-muted-foreground">
+              Keep raw samples for CSV export (full runs only; uses more memory)
+            </label>
+          </div>
+
           {/* Progress Display */}
-          {(isRunning || progress > 0) && (
+          {(isRunning || isPaused || progress > 0) && (
             <div className="mt-6 p-4 bg-muted rounded-md" data-testid="simulation-progress">
               <div className="flex items-center justify-between mb-2">
                 <span className="text-sm font-medium">Simulation Progress</span>
@@ -421,6 +789,41 @@ export default function SimulationPage() {
                   ETA: {Math.round((100 - progress) * 0.1)} seconds
                 </div>
               )}
+              {(isRunning || isPaused) && convergencePoints.length > 1 && (
+                <div className="mt-4">
+                  <ConvergenceChart
+                    points={convergencePoints}
+                    tolerance={getAutoIterations()?.tolerance}
+                  />
+                </div>
+              )}
+              {isPaused && (
+                <div className="mt-3 space-y-2" data-testid="simulation-partial-results">
+                  <div className="text-xs font-medium text-yellow-600">
+                    Paused after {currentIteration.toLocaleString()} iterations — partial estimates
+                  </div>
+                  {partialResults?.rateStats && partialResults.transitStats && (
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs">
+                      <div>
+                        <span className="text-muted-foreground">Rate mean: </span>
+                        <span className="font-mono">${partialResults.rateStats.mean.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span>
+                      </div>
+                      <div>
+                        <span className="text-muted-foreground">Rate P90: </span>
+                        <span className="font-mono">${partialResults.rateStats.p90.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span>
+                      </div>
+                      <div>
+                        <span className="text-muted-foreground">Transit mean: </span>
+                        <span>{partialResults.transitStats.mean.toFixed(1)} days</span>
+                      </div>
+                      <div>
+                        <span className="text-muted-foreground">Transit P90: </span>
+                        <span>{partialResults.transitStats.p90.toFixed(1)} days</span>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
               {progress === 100 && !isRunning && (
                 <div 
                   className="text-xs text-green-600 font-medium mt-1"
@@ -459,6 +862,7 @@ export default function SimulationPage() {
             <CardContent>
               <TransitSimulator 
                 segments={selectedLaneData.segments as TransitSegment[]}
+                departureWeek={parseInt(departureWeek)}
                 onSegmentChange={(segments) => {
                   // Handle segment changes
                 }}
@@ -569,7 +973,7 @@ export default function SimulationPage() {
                     const title = scenarioId === 'baseline' ? 'Baseline' : scenario?.name || scenarioId;
                     
                     // Debug: Check if results have the expected structure
-                    if (!results || !results.rawResults || !Array.isArray(results.rawResults)) {
+                    if (!results || !results.summary) {
                       console.log(`Invalid results for ${scenarioId}:`, results);
                       return null;
                     }
@@ -581,7 +985,7 @@ export default function SimulationPage() {
                           {title}
                         </h5>
                         <DistributionChart 
-                          data={results.rawResults} 
+                          data={results.summary.rate} 
                           title={`${title} Rate Distribution`}
                           type="rate"
                         />
@@ -669,14 +1073,42 @@ export default function SimulationPage() {
         <div className="grid grid-cols-1 xl:grid-cols-3 gap-6" data-testid="simulation-results">
           <Card className="xl:col-span-2">
             <CardHeader>
-              <CardTitle>Simulation Results</CardTitle>
+              <div className="flex items-center justify-between">
+                <CardTitle>Simulation Results</CardTitle>
+                {results.samples && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => exportSamplesCsv(results.samples!, `simulation-samples-${Date.now()}.csv`)}
+                    data-testid="button-export-samples"
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    Export Samples
+                  </Button>
+                )}
+              </div>
             </CardHeader>
             <CardContent>
-              <DistributionChart 
-                data={results.rateDistribution} 
-                title="Rate Distribution"
-                type="rate"
-              />
+              <div className="space-y-6">
+                <DistributionChart 
+                  data={results.rateDistribution} 
+                  title="Rate Distribution"
+                  type="rate"
+                />
+                <DistributionChart 
+                  data={results.transitDistribution} 
+                  title="Transit Time"
+                  type="transit"
+                />
+                {results.convergence && (
+                  <ConvergenceChart
+                    points={results.convergence.points}
+                    tolerance={results.convergence.tolerance}
+                    converged={results.convergence.converged}
+                    stoppedEarly={results.convergence.stoppedEarly}
+                  />
+                )}
+              </div>
             </CardContent>
           </Card>
 
@@ -751,6 +1183,75 @@ export default function SimulationPage() {
           </div>
         </div>
       )}
+
+      {/* Simulation History */}
+      {simulationHistory.length > 0 && (
+        <Card data-testid="simulation-history">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Simulation History
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left p-2">Run</th>
+                    <th className="text-left p-2">Lane</th>
+                    <th className="text-right p-2">Iterations</th>
+                    <th className="text-right p-2">Seed</th>
+                    <th className="text-right p-2">Status</th>
+                    <th className="text-right p-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {simulationHistory.map(simulation => {
+                    const lane = lanes?.find(l => l.id === simulation.laneId);
+                    return (
+                      <tr key={simulation.id} className="border-b hover:bg-muted/50" data-testid={`simulation-history-${simulation.id}`}>
+                        <td className="p-2">
+                          {simulation.createdAt ? new Date(simulation.createdAt).toLocaleString() : '—'}
+                        </td>
+                        <td className="p-2">{lane?.name || 'Unknown lane'}</td>
+                        <td className="text-right p-2">{simulation.iterations.toLocaleString()}</td>
+                        <td className="text-right p-2 font-mono">{simulation.seed ?? '—'}</td>
+                        <td className="text-right p-2">
+                          <Badge variant={getStatusVariant(simulation.status)}>{simulation.status}</Badge>
+                        </td>
+                        <td className="text-right p-2 space-x-2">
+                          {(simulation.status === 'pending' || simulation.status === 'running') && simulation.id !== activeSimulationId && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleCancelServerSimulation(simulation.id)}
+                              data-testid={`button-cancel-${simulation.id}`}
+                            >
+                              <Square className="h-3 w-3 mr-1" />
+                              Cancel
+                            </Button>
+                          )}
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleRerunSimulation(simulation)}
+                            disabled={isRunning || isPaused || simulation.seed == null || !simulation.rateDistribution}
+                            data-testid={`button-rerun-${simulation.id}`}
+                          >
+                            <RotateCcw className="h-3 w-3 mr-1" />
+                            Re-run
+                          </Button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
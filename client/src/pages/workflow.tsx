@@ -1,4 +1,4 @@
-import { useParams } from "wouter";
+import { Link, useParams } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -7,6 +7,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Progress } from "@/components/ui/progress";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Separator } from "@/components/ui/separator";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import {
@@ -29,9 +30,18 @@ import {
   Loader2,
   ExternalLink,
   Settings,
-  AlertTriangle
+  AlertTriangle,
+  ClipboardCheck
 } from "lucide-react";
-import type { AutomationProcess, Shipment, VendorEvaluation, Quote } from "@shared/schema";
+import type {
+  AutomationProcess, Shipment, VendorEvaluation, Quote, ProcessDocument, WorkflowEvent, DecisionAgentAnalysis, AgentFitmentFactors
+} from "@shared/schema";
+import type { ChosenStrategy } from "@shared/alternatives";
+import type { ProcessTransitions } from "@shared/workflow-state";
+import type { FitmentFailure } from "@shared/fitment-agent";
+import { RfqPanel } from "@/components/workflow/rfq-panel";
+import { BookingOutcomeDialog } from "@/components/carriers/booking-outcome-dialog";
+import { carrierKey, sameCarrier, type CarrierWithScorecard } from "@shared/carrier-scorecard";
 
 export default function WorkflowPage() {
   const params = useParams();
@@ -50,6 +60,8 @@ export default function WorkflowPage() {
   });
 
   const process = processes?.find(p => p.shipmentId === shipmentId);
+  // Set when a user picks one of the shipment's quote alternatives on the Alternatives page
+  const chosenStrategy = (process?.processData as { chosenStrategy?: ChosenStrategy } | null)?.chosenStrategy;
 
   // Fetch vendor evaluations for this process
   const { data: evaluations } = useQuery<VendorEvaluation[]>({
@@ -63,81 +75,47 @@ export default function WorkflowPage() {
     queryKey: ['/api/quotes'],
   });
 
-  // Generate synthetic quote data for demo
-  const syntheticQuotes = [
-    {
-      id: "quote-1",
-      vendor: "Global Maritime Solutions",
-      rate: 2450,
-      transitTime: "18-22 days",
-      service: "FCL 20'",
-      validUntil: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
-      equipment: "Standard dry container",
-      departure: "Weekly - Monday",
-      ai_evaluation: {
-        ratingScore: 87,
-        fitmentFactors: {
-          priceCompetitiveness: 85,
-          transitTimeReliability: 90,
-          carrierReputation: 88,
-          equipmentAvailability: 85,
-          routeOptimization: 90
-        },
-        strengths: ["Competitive pricing", "Reliable transit times", "Strong carrier reputation"],
-        concerns: ["Limited equipment flexibility", "Fewer departure options"],
-        recommendation: "ACCEPT",
-        agent: "Fitment Evaluation Agent"
-      }
+  const { data: carriers } = useQuery<CarrierWithScorecard[]>({
+    queryKey: ['/api/carriers'],
+  });
+
+  const shipmentQuotes = quotes?.filter(q => q.shipmentId === shipmentId) || [];
+  const bestRateQuote = shipmentQuotes.reduce<Quote | undefined>((best, q) => (!best || q.rate < best.rate ? q : best), undefined);
+  const evaluationFor = (quoteId: string) => processEvaluations.find(e => e.quoteId === quoteId);
+  const topEvaluation = processEvaluations.reduce<VendorEvaluation | undefined>(
+    (best, e) => (!best || e.ratingScore > best.ratingScore ? e : best),
+    undefined
+  );
+  const carrierOf = (quoteId: string) => shipmentQuotes.find(q => q.id === quoteId)?.carrier ?? "Unknown carrier";
+  const recommendationCounts = {
+    ACCEPT: processEvaluations.filter(e => e.recommendation === 'ACCEPT'),
+    CONDITIONAL: processEvaluations.filter(e => e.recommendation === 'CONDITIONAL'),
+    REJECT: processEvaluations.filter(e => e.recommendation === 'REJECT')
+  };
+
+  // Quotes linked after the process entered agent evaluation are picked up by re-running the fitment agent
+  const runFitmentMutation = useMutation({
+    mutationFn: async () => {
+      if (!process) return [];
+      const response = await apiRequest('POST', `/api/automation-processes/${process.id}/fitment`);
+      return response.json() as Promise<VendorEvaluation[]>;
     },
-    {
-      id: "quote-2", 
-      vendor: "Pacific Express Logistics",
-      rate: 2180,
-      transitTime: "25-30 days",
-      service: "FCL 20'",
-      validUntil: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000),
-      equipment: "Standard dry container",
-      departure: "Bi-weekly - Wednesday",
-      ai_evaluation: {
-        ratingScore: 72,
-        fitmentFactors: {
-          priceCompetitiveness: 95,
-          transitTimeReliability: 60,
-          carrierReputation: 75,
-          equipmentAvailability: 70,
-          routeOptimization: 65
-        },
-        strengths: ["Lowest price point", "Good for non-urgent shipments"],
-        concerns: ["Longer transit time", "Less reliable schedule", "Limited tracking"],
-        recommendation: "CONDITIONAL",
-        agent: "Cost Analysis Agent"
-      }
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/vendor-evaluations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/automation-processes'] });
+      toast({
+        title: "Fitment Evaluated",
+        description: `${created.length} quote${created.length === 1 ? '' : 's'} evaluated`
+      });
     },
-    {
-      id: "quote-3",
-      vendor: "Premium Ocean Freight",
-      rate: 2890,
-      transitTime: "14-17 days", 
-      service: "FCL 20'",
-      validUntil: new Date(Date.now() + 10 * 24 * 60 * 60 * 1000),
-      equipment: "Temperature controlled available",
-      departure: "Daily",
-      ai_evaluation: {
-        ratingScore: 94,
-        fitmentFactors: {
-          priceCompetitiveness: 70,
-          transitTimeReliability: 95,
-          carrierReputation: 98,
-          equipmentAvailability: 95,
-          routeOptimization: 92
-        },
-        strengths: ["Fastest transit time", "Premium service", "Excellent track record", "Flexible equipment"],
-        concerns: ["Higher cost", "May be over-engineered for standard cargo"],
-        recommendation: "ACCEPT",
-        agent: "Service Quality Agent"
-      }
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to run fitment evaluation",
+        variant: "destructive"
+      });
     }
-  ];
+  });
 
   // Process stage configuration
   const stages = [
@@ -153,179 +131,88 @@ export default function WorkflowPage() {
   const currentStageIndex = process ? stages.findIndex(s => s.key === process.currentStage) : 0;
   const progressPercent = ((currentStageIndex + 1) / stages.length) * 100;
 
-  const advanceProcess = useMutation({
-    mutationFn: async () => {
-      if (!process) return;
-      const nextStageIndex = Math.min(currentStageIndex + 1, stages.length - 1);
-      const nextStage = stages[nextStageIndex].key;
-      
-      const updates = {
-        currentStage: nextStage,
-        processData: {
-          ...(process.processData || {}),
-          lastAdvanced: new Date(),
-          step: nextStageIndex + 1
-        }
-      };
+  // Stage changes go through the server's state machine, which reports each event's guard
+  const { data: workflow } = useQuery<ProcessTransitions>({
+    queryKey: ['/api/automation-processes', process?.id, 'transitions'],
+    enabled: !!process
+  });
 
-      const response = await apiRequest('PATCH', `/api/automation-processes/${process.id}`, updates);
-      return response.json();
+  const { data: documents } = useQuery<ProcessDocument[]>({
+    queryKey: ['/api/automation-processes', process?.id, 'documents'],
+    enabled: !!process
+  });
+
+  const transitionFor = (event: WorkflowEvent) => workflow?.transitions.find(transition => transition.event === event);
+
+  const transitionMutation = useMutation({
+    mutationFn: async (event: WorkflowEvent) => {
+      if (!process) return;
+      const response = await apiRequest('POST', `/api/automation-processes/${process.id}/transitions`, { event });
+      return response.json() as Promise<AutomationProcess>;
     },
-    onSuccess: () => {
+    onSuccess: (updated) => {
       queryClient.invalidateQueries({ queryKey: ['/api/automation-processes'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/vendor-evaluations'] });
+      const stage = stages.find(s => s.key === updated?.currentStage);
       toast({
         title: "Process Advanced",
-        description: "The automation process has been moved to the next stage"
+        description: stage ? `The automation process has moved to ${stage.label}` : "The automation process has been moved to the next stage"
+      });
+    },
+    onError: (error: Error) => {
+      // A conflicting transition may have moved the process on; show where it is now
+      queryClient.invalidateQueries({ queryKey: ['/api/automation-processes'] });
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to advance the process",
+        variant: "destructive"
       });
     }
   });
 
-  // Decision Agent Logic
-  const runDecisionAgent = (quotes: typeof syntheticQuotes, shipmentData: Shipment) => {
-    // Calculate weighted scores for each quote
-    const scoredQuotes = quotes.map(quote => {
-      const evaluation = quote.ai_evaluation;
-      
-      // Base score from AI evaluation
-      let totalScore = evaluation.ratingScore;
-      
-      // Urgency factor adjustments
-      if (shipmentData.urgency === 'high') {
-        // Heavily weight transit time for urgent shipments
-        totalScore += (evaluation.fitmentFactors.transitTimeReliability * 0.4);
-        totalScore -= (quote.rate > 2500 ? 5 : 0); // Penalize high costs less for urgent
-      } else if (shipmentData.urgency === 'low') {
-        // Prioritize cost savings for non-urgent shipments
-        totalScore += (evaluation.fitmentFactors.priceCompetitiveness * 0.3);
-        totalScore -= (quote.rate > 2700 ? 10 : 0); // Penalize high costs more
-      }
-      
-      // Delivery date factor
-      if (shipmentData.requiredDeliveryDate) {
-        const daysUntilRequired = Math.ceil(
-          (new Date(shipmentData.requiredDeliveryDate).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24)
-        );
-        const transitDays = parseInt(quote.transitTime.split('-')[1]);
-        
-        if (daysUntilRequired < transitDays + 5) {
-          // Tight deadline - prioritize speed
-          totalScore += (evaluation.fitmentFactors.transitTimeReliability * 0.5);
-        }
-      }
-      
-      // Market conditions factor (synthetic logic)
-      const marketVolatilityFactor = 0.15; // Low volatility
-      totalScore += (evaluation.fitmentFactors.carrierReputation * marketVolatilityFactor);
-      
-      return {
-        ...quote,
-        decisionScore: Math.round(totalScore),
-        reasoning: []
-      };
-    });
-    
-    // Find best quote
-    const bestQuote = scoredQuotes.reduce((best, current) => 
-      current.decisionScore > best.decisionScore ? current : best
-    );
-    
-    // Decision logic: defer vs book
-    const shouldDefer = () => {
-      // High urgency shipments should almost never be deferred
-      if (shipmentData.urgency === 'high') {
-        // Only defer high urgency if score is extremely low (< 75)
-        return bestQuote.decisionScore < 75;
+  const approveDocumentsMutation = useMutation({
+    mutationFn: async (reviewer: string) => {
+      const pending = (documents ?? []).filter(document => document.status !== 'approved');
+      for (const document of pending) {
+        await apiRequest('PATCH', `/api/process-documents/${document.id}`, { status: 'approved', reviewedBy: reviewer });
       }
-      
-      // Medium urgency shipments - normal thresholds
-      if (shipmentData.urgency === 'medium') {
-        // Defer if score is below threshold or rates are very high
-        if (bestQuote.decisionScore < 85) return true;
-        if (!shipmentData.requiredDeliveryDate && bestQuote.rate > 2800) return true;
-        return false;
-      }
-      
-      // Low urgency shipments - more flexible on deferring
-      if (shipmentData.urgency === 'low') {
-        // Defer if score is below threshold
-        if (bestQuote.decisionScore < 85) return true;
-        // Defer if rates are expensive
-        if (bestQuote.rate > 2600) return true;
-        // Defer if delivery is flexible and rates are above budget
-        if (!shipmentData.requiredDeliveryDate && bestQuote.rate > 2400) return true;
-        return false;
-      }
-      
-      return false;
-    };
-    
-    const decision = shouldDefer() ? 'defer' : 'book';
-    
-    // Generate decision reasoning
-    let reasoning = '';
-    let deferCost = 0;
-    
-    if (decision === 'defer') {
-      if (shipmentData.urgency === 'high' && bestQuote.decisionScore < 75) {
-        reasoning = 'Even with high urgency, no quotes meet minimum quality standards. Immediate attention required.';
-      } else if (bestQuote.decisionScore < 85) {
-        reasoning = 'Quote quality below acceptable thresholds. Waiting for better options.';
-      } else if (shipmentData.urgency === 'low' && bestQuote.rate > 2600) {
-        reasoning = 'Non-urgent shipment with high rates. Market timing suggests waiting.';
-      } else {
-        reasoning = 'Market analysis suggests waiting for more competitive rates.';
-      }
-      
-      // Calculate estimated defer cost (storage, insurance, etc.)
-      deferCost = Math.round(shipmentData.weight * 0.5 + shipmentData.volume * 25); // Weekly cost
-    } else {
-      const urgencyNote = shipmentData.urgency === 'high' ? ' Priority booking due to high urgency.' : '';
-      reasoning = `${bestQuote.vendor} selected - ${bestQuote.ai_evaluation.recommendation === 'ACCEPT' ? 'optimal fit' : 'best available option'} for current requirements.${urgencyNote}`;
+      return pending.length;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/automation-processes'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/process-documents'] });
+      toast({
+        title: "Documents Approved",
+        description: count > 0 ? `${count} document${count === 1 ? '' : 's'} approved` : "All documents were already approved"
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to approve documents",
+        variant: "destructive"
+      });
     }
-    
-    return {
-      decision,
-      reasoning,
-      deferCost,
-      selectedQuote: decision === 'book' ? bestQuote : null,
-      scoredQuotes,
-      decisionFactors: {
-        urgencyWeight: shipmentData.urgency === 'high' ? 'High' : shipmentData.urgency === 'medium' ? 'Medium' : 'Low',
-        timeConstraints: shipmentData.requiredDeliveryDate ? 'Fixed deadline' : 'Flexible',
-        marketConditions: 'Stable rates, low volatility',
-        riskTolerance: 'Medium',
-        bestScore: bestQuote.decisionScore
-      }
-    };
-  };
+  });
+
+  const decisionAnalysis = (process?.processData as { decisionAnalysis?: DecisionAgentAnalysis } | null)?.decisionAnalysis;
+  const fitmentError = (process?.processData as { fitmentError?: FitmentFailure | null } | null)?.fitmentError;
+  const recommendedQuote = decisionAnalysis?.scoredQuotes.find(q => q.quoteId === decisionAnalysis.topRecommendedQuote);
+  const bookedCarrier = decisionAnalysis?.bookingAnalysis?.selectedVendor ?? chosenStrategy?.carrier ?? "the selected carrier";
+  const bookedQuote = quotes?.find(quote => quote.id === decisionAnalysis?.topRecommendedQuote);
+  const bookedCarrierRecord = bookedQuote
+    ? carriers?.find(carrier => sameCarrier(carrier.name, bookedQuote.carrier))
+    : undefined;
 
+  // The decision agent runs on the server against the shipment's quotes; its book or defer verdict is then
+  // sent as a workflow event
   const makeDecisionMutation = useMutation({
     mutationFn: async () => {
-      if (!process || !shipment) return;
-      
-      // Run decision agent
-      const decisionResult = runDecisionAgent(syntheticQuotes, shipment);
-      
-      // Update automation process with decision
-      const updates = {
-        agentDecision: decisionResult.decision,
-        deferCost: decisionResult.deferCost,
-        deferReason: decisionResult.reasoning,
-        currentStage: decisionResult.decision === 'book' ? 'booking_execution' : 'approval_pending',
-        processData: {
-          ...(process.processData || {}),
-          decisionMade: new Date(),
-          decisionFactors: decisionResult.decisionFactors,
-          selectedQuote: decisionResult.selectedQuote,
-          scoredQuotes: decisionResult.scoredQuotes.map(q => ({
-            vendor: q.vendor,
-            rate: q.rate,
-            decisionScore: q.decisionScore
-          }))
-        }
-      };
-
-      const response = await apiRequest('PATCH', `/api/automation-processes/${process.id}`, updates);
+      if (!process) return;
+      const decided: AutomationProcess = await (await apiRequest('POST', `/api/automation-processes/${process.id}/decision`)).json();
+      const response = await apiRequest('POST', `/api/automation-processes/${process.id}/transitions`, {
+        event: decided.agentDecision
+      });
       return response.json();
     },
     onSuccess: () => {
@@ -335,10 +222,10 @@ export default function WorkflowPage() {
         description: "The decision agent has analyzed all factors and made a recommendation"
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to run decision analysis",
+        description: error instanceof Error ? error.message : "Failed to run decision analysis",
         variant: "destructive"
       });
     }
@@ -355,7 +242,7 @@ export default function WorkflowPage() {
         actionType: "approve_vendor",
         actionStatus: "in_progress",
         actionData: {
-          vendorName: "Premium Ocean Freight",
+          vendorName: bookedCarrier,
           approvedAt: new Date(),
           approvedBy: "Sarah Chen",
           approvalNotes: "Vendor meets all requirements with excellent service history"
@@ -369,7 +256,7 @@ export default function WorkflowPage() {
       queryClient.invalidateQueries({ queryKey: ['/api/process-actions'] });
       toast({
         title: "Vendor Approved",
-        description: "Premium Ocean Freight has been approved for this shipment"
+        description: `${bookedCarrier} has been approved for this shipment`
       });
     },
     onError: () => {
@@ -431,7 +318,7 @@ export default function WorkflowPage() {
         {
           processId: process.id,
           documentType: "booking_confirmation",
-          documentName: "Booking Confirmation - Premium Ocean Freight",
+          documentName: `Booking Confirmation - ${bookedCarrier}`,
           status: "generated",
           content: {
             bookingReference: `POF-${Date.now()}`,
@@ -481,6 +368,7 @@ export default function WorkflowPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/process-documents'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/automation-processes'] });
       toast({
         title: "Documents Generated",
         description: "All shipping documents have been generated successfully"
@@ -531,16 +419,18 @@ export default function WorkflowPage() {
             <CurrentStageIcon className="h-4 w-4" />
             {stages[currentStageIndex]?.label}
           </Badge>
-          {currentStageIndex < stages.length - 1 && (
+          {workflow?.transitions.map(transition => (
             <Button
-              onClick={() => advanceProcess.mutate()}
-              disabled={advanceProcess.isPending}
-              data-testid="button-advance-process"
+              key={transition.event}
+              onClick={() => transitionMutation.mutate(transition.event)}
+              disabled={!transition.allowed || transitionMutation.isPending}
+              title={transition.failures.join("; ") || undefined}
+              data-testid={`button-transition-${transition.event}`}
             >
               <Zap className="h-4 w-4 mr-2" />
-              {advanceProcess.isPending ? "Advancing..." : "Advance Process"}
+              {transitionMutation.isPending && transitionMutation.variables === transition.event ? "Advancing..." : transition.label}
             </Button>
-          )}
+          ))}
         </div>
       </div>
 
@@ -560,6 +450,7 @@ export default function WorkflowPage() {
                 const Icon = stage.icon;
                 const isCompleted = index < currentStageIndex;
                 const isCurrent = index === currentStageIndex;
+                const entered = workflow?.history.filter(entry => entry.stage === stage.key).pop()?.enteredAt;
                 return (
                   <div
                     key={stage.key}
@@ -569,6 +460,11 @@ export default function WorkflowPage() {
                   >
                     <Icon className="h-4 w-4" />
                     <span className="text-xs text-center">{stage.label}</span>
+                    {entered && (
+                      <span className="text-xs text-muted-foreground" data-testid={`text-stage-entered-${stage.key}`}>
+                        {new Date(entered).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                      </span>
+                    )}
                   </div>
                 );
               })}
@@ -600,8 +496,10 @@ export default function WorkflowPage() {
                 <FileText className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold" data-testid="text-quotes-count">{syntheticQuotes.length}</div>
-                <p className="text-xs text-muted-foreground">From {syntheticQuotes.length} vendors</p>
+                <div className="text-2xl font-bold" data-testid="text-quotes-count">{shipmentQuotes.length}</div>
+                <p className="text-xs text-muted-foreground">
+                  From {new Set(shipmentQuotes.map(q => carrierKey(q.carrier))).size} carriers
+                </p>
               </CardContent>
             </Card>
 
@@ -612,20 +510,24 @@ export default function WorkflowPage() {
               </CardHeader>
               <CardContent>
                 <div className="text-2xl font-bold text-green-600" data-testid="text-best-rate">
-                  ${Math.min(...syntheticQuotes.map(q => q.rate)).toLocaleString()}
+                  {bestRateQuote ? `$${bestRateQuote.rate.toLocaleString()}` : '—'}
                 </div>
-                <p className="text-xs text-muted-foreground">Pacific Express Logistics</p>
+                <p className="text-xs text-muted-foreground">{bestRateQuote?.carrier ?? "No quotes yet"}</p>
               </CardContent>
             </Card>
 
             <Card>
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-                <CardTitle className="text-sm font-medium">Fastest Transit</CardTitle>
+                <CardTitle className="text-sm font-medium">Best Fitment</CardTitle>
                 <Truck className="h-4 w-4 text-muted-foreground" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold text-blue-600" data-testid="text-fastest-transit">14-17 days</div>
-                <p className="text-xs text-muted-foreground">Premium Ocean Freight</p>
+                <div className="text-2xl font-bold text-blue-600" data-testid="text-best-fitment">
+                  {topEvaluation ? `${topEvaluation.ratingScore}/100` : '—'}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {topEvaluation ? carrierOf(topEvaluation.quoteId) : "Not evaluated yet"}
+                </p>
               </CardContent>
             </Card>
           </div>
@@ -641,7 +543,7 @@ export default function WorkflowPage() {
                   <Alert>
                     <Clock className="h-4 w-4" />
                     <AlertDescription>
-                      Collecting quotes from approved vendors. {syntheticQuotes.length} quotes received so far.
+                      Collecting quotes from carriers. {shipmentQuotes.length} quotes received so far; send RFQs from the Quote Analysis tab.
                     </AlertDescription>
                   </Alert>
                 )}
@@ -679,92 +581,138 @@ export default function WorkflowPage() {
         </TabsContent>
 
         <TabsContent value="quotes" className="space-y-4">
+          <RfqPanel shipment={shipment} canCreate={process.currentStage === "quote_collection"} />
+
           <div className="space-y-4">
-            {syntheticQuotes.map((quote) => (
-              <Card key={quote.id}>
-                <CardHeader>
-                  <div className="flex items-center justify-between">
-                    <CardTitle className="text-lg">{quote.vendor}</CardTitle>
-                    <div className="flex items-center gap-2">
-                      <Badge
-                        variant={
-                          quote.ai_evaluation.recommendation === "ACCEPT" ? "default" : 
-                          quote.ai_evaluation.recommendation === "CONDITIONAL" ? "secondary" : "destructive"
-                        }
-                        data-testid={`badge-recommendation-${quote.id}`}
-                      >
-                        {quote.ai_evaluation.recommendation}
-                      </Badge>
-                      <Badge variant="outline" data-testid={`badge-rating-${quote.id}`}>
-                        {quote.ai_evaluation.ratingScore}/100
-                      </Badge>
-                    </div>
-                  </div>
-                </CardHeader>
-                <CardContent>
-                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
-                    <div>
-                      <p className="text-sm text-muted-foreground">Rate</p>
-                      <p className="text-lg font-semibold" data-testid={`text-rate-${quote.id}`}>${quote.rate.toLocaleString()}</p>
-                    </div>
-                    <div>
-                      <p className="text-sm text-muted-foreground">Transit Time</p>
-                      <p className="font-medium" data-testid={`text-transit-${quote.id}`}>{quote.transitTime}</p>
-                    </div>
-                    <div>
-                      <p className="text-sm text-muted-foreground">Service</p>
-                      <p className="font-medium">{quote.service}</p>
-                    </div>
-                    <div>
-                      <p className="text-sm text-muted-foreground">Valid Until</p>
-                      <p className="font-medium">{quote.validUntil.toLocaleDateString()}</p>
-                    </div>
-                  </div>
+            {shipmentQuotes.length === 0 && (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  No quotes are linked to this shipment yet. Link quotes to it on the Quotes page.
+                </AlertDescription>
+              </Alert>
+            )}
 
-                  <Separator className="my-4" />
+            {process.currentStage === 'agent_evaluation' && fitmentError && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  The fitment agent failed when the process entered evaluation ({fitmentError.message}). Evaluate the quotes again below.
+                </AlertDescription>
+              </Alert>
+            )}
 
-                  <div className="space-y-3">
-                    <h4 className="font-medium">AI Evaluation Factors</h4>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                      {Object.entries(quote.ai_evaluation.fitmentFactors).map(([factor, score]) => (
-                        <div key={factor} className="space-y-1">
-                          <div className="flex justify-between text-sm">
-                            <span className="capitalize">{factor.replace(/([A-Z])/g, ' $1').trim()}</span>
-                            <span>{score}/100</span>
-                          </div>
-                          <Progress value={score} className="h-2" />
+            {process.currentStage === 'agent_evaluation' && shipmentQuotes.some(q => !evaluationFor(q.id)) && (
+              <div className="flex justify-end">
+                <Button
+                  variant="outline"
+                  onClick={() => runFitmentMutation.mutate()}
+                  disabled={runFitmentMutation.isPending}
+                  data-testid="button-run-fitment"
+                >
+                  <Bot className="h-4 w-4 mr-2" />
+                  {runFitmentMutation.isPending ? "Evaluating..." : "Evaluate New Quotes"}
+                </Button>
+              </div>
+            )}
+
+            {shipmentQuotes.map((quote) => {
+              const evaluation = evaluationFor(quote.id);
+              const factors = evaluation?.fitmentFactors as AgentFitmentFactors | undefined;
+              return (
+                <Card key={quote.id}>
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <CardTitle className="text-lg">{quote.carrier}</CardTitle>
+                      {evaluation ? (
+                        <div className="flex items-center gap-2">
+                          <Badge
+                            variant={
+                              evaluation.recommendation === "ACCEPT" ? "default" :
+                              evaluation.recommendation === "CONDITIONAL" ? "secondary" : "destructive"
+                            }
+                            data-testid={`badge-recommendation-${quote.id}`}
+                          >
+                            {evaluation.recommendation}
+                          </Badge>
+                          <Badge variant="outline" data-testid={`badge-rating-${quote.id}`}>
+                            {evaluation.ratingScore}/100
+                          </Badge>
                         </div>
-                      ))}
+                      ) : (
+                        <Badge variant="outline">Not evaluated</Badge>
+                      )}
                     </div>
-
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
                       <div>
-                        <h5 className="text-sm font-medium text-green-600 mb-2">Strengths</h5>
-                        <ul className="text-sm space-y-1">
-                          {quote.ai_evaluation.strengths.map((strength, idx) => (
-                            <li key={idx} className="flex items-center gap-2">
-                              <CheckCircle className="h-3 w-3 text-green-600" />
-                              {strength}
-                            </li>
-                          ))}
-                        </ul>
+                        <p className="text-sm text-muted-foreground">Rate</p>
+                        <p className="text-lg font-semibold" data-testid={`text-rate-${quote.id}`}>${quote.rate.toLocaleString()}</p>
                       </div>
                       <div>
-                        <h5 className="text-sm font-medium text-amber-600 mb-2">Concerns</h5>
-                        <ul className="text-sm space-y-1">
-                          {quote.ai_evaluation.concerns.map((concern, idx) => (
-                            <li key={idx} className="flex items-center gap-2">
-                              <AlertCircle className="h-3 w-3 text-amber-600" />
-                              {concern}
-                            </li>
-                          ))}
-                        </ul>
+                        <p className="text-sm text-muted-foreground">Market Verdict</p>
+                        <p className="font-medium">{quote.recommendation?.replace('_', ' ') ?? '—'}</p>
+                      </div>
+                      <div>
+                        <p className="text-sm text-muted-foreground">Evaluated By</p>
+                        <p className="font-medium">{evaluation?.agentName ?? '—'}</p>
+                      </div>
+                      <div>
+                        <p className="text-sm text-muted-foreground">Valid Until</p>
+                        <p className="font-medium">{quote.validUntil ? new Date(quote.validUntil).toLocaleDateString() : '—'}</p>
                       </div>
                     </div>
-                  </div>
-                </CardContent>
-              </Card>
-            ))}
+
+                    {evaluation && factors && (
+                      <>
+                        <Separator className="my-4" />
+
+                        <div className="space-y-3">
+                          <h4 className="font-medium">Fitment Factors</h4>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                            {Object.entries(factors).map(([factor, score]) => (
+                              <div key={factor} className="space-y-1">
+                                <div className="flex justify-between text-sm">
+                                  <span className="capitalize">{factor.replace(/Score$/, '').replace(/([A-Z])/g, ' $1').trim()}</span>
+                                  <span>{score}/100</span>
+                                </div>
+                                <Progress value={score} className="h-2" />
+                              </div>
+                            ))}
+                          </div>
+
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+                            <div>
+                              <h5 className="text-sm font-medium text-green-600 mb-2">Strengths</h5>
+                              <ul className="text-sm space-y-1">
+                                {(evaluation.strengths ?? []).map((strength, idx) => (
+                                  <li key={idx} className="flex items-center gap-2">
+                                    <CheckCircle className="h-3 w-3 text-green-600" />
+                                    {strength}
+                                  </li>
+                                ))}
+                              </ul>
+                            </div>
+                            <div>
+                              <h5 className="text-sm font-medium text-amber-600 mb-2">Concerns</h5>
+                              <ul className="text-sm space-y-1">
+                                {(evaluation.concerns ?? []).map((concern, idx) => (
+                                  <li key={idx} className="flex items-center gap-2">
+                                    <AlertCircle className="h-3 w-3 text-amber-600" />
+                                    {concern}
+                                  </li>
+                                ))}
+                              </ul>
+                            </div>
+                          </div>
+                        </div>
+                      </>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
           </div>
         </TabsContent>
 
@@ -849,26 +797,26 @@ export default function WorkflowPage() {
                 <Alert>
                   <Bot className="h-4 w-4" />
                   <AlertDescription>
-                    All three agents have completed their evaluations. Consensus-building process initiated to determine the best options for decision analysis.
+                    {processEvaluations.length > 0
+                      ? `${processEvaluations.length} of ${shipmentQuotes.length} quotes evaluated for fitment. The decision agent weighs these ratings with price and transit risk.`
+                      : "The fitment agent evaluates every linked quote when the process enters agent evaluation."}
                   </AlertDescription>
                 </Alert>
 
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                  <div className="text-center">
-                    <h4 className="font-medium text-green-600">Consensus Reached</h4>
-                    <p className="text-2xl font-bold">2/3</p>
-                    <p className="text-sm text-muted-foreground">Premium Ocean Freight</p>
-                  </div>
-                  <div className="text-center">
-                    <h4 className="font-medium text-blue-600">Conditional Recommendations</h4>
-                    <p className="text-2xl font-bold">1/3</p>
-                    <p className="text-sm text-muted-foreground">Pacific Express Logistics</p>
-                  </div>
-                  <div className="text-center">
-                    <h4 className="font-medium text-muted-foreground">Rejected Options</h4>
-                    <p className="text-2xl font-bold">0/3</p>
-                    <p className="text-sm text-muted-foreground">None</p>
-                  </div>
+                  {([
+                    ['ACCEPT', "Accepted", "text-green-600"],
+                    ['CONDITIONAL', "Conditional Recommendations", "text-blue-600"],
+                    ['REJECT', "Rejected Options", "text-muted-foreground"]
+                  ] as const).map(([recommendation, label, color]) => (
+                    <div key={recommendation} className="text-center">
+                      <h4 className={`font-medium ${color}`}>{label}</h4>
+                      <p className="text-2xl font-bold">{recommendationCounts[recommendation].length}/{processEvaluations.length}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {recommendationCounts[recommendation].map(e => carrierOf(e.quoteId)).join(", ") || "None"}
+                      </p>
+                    </div>
+                  ))}
                 </div>
               </div>
             </CardContent>
@@ -900,23 +848,142 @@ export default function WorkflowPage() {
                     </AlertDescription>
                   </Alert>
 
+                  {chosenStrategy && (
+                    <div className="p-4 border rounded-lg space-y-2" data-testid="chosen-strategy">
+                      <div className="flex items-center justify-between">
+                        <h4 className="font-medium">Chosen Strategy</h4>
+                        <Badge variant="outline">{chosenStrategy.carrier}</Badge>
+                      </div>
+                      <p className="font-medium">{chosenStrategy.name}</p>
+                      <p className="text-sm text-muted-foreground">{chosenStrategy.description}</p>
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                        <div>
+                          <span className="text-muted-foreground">Expected cost</span>
+                          <p className="font-mono">${Math.round(chosenStrategy.expectedCost).toLocaleString()}</p>
+                        </div>
+                        <div>
+                          <span className="text-muted-foreground">P90 cost</span>
+                          <p className="font-mono">${Math.round(chosenStrategy.p90Cost).toLocaleString()}</p>
+                        </div>
+                        <div>
+                          <span className="text-muted-foreground">Arrival (P50)</span>
+                          <p className="font-mono">{chosenStrategy.arrivalP50.toFixed(1)} days</p>
+                        </div>
+                        <div>
+                          <span className="text-muted-foreground">On time</span>
+                          <p className="font-mono">
+                            {chosenStrategy.onTimeProbability !== null ? `${chosenStrategy.onTimeProbability.toFixed(1)}%` : '—'}
+                          </p>
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
+                  {decisionAnalysis && (
+                    <div className="space-y-3" data-testid="decision-analysis">
+                      <div className="flex items-center justify-between">
+                        <h4 className="font-medium">Decision Agent Scores</h4>
+                        <span className="text-xs text-muted-foreground">
+                          Weights: price {decisionAnalysis.weights.price} • fitment {decisionAnalysis.weights.fitment} • transit {decisionAnalysis.weights.transit} ({decisionAnalysis.urgency} urgency)
+                        </span>
+                      </div>
+                      <ul className="text-sm space-y-1">
+                        {decisionAnalysis.reasoning.map((reason, idx) => (
+                          <li key={idx} className="flex items-center gap-2">
+                            <Brain className="h-3 w-3 text-muted-foreground" />
+                            {reason}
+                          </li>
+                        ))}
+                      </ul>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Carrier</TableHead>
+                            <TableHead className="text-right">Rate</TableHead>
+                            <TableHead className="text-right">Price</TableHead>
+                            <TableHead className="text-right">Fitment</TableHead>
+                            <TableHead className="text-right">On time</TableHead>
+                            <TableHead className="text-right">Score</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {decisionAnalysis.scoredQuotes.map(scored => (
+                            <TableRow key={scored.quoteId} data-testid={`row-decision-quote-${scored.quoteId}`}>
+                              <TableCell className="font-medium">
+                                {scored.carrier}
+                                {scored.marketRecommendation && (
+                                  <Badge variant="outline" className="ml-2">{scored.marketRecommendation.replace('_', ' ')}</Badge>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-right font-mono">${scored.rate.toLocaleString()}</TableCell>
+                              <TableCell className="text-right font-mono">{scored.priceScore}</TableCell>
+                              <TableCell className="text-right font-mono">{scored.fitmentScore ?? '—'}</TableCell>
+                              <TableCell className="text-right font-mono">{scored.transitScore !== null ? `${scored.transitScore}%` : '—'}</TableCell>
+                              <TableCell className="text-right font-mono font-semibold">{scored.decisionScore}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+
                   {(process.agentDecision === "book" || process.currentStage === 'booking_execution') && (
                     <div className="space-y-3">
                       <h4 className="font-medium">Recommended Booking</h4>
-                      <Card className="border-green-200 bg-green-50">
-                        <CardContent className="pt-6">
-                          <div className="flex items-center justify-between">
-                            <div>
-                              <h5 className="font-medium">Premium Ocean Freight</h5>
-                              <p className="text-sm text-muted-foreground">Best overall fit for requirements</p>
-                            </div>
-                            <div className="text-right">
-                              <p className="text-lg font-bold">$2,890</p>
-                              <p className="text-sm text-muted-foreground">14-17 days</p>
+                      {decisionAnalysis?.bookingAnalysis && recommendedQuote && (
+                        <Card className="border-green-200 bg-green-50">
+                          <CardContent className="pt-6">
+                            <div className="flex items-center justify-between">
+                              <div>
+                                <h5 className="font-medium" data-testid="text-recommended-carrier">{decisionAnalysis.bookingAnalysis.selectedVendor}</h5>
+                                <p className="text-sm text-muted-foreground">
+                                  Decision score {recommendedQuote.decisionScore} • {decisionAnalysis.riskAssessment.toLowerCase()} risk
+                                </p>
+                              </div>
+                              <div className="text-right">
+                                <p className="text-lg font-bold">${decisionAnalysis.bookingAnalysis.totalCost.toLocaleString()}</p>
+                                {decisionAnalysis.bookingAnalysis.expectedDeliveryDate && (
+                                  <p className="text-sm text-muted-foreground">
+                                    Arrives ~{new Date(decisionAnalysis.bookingAnalysis.expectedDeliveryDate).toLocaleDateString()}
+                                  </p>
+                                )}
+                              </div>
                             </div>
-                          </div>
-                        </CardContent>
-                      </Card>
+                            {decisionAnalysis.bookingAnalysis.riskFactors.length > 0 && (
+                              <ul className="mt-3 text-sm space-y-1">
+                                {decisionAnalysis.bookingAnalysis.riskFactors.map((factor, idx) => (
+                                  <li key={idx} className="flex items-center gap-2">
+                                    <AlertTriangle className="h-3 w-3 text-amber-600" />
+                                    {factor}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                            {process.agentDecision === "book" && bookedQuote && (
+                              <div className="mt-4 flex items-center justify-between gap-3">
+                                <p className="text-sm text-muted-foreground">
+                                  {bookedCarrierRecord
+                                    ? "Once delivered, record how the booking went for the carrier's scorecard."
+                                    : <>{bookedQuote.carrier} is not in carrier master data; add it on the <Link href="/carriers" className="underline">Carriers</Link> page to track its outcomes.</>}
+                                </p>
+                                {bookedCarrierRecord && (
+                                  <BookingOutcomeDialog
+                                    carrier={bookedCarrierRecord}
+                                    quotes={[bookedQuote]}
+                                    defaultQuoteId={bookedQuote.id}
+                                    trigger={
+                                      <Button variant="outline" size="sm" data-testid="button-record-booking-outcome">
+                                        <ClipboardCheck className="h-4 w-4 mr-2" />
+                                        Record Outcome
+                                      </Button>
+                                    }
+                                  />
+                                )}
+                              </div>
+                            )}
+                          </CardContent>
+                        </Card>
+                      )}
                       
                       <div className="space-y-4 pt-4">
                         <h5 className="font-medium">Booking Actions</h5>
@@ -1150,13 +1217,14 @@ export default function WorkflowPage() {
                     
                     <div className="text-center">
                       <Button
-                        onClick={() => advanceProcess.mutate()}
-                        disabled={advanceProcess.isPending}
+                        onClick={() => transitionMutation.mutate('submit_for_approval')}
+                        disabled={!transitionFor('submit_for_approval')?.allowed || transitionMutation.isPending}
+                        title={transitionFor('submit_for_approval')?.failures.join("; ") || undefined}
                         size="lg"
                         data-testid="button-submit-for-approval"
                       >
                         <UserCheck className="h-4 w-4 mr-2" />
-                        {advanceProcess.isPending ? "Submitting..." : "Submit for Approval"}
+                        {transitionMutation.isPending ? "Submitting..." : "Submit for Approval"}
                       </Button>
                       <p className="text-sm text-muted-foreground mt-2">
                         Move to approval stage for final sign-off
@@ -1281,6 +1349,8 @@ export default function WorkflowPage() {
                         <Button 
                           variant="outline"
                           className="flex items-center gap-2"
+                          onClick={() => approveDocumentsMutation.mutate("Compliance Officer")}
+                          disabled={approveDocumentsMutation.isPending}
                           data-testid="button-approve-compliance"
                         >
                           <CheckCircle className="h-4 w-4" />
@@ -1299,17 +1369,17 @@ export default function WorkflowPage() {
                       
                       <div className="text-center pt-4">
                         <Button
-                          onClick={() => advanceProcess.mutate()}
-                          disabled={advanceProcess.isPending}
+                          onClick={() => transitionMutation.mutate('complete')}
+                          disabled={!transitionFor('complete')?.allowed || transitionMutation.isPending}
                           size="lg"
                           className="bg-green-600 hover:bg-green-700"
                           data-testid="button-complete-process"
                         >
                           <CheckCircle className="h-4 w-4 mr-2" />
-                          {advanceProcess.isPending ? "Completing..." : "Complete Process"}
+                          {transitionMutation.isPending ? "Completing..." : "Complete Process"}
                         </Button>
                         <p className="text-sm text-muted-foreground mt-2">
-                          Finalize the automation workflow
+                          {transitionFor('complete')?.failures.join("; ") || "Finalize the automation workflow"}
                         </p>
                       </div>
                     </div>
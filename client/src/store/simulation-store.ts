@@ -1,6 +1,11 @@
 import { create } from 'zustand';
-import type { SimulationResult, RateFactor, TransitSegment } from '@shared/schema';
-import { calculateStatistics } from '@/lib/statistics';
+import type { SimulationResult, RateFactor, TransitSegment, CorrelationMatrix } from '@shared/schema';
+import type { Statistics } from '@shared/statistics';
+import { summarizeStreamedResults } from '@shared/monte-carlo';
+import type { IndexForecastDistribution } from '@shared/index-forecast';
+import type { AutoIterationSettings, ConvergencePoint, ConvergenceSummary } from '@shared/convergence';
+import type { MetricSummary, ResultSummary } from '@shared/result-summary';
+import { ParallelSimulation } from '@/components/simulation/parallel-simulation';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 
 interface SimulationParams {
@@ -10,162 +15,231 @@ interface SimulationParams {
   factors: RateFactor[];
   segments: TransitSegment[];
   baseRate: number;
+  seed: number;
+  startDate?: number;
+  departureWeek?: number;
+  correlation?: CorrelationMatrix | null;
+  indexForecast?: IndexForecastDistribution | null;
+  autoIterations?: AutoIterationSettings;
+  keepSamples?: boolean; // Ship raw iterations back for export; otherwise workers only send summaries
+}
+
+interface PartialResults {
+  completedIterations: number;
+  rateStats: Statistics | null;
+  transitStats: Statistics | null;
 }
 
 interface SimulationState {
+  simulationId: string | null;
   isRunning: boolean;
+  isPaused: boolean;
   progress: number;
   currentIteration: number;
   totalIterations: number;
   results: {
-    rateDistribution: SimulationResult[];
-    transitDistribution: SimulationResult[];
-    rateStats: ReturnType<typeof calculateStatistics> | null;
-    transitStats: ReturnType<typeof calculateStatistics> | null;
+    rateDistribution: MetricSummary;
+    transitDistribution: MetricSummary;
+    rateStats: Statistics | null;
+    transitStats: Statistics | null;
     duration: number;
+    convergence: ConvergenceSummary | null;
+    samples: SimulationResult[] | null; // Raw iterations, only kept when the run asked for them
   } | null;
-  worker: Worker | null;
+  partialResults: PartialResults | null;
+  convergencePoints: ConvergencePoint[]; // Live curve while the run is in progress
+  run: ParallelSimulation | null;
   
   // Actions
   startSimulation: (params: SimulationParams) => void;
   pauseSimulation: () => void;
   resumeSimulation: () => void;
+  cancelSimulation: () => void;
   resetSimulation: () => void;
   setProgress: (progress: number, currentIteration: number) => void;
-  setResults: (results: SimulationResult[]) => void;
+  setResults: (summary: ResultSummary) => void;
+}
+
+// Mirror the run's lifecycle onto its `simulations` row
+function syncSimulationStatus(simulationId: string, updates: Record<string, unknown>) {
+  apiRequest('PATCH', `/api/simulations/${simulationId}`, updates)
+    .then(() => {
+      // Invalidate cache to refresh simulation list
+      queryClient.invalidateQueries({ queryKey: ['/api/simulations'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/simulations', simulationId] });
+    })
+    .catch(error => {
+      console.error('Failed to update simulation status:', error);
+    });
 }
 
 export const useSimulationStore = create<SimulationState>((set, get) => ({
+  simulationId: null,
   isRunning: false,
+  isPaused: false,
   progress: 0,
   currentIteration: 0,
   totalIterations: 0,
   results: null,
-  worker: null,
+  partialResults: null,
+  convergencePoints: [],
+  run: null,
 
   startSimulation: (params: SimulationParams) => {
     const startTime = Date.now();
     
-    // Create Web Worker for simulation
-    const worker = new Worker(
-      new URL('../components/simulation/monte-carlo-worker.ts', import.meta.url),
-      { type: 'module' }
-    );
-
-    worker.onmessage = (e) => {
-      const { type, data } = e.data;
-      
-      switch (type) {
-        case 'progress':
-          set({
-            progress: data.progress,
-            currentIteration: data.completedIterations
-          });
-          break;
-          
-        case 'complete':
-          const duration = Date.now() - startTime;
-          get().setResults(data);
-          
-          // Sync completion status to backend
-          const currentResults = get().results;
-          if (currentResults && params.simulationId) {
-            const summary = {
-              rateStats: currentResults.rateStats,
-              transitStats: currentResults.transitStats,
-              duration: duration,
-              iterations: params.iterations
-            };
-            
-            // Update backend status
-            apiRequest('PATCH', `/api/simulations/${params.simulationId}`, {
-              status: 'completed',
-              results: summary
-            })
-            .then(() => {
-              // Invalidate cache to refresh simulation list
-              queryClient.invalidateQueries({ queryKey: ['/api/simulations'] });
-              queryClient.invalidateQueries({ queryKey: ['/api/simulations', params.simulationId] });
-            })
-            .catch(error => {
-              console.error('Failed to update simulation status:', error);
-            });
+    // Iterations are split across one worker per core; each streams back summaries, never raw results
+    const run = new ParallelSimulation({
+      iterations: params.iterations,
+      baseRate: params.baseRate,
+      factors: params.factors,
+      segments: params.segments,
+      seed: params.seed,
+      startDate: params.startDate,
+      departureWeek: params.departureWeek,
+      correlation: params.correlation,
+      indexForecast: params.indexForecast,
+      autoIterations: params.autoIterations
+    }, {
+      onProgress: (progress) => {
+        set({
+          progress: progress.progress,
+          currentIteration: progress.completedIterations,
+          ...(progress.convergence && { convergencePoints: [...get().convergencePoints, progress.convergence] })
+        });
+      },
+
+      onPaused: (partial, progress) => {
+        const hasResults = partial.count > 0;
+        set({
+          progress: progress.progress,
+          currentIteration: progress.completedIterations,
+          partialResults: {
+            completedIterations: progress.completedIterations,
+            rateStats: hasResults ? partial.rate.overall.statistics() : null,
+            transitStats: hasResults ? partial.transit.overall.statistics() : null
           }
-          
-          set({
-            isRunning: false,
-            progress: 100,
-            currentIteration: params.iterations,
-            results: {
-              ...get().results!,
-              duration
-            }
-          });
-          
-          worker.terminate();
-          break;
-          
-        case 'error':
-          console.error('Simulation error:', data.message);
-          set({
-            isRunning: false,
-            worker: null
+        });
+      },
+
+      onComplete: ({ summary, convergence, samples }) => {
+        const duration = Date.now() - startTime;
+        get().setResults(summary);
+        
+        // Sync completion status to backend
+        if (summary.count > 0 && params.simulationId) {
+          syncSimulationStatus(params.simulationId, {
+            status: 'completed',
+            results: summarizeStreamedResults(summary, duration, params.seed, convergence)
           });
-          worker.terminate();
-          break;
-      }
-    };
-
-    // Start simulation
-    worker.postMessage({
-      type: 'start',
-      params: {
-        iterations: params.iterations,
-        baseRate: params.baseRate,
-        factors: params.factors,
-        segments: params.segments
+        }
+        
+        set({
+          simulationId: null,
+          isRunning: false,
+          isPaused: false,
+          progress: 100,
+          // Auto mode may stop short of the requested iterations
+          currentIteration: summary.count,
+          partialResults: null,
+          run: null,
+          results: {
+            ...get().results!,
+            duration,
+            convergence,
+            samples
+          }
+        });
+      },
+
+      onError: (message) => {
+        console.error('Simulation error:', message);
+        if (params.simulationId) {
+          syncSimulationStatus(params.simulationId, { status: 'failed' });
+        }
+        set({
+          simulationId: null,
+          isRunning: false,
+          isPaused: false,
+          run: null
+        });
       }
-    });
+    }, params.keepSamples);
 
     set({
+      simulationId: params.simulationId,
       isRunning: true,
+      isPaused: false,
       progress: 0,
       currentIteration: 0,
       totalIterations: params.iterations,
-      worker,
-      results: null
+      run,
+      results: null,
+      partialResults: null,
+      convergencePoints: []
     });
+
+    run.start();
   },
 
   pauseSimulation: () => {
-    const { worker } = get();
-    if (worker) {
-      worker.postMessage({ type: 'pause' });
-      set({ isRunning: false });
+    const { run } = get();
+    if (run) {
+      // Workers stop between batches; partial statistics arrive once they all have
+      run.pause();
+      set({ isRunning: false, isPaused: true });
     }
   },
 
   resumeSimulation: () => {
-    const { worker } = get();
-    if (worker) {
-      worker.postMessage({ type: 'resume' });
-      set({ isRunning: true });
+    const { run } = get();
+    if (run) {
+      run.resume();
+      set({ isRunning: true, isPaused: false, partialResults: null });
+    }
+  },
+
+  cancelSimulation: () => {
+    const { run, simulationId } = get();
+    if (run) {
+      // Nothing from an unfinished run is kept, so the workers are simply torn down
+      run.terminate();
+      if (simulationId) {
+        syncSimulationStatus(simulationId, { status: 'cancelled' });
+      }
+      set({
+        simulationId: null,
+        isRunning: false,
+        isPaused: false,
+        progress: 0,
+        currentIteration: 0,
+        partialResults: null,
+        run: null
+      });
     }
   },
 
   resetSimulation: () => {
-    const { worker } = get();
-    if (worker) {
-      worker.terminate();
+    const { run, simulationId } = get();
+    if (run) {
+      run.terminate();
+      // An unfinished run is abandoned, not left pending
+      if (simulationId) {
+        syncSimulationStatus(simulationId, { status: 'cancelled' });
+      }
     }
     
     set({
+      simulationId: null,
       isRunning: false,
+      isPaused: false,
       progress: 0,
       currentIteration: 0,
       totalIterations: 0,
       results: null,
-      worker: null
+      partialResults: null,
+      convergencePoints: [],
+      run: null
     });
   },
 
@@ -173,22 +247,18 @@ export const useSimulationStore = create<SimulationState>((set, get) => ({
     set({ progress, currentIteration });
   },
 
-  setResults: (rawResults: SimulationResult[]) => {
-    // Extract rate and transit distributions
-    const rates = rawResults.map(r => r.rate);
-    const transits = rawResults.map(r => r.transitDays);
-    
-    // Calculate statistics
-    const rateStats = calculateStatistics(rates);
-    const transitStats = calculateStatistics(transits);
+  setResults: (summary: ResultSummary) => {
+    const hasResults = summary.count > 0;
     
     set({
       results: {
-        rateDistribution: rawResults,
-        transitDistribution: rawResults,
-        rateStats,
-        transitStats,
-        duration: 0 // Will be set by startSimulation
+        rateDistribution: summary.rate,
+        transitDistribution: summary.transit,
+        rateStats: hasResults ? summary.rate.overall.statistics() : null,
+        transitStats: hasResults ? summary.transit.overall.statistics() : null,
+        duration: 0, // Will be set by startSimulation
+        convergence: null,
+        samples: null
       }
     });
   }
@@ -196,10 +266,9 @@ export const useSimulationStore = create<SimulationState>((set, get) => ({
 
 // Helper hook for simulation status
 export const useSimulationStatus = () => {
-  const { isRunning, progress, currentIteration, totalIterations } = useSimulationStore();
+  const { isRunning, isPaused, progress, currentIteration, totalIterations } = useSimulationStore();
   
   const isComplete = progress === 100 && !isRunning;
-  const isPaused = !isRunning && progress > 0 && progress < 100;
   const isIdle = !isRunning && progress === 0;
   
   const eta = isRunning && currentIteration > 0 
@@ -224,10 +293,12 @@ export const useSimulationResults = () => {
   
   return {
     hasResults: !!results,
-    rateDistribution: results?.rateDistribution || [],
-    transitDistribution: results?.transitDistribution || [],
+    rateDistribution: results?.rateDistribution || null,
+    transitDistribution: results?.transitDistribution || null,
     rateStats: results?.rateStats || null,
     transitStats: results?.transitStats || null,
-    duration: results?.duration || 0
+    duration: results?.duration || 0,
+    convergence: results?.convergence || null,
+    samples: results?.samples || null
   };
 };
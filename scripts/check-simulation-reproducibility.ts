@@ -0,0 +1,106 @@
+// Checks that a seeded simulation run on the server queue and a browser re-run of the same seed and inputs report
+// the same numbers. The browser side is replayed the way its worker pool runs it: each shard on its own, batches
+// serialised, arriving interleaved in an arbitrary order.
+import {
+  runMonteCarloSimulation, summarizeStreamedResults, type SimulationParams, type SimulationSummary
+} from '../shared/monte-carlo';
+import { ShardedRunMerger, SHARD_BATCH_SIZE } from '../shared/sharded-simulation';
+import { ResultSummary, type ResultSummaryData } from '../shared/result-summary';
+import { createSeededRandom } from '../shared/random';
+import type { Simulation, SimulationRateInputs, SimulationTransitInputs } from '../shared/schema';
+import { storage } from '../server/storage';
+import { simulationQueue } from '../server/simulation-runner';
+
+const SEED = 20240611;
+
+// The params the Simulation page's "Re-run" builds from a stored simulation
+function rerunParams(simulation: Simulation): SimulationParams {
+  const rateInputs = simulation.rateDistribution as SimulationRateInputs;
+  const transitInputs = simulation.transitDistribution as SimulationTransitInputs;
+  return {
+    iterations: simulation.iterations,
+    factors: rateInputs.factors,
+    segments: transitInputs.segments,
+    baseRate: rateInputs.baseRate,
+    seed: simulation.seed!,
+    startDate: simulation.createdAt ? new Date(simulation.createdAt).getTime() : undefined,
+    departureWeek: transitInputs.departureWeek,
+    correlation: rateInputs.correlationMatrix,
+    indexForecast: rateInputs.indexForecast,
+    autoIterations: simulation.autoTolerance ? { tolerance: simulation.autoTolerance } : undefined
+  };
+}
+
+async function browserRerun(params: SimulationParams): Promise<SimulationSummary> {
+  const merger = new ShardedRunMerger(params);
+  const batches: ResultSummaryData[][] = [];
+  for (const shard of merger.shards) {
+    const shardBatches: ResultSummaryData[] = [];
+    let batch = new ResultSummary();
+    await runMonteCarloSimulation(shard, {
+      batchSize: SHARD_BATCH_SIZE,
+      retainResults: false,
+      onResult: (result) => batch.add(result),
+      onProgress: () => {
+        shardBatches.push(batch.toJSON());
+        batch = new ResultSummary();
+      }
+    });
+    batches.push(shardBatches);
+  }
+
+  // Each shard's batches stay in order, the shards interleave at random as workers would report them
+  const rng = createSeededRandom(7);
+  const next = batches.map(() => 0);
+  while (!merger.isDone) {
+    const waiting = batches.map((_, index) => index).filter(index => next[index] < batches[index].length);
+    const shard = waiting[Math.floor(rng() * waiting.length)];
+    merger.addBatch(shard, batches[shard][next[shard]++]);
+  }
+  return summarizeStreamedResults(merger.summary, 0, params.seed, merger.getConvergence());
+}
+
+async function serverRun(iterations: number, autoTolerance: number | null): Promise<Simulation> {
+  const lane = (await storage.getLanes())[0];
+  const simulation = await storage.createSimulation({
+    laneId: lane.id,
+    iterations,
+    rateDistribution: { baseRate: lane.indexValue * lane.laneRatio, factors: lane.factors, correlationMatrix: lane.correlationMatrix },
+    transitDistribution: { segments: lane.segments },
+    status: 'pending',
+    seed: SEED,
+    autoTolerance
+  });
+  await simulationQueue.enqueue(simulation.id);
+  await simulationQueue.waitForJob(simulation.id);
+  return (await storage.getSimulation(simulation.id))!;
+}
+
+// Duration is wall-clock time, everything else must match exactly
+function comparable(summary: SimulationSummary): string {
+  return JSON.stringify({ ...summary, duration: 0 });
+}
+
+async function check() {
+  let failed = false;
+  for (const [label, iterations, autoTolerance] of [['fixed 10k', 10000, null], ['auto 50k', 50000, 0.01]] as const) {
+    const simulation = await serverRun(iterations, autoTolerance);
+    if (simulation.status !== 'completed') {
+      console.log(`❌ ${label}: server run ${simulation.status}`);
+      failed = true;
+      continue;
+    }
+    const server = simulation.results as SimulationSummary;
+    const browser = await browserRerun(rerunParams(simulation));
+    const match = comparable(server) === comparable(browser);
+    failed ||= !match;
+    console.log(`${match ? '✅' : '❌'} ${label}: server ${server.iterations} iterations, P50 ${server.rateStats.p50.toFixed(2)}; ` +
+      `browser ${browser.iterations} iterations, P50 ${browser.rateStats.p50.toFixed(2)}`);
+  }
+  process.exit(failed ? 1 : 0);
+}
+
+check().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,142 @@
+import {
+  WORKFLOW_STAGES,
+  type Alternative, type AlternativeAnalysisRun, type AlternativeAnalysisRequest, type AlternativeOptimisationRequest,
+  type AutomationProcess, type Lane, type Quote, type WorkflowStage
+} from "@shared/schema";
+import {
+  runAlternativeAnalysis, optimiseAlternatives, summariseAnalysis, summariseOptimisation, toAlternative, outcomeFromAlternative,
+  type AlternativeAnalysis, type AlternativeOptimisation, type AlternativeOutcome, type AlternativeAnalysisRunSummary,
+  type ChosenStrategy
+} from "@shared/alternatives";
+import { storage } from "./storage";
+import { resolveLaneIndexModel, withLatestIndexValue } from "./index-history";
+
+export class UnknownLaneError extends Error {
+  constructor(public laneId: string) {
+    super(`Lane ${laneId} not found`);
+    this.name = "UnknownLaneError";
+  }
+}
+
+async function resolveRerouteLanes(lane: Lane, laneIds: string[]): Promise<Lane[]> {
+  const rerouteLanes: Lane[] = [];
+  for (const laneId of laneIds) {
+    if (laneId === lane.id) continue;
+    const rerouteLane = await storage.getLane(laneId);
+    if (!rerouteLane) throw new UnknownLaneError(laneId);
+    rerouteLanes.push(await withLatestIndexValue(rerouteLane));
+  }
+  return rerouteLanes;
+}
+
+async function saveAnalysisRun(
+  quote: Quote,
+  kind: 'simulate' | 'optimise',
+  parameters: AlternativeAnalysisRequest | AlternativeOptimisationRequest,
+  summary: AlternativeAnalysisRunSummary,
+  outcomes: AlternativeOutcome[]
+): Promise<{ run: AlternativeAnalysisRun; alternatives: Alternative[] }> {
+  const run = await storage.createAlternativeAnalysisRun({ quoteId: quote.id, kind, parameters, summary });
+  const alternatives: Alternative[] = [];
+  for (const outcome of outcomes) {
+    alternatives.push(await storage.createAlternative(toAlternative(outcome, quote.id, run.id, summary.criterion)));
+  }
+  return { run, alternatives };
+}
+
+// Simulates book-now against the requested wait, split and reroute strategies for a quote on its lane, and saves the run
+export async function analyzeQuoteAlternatives(
+  quote: Quote,
+  lane: Lane,
+  request: AlternativeAnalysisRequest
+): Promise<{ run: AlternativeAnalysisRun; analysis: AlternativeAnalysis; alternatives: Alternative[] }> {
+  const analysis = await runAlternativeAnalysis({
+    quoteRate: quote.rate,
+    lane,
+    iterations: request.iterations,
+    seed: request.seed,
+    holdingCostRate: request.holdingCostRate,
+    indexDrift: request.indexDrift,
+    indexModel: await resolveLaneIndexModel(lane, request.indexModel, request.waitDays ?? request.split?.delayDays ?? 30),
+    deadlineDays: request.deadlineDays,
+    waitDays: request.waitDays ?? undefined,
+    split: request.split
+      ? { nowFraction: request.split.nowPercent / 100, delayDays: request.split.delayDays }
+      : undefined,
+    rerouteLanes: await resolveRerouteLanes(lane, request.rerouteLaneIds)
+  });
+
+  const { run, alternatives } = await saveAnalysisRun(quote, 'simulate', request, summariseAnalysis(analysis, request.criterion), analysis.outcomes);
+  return { run, analysis, alternatives };
+}
+
+// Searches the requested grid and saves the run with every evaluated point as an Alternative
+export async function optimiseQuoteAlternatives(
+  quote: Quote,
+  lane: Lane,
+  request: AlternativeOptimisationRequest
+): Promise<{ run: AlternativeAnalysisRun; optimisation: AlternativeOptimisation; alternatives: Alternative[] }> {
+  const optimisation = await optimiseAlternatives({
+    quoteRate: quote.rate,
+    lane,
+    iterations: request.iterations,
+    seed: request.seed,
+    holdingCostRate: request.holdingCostRate,
+    indexDrift: request.indexDrift,
+    indexModel: await resolveLaneIndexModel(lane, request.indexModel, request.waitDays.max),
+    waitDays: request.waitDays,
+    splitPercent: request.splitPercent,
+    constraint: request.constraint,
+    criterion: request.criterion,
+    rerouteLanes: await resolveRerouteLanes(lane, request.rerouteLaneIds)
+  });
+
+  const { run, alternatives } = await saveAnalysisRun(quote, 'optimise', request, summariseOptimisation(optimisation), optimisation.outcomes);
+  return { run, optimisation, alternatives };
+}
+
+// Until the decision is made; once booking starts the choice no longer changes what was acted on
+function acceptsChosenStrategy(process: AutomationProcess): boolean {
+  return WORKFLOW_STAGES.indexOf(process.currentStage as WorkflowStage) <= WORKFLOW_STAGES.indexOf('decision_analysis');
+}
+
+// Marks an alternative as the quote's chosen strategy. When the quote belongs to a shipment whose workflow has not
+// yet got past decision analysis, the choice becomes that workflow's decision: waiting defers the booking, anything
+// else books. Later workflows are left untouched and process is null.
+export async function chooseQuoteAlternative(
+  id: string
+): Promise<{ alternative: Alternative; process: AutomationProcess | null } | undefined> {
+  const alternative = await storage.chooseAlternative(id);
+  if (!alternative) return undefined;
+
+  const quote = alternative.quoteId ? await storage.getQuote(alternative.quoteId) : undefined;
+  const process = quote?.shipmentId ? await storage.getAutomationProcessByShipment(quote.shipmentId) : undefined;
+  if (!quote || !process || !acceptsChosenStrategy(process)) return { alternative, process: null };
+
+  const outcome = outcomeFromAlternative(alternative);
+  const defer = outcome.type === 'wait';
+  const chosenStrategy: ChosenStrategy = {
+    alternativeId: alternative.id,
+    quoteId: quote.id,
+    carrier: quote.carrier,
+    type: outcome.type,
+    name: outcome.name,
+    description: outcome.description,
+    expectedCost: outcome.costStats.mean,
+    p90Cost: outcome.costStats.p90,
+    arrivalP50: outcome.arrivalStats.p50,
+    onTimeProbability: outcome.onTimeProbability,
+    chosenAt: (alternative.chosenAt ?? new Date()).toISOString()
+  };
+
+  const updated = await storage.updateAutomationProcess(process.id, {
+    agentDecision: defer ? 'defer' : 'book',
+    deferCost: defer ? outcome.holdingCost : null,
+    deferReason: defer ? outcome.description : null,
+    processData: {
+      ...((process.processData as Record<string, unknown> | null) ?? {}),
+      chosenStrategy
+    }
+  });
+  return { alternative, process: updated ?? null };
+}
@@ -0,0 +1,135 @@
+import type {
+  BookingOutcome, Carrier, InsertCarrier, RecordBookingOutcomeRequest, UpdateBookingOutcomeRequest
+} from "@shared/schema";
+import {
+  computeScorecard, scorecardTrend, sameCarrier, type CarrierDetail, type CarrierRecord, type CarrierScorecard, type CarrierWithScorecard
+} from "@shared/carrier-scorecard";
+import { storage } from "./storage";
+
+export class CarrierError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CarrierError";
+  }
+}
+
+export async function findCarrierByName(name: string): Promise<Carrier | undefined> {
+  return (await storage.getCarriers()).find(carrier => sameCarrier(carrier.name, name));
+}
+
+async function checkCarrier(data: Partial<InsertCarrier>, id?: string): Promise<void> {
+  if (data.name !== undefined) {
+    const existing = await findCarrierByName(data.name);
+    if (existing && existing.id !== id) {
+      throw new CarrierError(`A carrier named ${existing.name} already exists`);
+    }
+  }
+  for (const laneId of data.laneIds ?? []) {
+    if (!(await storage.getLane(laneId))) {
+      throw new CarrierError(`Lane ${laneId} not found`);
+    }
+  }
+}
+
+export async function createCarrier(data: InsertCarrier): Promise<Carrier> {
+  await checkCarrier(data);
+  return storage.createCarrier(data);
+}
+
+export async function updateCarrier(carrier: Carrier, updates: Partial<InsertCarrier>): Promise<Carrier> {
+  await checkCarrier(updates, carrier.id);
+  return (await storage.updateCarrier(carrier.id, updates)) ?? carrier;
+}
+
+export async function getCarrierScorecard(carrier: Carrier, now: Date = new Date()): Promise<CarrierScorecard> {
+  return computeScorecard(await storage.getBookingOutcomesByCarrier(carrier.id), now);
+}
+
+export async function listCarriers(now: Date = new Date()): Promise<CarrierWithScorecard[]> {
+  const outcomesByCarrier = new Map<string, BookingOutcome[]>();
+  for (const outcome of await storage.getBookingOutcomes()) {
+    const outcomes = outcomesByCarrier.get(outcome.carrierId) ?? [];
+    outcomes.push(outcome);
+    outcomesByCarrier.set(outcome.carrierId, outcomes);
+  }
+  return (await storage.getCarriers()).map(carrier => ({
+    ...carrier,
+    scorecard: computeScorecard(outcomesByCarrier.get(carrier.id) ?? [], now)
+  }));
+}
+
+export async function getCarrierDetail(carrier: Carrier, now: Date = new Date()): Promise<CarrierDetail> {
+  const outcomes = await storage.getBookingOutcomesByCarrier(carrier.id);
+  return {
+    ...carrier,
+    scorecard: computeScorecard(outcomes, now),
+    trend: scorecardTrend(outcomes, now),
+    outcomes
+  };
+}
+
+// What the fitment agent and quote evaluation know about a quoted carrier; null when it is not in master data
+export async function getCarrierRecord(name: string, laneId: string | null, now: Date = new Date()): Promise<CarrierRecord | null> {
+  const carrier = await findCarrierByName(name);
+  if (!carrier) return null;
+  return {
+    carrierId: carrier.id,
+    name: carrier.name,
+    services: carrier.services,
+    servesLane: laneId && carrier.laneIds.length > 0 ? carrier.laneIds.includes(laneId) : null,
+    scorecard: await getCarrierScorecard(carrier, now)
+  };
+}
+
+// A booked quote fills in the lane, shipment and rate; on time defaults to delivery by the shipment's required date
+export async function recordBookingOutcome(carrier: Carrier, request: RecordBookingOutcomeRequest): Promise<BookingOutcome> {
+  let { laneId, shipmentId, bookedRate } = request;
+  if (request.quoteId) {
+    const quote = await storage.getQuote(request.quoteId);
+    if (!quote) {
+      throw new CarrierError(`Quote ${request.quoteId} not found`);
+    }
+    if (!sameCarrier(quote.carrier, carrier.name)) {
+      throw new CarrierError(`Quote ${quote.id} is from ${quote.carrier}, not ${carrier.name}`);
+    }
+    if (await storage.getBookingOutcomeByQuote(quote.id)) {
+      throw new CarrierError("An outcome is already recorded for this quote");
+    }
+    laneId = laneId ?? quote.laneId ?? undefined;
+    shipmentId = shipmentId ?? quote.shipmentId ?? undefined;
+    bookedRate = bookedRate ?? quote.rate;
+  }
+  if (laneId && !(await storage.getLane(laneId))) {
+    throw new CarrierError(`Lane ${laneId} not found`);
+  }
+  const shipment = shipmentId ? await storage.getShipment(shipmentId) : undefined;
+  if (shipmentId && !shipment) {
+    throw new CarrierError(`Shipment ${shipmentId} not found`);
+  }
+
+  let onTime = request.onTime;
+  if (onTime === undefined) {
+    if (!shipment?.requiredDeliveryDate) {
+      throw new CarrierError("Say whether the booking arrived on time: there is no required delivery date to check against");
+    }
+    onTime = request.deliveredAt.getTime() <= new Date(shipment.requiredDeliveryDate).getTime();
+  }
+
+  return storage.createBookingOutcome({
+    carrierId: carrier.id,
+    quoteId: request.quoteId ?? null,
+    shipmentId: shipmentId ?? null,
+    laneId: laneId ?? null,
+    bookedRate: bookedRate!,
+    invoicedAmount: request.invoicedAmount ?? null,
+    deliveredAt: request.deliveredAt,
+    onTime,
+    rolled: request.rolled,
+    damaged: request.damaged,
+    notes: request.notes ?? null
+  });
+}
+
+export async function updateBookingOutcome(outcome: BookingOutcome, updates: UpdateBookingOutcomeRequest): Promise<BookingOutcome> {
+  return (await storage.updateBookingOutcome(outcome.id, updates)) ?? outcome;
+}
@@ -0,0 +1,73 @@
+import type { CompositeIndex, CompositeIndexComponent, InsertCompositeIndex, MarketIndex } from "@shared/schema";
+import { computeCompositeSeries, type CompositePoint } from "@shared/composite-index";
+import { storage } from "./storage";
+
+export class CompositeIndexError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CompositeIndexError";
+  }
+}
+
+// Components must be stored indices: composites of composites are not supported
+async function validateComponents(components: CompositeIndexComponent[]): Promise<void> {
+  for (const component of components) {
+    if (!await storage.getMarketIndex(component.code)) {
+      const composite = await storage.getCompositeIndex(component.code);
+      throw new CompositeIndexError(composite
+        ? `${component.code} is itself a composite; use its components instead`
+        : `Unknown market index ${component.code}`);
+    }
+  }
+}
+
+export async function createCompositeIndex(data: InsertCompositeIndex): Promise<CompositeIndex> {
+  if (await storage.getMarketIndex(data.code) || await storage.getCompositeIndex(data.code)) {
+    throw new CompositeIndexError(`An index with code ${data.code} already exists`);
+  }
+  await validateComponents(data.components);
+  return storage.createCompositeIndex(data);
+}
+
+export async function updateCompositeIndex(
+  code: string,
+  updates: Partial<Omit<InsertCompositeIndex, 'code'>>
+): Promise<CompositeIndex | undefined> {
+  if (updates.components) await validateComponents(updates.components as CompositeIndexComponent[]);
+  return storage.updateCompositeIndex(code, updates);
+}
+
+// Refused while a lane still prices off the composite
+export async function deleteCompositeIndex(code: string): Promise<boolean> {
+  const lanes = (await storage.getLanes()).filter(lane => lane.baseIndex === code);
+  if (lanes.length > 0) {
+    throw new CompositeIndexError(`${code} is the base index of ${lanes.map(lane => lane.name).join(", ")}`);
+  }
+  return storage.deleteCompositeIndex(code);
+}
+
+export async function getCompositeHistory(composite: CompositeIndex, from?: string, to?: string): Promise<CompositePoint[]> {
+  const components = composite.components as CompositeIndexComponent[];
+  const histories = [];
+  for (const component of components) {
+    histories.push(await storage.getIndexObservations(component.code));
+  }
+  return computeCompositeSeries(components, histories, from, to);
+}
+
+// The composite in MarketIndex shape, with its value and change from the two latest computed points
+export async function getCompositeSnapshot(composite: CompositeIndex): Promise<MarketIndex> {
+  const history = await getCompositeHistory(composite);
+  const latest = history[history.length - 1];
+  const previous = history[history.length - 2];
+  const change = latest && previous ? latest.value - previous.value : 0;
+  return {
+    id: composite.id,
+    name: composite.name,
+    code: composite.code,
+    value: latest ? Math.round(latest.value * 100) / 100 : 0,
+    change: Math.round(change * 100) / 100,
+    changePercent: previous ? Math.round((change / previous.value) * 10000) / 100 : 0,
+    lastUpdated: latest ? new Date(`${latest.date}T00:00:00Z`) : composite.createdAt
+  };
+}
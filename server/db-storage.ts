@@ -1,23 +1,36 @@
 import { drizzle } from 'drizzle-orm/neon-http';
 import { neon } from '@neondatabase/serverless';
-import { eq } from 'drizzle-orm';
+import { and, asc, eq, desc, gte, lte, sql } from 'drizzle-orm';
 import {
-  lanes, simulations, quotes, alternatives, marketIndices, users, shipments,
-  automationProcesses, vendorEvaluations, processDocuments, processActions,
+  lanes, simulations, quotes, alternatives, alternativeAnalysisRuns, marketIndices, indexObservations, compositeIndices, freightInvoices, users, shipments,
+  recommendationPolicies, recommendationPolicyVersions, automationProcesses, vendorEvaluations, processDocuments, processActions,
+  rfqs, rfqInvitations, carriers, bookingOutcomes,
   type Lane, type InsertLane,
   type Simulation, type InsertSimulation,
   type Quote, type InsertQuote,
   type Alternative, type InsertAlternative,
+  type AlternativeAnalysisRun, type InsertAlternativeAnalysisRun,
+  type RecommendationPolicy, type InsertRecommendationPolicy,
+  type RecommendationPolicyVersion, type InsertRecommendationPolicyVersion,
   type MarketIndex, type InsertMarketIndex,
+  type IndexObservation, type InsertIndexObservation,
+  type CompositeIndex, type InsertCompositeIndex,
+  type FreightInvoice, type InsertFreightInvoice,
   type User, type InsertUser,
   type Shipment, type InsertShipment,
   type AutomationProcess, type InsertAutomationProcess,
   type VendorEvaluation, type InsertVendorEvaluation,
   type ProcessDocument, type InsertProcessDocument,
-  type ProcessAction, type InsertProcessAction
+  type ProcessAction, type InsertProcessAction,
+  type Rfq, type InsertRfq,
+  type RfqInvitation, type InsertRfqInvitation,
+  type Carrier, type InsertCarrier,
+  type BookingOutcome, type InsertBookingOutcome
 } from '@shared/schema';
 import type { IStorage } from './storage';
 
+const INDEX_OBSERVATION_BATCH = 5000;
+
 export class DbStorage implements IStorage {
   private db;
 
@@ -105,6 +118,10 @@ export class DbStorage implements IStorage {
     return await this.db.select().from(quotes).where(eq(quotes.laneId, laneId));
   }
 
+  async getQuotesByShipment(shipmentId: string): Promise<Quote[]> {
+    return await this.db.select().from(quotes).where(eq(quotes.shipmentId, shipmentId));
+  }
+
   async createQuote(quote: InsertQuote): Promise<Quote> {
     const result = await this.db.insert(quotes).values(quote).returning();
     return result[0];
@@ -129,11 +146,87 @@ export class DbStorage implements IStorage {
     return await this.db.select().from(alternatives).where(eq(alternatives.quoteId, quoteId));
   }
 
+  async getAlternativesByAnalysisRun(analysisRunId: string): Promise<Alternative[]> {
+    return await this.db.select().from(alternatives).where(eq(alternatives.analysisRunId, analysisRunId));
+  }
+
   async createAlternative(alternative: InsertAlternative): Promise<Alternative> {
     const result = await this.db.insert(alternatives).values(alternative).returning();
     return result[0];
   }
 
+  async chooseAlternative(id: string): Promise<Alternative | undefined> {
+    const existing = await this.getAlternative(id);
+    if (!existing) return undefined;
+
+    if (existing.quoteId) {
+      await this.db.update(alternatives)
+        .set({ chosen: false, chosenAt: null })
+        .where(and(eq(alternatives.quoteId, existing.quoteId), eq(alternatives.chosen, true)));
+    }
+    const result = await this.db.update(alternatives)
+      .set({ chosen: true, chosenAt: new Date() })
+      .where(eq(alternatives.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // Alternative Analysis Runs
+  async getAlternativeAnalysisRunsByQuote(quoteId: string): Promise<AlternativeAnalysisRun[]> {
+    return await this.db.select().from(alternativeAnalysisRuns)
+      .where(eq(alternativeAnalysisRuns.quoteId, quoteId))
+      .orderBy(desc(alternativeAnalysisRuns.createdAt));
+  }
+
+  async getAlternativeAnalysisRun(id: string): Promise<AlternativeAnalysisRun | undefined> {
+    const result = await this.db.select().from(alternativeAnalysisRuns).where(eq(alternativeAnalysisRuns.id, id));
+    return result[0];
+  }
+
+  async createAlternativeAnalysisRun(run: InsertAlternativeAnalysisRun): Promise<AlternativeAnalysisRun> {
+    const result = await this.db.insert(alternativeAnalysisRuns).values(run).returning();
+    return result[0];
+  }
+
+  // Recommendation Policies
+  async getRecommendationPolicies(): Promise<RecommendationPolicy[]> {
+    return await this.db.select().from(recommendationPolicies);
+  }
+
+  async getRecommendationPolicy(id: string): Promise<RecommendationPolicy | undefined> {
+    const result = await this.db.select().from(recommendationPolicies).where(eq(recommendationPolicies.id, id));
+    return result[0];
+  }
+
+  async createRecommendationPolicy(policy: InsertRecommendationPolicy): Promise<RecommendationPolicy> {
+    const result = await this.db.insert(recommendationPolicies).values(policy).returning();
+    return result[0];
+  }
+
+  async updateRecommendationPolicy(id: string, updates: Partial<InsertRecommendationPolicy>): Promise<RecommendationPolicy | undefined> {
+    const result = await this.db.update(recommendationPolicies)
+      .set({ ...updates, version: sql`${recommendationPolicies.version} + 1`, updatedAt: new Date() })
+      .where(eq(recommendationPolicies.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteRecommendationPolicy(id: string): Promise<boolean> {
+    const result = await this.db.delete(recommendationPolicies).where(eq(recommendationPolicies.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getRecommendationPolicyVersions(policyId: string): Promise<RecommendationPolicyVersion[]> {
+    return await this.db.select().from(recommendationPolicyVersions)
+      .where(eq(recommendationPolicyVersions.policyId, policyId))
+      .orderBy(desc(recommendationPolicyVersions.version));
+  }
+
+  async createRecommendationPolicyVersion(version: InsertRecommendationPolicyVersion): Promise<RecommendationPolicyVersion> {
+    const result = await this.db.insert(recommendationPolicyVersions).values(version).returning();
+    return result[0];
+  }
+
   // Market Indices
   async getMarketIndices(): Promise<MarketIndex[]> {
     return await this.db.select().from(marketIndices);
@@ -154,6 +247,78 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  // Index Observations
+  async getIndexObservations(code: string, from?: string, to?: string): Promise<IndexObservation[]> {
+    return await this.db.select().from(indexObservations)
+      .where(and(
+        eq(indexObservations.code, code),
+        from ? gte(indexObservations.date, from) : undefined,
+        to ? lte(indexObservations.date, to) : undefined
+      ))
+      .orderBy(asc(indexObservations.date));
+  }
+
+  // Batched so large imports stay under Postgres' 65,535 bind parameters per statement
+  async upsertIndexObservations(observations: InsertIndexObservation[]): Promise<IndexObservation[]> {
+    const saved: IndexObservation[] = [];
+    for (let start = 0; start < observations.length; start += INDEX_OBSERVATION_BATCH) {
+      saved.push(...await this.db.insert(indexObservations)
+        .values(observations.slice(start, start + INDEX_OBSERVATION_BATCH))
+        .onConflictDoUpdate({
+          target: [indexObservations.code, indexObservations.date],
+          set: { value: sql`excluded.value` }
+        })
+        .returning());
+    }
+    return saved;
+  }
+
+  // Composite Indices
+  async getCompositeIndices(): Promise<CompositeIndex[]> {
+    return await this.db.select().from(compositeIndices);
+  }
+
+  async getCompositeIndex(code: string): Promise<CompositeIndex | undefined> {
+    const result = await this.db.select().from(compositeIndices).where(eq(compositeIndices.code, code));
+    return result[0];
+  }
+
+  async createCompositeIndex(composite: InsertCompositeIndex): Promise<CompositeIndex> {
+    const result = await this.db.insert(compositeIndices).values(composite).returning();
+    return result[0];
+  }
+
+  async updateCompositeIndex(code: string, updates: Partial<Omit<InsertCompositeIndex, 'code'>>): Promise<CompositeIndex | undefined> {
+    const result = await this.db.update(compositeIndices).set(updates).where(eq(compositeIndices.code, code)).returning();
+    return result[0];
+  }
+
+  async deleteCompositeIndex(code: string): Promise<boolean> {
+    const result = await this.db.delete(compositeIndices).where(eq(compositeIndices.code, code)).returning();
+    return result.length > 0;
+  }
+
+  // Freight Invoices
+  async getFreightInvoicesByLane(laneId: string, from?: string, to?: string): Promise<FreightInvoice[]> {
+    return await this.db.select().from(freightInvoices)
+      .where(and(
+        eq(freightInvoices.laneId, laneId),
+        from ? gte(freightInvoices.date, from) : undefined,
+        to ? lte(freightInvoices.date, to) : undefined
+      ))
+      .orderBy(asc(freightInvoices.date));
+  }
+
+  async createFreightInvoices(invoices: InsertFreightInvoice[]): Promise<FreightInvoice[]> {
+    if (invoices.length === 0) return [];
+    return await this.db.insert(freightInvoices).values(invoices).returning();
+  }
+
+  async deleteFreightInvoicesByLane(laneId: string): Promise<number> {
+    const result = await this.db.delete(freightInvoices).where(eq(freightInvoices.laneId, laneId)).returning({ id: freightInvoices.id });
+    return result.length;
+  }
+
   // Shipments
   async getShipments(): Promise<Shipment[]> {
     return await this.db.select().from(shipments);
@@ -204,6 +369,14 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  async updateAutomationProcessAtStage(id: string, stage: string, updates: Partial<InsertAutomationProcess>): Promise<AutomationProcess | undefined> {
+    const result = await this.db.update(automationProcesses)
+      .set(updates)
+      .where(and(eq(automationProcesses.id, id), eq(automationProcesses.currentStage, stage)))
+      .returning();
+    return result[0];
+  }
+
   // Vendor Evaluations
   async getVendorEvaluations(): Promise<VendorEvaluation[]> {
     return await this.db.select().from(vendorEvaluations);
@@ -270,4 +443,113 @@ export class DbStorage implements IStorage {
     const result = await this.db.update(processActions).set(updates).where(eq(processActions.id, id)).returning();
     return result[0];
   }
+
+  // RFQs
+  async getRfqsByShipment(shipmentId: string): Promise<Rfq[]> {
+    return await this.db.select().from(rfqs).where(eq(rfqs.shipmentId, shipmentId)).orderBy(desc(rfqs.createdAt));
+  }
+
+  async getOpenRfqs(): Promise<Rfq[]> {
+    return await this.db.select().from(rfqs).where(eq(rfqs.status, "open"));
+  }
+
+  async getRfq(id: string): Promise<Rfq | undefined> {
+    const result = await this.db.select().from(rfqs).where(eq(rfqs.id, id));
+    return result[0];
+  }
+
+  async createRfq(rfq: InsertRfq): Promise<Rfq> {
+    const result = await this.db.insert(rfqs).values(rfq).returning();
+    return result[0];
+  }
+
+  async updateRfq(id: string, updates: Partial<InsertRfq>): Promise<Rfq | undefined> {
+    const result = await this.db.update(rfqs).set(updates).where(eq(rfqs.id, id)).returning();
+    return result[0];
+  }
+
+  async closeOpenRfq(id: string, updates: Partial<InsertRfq>): Promise<Rfq | undefined> {
+    const result = await this.db.update(rfqs)
+      .set(updates)
+      .where(and(eq(rfqs.id, id), eq(rfqs.status, 'open')))
+      .returning();
+    return result[0];
+  }
+
+  async getRfqInvitations(rfqId: string): Promise<RfqInvitation[]> {
+    return await this.db.select().from(rfqInvitations).where(eq(rfqInvitations.rfqId, rfqId));
+  }
+
+  async getRfqInvitationByToken(token: string): Promise<RfqInvitation | undefined> {
+    const result = await this.db.select().from(rfqInvitations).where(eq(rfqInvitations.token, token));
+    return result[0];
+  }
+
+  async createRfqInvitation(invitation: InsertRfqInvitation): Promise<RfqInvitation> {
+    const result = await this.db.insert(rfqInvitations).values(invitation).returning();
+    return result[0];
+  }
+
+  async updateRfqInvitation(id: string, updates: Partial<InsertRfqInvitation>): Promise<RfqInvitation | undefined> {
+    const result = await this.db.update(rfqInvitations).set(updates).where(eq(rfqInvitations.id, id)).returning();
+    return result[0];
+  }
+
+  async claimRfqInvitation(id: string, updates: Partial<InsertRfqInvitation>): Promise<RfqInvitation | undefined> {
+    const result = await this.db.update(rfqInvitations)
+      .set(updates)
+      .where(and(eq(rfqInvitations.id, id), eq(rfqInvitations.status, 'pending')))
+      .returning();
+    return result[0];
+  }
+
+  // Carrier methods
+  async getCarriers(): Promise<Carrier[]> {
+    return await this.db.select().from(carriers).orderBy(asc(carriers.name));
+  }
+
+  async getCarrier(id: string): Promise<Carrier | undefined> {
+    const result = await this.db.select().from(carriers).where(eq(carriers.id, id));
+    return result[0];
+  }
+
+  async createCarrier(carrier: InsertCarrier): Promise<Carrier> {
+    const result = await this.db.insert(carriers).values(carrier).returning();
+    return result[0];
+  }
+
+  async updateCarrier(id: string, updates: Partial<InsertCarrier>): Promise<Carrier | undefined> {
+    const result = await this.db.update(carriers).set(updates).where(eq(carriers.id, id)).returning();
+    return result[0];
+  }
+
+  async getBookingOutcomes(): Promise<BookingOutcome[]> {
+    return await this.db.select().from(bookingOutcomes).orderBy(desc(bookingOutcomes.deliveredAt));
+  }
+
+  async getBookingOutcomesByCarrier(carrierId: string): Promise<BookingOutcome[]> {
+    return await this.db.select().from(bookingOutcomes)
+      .where(eq(bookingOutcomes.carrierId, carrierId))
+      .orderBy(desc(bookingOutcomes.deliveredAt));
+  }
+
+  async getBookingOutcome(id: string): Promise<BookingOutcome | undefined> {
+    const result = await this.db.select().from(bookingOutcomes).where(eq(bookingOutcomes.id, id));
+    return result[0];
+  }
+
+  async getBookingOutcomeByQuote(quoteId: string): Promise<BookingOutcome | undefined> {
+    const result = await this.db.select().from(bookingOutcomes).where(eq(bookingOutcomes.quoteId, quoteId));
+    return result[0];
+  }
+
+  async createBookingOutcome(outcome: InsertBookingOutcome): Promise<BookingOutcome> {
+    const result = await this.db.insert(bookingOutcomes).values(outcome).returning();
+    return result[0];
+  }
+
+  async updateBookingOutcome(id: string, updates: Partial<InsertBookingOutcome>): Promise<BookingOutcome | undefined> {
+    const result = await this.db.update(bookingOutcomes).set(updates).where(eq(bookingOutcomes.id, id)).returning();
+    return result[0];
+  }
 }
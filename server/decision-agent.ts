@@ -0,0 +1,106 @@
+import type { AutomationProcess, Lane, Quote, Simulation } from "@shared/schema";
+import type { SimulationSummary } from "@shared/monte-carlo";
+import {
+  runDecisionAgent, deadlineDaysFrom, DecisionAgentError, DECISION_WAIT_DAYS,
+  type DecisionQuoteInput, type MarketOutlook, type TransitRisk
+} from "@shared/decision-agent";
+import { forecastIndexSeries, selectedForecast, IndexForecastError } from "@shared/index-forecast";
+import { storage } from "./storage";
+import { resolveLaneSimulation, evaluateQuote, transitPercentile } from "./quote-evaluation";
+import { resolveRecommendationPolicy } from "./recommendation-policy";
+import { getIndexSeries, withLatestIndexValue } from "./index-history";
+import { getCarrierRecord } from "./carriers";
+
+export interface LaneContext {
+  lane: Lane;
+  simulation: Simulation;
+  transit: TransitRisk;
+  outlook: MarketOutlook | null;
+}
+
+// Expected move of the lane's base index over the deferral; null when its history is too short to forecast
+async function marketOutlook(lane: Lane): Promise<MarketOutlook | null> {
+  try {
+    const report = forecastIndexSeries(await getIndexSeries(lane.baseIndex), DECISION_WAIT_DAYS);
+    const forecast = selectedForecast(report);
+    return {
+      indexCode: lane.baseIndex,
+      expectedChangePercent: ((forecast.forecast.mean - report.lastValue) / report.lastValue) * 100
+    };
+  } catch (error) {
+    if (error instanceof IndexForecastError) return null;
+    throw error;
+  }
+}
+
+// The lane's latest simulation (running one if needed), transit risk against the deadline and index outlook
+export async function loadLaneContext(laneId: string, deadlineDays: number | null): Promise<LaneContext | null> {
+  const stored = await storage.getLane(laneId);
+  if (!stored) return null;
+  const lane = await withLatestIndexValue(stored);
+  const simulation = await resolveLaneSimulation(lane);
+  const summary = simulation.results as SimulationSummary;
+  return {
+    lane,
+    simulation,
+    transit: {
+      simulationId: simulation.id,
+      p50Days: summary.transitStats.p50,
+      p90Days: summary.transitStats.p90,
+      onTimeProbability: deadlineDays !== null ? transitPercentile(deadlineDays, summary) : null,
+      onTimeIfDeferred: deadlineDays !== null ? transitPercentile(deadlineDays - DECISION_WAIT_DAYS, summary) : null
+    },
+    outlook: await marketOutlook(lane)
+  };
+}
+
+// Scores the shipment's quotes with this process's vendor evaluations and each lane's simulation, then records the
+// decision on the process. Moving to booking or approval is left to the book and defer transitions.
+export async function runProcessDecision(process: AutomationProcess): Promise<AutomationProcess> {
+  if (process.currentStage !== 'decision_analysis') {
+    throw new DecisionAgentError("The decision agent only runs during decision analysis");
+  }
+  const shipment = await storage.getShipment(process.shipmentId);
+  if (!shipment) {
+    throw new DecisionAgentError(`Shipment ${process.shipmentId} not found`);
+  }
+
+  const now = new Date();
+  const deadlineDays = deadlineDaysFrom(shipment, now);
+  const quotes: Quote[] = await storage.getQuotesByShipment(shipment.id);
+  const vendorEvaluations = await storage.getVendorEvaluationsByProcess(process.id);
+
+  // Quotes on the same lane share its simulation and forecast
+  const lanes = new Map<string, LaneContext | null>();
+  const inputs: DecisionQuoteInput[] = [];
+  for (const quote of quotes) {
+    if (quote.laneId && !lanes.has(quote.laneId)) {
+      lanes.set(quote.laneId, await loadLaneContext(quote.laneId, deadlineDays));
+    }
+    const context = quote.laneId ? lanes.get(quote.laneId) ?? null : null;
+    inputs.push({
+      quote,
+      evaluation: context
+        ? evaluateQuote(
+            quote, context.lane, context.simulation, await resolveRecommendationPolicy(quote),
+            await getCarrierRecord(quote.carrier, quote.laneId, now)
+          )
+        : null,
+      vendorEvaluations: vendorEvaluations.filter(evaluation => evaluation.quoteId === quote.id),
+      transit: context?.transit ?? null,
+      outlook: context?.outlook ?? null
+    });
+  }
+
+  const result = runDecisionAgent(shipment, inputs, now);
+  const updated = await storage.updateAutomationProcess(process.id, {
+    agentDecision: result.decision,
+    deferCost: result.deferCost,
+    deferReason: result.deferReason,
+    processData: {
+      ...((process.processData as Record<string, unknown> | null) ?? {}),
+      decisionAnalysis: result.analysis
+    }
+  });
+  return updated ?? process;
+}
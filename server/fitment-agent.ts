@@ -0,0 +1,78 @@
+import type { AutomationProcess, Lane, VendorEvaluation } from "@shared/schema";
+import { evaluateFitment, FitmentAgentError, FITMENT_AGENT_NAME, type CarrierHistory } from "@shared/fitment-agent";
+import { deadlineDaysFrom } from "@shared/decision-agent";
+import { sameCarrier } from "@shared/carrier-scorecard";
+import { LaneRatioFitError, type LaneRatioFit } from "@shared/lane-ratio";
+import { storage } from "./storage";
+import { evaluateQuote } from "./quote-evaluation";
+import { resolveRecommendationPolicy } from "./recommendation-policy";
+import { loadLaneContext, type LaneContext } from "./decision-agent";
+import { fitLaneRatioFromInvoices } from "./lane-invoices";
+import { getCarrierRecord } from "./carriers";
+
+async function laneInvoiceFit(lane: Lane): Promise<LaneRatioFit | null> {
+  try {
+    return await fitLaneRatioFromInvoices(lane, {});
+  } catch (error) {
+    if (error instanceof LaneRatioFitError) return null;
+    throw error;
+  }
+}
+
+function carrierHistory(fit: LaneRatioFit | null, carrier: string): CarrierHistory | null {
+  if (!fit) return null;
+  const points = fit.points.filter(point => sameCarrier(point.carrier, carrier));
+  const premium = fit.carriers.find(entry => sameCarrier(entry.carrier, carrier));
+  return {
+    invoices: points.length,
+    premium: premium && !premium.pooled ? premium.premium : null,
+    billingDeviation: points.length > 0
+      ? points.reduce((sum, point) => sum + Math.abs(Math.log(point.amount / point.fitted)), 0) / points.length
+      : null
+  };
+}
+
+// Evaluates each of the shipment's quotes that this agent has not yet evaluated in the process and stores one
+// VendorEvaluation per quote
+export async function runFitmentAgent(process: AutomationProcess): Promise<VendorEvaluation[]> {
+  if (process.currentStage !== 'agent_evaluation') {
+    throw new FitmentAgentError("The fitment agent only runs during agent evaluation");
+  }
+  const shipment = await storage.getShipment(process.shipmentId);
+  if (!shipment) {
+    throw new FitmentAgentError(`Shipment ${process.shipmentId} not found`);
+  }
+
+  const now = new Date();
+  const deadlineDays = deadlineDaysFrom(shipment, now);
+  const quotes = await storage.getQuotesByShipment(shipment.id);
+  const evaluated = new Set((await storage.getVendorEvaluationsByProcess(process.id))
+    .filter(evaluation => evaluation.agentName === FITMENT_AGENT_NAME)
+    .map(evaluation => evaluation.quoteId));
+
+  const lanes = new Map<string, { context: LaneContext | null; fit: LaneRatioFit | null }>();
+  const created: VendorEvaluation[] = [];
+  for (const quote of quotes) {
+    if (evaluated.has(quote.id)) continue;
+    if (quote.laneId && !lanes.has(quote.laneId)) {
+      const context = await loadLaneContext(quote.laneId, deadlineDays);
+      lanes.set(quote.laneId, { context, fit: context ? await laneInvoiceFit(context.lane) : null });
+    }
+    const lane = quote.laneId ? lanes.get(quote.laneId) : undefined;
+    const context = lane?.context ?? null;
+    const carrier = await getCarrierRecord(quote.carrier, quote.laneId, now);
+
+    const evaluation = evaluateFitment(shipment, {
+      quote,
+      evaluation: context
+        ? evaluateQuote(quote, context.lane, context.simulation, await resolveRecommendationPolicy(quote), carrier)
+        : null,
+      transit: context?.transit ?? null,
+      history: carrierHistory(lane?.fit ?? null, quote.carrier),
+      carrier,
+      peerRates: quotes.map(peer => peer.rate)
+    }, now);
+    created.push(await storage.createVendorEvaluation({ ...evaluation, processId: process.id }));
+  }
+  return created;
+}
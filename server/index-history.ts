@@ -0,0 +1,158 @@
+import type {
+  IndexObservationBatch, IndexHistoryQuery, IndexForecastQuery, IndexImportRequest, IndexModel, Lane,
+  MarketIndex
+} from "@shared/schema";
+import { deriveIndexVolatility, type IndexPoint, type IndexVolatility } from "@shared/index-series";
+import {
+  fitForecastModel, forecastIndexSeries, selectedForecast, IndexForecastError, type FittedForecastModel, type IndexForecastReport
+} from "@shared/index-forecast";
+import { parseIndexImport, classifyImport, MAX_REPORTED_ISSUES, type IndexImportReport } from "@shared/index-import";
+import { storage } from "./storage";
+import { getCompositeHistory, getCompositeSnapshot } from "./composite-indices";
+
+export class InsufficientHistoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InsufficientHistoryError";
+  }
+}
+
+// Sets the index's current value and change from its two latest observations
+async function refreshIndexSnapshot(index: MarketIndex): Promise<MarketIndex> {
+  const history = await storage.getIndexObservations(index.code);
+  const latest = history[history.length - 1];
+  const previous = history[history.length - 2];
+  if (!latest) return index;
+
+  const change = previous ? latest.value - previous.value : 0;
+  return storage.createOrUpdateMarketIndex({
+    name: index.name,
+    code: index.code,
+    value: latest.value,
+    change: Math.round(change * 100) / 100,
+    changePercent: previous ? Math.round((change / previous.value) * 10000) / 100 : 0
+  });
+}
+
+// Upserts the batch, then refreshes the index snapshot
+export async function ingestIndexObservations(
+  index: MarketIndex,
+  batch: IndexObservationBatch
+): Promise<{ ingested: number; index: MarketIndex }> {
+  const saved = await storage.upsertIndexObservations(
+    batch.observations.map(observation => ({ code: index.code, date: observation.date, value: observation.value }))
+  );
+  return { ingested: saved.length, index: await refreshIndexSnapshot(index) };
+}
+
+// Parses and validates an uploaded file against the stored series. Unless it is a dry run, new and changed
+// observations are written and the touched indices' snapshots refreshed; unchanged rows are never rewritten.
+export async function importIndexFile(request: IndexImportRequest): Promise<IndexImportReport> {
+  const indices = await storage.getMarketIndices();
+  const parsed = parseIndexImport(request, indices.map(index => index.code), new Date().toISOString().slice(0, 10));
+
+  const stored = new Map<string, Map<string, number>>();
+  const codes = Array.from(new Set(parsed.observations.map(observation => observation.code)));
+  for (const code of codes) {
+    const rows = parsed.observations.filter(observation => observation.code === code);
+    const history = await storage.getIndexObservations(code, rows[0].date, rows[rows.length - 1].date);
+    stored.set(code, new Map(history.map(observation => [observation.date, observation.value])));
+  }
+  const { series, changes } = classifyImport(parsed, stored);
+
+  if (!request.dryRun && changes.length > 0) {
+    await storage.upsertIndexObservations(changes.map(({ code, date, value }) => ({ code, date, value })));
+    for (const summary of series) {
+      const index = indices.find(candidate => candidate.code === summary.code);
+      if (index && summary.new + summary.updated > 0) await refreshIndexSnapshot(index);
+    }
+  }
+
+  return {
+    dryRun: request.dryRun,
+    layout: parsed.layout,
+    totalRows: parsed.totalRows,
+    importableRows: parsed.observations.length,
+    written: request.dryRun ? 0 : changes.length,
+    errors: parsed.issues.filter(issue => issue.severity === 'error').length,
+    warnings: parsed.issues.filter(issue => issue.severity === 'warning').length,
+    issues: parsed.issues.slice(0, MAX_REPORTED_ISSUES),
+    series
+  };
+}
+
+// Stored indices followed by composites, each composite valued from its components
+export async function listMarketIndices(): Promise<MarketIndex[]> {
+  const indices = await storage.getMarketIndices();
+  const composites = await storage.getCompositeIndices();
+  const snapshots: MarketIndex[] = [];
+  for (const composite of composites) {
+    snapshots.push(await getCompositeSnapshot(composite));
+  }
+  return [...indices, ...snapshots];
+}
+
+export async function resolveMarketIndex(code: string): Promise<MarketIndex | undefined> {
+  const index = await storage.getMarketIndex(code);
+  if (index) return index;
+  const composite = await storage.getCompositeIndex(code);
+  return composite ? getCompositeSnapshot(composite) : undefined;
+}
+
+// A stored index's observations, or a composite's computed history; ascending by date either way
+export async function getIndexSeries(code: string, from?: string, to?: string): Promise<IndexPoint[]> {
+  const composite = await storage.getCompositeIndex(code);
+  return composite ? getCompositeHistory(composite, from, to) : storage.getIndexObservations(code, from, to);
+}
+
+// The lane as it is priced. Once its base index, stored or composite, has history, the lane prices off that series'
+// latest value; the hand-entered indexValue only stands in for an index without observations.
+export async function withLatestIndexValue(lane: Lane): Promise<Lane> {
+  const history = await getIndexSeries(lane.baseIndex);
+  const latest = history[history.length - 1];
+  return latest ? { ...lane, indexValue: Math.round(latest.value * 100) / 100 } : lane;
+}
+
+export async function getIndexVolatility(code: string, range: IndexHistoryQuery): Promise<IndexVolatility> {
+  const history = await getIndexSeries(code, range.from, range.to);
+  const volatility = deriveIndexVolatility(history);
+  if (!volatility) {
+    throw new InsufficientHistoryError(`${code} has ${history.length} observations in range; at least 3 on distinct dates are needed`);
+  }
+  return volatility;
+}
+
+// Replaces the lane's hand-entered volatility with the one implied by its base index's series
+export async function deriveLaneVolatility(
+  lane: Lane,
+  range: IndexHistoryQuery
+): Promise<{ lane: Lane; volatility: IndexVolatility }> {
+  const volatility = await getIndexVolatility(lane.baseIndex, range);
+  const updated = await storage.updateLane(lane.id, { historicalVolatility: volatility.volatility });
+  return { lane: updated ?? lane, volatility };
+}
+
+// Fits every forecast model to the series and backtests each at the requested horizon
+export async function forecastIndex(code: string, query: IndexForecastQuery): Promise<IndexForecastReport & { code: string }> {
+  const history = await getIndexSeries(code, query.from, query.to);
+  return { code, ...forecastIndexSeries(history, query.horizon, query.model) };
+}
+
+// The forecast a wait prices the lane's index with. Undefined falls back to the lane's volatility walk: asked for
+// with "lane", or under "auto" when the history is too short to fit anything. A named model that cannot be fitted throws.
+export async function resolveLaneIndexModel(
+  lane: Lane,
+  indexModel: IndexModel,
+  horizonDays: number
+): Promise<FittedForecastModel | undefined> {
+  if (indexModel === 'lane') return undefined;
+  const history = await getIndexSeries(lane.baseIndex);
+  if (indexModel !== 'auto') return fitForecastModel(indexModel, history);
+
+  try {
+    return selectedForecast(forecastIndexSeries(history, Math.max(1, Math.round(horizonDays)))).fit;
+  } catch (error) {
+    if (error instanceof IndexForecastError) return undefined;
+    throw error;
+  }
+}
@@ -1,9 +1,10 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { closeExpiredRfqs } from "./rfqs";
 
 const app = express();
-app.use(express.json());
+app.use(express.json({ limit: "6mb" })); // Index imports post whole files
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -75,4 +76,9 @@ app.use((req, res, next) => {
   server.listen(listenOptions, () => {
     log(`serving on port ${port}`);
   });
+
+  // RFQs past their deadline are also closed whenever they are read; this catches ones nobody is looking at
+  setInterval(() => {
+    closeExpiredRfqs().catch(error => log(`RFQ deadline check failed: ${error instanceof Error ? error.message : String(error)}`));
+  }, 60_000).unref();
 })();
@@ -0,0 +1,66 @@
+import type {
+  FreightInvoice, FreightInvoiceBatch, IndexHistoryQuery, InsertLane, Lane, LaneRatioApplyRequest, RateFactor
+} from "@shared/schema";
+import { fitLaneRatio, carrierPremiumFactor, LaneRatioFitError, type LaneRatioFit } from "@shared/lane-ratio";
+import { storage } from "./storage";
+import { getIndexSeries, withLatestIndexValue } from "./index-history";
+
+const DEFAULT_CARRIER_FACTOR = "Carrier Premium";
+
+// Appends the batch, or replaces the lane's invoices with it
+export async function saveFreightInvoices(
+  lane: Lane,
+  batch: FreightInvoiceBatch
+): Promise<{ saved: number; removed: number; invoices: FreightInvoice[] }> {
+  const removed = batch.replace ? await storage.deleteFreightInvoicesByLane(lane.id) : 0;
+  const saved = await storage.createFreightInvoices(
+    batch.invoices.map(invoice => ({ laneId: lane.id, date: invoice.date, carrier: invoice.carrier, amount: invoice.amount }))
+  );
+  return { saved: saved.length, removed, invoices: await storage.getFreightInvoicesByLane(lane.id) };
+}
+
+// Regresses the lane's invoices in range against its base index history up to the last invoice
+export async function fitLaneRatioFromInvoices(lane: Lane, range: IndexHistoryQuery): Promise<LaneRatioFit> {
+  const invoices = await storage.getFreightInvoicesByLane(lane.id, range.from, range.to);
+  if (invoices.length === 0) {
+    throw new LaneRatioFitError(`Lane ${lane.name} has no freight invoices${range.from || range.to ? ' in range' : ''}`);
+  }
+  const index = await getIndexSeries(lane.baseIndex, undefined, invoices[invoices.length - 1].date);
+  if (index.length === 0) {
+    throw new LaneRatioFitError(`${lane.baseIndex} has no history to regress the invoices against`);
+  }
+  return fitLaneRatio(invoices, index);
+}
+
+// Writes the chosen parts of the fit onto the lane. The carrier premium replaces the lane's carrierPremium factor,
+// keeping its name so correlations that reference it still apply, or is appended when the lane has none.
+export async function applyLaneRatioFit(
+  lane: Lane,
+  request: LaneRatioApplyRequest
+): Promise<{ lane: Lane; fit: LaneRatioFit }> {
+  const fit = await fitLaneRatioFromInvoices(lane, request);
+  const updates: Partial<InsertLane> = {};
+
+  // The ratio is fitted against the index's level, so the stored level is brought up to its latest value with it
+  if (request.laneRatio) {
+    updates.laneRatio = Math.round(fit.laneRatio * 10000) / 10000;
+    updates.indexValue = (await withLatestIndexValue(lane)).indexValue;
+  }
+  if (request.historicalVolatility) {
+    if (!fit.rateVolatility) {
+      throw new LaneRatioFitError('The invoices span too few weeks to estimate rate volatility');
+    }
+    updates.historicalVolatility = Math.round(fit.rateVolatility.volatility * 10000) / 10000;
+  }
+  if (request.carrierPremium) {
+    const factors = (lane.factors as RateFactor[]) ?? [];
+    const existing = factors.findIndex(factor => factor.type === 'carrierPremium');
+    const factor = carrierPremiumFactor(fit, existing >= 0 ? factors[existing].name : DEFAULT_CARRIER_FACTOR);
+    updates.factors = existing >= 0
+      ? factors.map((current, i) => (i === existing ? { ...factor, enabled: current.enabled } : current))
+      : [...factors, factor];
+  }
+
+  const updated = await storage.updateLane(lane.id, updates);
+  return { lane: await withLatestIndexValue(updated ?? lane), fit };
+}
@@ -0,0 +1,88 @@
+import type {
+  AutomationProcess, CreateAutomationProcess, VendorEvaluation, WorkflowStage, WorkflowTransitionRequest
+} from "@shared/schema";
+import {
+  availableTransitions, checkTransition, initialStageHistory, stageHistoryOf, transitionUpdates,
+  type ProcessTransitions, type WorkflowGuardContext
+} from "@shared/workflow-state";
+import { storage } from "./storage";
+import type { FitmentFailure } from "@shared/fitment-agent";
+import { runFitmentAgent } from "./fitment-agent";
+
+export class WorkflowConflictError extends Error {
+  constructor(public stage: string) {
+    super(`The process has already moved on from ${stage}`);
+    this.name = "WorkflowConflictError";
+  }
+}
+
+async function loadGuardContext(process: AutomationProcess): Promise<WorkflowGuardContext> {
+  return {
+    quotesCollected: (await storage.getQuotesByShipment(process.shipmentId)).length,
+    documents: await storage.getProcessDocumentsByProcess(process.id)
+  };
+}
+
+export async function startAutomationProcess(data: CreateAutomationProcess): Promise<AutomationProcess> {
+  return storage.createAutomationProcess({
+    ...data,
+    currentStage: 'quote_collection',
+    stageHistory: initialStageHistory(new Date()),
+    completedAt: null
+  });
+}
+
+// The events leaving the current stage, each with whether its guard currently passes
+export async function getProcessTransitions(process: AutomationProcess): Promise<ProcessTransitions> {
+  return {
+    stage: process.currentStage as WorkflowStage,
+    transitions: availableTransitions(process, await loadGuardContext(process)),
+    history: stageHistoryOf(process)
+  };
+}
+
+// Throws WorkflowTransitionError for an event that does not leave the current stage or whose guard fails, and
+// WorkflowConflictError when another transition moved the process on after the guard was checked
+export async function transitionAutomationProcess(
+  process: AutomationProcess,
+  request: WorkflowTransitionRequest
+): Promise<AutomationProcess> {
+  const context = await loadGuardContext(process);
+  const transition = checkTransition(process, request.event, context);
+  const updated = await storage.updateAutomationProcessAtStage(process.id, process.currentStage, {
+    ...transitionUpdates(process, transition, new Date(), request.note),
+    quotesCollected: context.quotesCollected
+  });
+  if (!updated) throw new WorkflowConflictError(process.currentStage);
+
+  // Entering agent evaluation runs the fitment agent over the collected quotes
+  if (transition.to === 'agent_evaluation') {
+    return runFitmentOnEntry(updated);
+  }
+  return updated;
+}
+
+// The transition has already been saved, so a failing agent does not fail it: the error is recorded on the
+// process and the workflow page offers to re-run the agent
+async function runFitmentOnEntry(process: AutomationProcess): Promise<AutomationProcess> {
+  try {
+    await runFitmentAgent(process);
+    return process;
+  } catch (error) {
+    console.error(`[Workflow] Fitment agent failed for process ${process.id}:`, error);
+    const fitmentError: FitmentFailure = { message: error instanceof Error ? error.message : String(error), failedAt: new Date().toISOString() };
+    return (await storage.updateAutomationProcess(process.id, {
+      processData: { ...((process.processData as Record<string, unknown> | null) ?? {}), fitmentError }
+    })) ?? process;
+  }
+}
+
+// Re-runs the fitment agent on demand, clearing a failure recorded when the process entered agent evaluation
+export async function rerunFitmentAgent(process: AutomationProcess): Promise<VendorEvaluation[]> {
+  const created = await runFitmentAgent(process);
+  const processData = process.processData as { fitmentError?: FitmentFailure | null } | null;
+  if (processData?.fitmentError) {
+    await storage.updateAutomationProcess(process.id, { processData: { ...processData, fitmentError: null } });
+  }
+  return created;
+}
@@ -0,0 +1,167 @@
+import type {
+  Lane, Quote, QuoteEvaluation, Simulation, SimulationRateInputs, SimulationTransitInputs,
+  RateFactor, TransitSegment, CorrelationMatrix, RiskBand
+} from "@shared/schema";
+import type { SimulationSummary } from "@shared/monte-carlo";
+import { quoteCarrierRecord, type CarrierRecord } from "@shared/carrier-scorecard";
+import type { Statistics } from "@shared/statistics";
+import { StreamingSummary } from "@shared/streaming-summary";
+import { generateSeed } from "@shared/random";
+import { storage } from "./storage";
+import { simulationQueue } from "./simulation-runner";
+import type { AppliedRecommendationPolicy } from "./recommendation-policy";
+
+// Iterations for the simulation run on demand when a lane has none completed yet
+const EVALUATION_ITERATIONS = 10000;
+
+const RELIABLE_CARRIER_SCORE = 80; // Carriers scoring below this add risk
+const MAX_CARRIER_RISK = 2; // Risk points added for a carrier scoring zero
+
+function isCompletedWithResults(simulation: Simulation): boolean {
+  return simulation.status === "completed" && !!simulation.results;
+}
+
+export async function getLatestCompletedSimulation(laneId: string): Promise<Simulation | undefined> {
+  const simulations = await storage.getSimulationsByLane(laneId);
+  return simulations
+    .filter(isCompletedWithResults)
+    .sort((a, b) => new Date(b.createdAt ?? 0).getTime() - new Date(a.createdAt ?? 0).getTime())[0];
+}
+
+// Runs the lane's current configuration on the server queue and waits for it to finish
+async function runLaneSimulation(lane: Lane): Promise<Simulation> {
+  const rateInputs: SimulationRateInputs = {
+    baseRate: lane.indexValue * lane.laneRatio,
+    factors: lane.factors as RateFactor[],
+    correlationMatrix: lane.correlationMatrix as CorrelationMatrix | null
+  };
+  const transitInputs: SimulationTransitInputs = {
+    segments: lane.segments as TransitSegment[]
+  };
+
+  const simulation = await storage.createSimulation({
+    laneId: lane.id,
+    iterations: EVALUATION_ITERATIONS,
+    rateDistribution: rateInputs,
+    transitDistribution: transitInputs,
+    status: "pending",
+    seed: generateSeed()
+  });
+
+  await simulationQueue.enqueue(simulation.id);
+  const job = await simulationQueue.waitForJob(simulation.id);
+  const completed = await storage.getSimulation(simulation.id);
+
+  if (!completed || !isCompletedWithResults(completed)) {
+    throw new Error(`Lane simulation ${job?.status ?? "did not run"}${job?.error ? `: ${job.error}` : ""}`);
+  }
+  return completed;
+}
+
+// Reuses the lane's latest completed simulation, running one first if there is none
+export async function resolveLaneSimulation(lane: Lane): Promise<Simulation> {
+  return (await getLatestCompletedSimulation(lane.id)) ?? runLaneSimulation(lane);
+}
+
+// Share of simulated rates below `rate`, in percent
+function ratePercentile(rate: number, summary: SimulationSummary): number {
+  if (summary.sketches) {
+    return StreamingSummary.fromJSON(summary.sketches.rate).cdf(rate) * 100;
+  }
+  return percentileFromStatistics(rate, summary.rateStats);
+}
+
+// Share of simulated transit times at or below `days`, in percent
+export function transitPercentile(days: number, summary: SimulationSummary): number {
+  if (summary.sketches) {
+    return StreamingSummary.fromJSON(summary.sketches.transit).cdf(days) * 100;
+  }
+  return percentileFromStatistics(days, summary.transitStats);
+}
+
+// Older summaries only carry fixed percentiles: interpolate between them
+function percentileFromStatistics(value: number, stats: Statistics): number {
+  const knots: Array<[number, number]> = [
+    [0, stats.min], [5, stats.p5], [10, stats.p10], [25, stats.p25], [50, stats.p50],
+    [75, stats.p75], [90, stats.p90], [95, stats.p95], [100, stats.max]
+  ];
+
+  if (value <= stats.min) return 0;
+  if (value >= stats.max) return 100;
+
+  for (let i = 1; i < knots.length; i++) {
+    const [p0, v0] = knots[i - 1];
+    const [p1, v1] = knots[i];
+    if (value <= v1) {
+      return v1 === v0 ? p1 : p0 + (p1 - p0) * (value - v0) / (v1 - v0);
+    }
+  }
+  return 100;
+}
+
+// Risk score interpolated across the band the percentile falls in (lower rates = lower risk)
+function riskScoreFor(percentile: number, bands: RiskBand[]): number {
+  let lowerBound = 0;
+  for (const band of bands) {
+    if (percentile < band.upToPercentile || band === bands[bands.length - 1]) {
+      const position = Math.min(1, Math.max(0, (percentile - lowerBound) / (band.upToPercentile - lowerBound)));
+      return band.minScore + position * (band.maxScore - band.minScore);
+    }
+    lowerBound = band.upToPercentile;
+  }
+  return 0;
+}
+
+// The verdict is on what the carrier is expected to invoice, not the quoted rate, and an unreliable carrier's
+// booking record adds risk
+export function evaluateQuote(
+  quote: Quote,
+  lane: Lane,
+  simulation: Simulation,
+  policy: AppliedRecommendationPolicy,
+  carrier: CarrierRecord | null = null
+): QuoteEvaluation {
+  const summary = simulation.results as SimulationSummary;
+  const marketBaseline = lane.indexValue * lane.laneRatio;
+  const modelMean = summary.rateStats.mean;
+  const { rules } = policy;
+  const expectedRate = quote.rate * (1 + (carrier?.scorecard.expectedInvoiceVariance ?? 0));
+
+  const marketVariance = (expectedRate - marketBaseline) / marketBaseline;
+  const modelVariance = (expectedRate - modelMean) / modelMean;
+  const percentile = ratePercentile(expectedRate, summary);
+  const carrierRisk = carrier && carrier.scorecard.bookings > 0
+    ? MAX_CARRIER_RISK * Math.max(0, RELIABLE_CARRIER_SCORE - carrier.scorecard.reliabilityScore) / RELIABLE_CARRIER_SCORE
+    : 0;
+  const riskScore = Math.min(10, riskScoreFor(percentile, rules.riskBands) + carrierRisk);
+
+  // Recommendation logic
+  let recommendation: QuoteEvaluation['recommendation'] = 'BOOK_NOW';
+  if (percentile > rules.negotiateAbove) recommendation = 'NEGOTIATE';
+  if (percentile > rules.rejectAbove) recommendation = 'REJECT';
+  if (percentile >= rules.waitFrom && percentile <= rules.waitTo && marketVariance > rules.waitMinMarketVariance) {
+    recommendation = 'WAIT';
+  }
+
+  // Confidence based on percentile position
+  const confidence = Math.min(95, 60 + (40 - Math.abs(percentile - 50)));
+
+  return {
+    marketVariance,
+    modelVariance,
+    percentile,
+    riskScore,
+    recommendation,
+    confidence,
+    simulationId: simulation.id,
+    simulationIterations: summary.iterations,
+    marketBaseline,
+    modelMean,
+    evaluatedAt: new Date().toISOString(),
+    policyId: policy.policyId,
+    policyName: policy.name,
+    policyVersion: policy.version,
+    expectedRate,
+    carrier: carrier ? quoteCarrierRecord(carrier) : null
+  };
+}
@@ -0,0 +1,71 @@
+import {
+  DEFAULT_RECOMMENDATION_RULES,
+  type Quote, type RecommendationPolicy, type RecommendationPolicyRules,
+  type InsertRecommendationPolicy
+} from "@shared/schema";
+import { storage } from "./storage";
+
+// The rules an evaluation ran under, and which stored version they came from
+export interface AppliedRecommendationPolicy {
+  policyId: string | null;
+  name: string;
+  version: number;
+  rules: RecommendationPolicyRules;
+}
+
+export const DEFAULT_POLICY_NAME = "Built-in default";
+
+async function recordVersion(policy: RecommendationPolicy) {
+  await storage.createRecommendationPolicyVersion({
+    policyId: policy.id,
+    version: policy.version,
+    name: policy.name,
+    laneId: policy.laneId,
+    customer: policy.customer,
+    rules: policy.rules as RecommendationPolicyRules,
+    active: policy.active
+  });
+}
+
+export async function createRecommendationPolicy(data: InsertRecommendationPolicy): Promise<RecommendationPolicy> {
+  const policy = await storage.createRecommendationPolicy(data);
+  await recordVersion(policy);
+  return policy;
+}
+
+export async function updateRecommendationPolicy(
+  id: string,
+  updates: Partial<InsertRecommendationPolicy>
+): Promise<RecommendationPolicy | undefined> {
+  const policy = await storage.updateRecommendationPolicy(id, updates);
+  if (policy) await recordVersion(policy);
+  return policy;
+}
+
+// Lane + customer beats customer, which beats lane, which beats the global (unscoped) policy
+function specificity(policy: RecommendationPolicy, quote: Quote): number {
+  if (policy.laneId && policy.laneId !== quote.laneId) return -1;
+  if (policy.customer && policy.customer !== quote.customer) return -1;
+  return (policy.customer ? 2 : 0) + (policy.laneId ? 1 : 0);
+}
+
+// Most specific active policy matching the quote's lane and customer; ties go to the latest edit
+export async function resolveRecommendationPolicy(quote: Quote): Promise<AppliedRecommendationPolicy> {
+  const policies = await storage.getRecommendationPolicies();
+  const match = policies
+    .filter(policy => policy.active && specificity(policy, quote) >= 0)
+    .sort((a, b) =>
+      specificity(b, quote) - specificity(a, quote) ||
+      new Date(b.updatedAt ?? 0).getTime() - new Date(a.updatedAt ?? 0).getTime()
+    )[0];
+
+  if (!match) {
+    return { policyId: null, name: DEFAULT_POLICY_NAME, version: 0, rules: DEFAULT_RECOMMENDATION_RULES };
+  }
+  return {
+    policyId: match.id,
+    name: match.name,
+    version: match.version,
+    rules: match.rules as RecommendationPolicyRules
+  };
+}
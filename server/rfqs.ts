@@ -0,0 +1,246 @@
+import { randomBytes } from "crypto";
+import type {
+  CreateRfqRequest, Rfq, RfqCarrierView, RfqInvitation, RfqResponse, RfqWithInvitations, Shipment
+} from "@shared/schema";
+import { shipmentRequirements } from "@shared/fitment-agent";
+import { WorkflowTransitionError } from "@shared/workflow-state";
+import { storage } from "./storage";
+import { transitionAutomationProcess, WorkflowConflictError } from "./process-workflow";
+
+export class RfqError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RfqError";
+  }
+}
+
+type RfqCloseReason = 'quota_reached' | 'all_responded' | 'deadline_passed' | 'closed_manually';
+
+const CLOSE_REASON_LABELS: Record<RfqCloseReason, string> = {
+  quota_reached: "response quota reached",
+  all_responded: "every carrier responded",
+  deadline_passed: "deadline passed",
+  closed_manually: "closed manually"
+};
+
+function generateToken(): string {
+  return randomBytes(18).toString("base64url");
+}
+
+async function withInvitations(rfq: Rfq): Promise<RfqWithInvitations> {
+  const invitations = await storage.getRfqInvitations(rfq.id);
+  const lane = await storage.getLane(rfq.laneId);
+  return {
+    ...rfq,
+    laneName: lane?.name ?? rfq.laneId,
+    invitations,
+    quotesReceived: invitations.filter(invitation => invitation.status === 'quoted').length
+  };
+}
+
+async function countShipmentQuotes(shipmentId: string): Promise<number> {
+  return (await storage.getQuotesByShipment(shipmentId)).length;
+}
+
+// Once the shipment has no open RFQ left, its process moves on to agent evaluation. A process without quotes stays
+// in quote collection: the transition's guard refuses it. Closing an RFQ never fails on the workflow's account, since
+// a carrier's response may be what closed it; the process can still be moved on from the workflow page.
+async function advanceAfterCollection(shipmentId: string, note: string): Promise<void> {
+  try {
+    const process = await storage.getAutomationProcessByShipment(shipmentId);
+    if (!process || process.currentStage !== 'quote_collection') return;
+    const open = (await storage.getRfqsByShipment(shipmentId)).filter(rfq => rfq.status === 'open');
+    if (open.length > 0) return;
+
+    await transitionAutomationProcess(process, { event: 'start_evaluation', note });
+  } catch (error) {
+    if (error instanceof WorkflowTransitionError || error instanceof WorkflowConflictError) return;
+    console.error(`[RFQ] Could not advance the workflow of shipment ${shipmentId}:`, error);
+  }
+}
+
+// Undefined when the RFQ was closed by someone else in the meantime: the close that won expires the invitations
+// and advances the workflow, so those run once
+async function closeRfq(rfq: Rfq, reason: RfqCloseReason, now: Date): Promise<Rfq | undefined> {
+  const closed = await storage.closeOpenRfq(rfq.id, { status: 'closed', closedReason: reason, closedAt: now });
+  if (!closed) return undefined;
+
+  for (const invitation of await storage.getRfqInvitations(rfq.id)) {
+    if (invitation.status === 'pending') {
+      await storage.updateRfqInvitation(invitation.id, { status: 'expired' });
+    }
+  }
+  await advanceAfterCollection(rfq.shipmentId, `RFQ closed: ${CLOSE_REASON_LABELS[reason]}`);
+  return closed;
+}
+
+// Closes every open RFQ past its deadline and returns how many it closed. Run before RFQs are read or answered, and
+// periodically by the server; an RFQ that fails to close is logged and retried on the next pass, never holding up
+// the others or the caller.
+export async function closeExpiredRfqs(now: Date = new Date()): Promise<number> {
+  const expired = (await storage.getOpenRfqs()).filter(rfq => rfq.deadline.getTime() <= now.getTime());
+  let closed = 0;
+  for (const rfq of expired) {
+    try {
+      if (await closeRfq(rfq, 'deadline_passed', now)) closed++;
+    } catch (error) {
+      console.error(`[RFQ] Could not close expired RFQ ${rfq.id}:`, error);
+    }
+  }
+  return closed;
+}
+
+export async function getShipmentRfqs(shipmentId: string): Promise<RfqWithInvitations[]> {
+  await closeExpiredRfqs();
+  const result: RfqWithInvitations[] = [];
+  for (const rfq of await storage.getRfqsByShipment(shipmentId)) {
+    result.push(await withInvitations(rfq));
+  }
+  return result;
+}
+
+export async function createShipmentRfq(shipment: Shipment, request: CreateRfqRequest): Promise<RfqWithInvitations> {
+  const lane = await storage.getLane(request.laneId);
+  if (!lane) {
+    throw new RfqError(`Lane ${request.laneId} not found`);
+  }
+  if (request.deadline.getTime() <= Date.now()) {
+    throw new RfqError("The deadline must be in the future");
+  }
+  const process = await storage.getAutomationProcessByShipment(shipment.id);
+  if (process && process.currentStage !== 'quote_collection') {
+    throw new RfqError("Quote collection is over for this shipment");
+  }
+
+  const rfq = await storage.createRfq({
+    shipmentId: shipment.id,
+    laneId: lane.id,
+    deadline: request.deadline,
+    responseQuota: request.responseQuota ?? request.carriers.length,
+    notes: request.notes ?? null,
+    status: 'open'
+  });
+  for (const entry of request.carriers) {
+    await storage.createRfqInvitation({
+      rfqId: rfq.id,
+      carrier: entry.carrier,
+      contactEmail: entry.contactEmail ?? null,
+      token: generateToken()
+    });
+  }
+  return withInvitations(rfq);
+}
+
+export async function closeShipmentRfq(rfq: Rfq): Promise<RfqWithInvitations> {
+  if (rfq.status !== 'open') {
+    throw new RfqError("The RFQ is already closed");
+  }
+  const closed = await closeRfq(rfq, 'closed_manually', new Date());
+  if (!closed) {
+    throw new RfqError("The RFQ is already closed");
+  }
+  return withInvitations(closed);
+}
+
+async function resolveInvitation(token: string): Promise<{ invitation: RfqInvitation; rfq: Rfq } | undefined> {
+  await closeExpiredRfqs();
+  const invitation = await storage.getRfqInvitationByToken(token);
+  if (!invitation) return undefined;
+  const rfq = await storage.getRfq(invitation.rfqId);
+  return rfq ? { invitation, rfq } : undefined;
+}
+
+export async function getRfqCarrierView(token: string): Promise<RfqCarrierView | undefined> {
+  const resolved = await resolveInvitation(token);
+  if (!resolved) return undefined;
+  const { invitation, rfq } = resolved;
+  const shipment = await storage.getShipment(rfq.shipmentId);
+  const lane = await storage.getLane(rfq.laneId);
+  if (!shipment || !lane) return undefined;
+  const quote = invitation.quoteId ? await storage.getQuote(invitation.quoteId) : undefined;
+
+  return {
+    carrier: invitation.carrier,
+    status: invitation.status,
+    rfqStatus: rfq.status,
+    deadline: rfq.deadline.toISOString(),
+    lane: { name: lane.name, origin: lane.origin, destination: lane.destination },
+    shipment: {
+      referenceNumber: shipment.referenceNumber,
+      commodity: shipment.commodity,
+      weight: shipment.weight,
+      volume: shipment.volume,
+      requiredDeliveryDate: shipment.requiredDeliveryDate ? new Date(shipment.requiredDeliveryDate).toISOString() : null,
+      specialRequirements: shipmentRequirements(shipment)
+    },
+    notes: rfq.notes,
+    quote: quote ? { rate: quote.rate, validUntil: quote.validUntil ? new Date(quote.validUntil).toISOString() : null } : null
+  };
+}
+
+// Records a carrier's quote or decline. A quote is linked to the shipment and the RFQ's lane and counted on the
+// shipment's process; the RFQ closes once its quota is met or every carrier has answered.
+export async function submitRfqResponse(token: string, response: RfqResponse): Promise<RfqCarrierView | undefined> {
+  const resolved = await resolveInvitation(token);
+  if (!resolved) return undefined;
+  const { invitation, rfq } = resolved;
+  if (rfq.status !== 'open') {
+    throw new RfqError("This request for quotes is closed");
+  }
+  if (invitation.status !== 'pending') {
+    throw new RfqError(`You have already ${invitation.status === 'quoted' ? 'quoted' : 'declined'}`);
+  }
+
+  // The invitation is claimed before anything else is written, so of two simultaneous responses only one counts
+  const now = new Date();
+  const claimed = await storage.claimRfqInvitation(invitation.id, response.response === 'quote'
+    ? { status: 'quoted', respondedAt: now }
+    : { status: 'declined', declineReason: response.reason ?? null, respondedAt: now });
+  if (!claimed) {
+    throw new RfqError("You have already responded");
+  }
+
+  if (response.response === 'quote') {
+    let quoteId: string;
+    try {
+      quoteId = (await storage.createQuote({
+        laneId: rfq.laneId,
+        shipmentId: rfq.shipmentId,
+        carrier: invitation.carrier,
+        rate: response.rate,
+        validUntil: response.validUntil ?? null
+      })).id;
+    } catch (error) {
+      // Release the claim so the carrier can try again
+      await storage.updateRfqInvitation(invitation.id, { status: 'pending', respondedAt: null });
+      throw error;
+    }
+    await storage.updateRfqInvitation(invitation.id, { quoteId });
+  }
+
+  // The response is recorded: bookkeeping after it is logged on failure, never reported to the carrier, whose retry
+  // would only be told they already responded
+  try {
+    await afterResponse(rfq, response.response === 'quote', now);
+  } catch (error) {
+    console.error(`[RFQ] Follow-up to a response on RFQ ${rfq.id} failed:`, error);
+  }
+  return getRfqCarrierView(token);
+}
+
+async function afterResponse(rfq: Rfq, quoted: boolean, now: Date): Promise<void> {
+  if (quoted) {
+    const process = await storage.getAutomationProcessByShipment(rfq.shipmentId);
+    if (process) {
+      await storage.updateAutomationProcess(process.id, { quotesCollected: await countShipmentQuotes(rfq.shipmentId) });
+    }
+  }
+
+  const invitations = await storage.getRfqInvitations(rfq.id);
+  const quotedCount = invitations.filter(entry => entry.status === 'quoted').length;
+  if (quotedCount >= rfq.responseQuota) {
+    await closeRfq(rfq, 'quota_reached', now);
+  } else if (invitations.every(entry => entry.status !== 'pending')) {
+    await closeRfq(rfq, 'all_responded', now);
+  }
+}
@@ -2,10 +2,41 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { initializeData } from "./init-data";
+import { simulationQueue } from "./simulation-runner";
+import { resolveLaneSimulation, evaluateQuote } from "./quote-evaluation";
+import { analyzeQuoteAlternatives, optimiseQuoteAlternatives, chooseQuoteAlternative, UnknownLaneError } from "./alternative-analysis";
+import { AlternativeGridError } from "@shared/alternatives";
+import {
+  ingestIndexObservations, getIndexVolatility, deriveLaneVolatility, forecastIndex, importIndexFile, listMarketIndices,
+  resolveMarketIndex, getIndexSeries, withLatestIndexValue, InsufficientHistoryError
+} from "./index-history";
+import { createCompositeIndex, updateCompositeIndex, deleteCompositeIndex, CompositeIndexError } from "./composite-indices";
+import { IndexForecastError } from "@shared/index-forecast";
+import { IndexImportError } from "@shared/index-import";
+import { saveFreightInvoices, fitLaneRatioFromInvoices, applyLaneRatioFit } from "./lane-invoices";
+import { LaneRatioFitError } from "@shared/lane-ratio";
+import {
+  startAutomationProcess, getProcessTransitions, transitionAutomationProcess, rerunFitmentAgent, WorkflowConflictError
+} from "./process-workflow";
+import { WorkflowTransitionError } from "@shared/workflow-state";
+import { runProcessDecision } from "./decision-agent";
+import { DecisionAgentError } from "@shared/decision-agent";
+import { FitmentAgentError } from "@shared/fitment-agent";
+import { createShipmentRfq, getShipmentRfqs, closeShipmentRfq, getRfqCarrierView, submitRfqResponse, RfqError } from "./rfqs";
+import {
+  listCarriers, getCarrierDetail, createCarrier, updateCarrier, getCarrierRecord, recordBookingOutcome, updateBookingOutcome,
+  CarrierError
+} from "./carriers";
+import { createRecommendationPolicy, updateRecommendationPolicy, resolveRecommendationPolicy } from "./recommendation-policy";
 import {
   insertLaneSchema, insertSimulationSchema, insertQuoteSchema, insertAlternativeSchema, insertMarketIndexSchema, createQuoteSchema,
-  insertShipmentSchema, insertAutomationProcessSchema, insertVendorEvaluationSchema, insertProcessDocumentSchema, insertProcessActionSchema
+  insertRecommendationPolicySchema, recommendationPolicyRulesSchema, alternativeAnalysisRequestSchema,
+  alternativeOptimisationRequestSchema, indexObservationBatchSchema, indexHistoryQuerySchema, indexForecastQuerySchema,
+  indexImportRequestSchema, insertCompositeIndexSchema, updateCompositeIndexSchema, freightInvoiceBatchSchema, laneRatioApplySchema, insertShipmentSchema, createAutomationProcessSchema, updateAutomationProcessSchema, workflowTransitionSchema, insertVendorEvaluationSchema, insertProcessDocumentSchema, insertProcessActionSchema,
+  createRfqSchema, rfqResponseSchema, insertCarrierSchema, updateCarrierSchema, recordBookingOutcomeSchema, updateBookingOutcomeSchema,
+  laneDistributionsSchema, type CorrelationMatrix, type RateFactor, type TransitSegment
 } from "@shared/schema";
+import { validateCorrelationMatrix, CorrelationMatrixError } from "@shared/copula";
 
 let isInitialized = false;
 
@@ -35,10 +66,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     throw error; // Don't continue if initialization fails
   }
 
-  // Market Indices
+  // Market Indices, composites included
   app.get("/api/indices", async (req, res) => {
     try {
-      const indices = await storage.getMarketIndices();
+      const indices = await listMarketIndices();
       res.json(indices);
     } catch (error) {
       console.error('Error fetching indices:', error);
@@ -59,10 +90,209 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // CSV or JSON upload for one or more indices; dryRun (the default) reports without writing
+  app.post("/api/indices/import", async (req, res) => {
+    try {
+      const parsed = indexImportRequestSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid index import", details: parsed.error.issues });
+      }
+
+      const report = await importIndexFile(parsed.data);
+      res.json(report);
+    } catch (error) {
+      if (error instanceof IndexImportError) {
+        return res.status(400).json({ error: "Cannot read index file", details: error.message });
+      }
+      res.status(500).json({
+        error: "Failed to import index observations",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // Observations between optional from/to dates (YYYY-MM-DD, inclusive), oldest first. A composite's points also
+  // carry each component's lagged value.
+  app.get("/api/indices/:code/history", async (req, res) => {
+    try {
+      const parsed = indexHistoryQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid history range", details: parsed.error.issues });
+      }
+
+      const index = await resolveMarketIndex(req.params.code);
+      if (!index) {
+        return res.status(404).json({ error: "Market index not found" });
+      }
+
+      const observations = await getIndexSeries(index.code, parsed.data.from, parsed.data.to);
+      res.json(observations);
+    } catch (error) {
+      res.status(500).json({
+        error: "Failed to fetch index history",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // Bulk ingest; a date that already has an observation is overwritten
+  app.post("/api/indices/:code/history", async (req, res) => {
+    try {
+      const parsed = indexObservationBatchSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid index observations", details: parsed.error.issues });
+      }
+
+      const index = await storage.getMarketIndex(req.params.code);
+      if (!index) {
+        if (await storage.getCompositeIndex(req.params.code)) {
+          return res.status(400).json({ error: "Composite indices are computed from their components" });
+        }
+        return res.status(404).json({ error: "Market index not found" });
+      }
+
+      const result = await ingestIndexObservations(index, parsed.data);
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({
+        error: "Failed to ingest index observations",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.get("/api/indices/:code/volatility", async (req, res) => {
+    try {
+      const parsed = indexHistoryQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid history range", details: parsed.error.issues });
+      }
+
+      const index = await resolveMarketIndex(req.params.code);
+      if (!index) {
+        return res.status(404).json({ error: "Market index not found" });
+      }
+
+      const volatility = await getIndexVolatility(index.code, parsed.data);
+      res.json(volatility);
+    } catch (error) {
+      if (error instanceof InsufficientHistoryError) {
+        return res.status(400).json({ error: "Not enough index history", details: error.message });
+      }
+      res.status(500).json({
+        error: "Failed to derive index volatility",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // Drift + GBM, mean-reverting and seasonal forecasts of the index with their backtest errors
+  app.get("/api/indices/:code/forecast", async (req, res) => {
+    try {
+      const parsed = indexForecastQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid forecast request", details: parsed.error.issues });
+      }
+
+      const index = await resolveMarketIndex(req.params.code);
+      if (!index) {
+        return res.status(404).json({ error: "Market index not found" });
+      }
+
+      const forecast = await forecastIndex(index.code, parsed.data);
+      res.json(forecast);
+    } catch (error) {
+      if (error instanceof IndexForecastError) {
+        return res.status(400).json({ error: "Cannot forecast index", details: error.message });
+      }
+      res.status(500).json({
+        error: "Failed to forecast index",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // Composite Indices
+  app.get("/api/composite-indices", async (req, res) => {
+    try {
+      const composites = await storage.getCompositeIndices();
+      res.json(composites);
+    } catch (error) {
+      res.status(500).json({
+        error: "Failed to fetch composite indices",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.post("/api/composite-indices", async (req, res) => {
+    try {
+      const parsed = insertCompositeIndexSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid composite index", details: parsed.error.issues });
+      }
+
+      const composite = await createCompositeIndex(parsed.data);
+      res.json(composite);
+    } catch (error) {
+      if (error instanceof CompositeIndexError) {
+        return res.status(400).json({ error: "Invalid composite index", details: error.message });
+      }
+      res.status(500).json({
+        error: "Failed to create composite index",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.patch("/api/composite-indices/:code", async (req, res) => {
+    try {
+      const parsed = updateCompositeIndexSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid composite index", details: parsed.error.issues });
+      }
+
+      const composite = await updateCompositeIndex(req.params.code, parsed.data);
+      if (!composite) {
+        return res.status(404).json({ error: "Composite index not found" });
+      }
+      res.json(composite);
+    } catch (error) {
+      if (error instanceof CompositeIndexError) {
+        return res.status(400).json({ error: "Invalid composite index", details: error.message });
+      }
+      res.status(500).json({
+        error: "Failed to update composite index",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.delete("/api/composite-indices/:code", async (req, res) => {
+    try {
+      const deleted = await deleteCompositeIndex(req.params.code);
+      if (!deleted) {
+        return res.status(404).json({ error: "Composite index not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof CompositeIndexError) {
+        return res.status(400).json({ error: "Composite index in use", details: error.message });
+      }
+      res.status(500).json({
+        error: "Failed to delete composite index",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
   // Lanes
   app.get("/api/lanes", async (req, res) => {
     try {
-      const lanes = await storage.getLanes();
+      const lanes = [];
+      for (const lane of await storage.getLanes()) {
+        lanes.push(await withLatestIndexValue(lane));
+      }
       res.json(lanes);
     } catch (error) {
       console.error('Error fetching lanes:', error);
@@ -79,7 +309,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!lane) {
         return res.status(404).json({ error: "Lane not found" });
       }
-      res.json(lane);
+      res.json(await withLatestIndexValue(lane));
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch lane" });
     }
@@ -88,9 +318,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/lanes", async (req, res) => {
     try {
       const data = insertLaneSchema.parse(req.body);
+      laneDistributionsSchema.parse({ factors: data.factors, segments: data.segments });
+      if (data.correlationMatrix) {
+        validateCorrelationMatrix(
+          data.correlationMatrix as CorrelationMatrix,
+          data.factors as RateFactor[],
+          data.segments as TransitSegment[]
+        );
+      }
       const lane = await storage.createLane(data);
       res.json(lane);
     } catch (error) {
+      if (error instanceof CorrelationMatrixError) {
+        return res.status(400).json({ error: "Invalid correlation matrix", details: error.message });
+      }
       res.status(400).json({ error: "Invalid lane data" });
     }
   });
@@ -98,16 +339,176 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch("/api/lanes/:id", async (req, res) => {
     try {
       const updates = insertLaneSchema.partial().parse(req.body);
+      laneDistributionsSchema.partial().parse({ factors: updates.factors, segments: updates.segments });
+      const existing = await storage.getLane(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Lane not found" });
+      }
+
+      // Re-check the matrix against the merged lane: renamed factors or segments can orphan its variables
+      const correlationMatrix = updates.correlationMatrix !== undefined ? updates.correlationMatrix : existing.correlationMatrix;
+      if (correlationMatrix) {
+        validateCorrelationMatrix(
+          correlationMatrix as CorrelationMatrix,
+          (updates.factors ?? existing.factors) as RateFactor[],
+          (updates.segments ?? existing.segments) as TransitSegment[]
+        );
+      }
+
       const lane = await storage.updateLane(req.params.id, updates);
       if (!lane) {
         return res.status(404).json({ error: "Lane not found" });
       }
       res.json(lane);
     } catch (error) {
+      if (error instanceof CorrelationMatrixError) {
+        return res.status(400).json({ error: "Invalid correlation matrix", details: error.message });
+      }
       res.status(400).json({ error: "Invalid update data" });
     }
   });
 
+  // Sets historicalVolatility from the lane's base index series over an optional from/to range
+  app.post("/api/lanes/:id/derive-volatility", async (req, res) => {
+    try {
+      const parsed = indexHistoryQuerySchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid history range", details: parsed.error.issues });
+      }
+
+      const lane = await storage.getLane(req.params.id);
+      if (!lane) {
+        return res.status(404).json({ error: "Lane not found" });
+      }
+
+      const result = await deriveLaneVolatility(lane, parsed.data);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof InsufficientHistoryError) {
+        return res.status(400).json({ error: "Not enough index history", details: error.message });
+      }
+      res.status(500).json({
+        error: "Failed to derive lane volatility",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // Realised freight invoices on the lane between optional from/to dates, oldest first
+  app.get("/api/lanes/:id/invoices", async (req, res) => {
+    try {
+      const parsed = indexHistoryQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid invoice range", details: parsed.error.issues });
+      }
+
+      const lane = await storage.getLane(req.params.id);
+      if (!lane) {
+        return res.status(404).json({ error: "Lane not found" });
+      }
+
+      const invoices = await storage.getFreightInvoicesByLane(lane.id, parsed.data.from, parsed.data.to);
+      res.json(invoices);
+    } catch (error) {
+      res.status(500).json({
+        error: "Failed to fetch freight invoices",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // Appends invoices, or replaces the lane's existing ones with replace: true
+  app.post("/api/lanes/:id/invoices", async (req, res) => {
+    try {
+      const parsed = freightInvoiceBatchSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid freight invoices", details: parsed.error.issues });
+      }
+
+      const lane = await storage.getLane(req.params.id);
+      if (!lane) {
+        return res.status(404).json({ error: "Lane not found" });
+      }
+
+      const result = await saveFreightInvoices(lane, parsed.data);
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({
+        error: "Failed to save freight invoices",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.delete("/api/lanes/:id/invoices", async (req, res) => {
+    try {
+      const lane = await storage.getLane(req.params.id);
+      if (!lane) {
+        return res.status(404).json({ error: "Lane not found" });
+      }
+
+      const removed = await storage.deleteFreightInvoicesByLane(lane.id);
+      res.json({ removed });
+    } catch (error) {
+      res.status(500).json({
+        error: "Failed to delete freight invoices",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // Regression of the lane's invoices on its base index: implied laneRatio, carrier premia and fit quality
+  app.get("/api/lanes/:id/ratio-fit", async (req, res) => {
+    try {
+      const parsed = indexHistoryQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid invoice range", details: parsed.error.issues });
+      }
+
+      const lane = await storage.getLane(req.params.id);
+      if (!lane) {
+        return res.status(404).json({ error: "Lane not found" });
+      }
+
+      const fit = await fitLaneRatioFromInvoices(lane, parsed.data);
+      res.json(fit);
+    } catch (error) {
+      if (error instanceof LaneRatioFitError) {
+        return res.status(400).json({ error: "Cannot fit lane ratio", details: error.message });
+      }
+      res.status(500).json({
+        error: "Failed to fit lane ratio",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // Writes the chosen parts of the fit (laneRatio, historicalVolatility, carrier premium factor) onto the lane
+  app.post("/api/lanes/:id/ratio-fit/apply", async (req, res) => {
+    try {
+      const parsed = laneRatioApplySchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid lane ratio update", details: parsed.error.issues });
+      }
+
+      const lane = await storage.getLane(req.params.id);
+      if (!lane) {
+        return res.status(404).json({ error: "Lane not found" });
+      }
+
+      const result = await applyLaneRatioFit(lane, parsed.data);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof LaneRatioFitError) {
+        return res.status(400).json({ error: "Cannot fit lane ratio", details: error.message });
+      }
+      res.status(500).json({
+        error: "Failed to apply lane ratio",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
   app.delete("/api/lanes/:id", async (req, res) => {
     try {
       const deleted = await storage.deleteLane(req.params.id);
@@ -174,6 +575,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post("/api/simulations/:id/run", async (req, res) => {
+    try {
+      const simulation = await storage.getSimulation(req.params.id);
+      if (!simulation) {
+        return res.status(404).json({ error: "Simulation not found" });
+      }
+      if (simulationQueue.isActive(simulation.id)) {
+        return res.status(409).json({ error: "Simulation is already queued or running" });
+      }
+
+      const job = await simulationQueue.enqueue(simulation.id);
+      res.status(202).json(job);
+    } catch (error) {
+      res.status(500).json({
+        error: "Failed to queue simulation",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.post("/api/simulations/:id/cancel", async (req, res) => {
+    try {
+      const cancelled = await simulationQueue.cancel(req.params.id);
+      if (!cancelled) {
+        return res.status(409).json({ error: "Simulation is not queued or running on the server" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to cancel simulation" });
+    }
+  });
+
+  app.get("/api/simulations/:id/progress", async (req, res) => {
+    try {
+      const job = simulationQueue.getProgress(req.params.id);
+      if (job) {
+        return res.json(job);
+      }
+
+      // Not run by this server instance (or run in the browser): report from the stored row
+      const simulation = await storage.getSimulation(req.params.id);
+      if (!simulation) {
+        return res.status(404).json({ error: "Simulation not found" });
+      }
+      const isCompleted = simulation.status === "completed";
+      res.json({
+        simulationId: simulation.id,
+        status: simulation.status,
+        progress: isCompleted ? 100 : 0,
+        completedIterations: isCompleted ? simulation.iterations : 0,
+        totalIterations: simulation.iterations
+      });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch simulation progress" });
+    }
+  });
+
   // Quotes
   app.get("/api/quotes", async (req, res) => {
     try {
@@ -238,18 +696,208 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Alternatives
-  app.get("/api/alternatives", async (req, res) => {
+  // Scores the quote against the lane's latest completed simulation (running one if needed) and stores the verdict
+  app.post("/api/quotes/:id/evaluate", async (req, res) => {
     try {
-      const alternatives = await storage.getAlternatives();
-      res.json(alternatives);
-    } catch (error) {
-      res.status(500).json({ error: "Failed to fetch alternatives" });
-    }
-  });
+      const quote = await storage.getQuote(req.params.id);
+      if (!quote) {
+        return res.status(404).json({ error: "Quote not found" });
+      }
+      if (!quote.laneId) {
+        return res.status(400).json({ error: "Quote has no lane to evaluate against" });
+      }
 
-  app.get("/api/quotes/:quoteId/alternatives", async (req, res) => {
-    try {
+      const stored = await storage.getLane(quote.laneId);
+      if (!stored) {
+        return res.status(404).json({ error: "Lane not found" });
+      }
+      const lane = await withLatestIndexValue(stored);
+
+      const simulation = await resolveLaneSimulation(lane);
+      const policy = await resolveRecommendationPolicy(quote);
+      const evaluation = evaluateQuote(quote, lane, simulation, policy, await getCarrierRecord(quote.carrier, lane.id));
+      const updated = await storage.updateQuote(quote.id, {
+        evaluation,
+        recommendation: evaluation.recommendation
+      });
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({
+        error: "Failed to evaluate quote",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // Simulates book-now against wait, split and reroute strategies; the run and its outcomes are saved
+  app.post("/api/quotes/:id/alternatives/simulate", async (req, res) => {
+    try {
+      const parsed = alternativeAnalysisRequestSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid alternative analysis request", details: parsed.error.issues });
+      }
+
+      const quote = await storage.getQuote(req.params.id);
+      if (!quote) {
+        return res.status(404).json({ error: "Quote not found" });
+      }
+      if (!quote.laneId) {
+        return res.status(400).json({ error: "Quote has no lane to simulate" });
+      }
+
+      const stored = await storage.getLane(quote.laneId);
+      if (!stored) {
+        return res.status(404).json({ error: "Lane not found" });
+      }
+      const lane = await withLatestIndexValue(stored);
+
+      const result = await analyzeQuoteAlternatives(quote, lane, parsed.data);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof UnknownLaneError) {
+        return res.status(400).json({ error: "Unknown reroute lane", details: error.message });
+      }
+      if (error instanceof IndexForecastError) {
+        return res.status(400).json({ error: "Cannot forecast lane index", details: error.message });
+      }
+      res.status(500).json({
+        error: "Failed to simulate alternatives",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // Grid search over wait days, split ratios and reroute lanes under a risk constraint; every point is saved
+  app.post("/api/quotes/:id/alternatives/optimise", async (req, res) => {
+    try {
+      const parsed = alternativeOptimisationRequestSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid optimisation request", details: parsed.error.issues });
+      }
+
+      const quote = await storage.getQuote(req.params.id);
+      if (!quote) {
+        return res.status(404).json({ error: "Quote not found" });
+      }
+      if (!quote.laneId) {
+        return res.status(400).json({ error: "Quote has no lane to simulate" });
+      }
+
+      const stored = await storage.getLane(quote.laneId);
+      if (!stored) {
+        return res.status(404).json({ error: "Lane not found" });
+      }
+      const lane = await withLatestIndexValue(stored);
+
+      const result = await optimiseQuoteAlternatives(quote, lane, parsed.data);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof UnknownLaneError) {
+        return res.status(400).json({ error: "Unknown reroute lane", details: error.message });
+      }
+      if (error instanceof IndexForecastError) {
+        return res.status(400).json({ error: "Cannot forecast lane index", details: error.message });
+      }
+      if (error instanceof AlternativeGridError) {
+        return res.status(400).json({ error: "Optimisation grid too large", details: error.message });
+      }
+      res.status(500).json({
+        error: "Failed to optimise alternatives",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // Recommendation Policies
+  app.get("/api/recommendation-policies", async (req, res) => {
+    try {
+      const policies = await storage.getRecommendationPolicies();
+      res.json(policies);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch recommendation policies" });
+    }
+  });
+
+  app.get("/api/recommendation-policies/:id", async (req, res) => {
+    try {
+      const policy = await storage.getRecommendationPolicy(req.params.id);
+      if (!policy) {
+        return res.status(404).json({ error: "Recommendation policy not found" });
+      }
+      res.json(policy);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch recommendation policy" });
+    }
+  });
+
+  // Every saved version, newest first; kept after the policy itself is deleted
+  app.get("/api/recommendation-policies/:id/versions", async (req, res) => {
+    try {
+      const versions = await storage.getRecommendationPolicyVersions(req.params.id);
+      res.json(versions);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch recommendation policy versions" });
+    }
+  });
+
+  app.post("/api/recommendation-policies", async (req, res) => {
+    try {
+      const data = insertRecommendationPolicySchema.parse(req.body);
+      const rules = recommendationPolicyRulesSchema.safeParse(data.rules);
+      if (!rules.success) {
+        return res.status(400).json({ error: "Invalid policy rules", details: rules.error.issues });
+      }
+      const policy = await createRecommendationPolicy({ ...data, rules: rules.data });
+      res.json(policy);
+    } catch (error) {
+      res.status(400).json({ error: "Invalid recommendation policy data" });
+    }
+  });
+
+  app.patch("/api/recommendation-policies/:id", async (req, res) => {
+    try {
+      const updates = insertRecommendationPolicySchema.partial().parse(req.body);
+      if (updates.rules !== undefined) {
+        const rules = recommendationPolicyRulesSchema.safeParse(updates.rules);
+        if (!rules.success) {
+          return res.status(400).json({ error: "Invalid policy rules", details: rules.error.issues });
+        }
+        updates.rules = rules.data;
+      }
+      const policy = await updateRecommendationPolicy(req.params.id, updates);
+      if (!policy) {
+        return res.status(404).json({ error: "Recommendation policy not found" });
+      }
+      res.json(policy);
+    } catch (error) {
+      res.status(400).json({ error: "Invalid update data" });
+    }
+  });
+
+  app.delete("/api/recommendation-policies/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteRecommendationPolicy(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Recommendation policy not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete recommendation policy" });
+    }
+  });
+
+  // Alternatives
+  app.get("/api/alternatives", async (req, res) => {
+    try {
+      const alternatives = await storage.getAlternatives();
+      res.json(alternatives);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch alternatives" });
+    }
+  });
+
+  app.get("/api/quotes/:quoteId/alternatives", async (req, res) => {
+    try {
       const alternatives = await storage.getAlternativesByQuote(req.params.quoteId);
       res.json(alternatives);
     } catch (error) {
@@ -267,6 +915,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Marks the quote's chosen strategy; feeds the decision of the quote's shipment workflow, if it has one
+  app.post("/api/alternatives/:id/choose", async (req, res) => {
+    try {
+      const result = await chooseQuoteAlternative(req.params.id);
+      if (!result) {
+        return res.status(404).json({ error: "Alternative not found" });
+      }
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({
+        error: "Failed to choose alternative",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // Saved alternative analysis runs, newest first
+  app.get("/api/quotes/:quoteId/alternative-analyses", async (req, res) => {
+    try {
+      const runs = await storage.getAlternativeAnalysisRunsByQuote(req.params.quoteId);
+      res.json(runs);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch alternative analyses" });
+    }
+  });
+
+  app.get("/api/alternative-analyses/:id", async (req, res) => {
+    try {
+      const run = await storage.getAlternativeAnalysisRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ error: "Alternative analysis not found" });
+      }
+      const alternatives = await storage.getAlternativesByAnalysisRun(run.id);
+      res.json({ run, alternatives });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch alternative analysis" });
+    }
+  });
+
   // Shipments
   app.get("/api/shipments", async (req, res) => {
     try {
@@ -324,6 +1011,209 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Requests for quotes: each invited carrier answers through its own tokenised link
+  app.get("/api/shipments/:id/rfqs", async (req, res) => {
+    try {
+      const shipment = await storage.getShipment(req.params.id);
+      if (!shipment) {
+        return res.status(404).json({ error: "Shipment not found" });
+      }
+      res.json(await getShipmentRfqs(shipment.id));
+    } catch (error) {
+      res.status(500).json({
+        error: "Failed to fetch RFQs",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.post("/api/shipments/:id/rfqs", async (req, res) => {
+    try {
+      const parsed = createRfqSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid RFQ", details: parsed.error.issues });
+      }
+      const shipment = await storage.getShipment(req.params.id);
+      if (!shipment) {
+        return res.status(404).json({ error: "Shipment not found" });
+      }
+      res.status(201).json(await createShipmentRfq(shipment, parsed.data));
+    } catch (error) {
+      if (error instanceof RfqError) {
+        return res.status(400).json({ error: "Cannot create RFQ", details: error.message });
+      }
+      res.status(500).json({
+        error: "Failed to create RFQ",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.post("/api/rfqs/:id/close", async (req, res) => {
+    try {
+      const rfq = await storage.getRfq(req.params.id);
+      if (!rfq) {
+        return res.status(404).json({ error: "RFQ not found" });
+      }
+      res.json(await closeShipmentRfq(rfq));
+    } catch (error) {
+      if (error instanceof RfqError) {
+        return res.status(400).json({ error: "Cannot close RFQ", details: error.message });
+      }
+      res.status(500).json({
+        error: "Failed to close RFQ",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // Carrier-facing: the token is the only credential, so responses reveal nothing beyond the invitation
+  app.get("/api/rfq-responses/:token", async (req, res) => {
+    try {
+      const view = await getRfqCarrierView(req.params.token);
+      if (!view) {
+        return res.status(404).json({ error: "RFQ invitation not found" });
+      }
+      res.json(view);
+    } catch (error) {
+      res.status(500).json({
+        error: "Failed to fetch RFQ",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.post("/api/rfq-responses/:token", async (req, res) => {
+    try {
+      const parsed = rfqResponseSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid RFQ response", details: parsed.error.issues });
+      }
+      const view = await submitRfqResponse(req.params.token, parsed.data);
+      if (!view) {
+        return res.status(404).json({ error: "RFQ invitation not found" });
+      }
+      res.json(view);
+    } catch (error) {
+      if (error instanceof RfqError) {
+        return res.status(400).json({ error: "Cannot accept response", details: error.message });
+      }
+      res.status(500).json({
+        error: "Failed to submit RFQ response",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // Carriers, each with its rolling scorecard
+  app.get("/api/carriers", async (req, res) => {
+    try {
+      res.json(await listCarriers());
+    } catch (error) {
+      res.status(500).json({
+        error: "Failed to fetch carriers",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.post("/api/carriers", async (req, res) => {
+    try {
+      const parsed = insertCarrierSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid carrier", details: parsed.error.issues });
+      }
+      res.status(201).json(await createCarrier(parsed.data));
+    } catch (error) {
+      if (error instanceof CarrierError) {
+        return res.status(400).json({ error: "Cannot create carrier", details: error.message });
+      }
+      res.status(500).json({
+        error: "Failed to create carrier",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // The carrier with its scorecard, monthly scorecard trend and every recorded outcome
+  app.get("/api/carriers/:id", async (req, res) => {
+    try {
+      const carrier = await storage.getCarrier(req.params.id);
+      if (!carrier) {
+        return res.status(404).json({ error: "Carrier not found" });
+      }
+      res.json(await getCarrierDetail(carrier));
+    } catch (error) {
+      res.status(500).json({
+        error: "Failed to fetch carrier",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.patch("/api/carriers/:id", async (req, res) => {
+    try {
+      const parsed = updateCarrierSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid carrier update", details: parsed.error.issues });
+      }
+      const carrier = await storage.getCarrier(req.params.id);
+      if (!carrier) {
+        return res.status(404).json({ error: "Carrier not found" });
+      }
+      res.json(await updateCarrier(carrier, parsed.data));
+    } catch (error) {
+      if (error instanceof CarrierError) {
+        return res.status(400).json({ error: "Cannot update carrier", details: error.message });
+      }
+      res.status(500).json({
+        error: "Failed to update carrier",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.post("/api/carriers/:id/outcomes", async (req, res) => {
+    try {
+      const parsed = recordBookingOutcomeSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid booking outcome", details: parsed.error.issues });
+      }
+      const carrier = await storage.getCarrier(req.params.id);
+      if (!carrier) {
+        return res.status(404).json({ error: "Carrier not found" });
+      }
+      res.status(201).json(await recordBookingOutcome(carrier, parsed.data));
+    } catch (error) {
+      if (error instanceof CarrierError) {
+        return res.status(400).json({ error: "Cannot record booking outcome", details: error.message });
+      }
+      res.status(500).json({
+        error: "Failed to record booking outcome",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.patch("/api/booking-outcomes/:id", async (req, res) => {
+    try {
+      const parsed = updateBookingOutcomeSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid booking outcome update", details: parsed.error.issues });
+      }
+      const outcome = await storage.getBookingOutcome(req.params.id);
+      if (!outcome) {
+        return res.status(404).json({ error: "Booking outcome not found" });
+      }
+      res.json(await updateBookingOutcome(outcome, parsed.data));
+    } catch (error) {
+      res.status(500).json({
+        error: "Failed to update booking outcome",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
   // Automation Processes
   app.get("/api/automation-processes", async (req, res) => {
     try {
@@ -360,8 +1250,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/automation-processes", async (req, res) => {
     try {
-      const data = insertAutomationProcessSchema.parse(req.body);
-      const process = await storage.createAutomationProcess(data);
+      const data = createAutomationProcessSchema.parse(req.body);
+      const process = await startAutomationProcess(data);
       res.json(process);
     } catch (error) {
       res.status(400).json({ error: "Invalid automation process data" });
@@ -369,8 +1259,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   app.patch("/api/automation-processes/:id", async (req, res) => {
+    const workflowFields = ["currentStage", "stageHistory", "completedAt", "quotesCollected", "agentDecision", "deferCost", "deferReason"];
+    const written = req.body && typeof req.body === "object" ? workflowFields.filter(field => field in req.body) : [];
+    if (written.length > 0) {
+      return res.status(400).json({
+        error: "Invalid update data",
+        details: `${written.join(", ")} cannot be written directly; they are set by workflow transitions and agents`
+      });
+    }
     try {
-      const updates = insertAutomationProcessSchema.partial().parse(req.body);
+      const updates = updateAutomationProcessSchema.parse(req.body);
       const process = await storage.updateAutomationProcess(req.params.id, updates);
       if (!process) {
         return res.status(404).json({ error: "Automation process not found" });
@@ -381,6 +1279,84 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get("/api/automation-processes/:id/transitions", async (req, res) => {
+    try {
+      const process = await storage.getAutomationProcess(req.params.id);
+      if (!process) {
+        return res.status(404).json({ error: "Automation process not found" });
+      }
+      res.json(await getProcessTransitions(process));
+    } catch (error) {
+      res.status(500).json({
+        error: "Failed to fetch workflow transitions",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  app.post("/api/automation-processes/:id/transitions", async (req, res) => {
+    try {
+      const parsed = workflowTransitionSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid transition request", details: parsed.error.issues });
+      }
+      const process = await storage.getAutomationProcess(req.params.id);
+      if (!process) {
+        return res.status(404).json({ error: "Automation process not found" });
+      }
+      res.json(await transitionAutomationProcess(process, parsed.data));
+    } catch (error) {
+      if (error instanceof WorkflowTransitionError) {
+        return res.status(400).json({ error: "Transition rejected", details: error.message, failures: error.failures });
+      }
+      if (error instanceof WorkflowConflictError) {
+        return res.status(409).json({ error: "Transition conflict", details: error.message });
+      }
+      res.status(500).json({
+        error: "Failed to transition automation process",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // Evaluates quotes that arrived after the fitment agent ran when the process entered agent evaluation
+  app.post("/api/automation-processes/:id/fitment", async (req, res) => {
+    try {
+      const process = await storage.getAutomationProcess(req.params.id);
+      if (!process) {
+        return res.status(404).json({ error: "Automation process not found" });
+      }
+      res.json(await rerunFitmentAgent(process));
+    } catch (error) {
+      if (error instanceof FitmentAgentError) {
+        return res.status(400).json({ error: "Fitment evaluation failed", details: error.message });
+      }
+      res.status(500).json({
+        error: "Failed to run fitment evaluation",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
+  // Runs the decision agent on the shipment's quotes and records book or defer; the client then sends that event
+  app.post("/api/automation-processes/:id/decision", async (req, res) => {
+    try {
+      const process = await storage.getAutomationProcess(req.params.id);
+      if (!process) {
+        return res.status(404).json({ error: "Automation process not found" });
+      }
+      res.json(await runProcessDecision(process));
+    } catch (error) {
+      if (error instanceof DecisionAgentError) {
+        return res.status(400).json({ error: "Decision analysis failed", details: error.message });
+      }
+      res.status(500).json({
+        error: "Failed to run decision analysis",
+        details: error instanceof Error ? error.message : String(error)
+      });
+    }
+  });
+
   // Vendor Evaluations
   app.get("/api/vendor-evaluations", async (req, res) => {
     try {
@@ -0,0 +1,245 @@
+import type {
+  Lane, Simulation, SimulationRateInputs, SimulationTransitInputs, RateFactor, TransitSegment, CorrelationMatrix
+} from "@shared/schema";
+import {
+  runMonteCarloSimulation, summarizeStreamedResults, SimulationController, SimulationCancelledError,
+  type SimulationParams, type SimulationSummary
+} from "@shared/monte-carlo";
+import { ShardedRunMerger, SHARD_BATCH_SIZE } from "@shared/sharded-simulation";
+import { ResultSummary } from "@shared/result-summary";
+import { generateSeed } from "@shared/random";
+import { storage } from "./storage";
+import { withLatestIndexValue } from "./index-history";
+
+export type SimulationJobStatus = "pending" | "running" | "completed" | "failed" | "cancelled";
+
+export interface SimulationJobProgress {
+  simulationId: string;
+  status: SimulationJobStatus;
+  progress: number;
+  completedIterations: number;
+  totalIterations: number;
+  error?: string;
+}
+
+// Resolves run inputs from the simulation's snapshot, falling back to the lane's current configuration
+function resolveSimulationParams(simulation: Simulation, lane: Lane | undefined, seed: number): SimulationParams {
+  const rateInputs = simulation.rateDistribution as Partial<SimulationRateInputs> | null;
+  const transitInputs = simulation.transitDistribution as Partial<SimulationTransitInputs> | null;
+
+  const baseRate = rateInputs?.baseRate ?? (lane ? lane.indexValue * lane.laneRatio : undefined);
+  const factors = rateInputs?.factors ?? (lane?.factors as RateFactor[] | undefined);
+  const segments = transitInputs?.segments ?? (lane?.segments as TransitSegment[] | undefined);
+  // A snapshotted factor set keeps its own correlation (or none); the lane's matrix may name other factors
+  const correlation = rateInputs?.factors
+    ? rateInputs.correlationMatrix ?? null
+    : (lane?.correlationMatrix as CorrelationMatrix | null | undefined) ?? null;
+
+  if (baseRate === undefined || !factors || !segments) {
+    throw new Error("Simulation has no rate/transit inputs and no lane to fall back on");
+  }
+
+  return {
+    iterations: simulation.iterations,
+    baseRate,
+    factors,
+    segments,
+    seed,
+    startDate: simulation.createdAt ? new Date(simulation.createdAt).getTime() : undefined,
+    departureWeek: transitInputs?.departureWeek,
+    correlation,
+    indexForecast: rateInputs?.indexForecast ?? null,
+    autoIterations: simulation.autoTolerance ? { tolerance: simulation.autoTolerance } : undefined
+  };
+}
+
+// Runs the same shard plan as the browser's worker pool, its shards interleaved on the event loop, so a seeded
+// server run and a browser re-run of it report the same numbers
+export async function runShardedSimulation(
+  params: SimulationParams,
+  controller: SimulationController,
+  onProgress?: (progress: { progress: number; completedIterations: number }) => void
+): Promise<SimulationSummary> {
+  const merger = new ShardedRunMerger(params);
+  const shardControllers = merger.shards.map(() => new SimulationController());
+  const startTime = Date.now();
+
+  await Promise.all(merger.shards.map(async (shard, index) => {
+    let batch = new ResultSummary();
+    try {
+      await runMonteCarloSimulation(shard, {
+        batchSize: SHARD_BATCH_SIZE,
+        controller: shardControllers[index],
+        retainResults: false,
+        onResult: (result) => batch.add(result),
+        onProgress: () => {
+          const progress = merger.addBatch(index, batch.toJSON());
+          batch = new ResultSummary();
+          if (progress) onProgress?.(progress);
+          // Auto mode converged, or the job was cancelled: stop the other shards at their next batch
+          if (controller.isCancelled || merger.isDone) shardControllers.forEach(shardController => shardController.cancel());
+        }
+      });
+    } catch (error) {
+      if (error instanceof SimulationCancelledError && !controller.isCancelled) return;
+      // A failing shard fails the job, so the others stop at their next batch rather than run on for nothing
+      shardControllers.forEach(shardController => shardController.cancel());
+      throw error;
+    }
+  }));
+  if (controller.isCancelled) throw new SimulationCancelledError(merger.summary.count);
+
+  return summarizeStreamedResults(merger.summary, Date.now() - startTime, params.seed, merger.getConvergence());
+}
+
+// In-process FIFO queue: one simulation runs at a time, the rest wait as "pending"
+export class SimulationJobQueue {
+  private queue: string[] = [];
+  private jobs: Map<string, SimulationJobProgress> = new Map();
+  private controllers: Map<string, SimulationController> = new Map();
+  private settledListeners: Map<string, Array<(job: SimulationJobProgress) => void>> = new Map();
+  private processing = false;
+
+  async enqueue(simulationId: string): Promise<SimulationJobProgress> {
+    const simulation = await storage.getSimulation(simulationId);
+    if (!simulation) {
+      throw new Error("Simulation not found");
+    }
+
+    const existing = this.jobs.get(simulationId);
+    if (existing && (existing.status === "pending" || existing.status === "running")) {
+      return existing;
+    }
+
+    const job: SimulationJobProgress = {
+      simulationId,
+      status: "pending",
+      progress: 0,
+      completedIterations: 0,
+      totalIterations: simulation.iterations
+    };
+    this.jobs.set(simulationId, job);
+    this.queue.push(simulationId);
+
+    await storage.updateSimulation(simulationId, { status: "pending" });
+    void this.processQueue();
+
+    return job;
+  }
+
+  getProgress(simulationId: string): SimulationJobProgress | undefined {
+    return this.jobs.get(simulationId);
+  }
+
+  // Resolves once the job has completed, failed or been cancelled
+  waitForJob(simulationId: string): Promise<SimulationJobProgress | undefined> {
+    const job = this.jobs.get(simulationId);
+    if (!job || !this.isActive(simulationId)) return Promise.resolve(job);
+
+    return new Promise(resolve => {
+      const listeners = this.settledListeners.get(simulationId) ?? [];
+      listeners.push(resolve);
+      this.settledListeners.set(simulationId, listeners);
+    });
+  }
+
+  isActive(simulationId: string): boolean {
+    const job = this.jobs.get(simulationId);
+    return !!job && (job.status === "pending" || job.status === "running");
+  }
+
+  // Returns false when the job is not queued or running on this instance
+  async cancel(simulationId: string): Promise<boolean> {
+    const job = this.jobs.get(simulationId);
+    if (!job || !this.isActive(simulationId)) return false;
+
+    const controller = this.controllers.get(simulationId);
+    if (controller) {
+      // Running: the batch loop rejects with SimulationCancelledError and runJob records it
+      controller.cancel();
+      return true;
+    }
+
+    this.queue = this.queue.filter(id => id !== simulationId);
+    job.status = "cancelled";
+    await storage.updateSimulation(simulationId, { status: "cancelled" });
+    this.settle(job);
+    return true;
+  }
+
+  private async processQueue(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      while (this.queue.length > 0) {
+        const simulationId = this.queue.shift()!;
+        await this.runJob(simulationId);
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async runJob(simulationId: string): Promise<void> {
+    const job = this.jobs.get(simulationId)!;
+    // Registered before the first await so a cancel while the job starts up reaches it rather than the queue
+    const controller = new SimulationController();
+    this.controllers.set(simulationId, controller);
+    const throwIfCancelled = () => {
+      if (controller.isCancelled) throw new SimulationCancelledError(0);
+    };
+
+    try {
+      const simulation = await storage.getSimulation(simulationId);
+      throwIfCancelled();
+      if (!simulation) {
+        throw new Error("Simulation not found");
+      }
+
+      const stored = simulation.laneId ? await storage.getLane(simulation.laneId) : undefined;
+      const lane = stored && await withLatestIndexValue(stored);
+      throwIfCancelled();
+      const seed = simulation.seed ?? generateSeed();
+      const params = resolveSimulationParams(simulation, lane, seed);
+
+      job.status = "running";
+      await storage.updateSimulation(simulationId, { status: "running", seed });
+      throwIfCancelled();
+
+      const summary = await runShardedSimulation(params, controller, ({ progress, completedIterations }) => {
+        job.progress = progress;
+        job.completedIterations = completedIterations;
+      });
+      throwIfCancelled();
+      await storage.updateSimulation(simulationId, { status: "completed", results: summary });
+
+      job.status = "completed";
+      job.progress = 100;
+    } catch (error) {
+      if (error instanceof SimulationCancelledError) {
+        job.status = "cancelled";
+        await storage.updateSimulation(simulationId, { status: "cancelled" }).catch(() => undefined);
+        return;
+      }
+
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Simulation] Job ${simulationId} failed:`, error);
+
+      job.status = "failed";
+      job.error = message;
+      await storage.updateSimulation(simulationId, { status: "failed" }).catch(() => undefined);
+    } finally {
+      this.controllers.delete(simulationId);
+      this.settle(job);
+    }
+  }
+
+  private settle(job: SimulationJobProgress) {
+    const listeners = this.settledListeners.get(job.simulationId) ?? [];
+    this.settledListeners.delete(job.simulationId);
+    listeners.forEach(listener => listener(job));
+  }
+}
+
+export const simulationQueue = new SimulationJobQueue();
@@ -3,15 +3,28 @@ import {
   type Simulation, type InsertSimulation,
   type Quote, type InsertQuote,
   type Alternative, type InsertAlternative,
+  type AlternativeAnalysisRun, type InsertAlternativeAnalysisRun,
+  type RecommendationPolicy, type InsertRecommendationPolicy,
+  type RecommendationPolicyVersion, type InsertRecommendationPolicyVersion,
   type MarketIndex, type InsertMarketIndex,
+  type IndexObservation, type InsertIndexObservation,
+  type CompositeIndex, type InsertCompositeIndex,
+  type FreightInvoice, type InsertFreightInvoice,
   type User, type InsertUser,
   type Shipment, type InsertShipment,
   type AutomationProcess, type InsertAutomationProcess,
   type VendorEvaluation, type InsertVendorEvaluation,
   type ProcessDocument, type InsertProcessDocument,
-  type ProcessAction, type InsertProcessAction
+  type ProcessAction, type InsertProcessAction,
+  type Rfq, type InsertRfq,
+  type RfqInvitation, type InsertRfqInvitation,
+  type Carrier, type InsertCarrier,
+  type BookingOutcome, type InsertBookingOutcome
 } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { generateIndexHistory, dateToDays, daysToDate } from "@shared/index-series";
+import { generateFreightInvoices } from "@shared/lane-ratio";
+import { generateBookingOutcomes } from "@shared/carrier-scorecard";
 import { DbStorage } from './db-storage';
 
 export interface IStorage {
@@ -37,6 +50,7 @@ export interface IStorage {
   getQuotes(): Promise<Quote[]>;
   getQuote(id: string): Promise<Quote | undefined>;
   getQuotesByLane(laneId: string): Promise<Quote[]>;
+  getQuotesByShipment(shipmentId: string): Promise<Quote[]>;
   createQuote(quote: InsertQuote): Promise<Quote>;
   updateQuote(id: string, updates: Partial<InsertQuote>): Promise<Quote | undefined>;
   
@@ -44,13 +58,45 @@ export interface IStorage {
   getAlternatives(): Promise<Alternative[]>;
   getAlternative(id: string): Promise<Alternative | undefined>;
   getAlternativesByQuote(quoteId: string): Promise<Alternative[]>;
+  getAlternativesByAnalysisRun(analysisRunId: string): Promise<Alternative[]>;
   createAlternative(alternative: InsertAlternative): Promise<Alternative>;
+  chooseAlternative(id: string): Promise<Alternative | undefined>; // Clears any other choice for the same quote
+  
+  // Alternative analysis runs (newest first)
+  getAlternativeAnalysisRunsByQuote(quoteId: string): Promise<AlternativeAnalysisRun[]>;
+  getAlternativeAnalysisRun(id: string): Promise<AlternativeAnalysisRun | undefined>;
+  createAlternativeAnalysisRun(run: InsertAlternativeAnalysisRun): Promise<AlternativeAnalysisRun>;
+  
+  // Recommendation Policies (updates bump the version)
+  getRecommendationPolicies(): Promise<RecommendationPolicy[]>;
+  getRecommendationPolicy(id: string): Promise<RecommendationPolicy | undefined>;
+  createRecommendationPolicy(policy: InsertRecommendationPolicy): Promise<RecommendationPolicy>;
+  updateRecommendationPolicy(id: string, updates: Partial<InsertRecommendationPolicy>): Promise<RecommendationPolicy | undefined>;
+  deleteRecommendationPolicy(id: string): Promise<boolean>;
+  getRecommendationPolicyVersions(policyId: string): Promise<RecommendationPolicyVersion[]>;
+  createRecommendationPolicyVersion(version: InsertRecommendationPolicyVersion): Promise<RecommendationPolicyVersion>;
   
   // Market Indices
   getMarketIndices(): Promise<MarketIndex[]>;
   getMarketIndex(code: string): Promise<MarketIndex | undefined>;
   createOrUpdateMarketIndex(index: InsertMarketIndex): Promise<MarketIndex>;
   
+  // Index Observations (ascending by date; an existing (code, date) is overwritten)
+  getIndexObservations(code: string, from?: string, to?: string): Promise<IndexObservation[]>;
+  upsertIndexObservations(observations: InsertIndexObservation[]): Promise<IndexObservation[]>;
+  
+  // Composite Indices (keyed by code, which never changes)
+  getCompositeIndices(): Promise<CompositeIndex[]>;
+  getCompositeIndex(code: string): Promise<CompositeIndex | undefined>;
+  createCompositeIndex(composite: InsertCompositeIndex): Promise<CompositeIndex>;
+  updateCompositeIndex(code: string, updates: Partial<Omit<InsertCompositeIndex, 'code'>>): Promise<CompositeIndex | undefined>;
+  deleteCompositeIndex(code: string): Promise<boolean>;
+  
+  // Freight Invoices (realised rates per lane, ascending by date)
+  getFreightInvoicesByLane(laneId: string, from?: string, to?: string): Promise<FreightInvoice[]>;
+  createFreightInvoices(invoices: InsertFreightInvoice[]): Promise<FreightInvoice[]>;
+  deleteFreightInvoicesByLane(laneId: string): Promise<number>;
+  
   // Shipments
   getShipments(): Promise<Shipment[]>;
   getShipment(id: string): Promise<Shipment | undefined>;
@@ -64,6 +110,8 @@ export interface IStorage {
   getAutomationProcessByShipment(shipmentId: string): Promise<AutomationProcess | undefined>;
   createAutomationProcess(process: InsertAutomationProcess): Promise<AutomationProcess>;
   updateAutomationProcess(id: string, updates: Partial<InsertAutomationProcess>): Promise<AutomationProcess | undefined>;
+  // Updates the process only while it is still at the stage; undefined when another transition got there first
+  updateAutomationProcessAtStage(id: string, stage: string, updates: Partial<InsertAutomationProcess>): Promise<AutomationProcess | undefined>;
   
   // Vendor Evaluations
   getVendorEvaluations(): Promise<VendorEvaluation[]>;
@@ -84,6 +132,33 @@ export interface IStorage {
   getProcessActionsByProcess(processId: string): Promise<ProcessAction[]>;
   createProcessAction(action: InsertProcessAction): Promise<ProcessAction>;
   updateProcessAction(id: string, updates: Partial<InsertProcessAction>): Promise<ProcessAction | undefined>;
+
+  // RFQs
+  getRfqsByShipment(shipmentId: string): Promise<Rfq[]>; // Newest first
+  getOpenRfqs(): Promise<Rfq[]>;
+  getRfq(id: string): Promise<Rfq | undefined>;
+  createRfq(rfq: InsertRfq): Promise<Rfq>;
+  updateRfq(id: string, updates: Partial<InsertRfq>): Promise<Rfq | undefined>;
+  // Updates the RFQ only while it is still open; undefined when another close got there first
+  closeOpenRfq(id: string, updates: Partial<InsertRfq>): Promise<Rfq | undefined>;
+  getRfqInvitations(rfqId: string): Promise<RfqInvitation[]>;
+  getRfqInvitationByToken(token: string): Promise<RfqInvitation | undefined>;
+  createRfqInvitation(invitation: InsertRfqInvitation): Promise<RfqInvitation>;
+  updateRfqInvitation(id: string, updates: Partial<InsertRfqInvitation>): Promise<RfqInvitation | undefined>;
+  // Updates the invitation only while it is still pending; undefined when another response got there first
+  claimRfqInvitation(id: string, updates: Partial<InsertRfqInvitation>): Promise<RfqInvitation | undefined>;
+
+  // Carriers
+  getCarriers(): Promise<Carrier[]>; // By name
+  getCarrier(id: string): Promise<Carrier | undefined>;
+  createCarrier(carrier: InsertCarrier): Promise<Carrier>;
+  updateCarrier(id: string, updates: Partial<InsertCarrier>): Promise<Carrier | undefined>;
+  getBookingOutcomes(): Promise<BookingOutcome[]>; // Latest delivery first
+  getBookingOutcomesByCarrier(carrierId: string): Promise<BookingOutcome[]>; // Latest delivery first
+  getBookingOutcome(id: string): Promise<BookingOutcome | undefined>;
+  getBookingOutcomeByQuote(quoteId: string): Promise<BookingOutcome | undefined>;
+  createBookingOutcome(outcome: InsertBookingOutcome): Promise<BookingOutcome>;
+  updateBookingOutcome(id: string, updates: Partial<InsertBookingOutcome>): Promise<BookingOutcome | undefined>;
 }
 
 export class MemStorage implements IStorage {
@@ -92,12 +167,22 @@ export class MemStorage implements IStorage {
   private simulations: Map<string, Simulation> = new Map();
   private quotes: Map<string, Quote> = new Map();
   private alternatives: Map<string, Alternative> = new Map();
+  private alternativeAnalysisRuns: Map<string, AlternativeAnalysisRun> = new Map();
+  private recommendationPolicies: Map<string, RecommendationPolicy> = new Map();
+  private recommendationPolicyVersions: Map<string, RecommendationPolicyVersion> = new Map();
   private marketIndices: Map<string, MarketIndex> = new Map();
+  private indexObservations: Map<string, IndexObservation> = new Map(); // Keyed by `${code}:${date}`
+  private compositeIndices: Map<string, CompositeIndex> = new Map(); // Keyed by code
+  private freightInvoices: Map<string, FreightInvoice> = new Map();
   private shipments: Map<string, Shipment> = new Map();
   private automationProcesses: Map<string, AutomationProcess> = new Map();
   private vendorEvaluations: Map<string, VendorEvaluation> = new Map();
   private processDocuments: Map<string, ProcessDocument> = new Map();
   private processActions: Map<string, ProcessAction> = new Map();
+  private rfqs: Map<string, Rfq> = new Map();
+  private rfqInvitations: Map<string, RfqInvitation> = new Map();
+  private carriers: Map<string, Carrier> = new Map();
+  private bookingOutcomes: Map<string, BookingOutcome> = new Map();
 
   constructor() {
     this.initializeDefaultData();
@@ -121,6 +206,35 @@ export class MemStorage implements IStorage {
       });
     });
 
+    // Two years of weekly history per index, ending with the current value and its latest change
+    const today = new Date().toISOString().slice(0, 10);
+    const lastWeek = daysToDate(dateToDays(today) - 7);
+    indices.forEach((index, i) => {
+      const history = generateIndexHistory(index.value - index.change, lastWeek, 103, 0.15, i + 1);
+      history.push({ date: today, value: index.value });
+      history.forEach(point => {
+        this.indexObservations.set(`${index.code}:${point.date}`, {
+          id: randomUUID(),
+          code: index.code,
+          date: point.date,
+          value: point.value,
+          createdAt: new Date()
+        });
+      });
+    });
+
+    // A transpacific blend priced off SCFI and two-week-old WCI
+    this.compositeIndices.set("TPBLEND", {
+      id: randomUUID(),
+      code: "TPBLEND",
+      name: "Transpacific Blend (60% SCFI + 40% WCI, 14-day lag)",
+      components: [
+        { code: "SCFI", weight: 0.6, lagDays: 0 },
+        { code: "WCI", weight: 0.4, lagDays: 14 }
+      ],
+      createdAt: new Date()
+    });
+
     // Initialize sample lanes
     const sampleLanes: InsertLane[] = [
       {
@@ -143,15 +257,41 @@ export class MemStorage implements IStorage {
             name: "Ocean Transit",
             baselineDays: 14.0,
             distribution: "lognormal",
-            parameters: { mu: 14.0, sigma: 2.0 },
-            congestionScenarios: []
+            parameters: { mu: 2.64, sigma: 0.15 }, // Log-scale: median e^2.64 ≈ 14 days
+            congestionScenarios: [
+              {
+                name: "Weather Routing",
+                probability: 15,
+                delayPattern: [1, 1, 2, 2, 1],
+                description: "Typhoon season diversions adding sailing days"
+              }
+            ]
           },
           {
             name: "Port Congestion",
             baselineDays: 1.5,
             distribution: "exponential",
             parameters: { lambda: 0.67 },
-            congestionScenarios: []
+            congestionScenarios: [
+              {
+                name: "Normal Operations",
+                probability: 70,
+                delayPattern: [0, 0, 0, 0, 0],
+                description: "Standard port operations with minimal delays"
+              },
+              {
+                name: "Gradual Congestion",
+                probability: 20,
+                delayPattern: [1, 3, 5, 3, 1],
+                description: "Progressive delays building over 2-3 weeks"
+              },
+              {
+                name: "Major Disruption",
+                probability: 10,
+                delayPattern: [10, 8, 6, 4, 2],
+                description: "Significant delays due to weather or strikes"
+              }
+            ]
           }
         ],
         factors: [
@@ -171,7 +311,17 @@ export class MemStorage implements IStorage {
             parameters: { min: 1.08, mode: 1.12, max: 1.18 },
             enabled: true
           }
-        ]
+        ],
+        // Peak season drives both carrier premiums and port congestion
+        correlationMatrix: {
+          variables: ["factor:Carrier Premium", "factor:Seasonality", "segment:Ocean Transit", "segment:Port Congestion"],
+          matrix: [
+            [1.0, 0.4, 0.0, 0.2],
+            [0.4, 1.0, 0.1, 0.5],
+            [0.0, 0.1, 1.0, 0.3],
+            [0.2, 0.5, 0.3, 1.0]
+          ]
+        }
       }
     ];
 
@@ -179,11 +329,92 @@ export class MemStorage implements IStorage {
       const id = randomUUID();
       this.lanes.set(id, {
         ...lane,
+        correlationMatrix: lane.correlationMatrix ?? null,
         id,
         createdAt: new Date()
       });
     });
 
+    // A year of weekly invoices on the first lane, priced off its base index, for the lane ratio calculator
+    const [invoiceLaneId] = Array.from(this.lanes.keys());
+    const invoiceIndex = Array.from(this.indexObservations.values())
+      .filter(observation => observation.code === sampleLanes[0].baseIndex)
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .slice(-52);
+    const carriers = [
+      { carrier: "Maersk", premium: 1.07 },
+      { carrier: "MSC", premium: 1.03 },
+      { carrier: "COSCO", premium: 0.96 },
+      { carrier: "Evergreen", premium: 1.0 }
+    ];
+    const invoices = generateFreightInvoices(invoiceIndex, 1.8, carriers, 0.06, 7);
+    invoices.forEach(invoice => {
+      const id = randomUUID();
+      this.freightInvoices.set(id, { ...invoice, id, laneId: invoiceLaneId, createdAt: new Date() });
+    });
+
+    // The same carriers as master data, with one delivered booking per invoice for their scorecards
+    const laneIds = Array.from(this.lanes.keys());
+    const sampleCarriers: InsertCarrier[] = [
+      {
+        name: "Maersk",
+        scac: "MAEU",
+        contacts: [{ name: "Transpacific Desk", role: "Sales", email: "transpacific@maersk.example", phone: "+45 3363 3363" }],
+        services: ["temperature controlled", "fragile handling", "customs clearance", "insurance required", "documentation"],
+        laneIds,
+        active: true
+      },
+      {
+        name: "MSC",
+        scac: "MSCU",
+        contacts: [{ name: "Asia-US Bookings", role: "Bookings", email: "bookings@msc.example" }],
+        services: ["temperature controlled", "hazmat compliance", "insurance required"],
+        laneIds,
+        active: true
+      },
+      {
+        name: "COSCO",
+        scac: "COSU",
+        contacts: [{ name: "West Coast Sales", role: "Sales", email: "sales.usw@cosco.example" }],
+        services: ["customs clearance", "just in time"],
+        laneIds: laneIds.slice(0, 1),
+        active: true
+      },
+      {
+        name: "Evergreen",
+        scac: "EGLV",
+        contacts: [{ name: "Customer Service", email: "cs@evergreen.example", phone: "+886 2 2505 7766" }],
+        services: ["fragile handling", "documentation", "hazmat compliance"],
+        laneIds: laneIds.slice(0, 2),
+        active: true
+      }
+    ];
+    const carrierIds = new Map<string, string>();
+    sampleCarriers.forEach(carrier => {
+      const id = randomUUID();
+      carrierIds.set(carrier.name, id);
+      this.carriers.set(id, { ...carrier, id, scac: carrier.scac ?? null, active: carrier.active ?? true, notes: null, createdAt: new Date() });
+    });
+    const profiles = [
+      { carrier: "Maersk", onTimeRate: 0.93, rollRate: 0.03, damageRate: 0.01, invoiceVariance: 0.01 },
+      { carrier: "MSC", onTimeRate: 0.86, rollRate: 0.08, damageRate: 0.02, invoiceVariance: 0.04 },
+      { carrier: "COSCO", onTimeRate: 0.8, rollRate: 0.12, damageRate: 0.03, invoiceVariance: 0.02 },
+      { carrier: "Evergreen", onTimeRate: 0.89, rollRate: 0.05, damageRate: 0.01, invoiceVariance: 0.0 }
+    ];
+    generateBookingOutcomes(invoices, profiles, 18, new Date(), 11).forEach(({ carrier, ...outcome }) => {
+      const id = randomUUID();
+      this.bookingOutcomes.set(id, {
+        ...outcome,
+        id,
+        carrierId: carrierIds.get(carrier)!,
+        quoteId: null,
+        shipmentId: null,
+        laneId: invoiceLaneId,
+        notes: null,
+        createdAt: new Date()
+      });
+    });
+
     // Initialize sample shipments for agentic process automation demo
     const sampleShipments: InsertShipment[] = [
       {
@@ -275,7 +506,7 @@ export class MemStorage implements IStorage {
 
   async createLane(lane: InsertLane): Promise<Lane> {
     const id = randomUUID();
-    const newLane: Lane = { ...lane, id, createdAt: new Date() };
+    const newLane: Lane = { ...lane, correlationMatrix: lane.correlationMatrix ?? null, id, createdAt: new Date() };
     this.lanes.set(id, newLane);
     return newLane;
   }
@@ -314,6 +545,8 @@ export class MemStorage implements IStorage {
       createdAt: new Date(),
       results: simulation.results ?? null,
       status: simulation.status ?? "pending",
+      seed: simulation.seed ?? null,
+      autoTolerance: simulation.autoTolerance ?? null,
       laneId: simulation.laneId ?? null
     };
     this.simulations.set(id, newSim);
@@ -342,6 +575,10 @@ export class MemStorage implements IStorage {
     return Array.from(this.quotes.values()).filter(quote => quote.laneId === laneId);
   }
 
+  async getQuotesByShipment(shipmentId: string): Promise<Quote[]> {
+    return Array.from(this.quotes.values()).filter(quote => quote.shipmentId === shipmentId);
+  }
+
   async createQuote(quote: InsertQuote): Promise<Quote> {
     const id = randomUUID();
     const newQuote: Quote = { 
@@ -349,6 +586,8 @@ export class MemStorage implements IStorage {
       id, 
       createdAt: new Date(),
       laneId: quote.laneId ?? null,
+      customer: quote.customer ?? null,
+      shipmentId: quote.shipmentId ?? null,
       validUntil: quote.validUntil ?? null,
       evaluation: quote.evaluation ?? null,
       recommendation: quote.recommendation ?? null
@@ -379,18 +618,119 @@ export class MemStorage implements IStorage {
     return Array.from(this.alternatives.values()).filter(alt => alt.quoteId === quoteId);
   }
 
+  async getAlternativesByAnalysisRun(analysisRunId: string): Promise<Alternative[]> {
+    return Array.from(this.alternatives.values()).filter(alt => alt.analysisRunId === analysisRunId);
+  }
+
   async createAlternative(alternative: InsertAlternative): Promise<Alternative> {
     const id = randomUUID();
     const newAlt: Alternative = { 
       ...alternative, 
       id, 
       createdAt: new Date(),
-      quoteId: alternative.quoteId ?? null
+      quoteId: alternative.quoteId ?? null,
+      analysisRunId: alternative.analysisRunId ?? null,
+      chosen: alternative.chosen ?? false,
+      chosenAt: alternative.chosenAt ?? null
     };
     this.alternatives.set(id, newAlt);
     return newAlt;
   }
 
+  async chooseAlternative(id: string): Promise<Alternative | undefined> {
+    const existing = this.alternatives.get(id);
+    if (!existing) return undefined;
+
+    Array.from(this.alternatives.values()).forEach(alt => {
+      if (alt.chosen && alt.quoteId === existing.quoteId) {
+        this.alternatives.set(alt.id, { ...alt, chosen: false, chosenAt: null });
+      }
+    });
+    const chosen: Alternative = { ...existing, chosen: true, chosenAt: new Date() };
+    this.alternatives.set(id, chosen);
+    return chosen;
+  }
+
+  // Alternative analysis run methods
+  async getAlternativeAnalysisRunsByQuote(quoteId: string): Promise<AlternativeAnalysisRun[]> {
+    return Array.from(this.alternativeAnalysisRuns.values())
+      .filter(run => run.quoteId === quoteId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async getAlternativeAnalysisRun(id: string): Promise<AlternativeAnalysisRun | undefined> {
+    return this.alternativeAnalysisRuns.get(id);
+  }
+
+  async createAlternativeAnalysisRun(run: InsertAlternativeAnalysisRun): Promise<AlternativeAnalysisRun> {
+    const id = randomUUID();
+    const newRun: AlternativeAnalysisRun = {
+      ...run,
+      id,
+      createdAt: new Date()
+    };
+    this.alternativeAnalysisRuns.set(id, newRun);
+    return newRun;
+  }
+
+  // Recommendation Policy methods
+  async getRecommendationPolicies(): Promise<RecommendationPolicy[]> {
+    return Array.from(this.recommendationPolicies.values());
+  }
+
+  async getRecommendationPolicy(id: string): Promise<RecommendationPolicy | undefined> {
+    return this.recommendationPolicies.get(id);
+  }
+
+  async createRecommendationPolicy(policy: InsertRecommendationPolicy): Promise<RecommendationPolicy> {
+    const id = randomUUID();
+    const now = new Date();
+    const newPolicy: RecommendationPolicy = {
+      ...policy,
+      id,
+      laneId: policy.laneId ?? null,
+      customer: policy.customer ?? null,
+      active: policy.active ?? true,
+      version: 1,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.recommendationPolicies.set(id, newPolicy);
+    return newPolicy;
+  }
+
+  async updateRecommendationPolicy(id: string, updates: Partial<InsertRecommendationPolicy>): Promise<RecommendationPolicy | undefined> {
+    const existing = this.recommendationPolicies.get(id);
+    if (!existing) return undefined;
+
+    const updated: RecommendationPolicy = { ...existing, ...updates, version: existing.version + 1, updatedAt: new Date() };
+    this.recommendationPolicies.set(id, updated);
+    return updated;
+  }
+
+  async deleteRecommendationPolicy(id: string): Promise<boolean> {
+    return this.recommendationPolicies.delete(id);
+  }
+
+  async getRecommendationPolicyVersions(policyId: string): Promise<RecommendationPolicyVersion[]> {
+    return Array.from(this.recommendationPolicyVersions.values())
+      .filter(version => version.policyId === policyId)
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async createRecommendationPolicyVersion(version: InsertRecommendationPolicyVersion): Promise<RecommendationPolicyVersion> {
+    const id = randomUUID();
+    const newVersion: RecommendationPolicyVersion = {
+      ...version,
+      id,
+      laneId: version.laneId ?? null,
+      customer: version.customer ?? null,
+      createdAt: new Date()
+    };
+    this.recommendationPolicyVersions.set(id, newVersion);
+    return newVersion;
+  }
+
   // Market Index methods
   async getMarketIndices(): Promise<MarketIndex[]> {
     return Array.from(this.marketIndices.values());
@@ -412,6 +752,83 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
+  // Index Observation methods
+  async getIndexObservations(code: string, from?: string, to?: string): Promise<IndexObservation[]> {
+    return Array.from(this.indexObservations.values())
+      .filter(observation => observation.code === code
+        && (!from || observation.date >= from)
+        && (!to || observation.date <= to))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async upsertIndexObservations(observations: InsertIndexObservation[]): Promise<IndexObservation[]> {
+    return observations.map(observation => {
+      const key = `${observation.code}:${observation.date}`;
+      const existing = this.indexObservations.get(key);
+      const saved: IndexObservation = {
+        ...observation,
+        id: existing?.id ?? randomUUID(),
+        createdAt: existing?.createdAt ?? new Date()
+      };
+      this.indexObservations.set(key, saved);
+      return saved;
+    });
+  }
+
+  // Composite Index methods
+  async getCompositeIndices(): Promise<CompositeIndex[]> {
+    return Array.from(this.compositeIndices.values());
+  }
+
+  async getCompositeIndex(code: string): Promise<CompositeIndex | undefined> {
+    return this.compositeIndices.get(code);
+  }
+
+  async createCompositeIndex(composite: InsertCompositeIndex): Promise<CompositeIndex> {
+    const created: CompositeIndex = { ...composite, id: randomUUID(), createdAt: new Date() };
+    this.compositeIndices.set(composite.code, created);
+    return created;
+  }
+
+  async updateCompositeIndex(code: string, updates: Partial<Omit<InsertCompositeIndex, 'code'>>): Promise<CompositeIndex | undefined> {
+    const existing = this.compositeIndices.get(code);
+    if (!existing) return undefined;
+
+    const updated: CompositeIndex = { ...existing, ...updates };
+    this.compositeIndices.set(code, updated);
+    return updated;
+  }
+
+  async deleteCompositeIndex(code: string): Promise<boolean> {
+    return this.compositeIndices.delete(code);
+  }
+
+  // Freight Invoice methods
+  async getFreightInvoicesByLane(laneId: string, from?: string, to?: string): Promise<FreightInvoice[]> {
+    return Array.from(this.freightInvoices.values())
+      .filter(invoice => invoice.laneId === laneId
+        && (!from || invoice.date >= from)
+        && (!to || invoice.date <= to))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async createFreightInvoices(invoices: InsertFreightInvoice[]): Promise<FreightInvoice[]> {
+    return invoices.map(invoice => {
+      const id = randomUUID();
+      const saved: FreightInvoice = { ...invoice, id, createdAt: new Date() };
+      this.freightInvoices.set(id, saved);
+      return saved;
+    });
+  }
+
+  async deleteFreightInvoicesByLane(laneId: string): Promise<number> {
+    const ids = Array.from(this.freightInvoices.values())
+      .filter(invoice => invoice.laneId === laneId)
+      .map(invoice => invoice.id);
+    ids.forEach(id => this.freightInvoices.delete(id));
+    return ids.length;
+  }
+
   // Shipment methods
   async getShipments(): Promise<Shipment[]> {
     return Array.from(this.shipments.values());
@@ -474,6 +891,7 @@ export class MemStorage implements IStorage {
       deferCost: process.deferCost ?? null,
       deferReason: process.deferReason ?? null,
       processData: process.processData ?? null,
+      stageHistory: process.stageHistory ?? null,
       completedAt: process.completedAt ?? null
     };
     this.automationProcesses.set(id, newProcess);
@@ -489,6 +907,15 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
+  async updateAutomationProcessAtStage(id: string, stage: string, updates: Partial<InsertAutomationProcess>): Promise<AutomationProcess | undefined> {
+    const existing = this.automationProcesses.get(id);
+    if (!existing || existing.currentStage !== stage) return undefined;
+
+    const updated: AutomationProcess = { ...existing, ...updates };
+    this.automationProcesses.set(id, updated);
+    return updated;
+  }
+
   // Vendor Evaluation methods
   async getVendorEvaluations(): Promise<VendorEvaluation[]> {
     return Array.from(this.vendorEvaluations.values());
@@ -586,6 +1013,173 @@ export class MemStorage implements IStorage {
     this.processActions.set(id, updated);
     return updated;
   }
+
+  // RFQ methods
+  async getRfqsByShipment(shipmentId: string): Promise<Rfq[]> {
+    return Array.from(this.rfqs.values())
+      .filter(rfq => rfq.shipmentId === shipmentId)
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async getOpenRfqs(): Promise<Rfq[]> {
+    return Array.from(this.rfqs.values()).filter(rfq => rfq.status === "open");
+  }
+
+  async getRfq(id: string): Promise<Rfq | undefined> {
+    return this.rfqs.get(id);
+  }
+
+  async createRfq(rfq: InsertRfq): Promise<Rfq> {
+    const id = randomUUID();
+    const newRfq: Rfq = {
+      ...rfq,
+      id,
+      createdAt: new Date(),
+      status: rfq.status || "open",
+      notes: rfq.notes ?? null,
+      closedReason: rfq.closedReason ?? null,
+      closedAt: rfq.closedAt ?? null
+    };
+    this.rfqs.set(id, newRfq);
+    return newRfq;
+  }
+
+  async updateRfq(id: string, updates: Partial<InsertRfq>): Promise<Rfq | undefined> {
+    const existing = this.rfqs.get(id);
+    if (!existing) return undefined;
+
+    const updated: Rfq = { ...existing, ...updates };
+    this.rfqs.set(id, updated);
+    return updated;
+  }
+
+  async closeOpenRfq(id: string, updates: Partial<InsertRfq>): Promise<Rfq | undefined> {
+    const existing = this.rfqs.get(id);
+    if (!existing || existing.status !== 'open') return undefined;
+
+    const updated: Rfq = { ...existing, ...updates };
+    this.rfqs.set(id, updated);
+    return updated;
+  }
+
+  async getRfqInvitations(rfqId: string): Promise<RfqInvitation[]> {
+    return Array.from(this.rfqInvitations.values()).filter(invitation => invitation.rfqId === rfqId);
+  }
+
+  async getRfqInvitationByToken(token: string): Promise<RfqInvitation | undefined> {
+    return Array.from(this.rfqInvitations.values()).find(invitation => invitation.token === token);
+  }
+
+  async createRfqInvitation(invitation: InsertRfqInvitation): Promise<RfqInvitation> {
+    const id = randomUUID();
+    const newInvitation: RfqInvitation = {
+      ...invitation,
+      id,
+      createdAt: new Date(),
+      status: invitation.status || "pending",
+      contactEmail: invitation.contactEmail ?? null,
+      quoteId: invitation.quoteId ?? null,
+      declineReason: invitation.declineReason ?? null,
+      respondedAt: invitation.respondedAt ?? null
+    };
+    this.rfqInvitations.set(id, newInvitation);
+    return newInvitation;
+  }
+
+  async updateRfqInvitation(id: string, updates: Partial<InsertRfqInvitation>): Promise<RfqInvitation | undefined> {
+    const existing = this.rfqInvitations.get(id);
+    if (!existing) return undefined;
+
+    const updated: RfqInvitation = { ...existing, ...updates };
+    this.rfqInvitations.set(id, updated);
+    return updated;
+  }
+
+  async claimRfqInvitation(id: string, updates: Partial<InsertRfqInvitation>): Promise<RfqInvitation | undefined> {
+    const existing = this.rfqInvitations.get(id);
+    if (!existing || existing.status !== 'pending') return undefined;
+
+    const updated: RfqInvitation = { ...existing, ...updates };
+    this.rfqInvitations.set(id, updated);
+    return updated;
+  }
+
+  // Carrier methods
+  async getCarriers(): Promise<Carrier[]> {
+    return Array.from(this.carriers.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getCarrier(id: string): Promise<Carrier | undefined> {
+    return this.carriers.get(id);
+  }
+
+  async createCarrier(carrier: InsertCarrier): Promise<Carrier> {
+    const id = randomUUID();
+    const newCarrier: Carrier = {
+      ...carrier,
+      id,
+      createdAt: new Date(),
+      scac: carrier.scac ?? null,
+      active: carrier.active ?? true,
+      notes: carrier.notes ?? null
+    };
+    this.carriers.set(id, newCarrier);
+    return newCarrier;
+  }
+
+  async updateCarrier(id: string, updates: Partial<InsertCarrier>): Promise<Carrier | undefined> {
+    const existing = this.carriers.get(id);
+    if (!existing) return undefined;
+
+    const updated: Carrier = { ...existing, ...updates };
+    this.carriers.set(id, updated);
+    return updated;
+  }
+
+  async getBookingOutcomes(): Promise<BookingOutcome[]> {
+    return Array.from(this.bookingOutcomes.values()).sort((a, b) => b.deliveredAt.getTime() - a.deliveredAt.getTime());
+  }
+
+  async getBookingOutcomesByCarrier(carrierId: string): Promise<BookingOutcome[]> {
+    return Array.from(this.bookingOutcomes.values())
+      .filter(outcome => outcome.carrierId === carrierId)
+      .sort((a, b) => b.deliveredAt.getTime() - a.deliveredAt.getTime());
+  }
+
+  async getBookingOutcome(id: string): Promise<BookingOutcome | undefined> {
+    return this.bookingOutcomes.get(id);
+  }
+
+  async getBookingOutcomeByQuote(quoteId: string): Promise<BookingOutcome | undefined> {
+    return Array.from(this.bookingOutcomes.values()).find(outcome => outcome.quoteId === quoteId);
+  }
+
+  async createBookingOutcome(outcome: InsertBookingOutcome): Promise<BookingOutcome> {
+    const id = randomUUID();
+    const newOutcome: BookingOutcome = {
+      ...outcome,
+      id,
+      createdAt: new Date(),
+      quoteId: outcome.quoteId ?? null,
+      shipmentId: outcome.shipmentId ?? null,
+      laneId: outcome.laneId ?? null,
+      invoicedAmount: outcome.invoicedAmount ?? null,
+      rolled: outcome.rolled ?? false,
+      damaged: outcome.damaged ?? false,
+      notes: outcome.notes ?? null
+    };
+    this.bookingOutcomes.set(id, newOutcome);
+    return newOutcome;
+  }
+
+  async updateBookingOutcome(id: string, updates: Partial<InsertBookingOutcome>): Promise<BookingOutcome | undefined> {
+    const existing = this.bookingOutcomes.get(id);
+    if (!existing) return undefined;
+
+    const updated: BookingOutcome = { ...existing, ...updates };
+    this.bookingOutcomes.set(id, updated);
+    return updated;
+  }
 }
 
 // Use in-memory storage for reliable demo functionality
@@ -0,0 +1,517 @@
+// Simulates the booking strategies open to a quote (book now, wait, split, reroute) with the Monte Carlo engine
+import type {
+  Alternative, InsertAlternative, Lane, RateFactor, TransitSegment, CorrelationMatrix, SimulationResult, GridRange, RiskConstraint,
+  DecisionCriterion
+} from "./schema";
+import { runMonteCarloSimulation, type SimulationParams } from "./monte-carlo";
+import { createSeededRandom, deriveSeed, generateSeed, type RandomSource } from "./random";
+import { normalQuantile, type Statistics } from "./statistics";
+import { restrictCorrelationMatrix, segmentVariable } from "./copula";
+import { StreamingSummary, type StreamingSummaryData } from "./streaming-summary";
+import { bestOutcome, criterionValue } from "./decision-criteria";
+import { forecastDistribution, sampleIndexRatio, type FittedForecastModel } from "./index-forecast";
+
+export const ALTERNATIVE_TYPES = ['book', 'wait', 'split', 'reroute'] as const;
+export type AlternativeType = typeof ALTERNATIVE_TYPES[number];
+
+// Matches the engine's per-day delay cost: 0.1% of the rate for each day cargo is held back
+export const DEFAULT_HOLDING_COST_RATE = 0.001;
+
+const DAYS_PER_YEAR = 365;
+
+// Sub-streams of the analysis seed, one per simulated booking
+const BOOK_STREAM = 1;
+const WAIT_STREAM = 2;
+const WAIT_INDEX_STREAM = 3;
+const SPLIT_STREAM = 4;
+const SPLIT_INDEX_STREAM = 5;
+const REROUTE_STREAM_BASE = 100;
+const OPTIMISER_STREAM_BASE = 1000; // Two streams (simulation, index path) per wait in the grid
+
+const EXPECTED_VALUE: DecisionCriterion = { type: 'expectedValue' };
+
+// Inputs shared by a one-off comparison and the optimiser
+export interface AlternativeSimulationInputs {
+  quoteRate: number;
+  lane: Lane;
+  iterations: number;
+  seed?: number;
+  startDate?: number; // Epoch ms the strategies are judged from; defaults to now
+  holdingCostRate?: number; // Fraction of the quoted rate per day cargo waits to be booked
+  indexDrift?: number; // Annualised drift of the lane's index while waiting; 0 assumes no trend
+  indexModel?: FittedForecastModel; // Forecast of the lane's index for waits; replaces the volatility/indexDrift walk
+  rerouteLanes?: Lane[]; // One reroute strategy per lane
+}
+
+export interface AlternativeAnalysisParams extends AlternativeSimulationInputs {
+  deadlineDays?: number; // Arrival deadline in days from startDate, for on-time probabilities
+  waitDays?: number; // Omit to skip the wait strategy
+  split?: { nowFraction: number; delayDays: number }; // Omit to skip the split strategy
+}
+
+export interface AlternativeOutcome {
+  type: AlternativeType;
+  key: string; // Unique per outcome: reroutes share a type
+  name: string;
+  description: string;
+  parameters: Record<string, number | string>;
+  costStats: Statistics; // Total landed cost per container, holding cost included
+  arrivalStats: Statistics; // Days from startDate until the last container arrives
+  sketches: { cost: StreamingSummaryData; arrival: StreamingSummaryData };
+  holdingCost: number;
+  confidence: number; // % of iterations in which this strategy had the lowest landed cost
+  onTimeProbability: number | null; // % arriving by deadlineDays, when one was given
+  feasible?: boolean; // Optimiser only: whether the outcome meets its risk constraint
+}
+
+export interface AlternativeAnalysis {
+  seed: number;
+  iterations: number;
+  startDate: number;
+  deadlineDays: number | null;
+  outcomes: AlternativeOutcome[];
+}
+
+// Per-iteration draws for one strategy; index i of every strategy is compared when scoring confidence
+interface StrategySamples {
+  costs: number[];
+  arrivals: number[];
+}
+
+// Lognormal (GBM) multiplier on the index after `days`, with `volatility` read as annualised
+export function sampleIndexMultiplier(days: number, volatility: number, drift: number, rng: RandomSource): number {
+  if (days <= 0) return 1;
+  const t = days / DAYS_PER_YEAR;
+  const z = normalQuantile(Math.min(1 - 1e-12, Math.max(1e-12, rng())));
+  return Math.exp((drift - volatility * volatility / 2) * t + volatility * Math.sqrt(t) * z);
+}
+
+// Index at the booking date over its current level, one draw per call
+function indexMultiplierSampler(params: AlternativeSimulationInputs, days: number): (rng: RandomSource) => number {
+  if (days <= 0) return () => 1;
+  if (!params.indexModel) {
+    return rng => sampleIndexMultiplier(days, params.lane.historicalVolatility, params.indexDrift ?? 0, rng);
+  }
+  const distribution = forecastDistribution(params.indexModel, days);
+  return rng => sampleIndexRatio(distribution, rng());
+}
+
+function laneMarketParams(lane: Lane, iterations: number, seed: number, startDate: number, departureDay: number): SimulationParams {
+  return {
+    iterations,
+    baseRate: lane.indexValue * lane.laneRatio,
+    factors: lane.factors as RateFactor[],
+    segments: lane.segments as TransitSegment[],
+    correlation: lane.correlationMatrix as CorrelationMatrix | null,
+    seed,
+    startDate,
+    departureWeek: Math.floor(departureDay / 7) // Congestion patterns move with the departure date
+  };
+}
+
+async function simulate(params: SimulationParams): Promise<SimulationResult[]> {
+  return runMonteCarloSimulation(params, { batchSize: 1000 });
+}
+
+// The quoted rate is locked, so only transit (and its delay cost) is uncertain
+async function simulateBookNow(params: AlternativeSimulationInputs, seed: number, startDate: number): Promise<StrategySamples> {
+  const market = laneMarketParams(params.lane, params.iterations, deriveSeed(seed, BOOK_STREAM), startDate, 0);
+  const segmentVariables = new Set(market.segments.map(segment => segmentVariable(segment.name)));
+  const results = await simulate({
+    ...market,
+    baseRate: params.quoteRate,
+    factors: [],
+    correlation: market.correlation
+      ? restrictCorrelationMatrix(market.correlation, variable => segmentVariables.has(variable))
+      : null
+  });
+  return {
+    costs: results.map(result => result.totalLandedCost),
+    arrivals: results.map(result => result.transitDays)
+  };
+}
+
+// Books at the market rate after `days`: the index moves as forecast meanwhile and the cargo accrues holding cost
+async function simulateWait(
+  params: AlternativeSimulationInputs,
+  days: number,
+  simulationStream: number,
+  indexStream: number,
+  seed: number,
+  startDate: number
+): Promise<StrategySamples> {
+  const { lane } = params;
+  const departure = startDate + days * 24 * 60 * 60 * 1000;
+  const results = await simulate(laneMarketParams(lane, params.iterations, deriveSeed(seed, simulationStream), departure, days));
+  const indexRng = createSeededRandom(deriveSeed(seed, indexStream));
+  const holdingCost = getHoldingCost(params, days);
+  const indexMultiplier = indexMultiplierSampler(params, days);
+
+  return {
+    // Delay cost is proportional to the rate, so the index move scales the whole landed cost
+    costs: results.map(result => result.totalLandedCost * indexMultiplier(indexRng) + holdingCost),
+    arrivals: results.map(result => days + result.transitDays)
+  };
+}
+
+async function simulateReroute(params: AlternativeSimulationInputs, lane: Lane, stream: number, seed: number, startDate: number): Promise<StrategySamples> {
+  const results = await simulate(laneMarketParams(lane, params.iterations, deriveSeed(seed, stream), startDate, 0));
+  return {
+    costs: results.map(result => result.totalLandedCost),
+    arrivals: results.map(result => result.transitDays)
+  };
+}
+
+function getHoldingCost(params: AlternativeSimulationInputs, days: number): number {
+  return days * (params.holdingCostRate ?? DEFAULT_HOLDING_COST_RATE) * params.quoteRate;
+}
+
+function summarize(values: number[]): StreamingSummary {
+  const summary = new StreamingSummary();
+  values.forEach(value => summary.add(value));
+  return summary;
+}
+
+function toOutcome(
+  base: Pick<AlternativeOutcome, 'type' | 'key' | 'name' | 'description' | 'parameters' | 'holdingCost'>,
+  samples: StrategySamples,
+  deadlineDays: number | undefined
+): AlternativeOutcome {
+  const cost = summarize(samples.costs);
+  const arrival = summarize(samples.arrivals);
+  return {
+    ...base,
+    costStats: cost.statistics(),
+    arrivalStats: arrival.statistics(),
+    sketches: { cost: cost.toJSON(), arrival: arrival.toJSON() },
+    confidence: 0,
+    onTimeProbability: deadlineDays !== undefined ? arrival.cdf(deadlineDays) * 100 : null
+  };
+}
+
+// Which strategy came out cheapest in each iteration; strategies are independent draws paired by iteration. Each is
+// folded in as it is simulated, so its per-iteration draws can be dropped once summarised. Ties go to the strategy
+// added first.
+class CheapestStrategyTracker {
+  private cheapestCosts: Float64Array;
+  private cheapest: Int32Array;
+  private strategies = 0;
+
+  constructor(private iterations: number) {
+    this.cheapestCosts = new Float64Array(iterations).fill(Infinity);
+    this.cheapest = new Int32Array(iterations);
+  }
+
+  add(costs: number[]): void {
+    const strategy = this.strategies++;
+    for (let i = 0; i < this.iterations; i++) {
+      if (costs[i] < this.cheapestCosts[i]) {
+        this.cheapestCosts[i] = costs[i];
+        this.cheapest[i] = strategy;
+      }
+    }
+  }
+
+  // Share of iterations each strategy came out cheapest; outcomes in the order their strategies were added
+  scoreConfidence(outcomes: AlternativeOutcome[]): void {
+    const wins = outcomes.map(() => 0);
+    this.cheapest.forEach(strategy => wins[strategy]++);
+    outcomes.forEach((outcome, j) => {
+      outcome.confidence = (wins[j] / this.iterations) * 100;
+    });
+  }
+}
+
+type OutcomeBase = Parameters<typeof toOutcome>[0];
+
+function bookNowBase(params: AlternativeSimulationInputs): OutcomeBase {
+  return {
+    type: 'book',
+    key: 'book',
+    name: 'Book Now',
+    description: 'Accept the quote immediately at its locked rate',
+    parameters: { rate: params.quoteRate },
+    holdingCost: 0
+  };
+}
+
+function waitBase(params: AlternativeSimulationInputs, days: number): OutcomeBase {
+  return {
+    type: 'wait',
+    key: `wait:${days}`,
+    name: `Wait ${days} Days`,
+    description: `Hold the cargo ${days} days and book at the projected market rate`,
+    parameters: params.indexModel
+      ? { waitDays: days, indexModel: params.indexModel.type }
+      : { waitDays: days, indexModel: 'lane', indexVolatility: params.lane.historicalVolatility, indexDrift: params.indexDrift ?? 0 },
+    holdingCost: getHoldingCost(params, days)
+  };
+}
+
+function splitBase(params: AlternativeSimulationInputs, nowFraction: number, delayDays: number): OutcomeBase {
+  const nowPercent = Math.round(nowFraction * 100);
+  return {
+    type: 'split',
+    key: `split:${nowPercent}:${delayDays}`,
+    name: `Split ${nowPercent}/${100 - nowPercent} (+${delayDays}d)`,
+    description: `Ship ${nowPercent}% now at the quote and ${100 - nowPercent}% after ${delayDays} days at the market rate`,
+    parameters: { nowPercent, delayedPercent: 100 - nowPercent, delayDays },
+    holdingCost: (1 - nowFraction) * getHoldingCost(params, delayDays)
+  };
+}
+
+function rerouteBase(lane: Lane): OutcomeBase {
+  return {
+    type: 'reroute',
+    key: `reroute:${lane.id}`,
+    name: `Reroute via ${lane.name}`,
+    description: `Book ${lane.origin} → ${lane.destination} at its market rate instead`,
+    parameters: { laneId: lane.id, lane: lane.name, marketRate: lane.indexValue * lane.laneRatio },
+    holdingCost: 0
+  };
+}
+
+// Two bookings: one at the quote now, the rest at the market after the delay; the shipment lands with the later one
+function combineSplit(bookNow: StrategySamples, delayed: StrategySamples, nowFraction: number): StrategySamples {
+  return {
+    costs: bookNow.costs.map((cost, i) => nowFraction * cost + (1 - nowFraction) * delayed.costs[i]),
+    arrivals: bookNow.arrivals.map((arrival, i) =>
+      nowFraction >= 1 ? arrival : nowFraction <= 0 ? delayed.arrivals[i] : Math.max(arrival, delayed.arrivals[i])
+    )
+  };
+}
+
+export async function runAlternativeAnalysis(params: AlternativeAnalysisParams): Promise<AlternativeAnalysis> {
+  const seed = params.seed ?? generateSeed();
+  const startDate = params.startDate ?? Date.now();
+  const { deadlineDays } = params;
+  const outcomes: AlternativeOutcome[] = [];
+  const cheapest = new CheapestStrategyTracker(params.iterations);
+
+  const add = (base: OutcomeBase, strategy: StrategySamples) => {
+    outcomes.push(toOutcome(base, strategy, deadlineDays));
+    cheapest.add(strategy.costs);
+  };
+
+  const bookNow = await simulateBookNow(params, seed, startDate);
+  add(bookNowBase(params), bookNow);
+
+  if (params.waitDays !== undefined) {
+    const days = params.waitDays;
+    add(waitBase(params, days), await simulateWait(params, days, WAIT_STREAM, WAIT_INDEX_STREAM, seed, startDate));
+  }
+
+  if (params.split) {
+    const { nowFraction, delayDays } = params.split;
+    const delayed = await simulateWait(params, delayDays, SPLIT_STREAM, SPLIT_INDEX_STREAM, seed, startDate);
+    add(splitBase(params, nowFraction, delayDays), combineSplit(bookNow, delayed, nowFraction));
+  }
+
+  const rerouteLanes = params.rerouteLanes ?? [];
+  for (let index = 0; index < rerouteLanes.length; index++) {
+    const lane = rerouteLanes[index];
+    add(rerouteBase(lane), await simulateReroute(params, lane, REROUTE_STREAM_BASE + index, seed, startDate));
+  }
+
+  cheapest.scoreConfidence(outcomes);
+
+  return {
+    seed,
+    iterations: params.iterations,
+    startDate,
+    deadlineDays: deadlineDays ?? null,
+    outcomes
+  };
+}
+
+// Grid points beyond this are rejected rather than left to tie up the server
+export const MAX_OPTIMISATION_POINTS = 400;
+
+export class AlternativeGridError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AlternativeGridError";
+  }
+}
+
+export interface AlternativeOptimisationParams extends AlternativeSimulationInputs {
+  waitDays: GridRange;
+  splitPercent: GridRange;
+  constraint: RiskConstraint;
+  criterion?: DecisionCriterion; // Objective among feasible points; defaults to expected cost
+}
+
+export interface AlternativeOptimisation {
+  seed: number;
+  iterations: number;
+  startDate: number;
+  constraint: RiskConstraint;
+  criterion: DecisionCriterion;
+  outcomes: AlternativeOutcome[]; // Every grid point, each flagged with whether it meets the constraint
+  bestKey: string | null; // Best feasible point under the criterion; null when none is feasible
+}
+
+export function gridValues(range: GridRange): number[] {
+  const values: number[] = [];
+  // The epsilon keeps `max` when floating-point steps land a hair past it
+  for (let i = 0; range.min + i * range.step <= range.max + 1e-9; i++) {
+    values.push(Math.round((range.min + i * range.step) * 1e6) / 1e6);
+  }
+  return values;
+}
+
+export function meetsConstraint(outcome: AlternativeOutcome, constraint: RiskConstraint): boolean {
+  switch (constraint.type) {
+    case 'none': return true;
+    case 'p90Budget': return outcome.costStats.p90 <= constraint.budget;
+    case 'onTime': return (outcome.onTimeProbability ?? 0) >= constraint.minProbability;
+  }
+}
+
+// Book-now, every wait, every split between them and every reroute lane. Waiting 0 days is booking now,
+// and splits at 0% or 100% collapse onto a wait or book-now, so only strictly partial splits are added.
+export async function optimiseAlternatives(params: AlternativeOptimisationParams): Promise<AlternativeOptimisation> {
+  const seed = params.seed ?? generateSeed();
+  const startDate = params.startDate ?? Date.now();
+  const { constraint } = params;
+  const criterion = params.criterion ?? EXPECTED_VALUE;
+  const deadlineDays = constraint.type === 'onTime' ? constraint.deadlineDays : undefined;
+
+  const waits = gridValues(params.waitDays).filter(days => days > 0);
+  const fractions = gridValues(params.splitPercent).filter(percent => percent > 0 && percent < 100).map(percent => percent / 100);
+  const rerouteLanes = params.rerouteLanes ?? [];
+  const pointCount = 1 + waits.length * (1 + fractions.length) + rerouteLanes.length;
+  if (pointCount > MAX_OPTIMISATION_POINTS) {
+    throw new AlternativeGridError(`Grid has ${pointCount} points; narrow the ranges or widen the steps to stay within ${MAX_OPTIMISATION_POINTS}`);
+  }
+
+  // Only each point's summary outlives it: the grid's per-iteration draws would not fit in memory at its limits
+  const outcomes: AlternativeOutcome[] = [];
+  const cheapest = new CheapestStrategyTracker(params.iterations);
+  const add = (base: OutcomeBase, strategy: StrategySamples) => {
+    outcomes.push(toOutcome(base, strategy, deadlineDays));
+    cheapest.add(strategy.costs);
+  };
+
+  const bookNow = await simulateBookNow(params, seed, startDate);
+  add(bookNowBase(params), bookNow);
+
+  // Each wait is simulated once and reused by every split that defers part of the cargo by the same delay
+  for (let i = 0; i < waits.length; i++) {
+    const days = waits[i];
+    const waited = await simulateWait(params, days, OPTIMISER_STREAM_BASE + 2 * i, OPTIMISER_STREAM_BASE + 2 * i + 1, seed, startDate);
+    add(waitBase(params, days), waited);
+    fractions.forEach(fraction => add(splitBase(params, fraction, days), combineSplit(bookNow, waited, fraction)));
+  }
+
+  for (let index = 0; index < rerouteLanes.length; index++) {
+    const lane = rerouteLanes[index];
+    add(rerouteBase(lane), await simulateReroute(params, lane, REROUTE_STREAM_BASE + index, seed, startDate));
+  }
+
+  cheapest.scoreConfidence(outcomes);
+
+  outcomes.forEach(outcome => {
+    outcome.feasible = meetsConstraint(outcome, constraint);
+  });
+  const best = bestOutcome(outcomes.filter(outcome => outcome.feasible), criterion);
+
+  return {
+    seed,
+    iterations: params.iterations,
+    startDate,
+    constraint,
+    criterion,
+    outcomes,
+    bestKey: best?.key ?? null
+  };
+}
+
+// A saved run keeps what every outcome shares; the outcomes themselves are stored as alternatives
+export interface AlternativeAnalysisRunSummary {
+  seed: number;
+  iterations: number;
+  startDate: number;
+  deadlineDays: number | null;
+  constraint: RiskConstraint | null; // Optimiser runs only
+  criterion: DecisionCriterion; // Picks bestKey and gives each alternative its score
+  bestKey: string | null;
+  bestName: string | null;
+  outcomeCount: number;
+}
+
+export function summariseAnalysis(analysis: AlternativeAnalysis, criterion: DecisionCriterion = EXPECTED_VALUE): AlternativeAnalysisRunSummary {
+  const best = bestOutcome(analysis.outcomes, criterion);
+  return {
+    seed: analysis.seed,
+    iterations: analysis.iterations,
+    startDate: analysis.startDate,
+    deadlineDays: analysis.deadlineDays,
+    constraint: null,
+    criterion,
+    bestKey: best?.key ?? null,
+    bestName: best?.name ?? null,
+    outcomeCount: analysis.outcomes.length
+  };
+}
+
+export function summariseOptimisation(optimisation: AlternativeOptimisation): AlternativeAnalysisRunSummary {
+  const { constraint } = optimisation;
+  return {
+    seed: optimisation.seed,
+    iterations: optimisation.iterations,
+    startDate: optimisation.startDate,
+    deadlineDays: constraint.type === 'onTime' ? constraint.deadlineDays : null,
+    constraint,
+    criterion: optimisation.criterion,
+    bestKey: optimisation.bestKey,
+    bestName: optimisation.outcomes.find(outcome => outcome.key === optimisation.bestKey)?.name ?? null,
+    outcomeCount: optimisation.outcomes.length
+  };
+}
+
+// The outcome's key travels in `parameters`; everything else but its type lands in `simulation`
+export type StoredAlternativeSimulation = Omit<AlternativeOutcome, 'type' | 'key' | 'parameters'>;
+
+// Scored under the run's criterion: dollars (lower is better) or, for on-time delivery, percent (higher is better)
+export function toAlternative(
+  outcome: AlternativeOutcome,
+  quoteId: string,
+  analysisRunId: string,
+  criterion: DecisionCriterion
+): InsertAlternative {
+  const { type, key, parameters, ...simulation } = outcome;
+  return {
+    quoteId,
+    analysisRunId,
+    type,
+    parameters: { ...parameters, key },
+    simulation,
+    score: criterionValue(outcome, criterion)
+  };
+}
+
+export function outcomeFromAlternative(alternative: Alternative): AlternativeOutcome {
+  const { key, ...parameters } = alternative.parameters as Record<string, number | string>;
+  return {
+    ...(alternative.simulation as StoredAlternativeSimulation),
+    type: alternative.type as AlternativeType,
+    key: String(key ?? alternative.id),
+    parameters
+  };
+}
+
+// Recorded in the shipment workflow's processData when an alternative is chosen for one of its quotes
+export interface ChosenStrategy {
+  alternativeId: string;
+  quoteId: string;
+  carrier: string;
+  type: AlternativeType;
+  name: string;
+  description: string;
+  expectedCost: number;
+  p90Cost: number;
+  arrivalP50: number;
+  onTimeProbability: number | null;
+  chosenAt: string; // ISO timestamp
+}
@@ -0,0 +1,210 @@
+// Rolling carrier scorecards from recorded booking outcomes. Scores are shrunk toward a neutral prior so a carrier
+// with a handful of bookings is not rated on luck. Pure so the client can chart what the server scores.
+import type { BookingOutcome, Carrier, QuoteCarrierRecord } from "./schema";
+import { createSeededRandom } from "./random";
+
+export const SCORECARD_WINDOW_DAYS = 180;
+export const SCORECARD_TREND_MONTHS = 6;
+
+const PRIOR_BOOKINGS = 5; // Pseudo-bookings at the neutral score blended into every scorecard
+const NEUTRAL_SCORE = 60;
+const MAX_INVOICE_DEVIATION = 0.2; // Mean |invoice variance| at which invoice accuracy scores zero
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Quotes name their carrier as free text; a carrier is matched to its master data by trimmed, case-insensitive name
+export function carrierKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+export function sameCarrier(a: string, b: string): boolean {
+  return carrierKey(a) === carrierKey(b);
+}
+
+export interface CarrierScorecard {
+  windowDays: number;
+  from: string; // ISO timestamps bounding the window
+  to: string;
+  bookings: number;
+  onTimeRate: number | null; // 0-1; null without bookings
+  rollRate: number | null;
+  damageRate: number | null;
+  invoiced: number; // Bookings with an invoice recorded
+  invoiceVariance: number | null; // Mean (invoiced - booked) / booked
+  invoiceDeviation: number | null; // Mean |invoice variance|
+  expectedInvoiceVariance: number; // invoiceVariance shrunk toward 0 by the number of invoices
+  reliabilityScore: number; // 0-100: on time and not rolled
+  serviceScore: number; // 0-100: undamaged and invoiced as booked
+  confidence: number; // 0-1 weight of the carrier's own record against the prior
+}
+
+// The scorecard over the window ending at the end of each month, oldest first
+export interface CarrierScorecardPoint {
+  month: string; // YYYY-MM
+  bookings: number;
+  onTimeRate: number | null;
+  reliabilityScore: number;
+  serviceScore: number;
+}
+
+// What GET /api/carriers lists
+export interface CarrierWithScorecard extends Carrier {
+  scorecard: CarrierScorecard;
+}
+
+// What GET /api/carriers/:id returns; outcomes latest delivery first
+export interface CarrierDetail extends CarrierWithScorecard {
+  trend: CarrierScorecardPoint[];
+  outcomes: BookingOutcome[];
+}
+
+// The quoted carrier's master data and rolling scorecard
+export interface CarrierRecord {
+  carrierId: string;
+  name: string;
+  services: string[];
+  servesLane: boolean | null; // null when the quote has no lane or the carrier lists none
+  scorecard: CarrierScorecard;
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+function shrink(score: number | null, count: number): number {
+  const blended = score === null ? NEUTRAL_SCORE : (count * score + PRIOR_BOOKINGS * NEUTRAL_SCORE) / (count + PRIOR_BOOKINGS);
+  return Math.round(blended * 10) / 10;
+}
+
+export function invoiceVarianceOf(outcome: BookingOutcome): number | null {
+  return outcome.invoicedAmount != null ? (outcome.invoicedAmount - outcome.bookedRate) / outcome.bookedRate : null;
+}
+
+export function computeScorecard(
+  outcomes: BookingOutcome[],
+  now: Date = new Date(),
+  windowDays: number = SCORECARD_WINDOW_DAYS
+): CarrierScorecard {
+  const from = new Date(now.getTime() - windowDays * MS_PER_DAY);
+  const inWindow = outcomes.filter(outcome => {
+    const delivered = new Date(outcome.deliveredAt).getTime();
+    return delivered > from.getTime() && delivered <= now.getTime();
+  });
+  const rate = (flag: (outcome: BookingOutcome) => boolean) =>
+    inWindow.length > 0 ? inWindow.filter(flag).length / inWindow.length : null;
+
+  const onTimeRate = rate(outcome => outcome.onTime);
+  const rollRate = rate(outcome => outcome.rolled);
+  const damageRate = rate(outcome => outcome.damaged);
+  const variances = inWindow.map(invoiceVarianceOf).filter((variance): variance is number => variance !== null);
+  const invoiceVariance = mean(variances);
+  const invoiceDeviation = mean(variances.map(Math.abs));
+
+  const reliability = onTimeRate !== null && rollRate !== null ? 100 * (0.75 * onTimeRate + 0.25 * (1 - rollRate)) : null;
+  // Invoice accuracy only counts once something has been invoiced
+  const invoiceAccuracy = invoiceDeviation !== null ? Math.max(0, 1 - invoiceDeviation / MAX_INVOICE_DEVIATION) : null;
+  const service = damageRate === null
+    ? null
+    : invoiceAccuracy === null ? 100 * (1 - damageRate) : 100 * (0.6 * (1 - damageRate) + 0.4 * invoiceAccuracy);
+
+  return {
+    windowDays,
+    from: from.toISOString(),
+    to: now.toISOString(),
+    bookings: inWindow.length,
+    onTimeRate,
+    rollRate,
+    damageRate,
+    invoiced: variances.length,
+    invoiceVariance,
+    invoiceDeviation,
+    expectedInvoiceVariance: invoiceVariance !== null ? (variances.length * invoiceVariance) / (variances.length + PRIOR_BOOKINGS) : 0,
+    reliabilityScore: shrink(reliability, inWindow.length),
+    serviceScore: shrink(service, inWindow.length),
+    confidence: inWindow.length / (inWindow.length + PRIOR_BOOKINGS)
+  };
+}
+
+export function scorecardTrend(
+  outcomes: BookingOutcome[],
+  now: Date = new Date(),
+  months: number = SCORECARD_TREND_MONTHS,
+  windowDays: number = SCORECARD_WINDOW_DAYS
+): CarrierScorecardPoint[] {
+  const points: CarrierScorecardPoint[] = [];
+  for (let i = months - 1; i >= 0; i--) {
+    // The current month ends now; earlier ones at their last millisecond
+    const end = i === 0 ? now : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - i + 1, 1) - 1);
+    const scorecard = computeScorecard(outcomes, end, windowDays);
+    points.push({
+      month: end.toISOString().slice(0, 7),
+      bookings: scorecard.bookings,
+      onTimeRate: scorecard.onTimeRate,
+      reliabilityScore: scorecard.reliabilityScore,
+      serviceScore: scorecard.serviceScore
+    });
+  }
+  return points;
+}
+
+export function quoteCarrierRecord(carrier: CarrierRecord): QuoteCarrierRecord {
+  const { scorecard } = carrier;
+  return {
+    carrierId: carrier.carrierId,
+    name: carrier.name,
+    bookings: scorecard.bookings,
+    onTimeRate: scorecard.onTimeRate,
+    expectedInvoiceVariance: scorecard.expectedInvoiceVariance,
+    reliabilityScore: scorecard.reliabilityScore
+  };
+}
+
+// How a demo carrier performs, for generated outcomes
+export interface CarrierPerformanceProfile {
+  carrier: string;
+  onTimeRate: number;
+  rollRate: number;
+  damageRate: number;
+  invoiceVariance: number; // Mean relative amount invoiced over the booked rate
+}
+
+export interface GeneratedBookingOutcome {
+  carrier: string;
+  bookedRate: number;
+  invoicedAmount: number;
+  deliveredAt: Date;
+  onTime: boolean;
+  rolled: boolean;
+  damaged: boolean;
+}
+
+// Demo outcomes for invoiced bookings: each invoice is one booking, delivered transitDays after its date, whose booked
+// rate sat about the profile's invoice variance below the invoice. Bookings not yet delivered by `now` are left out.
+export function generateBookingOutcomes(
+  invoices: { date: string; carrier: string; amount: number }[],
+  profiles: CarrierPerformanceProfile[],
+  transitDays: number,
+  now: Date,
+  seed: number
+): GeneratedBookingOutcome[] {
+  const rng = createSeededRandom(seed);
+  const outcomes: GeneratedBookingOutcome[] = [];
+  for (const invoice of invoices) {
+    const profile = profiles.find(entry => entry.carrier === invoice.carrier);
+    const deliveredAt = new Date(new Date(`${invoice.date}T00:00:00Z`).getTime() + transitDays * MS_PER_DAY);
+    if (!profile || deliveredAt.getTime() > now.getTime()) continue;
+
+    const rolled = rng() < profile.rollRate;
+    const variance = profile.invoiceVariance + (rng() - 0.5) * 0.04;
+    outcomes.push({
+      carrier: invoice.carrier,
+      bookedRate: Math.round(invoice.amount / (1 + variance)),
+      invoicedAmount: invoice.amount,
+      deliveredAt,
+      onTime: !rolled && rng() < profile.onTimeRate,
+      rolled,
+      damaged: rng() < profile.damageRate
+    });
+  }
+  return outcomes;
+}
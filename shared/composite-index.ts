@@ -0,0 +1,73 @@
+// Composite index history: the weighted mean of its components, each read as of its lag before the date. Weights are
+// relative, so 60/40 and 0.6/0.4 describe the same blend and the composite stays on its components' scale.
+import type { CompositeIndexComponent } from "./schema";
+import { dateToDays, daysToDate, type IndexPoint } from "./index-series";
+
+export interface CompositePoint extends IndexPoint {
+  components: number[]; // Each component's lagged value, in definition order
+}
+
+const MAX_COMPONENT_STALENESS_DAYS = 14; // A component with no print this recent leaves the date out
+
+export function componentLabel(component: CompositeIndexComponent): string {
+  return component.lagDays > 0 ? `${component.code} (lag ${component.lagDays}d)` : component.code;
+}
+
+// Each component's weight as a share of the total
+export function componentShares(components: CompositeIndexComponent[]): number[] {
+  const total = components.reduce((sum, component) => sum + component.weight, 0);
+  return components.map(component => (total > 0 ? component.weight / total : 0));
+}
+
+// Latest point on or before the date, if recent enough; points sorted ascending
+function valueAsOf(points: IndexPoint[], date: string): number | null {
+  let low = 0;
+  let high = points.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (points[mid].date <= date) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  if (found < 0 || dateToDays(date) - dateToDays(points[found].date) > MAX_COMPONENT_STALENESS_DAYS) return null;
+  return points[found].value;
+}
+
+// The composite moves whenever a component's lagged value does, so its dates are every component print shifted
+// forward by that component's lag. Dates before all components have a value, or after the latest print of any
+// component (a lagged value is known early but the composite is not published until then), are left out.
+export function computeCompositeSeries(
+  components: CompositeIndexComponent[],
+  histories: IndexPoint[][], // Sorted ascending, one per component
+  from?: string,
+  to?: string
+): CompositePoint[] {
+  const dates = new Set<string>();
+  histories.forEach((history, i) => {
+    history.forEach(point => dates.add(daysToDate(dateToDays(point.date) + components[i].lagDays)));
+  });
+
+  const latest = histories.reduce((max, history) => {
+    const last = history[history.length - 1]?.date ?? '';
+    return last > max ? last : max;
+  }, '');
+
+  const shares = componentShares(components);
+  const points: CompositePoint[] = [];
+  Array.from(dates).sort().forEach(date => {
+    if (date > latest || (from && date < from) || (to && date > to)) return;
+    const values = components.map((component, i) => valueAsOf(histories[i], daysToDate(dateToDays(date) - component.lagDays)));
+    if (values.some(value => value === null)) return;
+    const lagged = values as number[];
+    points.push({
+      date,
+      value: lagged.reduce((sum, value, i) => sum + shares[i] * value, 0),
+      components: lagged
+    });
+  });
+  return points;
+}
@@ -0,0 +1,113 @@
+// Running convergence diagnostics for the landed-cost distribution of a Monte Carlo run
+import { StreamingSummary } from "./streaming-summary";
+
+export interface ConvergencePoint {
+  iterations: number;
+  mean: number;
+  standardError: number; // Of the mean
+  p90: number;
+  p90StandardError: number;
+}
+
+export interface AutoIterationSettings {
+  tolerance: number; // Relative: 0.005 stops once P90 is stable within ±0.5%
+  minIterations?: number;
+}
+
+// Stored with the simulation summary and charted next to the distribution
+export interface ConvergenceSummary {
+  points: ConvergencePoint[];
+  converged: boolean;
+  tolerance?: number;
+  stoppedEarly: boolean; // Auto mode finished before the iteration cap
+}
+
+// z for the 95% Monte Carlo error band
+export const MC_ERROR_Z = 1.96;
+
+export const DEFAULT_MIN_ITERATIONS = 1000;
+
+// Recorded points grow geometrically so long runs keep a compact curve (~230 points for 100 → 100k)
+const RECORD_GROWTH = 1.03;
+
+export class ConvergenceTracker {
+  private summary = new StreamingSummary();
+  private points: ConvergencePoint[] = [];
+  private current: ConvergencePoint | null = null;
+  private previous: ConvergencePoint | null = null;
+
+  add(value: number) {
+    this.summary.add(value);
+  }
+
+  // Folds in landed costs summarised elsewhere, e.g. a parallel worker's latest batch
+  merge(summary: StreamingSummary) {
+    this.summary.merge(summary);
+  }
+
+  // Snapshots the running estimates, typically once per batch
+  checkpoint(): ConvergencePoint | null {
+    const { summary } = this;
+    if (summary.size === 0) return null;
+
+    const n = summary.size;
+    const { mean, variance } = summary.statistics();
+    const p90 = summary.quantile(0.90);
+
+    // Asymptotic quantile error sqrt(p(1-p)/n) / f(P90), with the density read off the P85-P95 spread
+    const spread = summary.quantile(0.95) - summary.quantile(0.85);
+    const density = spread > 0 ? 0.10 / spread : 0;
+    const p90StandardError = density > 0 ? Math.sqrt(0.9 * 0.1 / n) / density : 0;
+
+    this.previous = this.current;
+    this.current = {
+      iterations: n,
+      mean,
+      standardError: Math.sqrt(variance / n),
+      p90,
+      p90StandardError
+    };
+
+    return this.current;
+  }
+
+  // Adds the latest checkpoint to the stored curve on a geometric schedule; returns it when added
+  record(force: boolean = false): ConvergencePoint | null {
+    const { current } = this;
+    if (!current) return null;
+
+    const last = this.points[this.points.length - 1];
+    if (last?.iterations === current.iterations) return null;
+    if (!force && last && current.iterations < last.iterations * RECORD_GROWTH) return null;
+
+    this.points.push(current);
+    return current;
+  }
+
+  latest(): ConvergencePoint | null {
+    return this.current;
+  }
+
+  // P90's error band and its move since the last checkpoint both sit within the tolerance
+  isConverged(settings: AutoIterationSettings): boolean {
+    const { current, previous } = this;
+    if (!current || !previous) return false;
+    if (current.iterations < (settings.minIterations ?? DEFAULT_MIN_ITERATIONS)) return false;
+
+    const scale = Math.abs(current.p90);
+    if (scale === 0) return true;
+
+    const halfWidth = MC_ERROR_Z * current.p90StandardError;
+    const drift = Math.abs(current.p90 - previous.p90);
+    return halfWidth <= settings.tolerance * scale && drift <= settings.tolerance * scale;
+  }
+
+  getSummary(settings: AutoIterationSettings | undefined, stoppedEarly: boolean): ConvergenceSummary {
+    return {
+      points: this.points,
+      converged: settings ? this.isConverged(settings) : false,
+      tolerance: settings?.tolerance,
+      stoppedEarly
+    };
+  }
+}
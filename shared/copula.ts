@@ -0,0 +1,166 @@
+// Gaussian copula for correlated sampling of rate factors and transit segments
+import type { CorrelationMatrix, RateFactor, TransitSegment } from "./schema";
+import type { RandomSource } from "./random";
+import { normalCdf, normalQuantile } from "./statistics";
+
+export class CorrelationMatrixError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CorrelationMatrixError";
+  }
+}
+
+// Tolerance for rounding in user-entered matrices (symmetry, unit diagonal, zero pivots)
+const MATRIX_TOLERANCE = 1e-8;
+
+// Keeps uniforms off 0 and 1 so inverse CDFs stay finite in the far tails
+const UNIFORM_EPSILON = 1e-12;
+
+export function factorVariable(name: string): string {
+  return `factor:${name}`;
+}
+
+export function segmentVariable(name: string): string {
+  return `segment:${name}`;
+}
+
+export interface GaussianCopula {
+  variables: string[];
+  lower: number[][]; // Cholesky factor L with L·Lᵀ = correlation matrix
+}
+
+// Cholesky decomposition that also accepts semi-definite matrices (zero pivots yield zero columns)
+export function choleskyDecompose(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const lower: number[][] = Array.from({ length: n }, () => new Array(n).fill(0));
+
+  for (let j = 0; j < n; j++) {
+    let pivot = matrix[j][j];
+    for (let k = 0; k < j; k++) {
+      pivot -= lower[j][k] * lower[j][k];
+    }
+
+    if (pivot < -MATRIX_TOLERANCE) {
+      throw new CorrelationMatrixError("Correlation matrix is not positive semi-definite");
+    }
+
+    const diagonal = pivot > MATRIX_TOLERANCE ? Math.sqrt(pivot) : 0;
+    lower[j][j] = diagonal;
+
+    for (let i = j + 1; i < n; i++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) {
+        sum -= lower[i][k] * lower[j][k];
+      }
+
+      if (diagonal === 0) {
+        // A dependent column must have nothing left to explain, otherwise the matrix is indefinite
+        if (Math.abs(sum) > Math.sqrt(MATRIX_TOLERANCE)) {
+          throw new CorrelationMatrixError("Correlation matrix is not positive semi-definite");
+        }
+        continue;
+      }
+      lower[i][j] = sum / diagonal;
+    }
+  }
+
+  return lower;
+}
+
+// Throws CorrelationMatrixError describing the first problem found
+export function validateCorrelationMatrix(
+  correlation: CorrelationMatrix,
+  factors: RateFactor[],
+  segments: TransitSegment[]
+): void {
+  const { variables, matrix } = correlation;
+
+  if (!Array.isArray(variables) || !Array.isArray(matrix)) {
+    throw new CorrelationMatrixError("Correlation matrix needs a variables list and a matrix");
+  }
+
+  const known = new Set([
+    ...factors.map(factor => factorVariable(factor.name)),
+    ...segments.map(segment => segmentVariable(segment.name))
+  ]);
+  const seen = new Set<string>();
+  for (const variable of variables) {
+    if (!known.has(variable)) {
+      throw new CorrelationMatrixError(`Unknown correlation variable "${variable}"`);
+    }
+    if (seen.has(variable)) {
+      throw new CorrelationMatrixError(`Duplicate correlation variable "${variable}"`);
+    }
+    seen.add(variable);
+  }
+
+  const n = variables.length;
+  if (matrix.length !== n || matrix.some(row => !Array.isArray(row) || row.length !== n)) {
+    throw new CorrelationMatrixError(`Correlation matrix must be ${n}×${n} to match its variables`);
+  }
+
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      const value = matrix[i][j];
+      if (typeof value !== "number" || !Number.isFinite(value) || value < -1 || value > 1) {
+        throw new CorrelationMatrixError(`Correlation between ${variables[i]} and ${variables[j]} must be between -1 and 1`);
+      }
+      if (Math.abs(value - matrix[j][i]) > MATRIX_TOLERANCE) {
+        throw new CorrelationMatrixError(`Correlation matrix is not symmetric at ${variables[i]} / ${variables[j]}`);
+      }
+    }
+    if (Math.abs(matrix[i][i] - 1) > MATRIX_TOLERANCE) {
+      throw new CorrelationMatrixError(`Correlation of ${variables[i]} with itself must be 1`);
+    }
+  }
+
+  choleskyDecompose(matrix);
+}
+
+// Keeps only the variables matching `keep`; a principal submatrix of a valid correlation matrix stays valid
+export function restrictCorrelationMatrix(
+  correlation: CorrelationMatrix,
+  keep: (variable: string) => boolean
+): CorrelationMatrix | null {
+  const indices = correlation.variables.map((variable, i) => keep(variable) ? i : -1).filter(i => i >= 0);
+  if (indices.length === 0) return null;
+  return {
+    variables: indices.map(i => correlation.variables[i]),
+    matrix: indices.map(i => indices.map(j => correlation.matrix[i][j]))
+  };
+}
+
+export function createGaussianCopula(
+  correlation: CorrelationMatrix,
+  factors: RateFactor[],
+  segments: TransitSegment[]
+): GaussianCopula {
+  validateCorrelationMatrix(correlation, factors, segments);
+  return {
+    variables: correlation.variables,
+    lower: choleskyDecompose(correlation.matrix)
+  };
+}
+
+// One correlated uniform per copula variable: independent normals z, correlated x = L·z, u = Φ(x)
+export function sampleCopulaUniforms(copula: GaussianCopula, rng: RandomSource): number[] {
+  const { lower } = copula;
+  const n = lower.length;
+  const independent = new Array<number>(n);
+
+  for (let i = 0; i < n; i++) {
+    let u = 0;
+    while (u === 0) u = rng(); // Converting [0,1) to (0,1)
+    independent[i] = normalQuantile(u);
+  }
+
+  const uniforms = new Array<number>(n);
+  for (let i = 0; i < n; i++) {
+    let correlated = 0;
+    for (let k = 0; k <= i; k++) {
+      correlated += lower[i][k] * independent[k];
+    }
+    uniforms[i] = Math.min(Math.max(normalCdf(correlated), UNIFORM_EPSILON), 1 - UNIFORM_EPSILON);
+  }
+  return uniforms;
+}
@@ -0,0 +1,239 @@
+// Rule-based decision agent: scores a shipment's quotes on price, vendor fitment and simulated transit risk, then
+// decides whether to book the best one now or defer. Pure so it can be checked without storage.
+import type { DecisionAgentAnalysis, DecisionQuoteScore, Quote, QuoteEvaluation, Shipment, VendorEvaluation } from "./schema";
+import { DEFAULT_HOLDING_COST_RATE } from "./alternatives";
+
+export const DECISION_WAIT_DAYS = 7; // How long a deferral waits before the decision is reconsidered
+
+const MIN_BOOKING_SCORE = 60; // Below this the best quote is not worth booking unless the shipment is urgent
+const URGENT_MIN_BOOKING_SCORE = 40;
+const MIN_ON_TIME_IF_DEFERRED = 80; // % on-time probability a deferral may not drop below
+const MARKET_TREND_THRESHOLD = 2; // % index move over the wait that counts as a trend
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+type DecisionWeights = DecisionAgentAnalysis['weights'];
+
+// Urgent shipments weigh arrival risk most, flexible ones price
+export const URGENCY_WEIGHTS: Record<string, DecisionWeights> = {
+  high: { price: 0.2, fitment: 0.3, transit: 0.5 },
+  medium: { price: 0.4, fitment: 0.3, transit: 0.3 },
+  low: { price: 0.55, fitment: 0.3, transit: 0.15 }
+};
+
+export class DecisionAgentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DecisionAgentError";
+  }
+}
+
+// Transit times simulated for the quote's lane, with the share arriving by the deadline now and after a deferral
+export interface TransitRisk {
+  simulationId: string;
+  p50Days: number;
+  p90Days: number;
+  onTimeProbability: number | null; // null without a required delivery date
+  onTimeIfDeferred: number | null;
+}
+
+// The lane's base index forecast over the deferral
+export interface MarketOutlook {
+  indexCode: string;
+  expectedChangePercent: number;
+}
+
+export interface DecisionQuoteInput {
+  quote: Quote;
+  evaluation: QuoteEvaluation | null; // null when the quote has no lane
+  vendorEvaluations: VendorEvaluation[];
+  transit: TransitRisk | null;
+  outlook: MarketOutlook | null;
+}
+
+export interface DecisionAgentResult {
+  decision: 'book' | 'defer';
+  deferCost: number | null;
+  deferReason: string | null;
+  analysis: DecisionAgentAnalysis;
+}
+
+export function deadlineDaysFrom(shipment: Shipment, now: Date): number | null {
+  if (!shipment.requiredDeliveryDate) return null;
+  return (new Date(shipment.requiredDeliveryDate).getTime() - now.getTime()) / MS_PER_DAY;
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function mean(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+// Lanes give a percentile against the simulated market; quotes without one are ranked against each other
+function priceScores(inputs: DecisionQuoteInput[]): number[] {
+  const rates = inputs.map(input => input.quote.rate);
+  const min = Math.min(...rates);
+  const max = Math.max(...rates);
+  return inputs.map(input => input.evaluation
+    ? 100 - input.evaluation.percentile
+    : max > min ? (100 * (max - input.quote.rate)) / (max - min) : 50);
+}
+
+function scoreQuotes(inputs: DecisionQuoteInput[], weights: DecisionWeights): DecisionQuoteScore[] {
+  const prices = priceScores(inputs);
+  return inputs
+    .map((input, i) => {
+      const fitmentScore = mean(input.vendorEvaluations.map(evaluation => evaluation.ratingScore));
+      const transitScore = input.transit?.onTimeProbability ?? null;
+      const components: Array<[number, number | null]> = [
+        [weights.price, prices[i]],
+        [weights.fitment, fitmentScore],
+        [weights.transit, transitScore]
+      ];
+      const present = components.filter((component): component is [number, number] => component[1] !== null);
+      const totalWeight = present.reduce((sum, [weight]) => sum + weight, 0);
+      const decisionScore = present.reduce((sum, [weight, score]) => sum + weight * score, 0) / totalWeight;
+
+      return {
+        quoteId: input.quote.id,
+        carrier: input.quote.carrier,
+        rate: input.quote.rate,
+        laneId: input.quote.laneId,
+        priceScore: round1(prices[i]),
+        fitmentScore: fitmentScore !== null ? round1(fitmentScore) : null,
+        transitScore: transitScore !== null ? round1(transitScore) : null,
+        decisionScore: round1(decisionScore),
+        marketRecommendation: input.evaluation?.recommendation ?? null,
+        fitmentRejected: input.vendorEvaluations.some(evaluation => evaluation.recommendation === 'REJECT')
+      };
+    })
+    .sort((a, b) =>
+      Number(a.fitmentRejected) - Number(b.fitmentRejected) || b.decisionScore - a.decisionScore || a.rate - b.rate
+    );
+}
+
+function marketTrend(outlook: MarketOutlook | null): 'IMPROVING' | 'STABLE' | 'DETERIORATING' {
+  if (!outlook) return 'STABLE';
+  if (outlook.expectedChangePercent <= -MARKET_TREND_THRESHOLD) return 'IMPROVING';
+  if (outlook.expectedChangePercent >= MARKET_TREND_THRESHOLD) return 'DETERIORATING';
+  return 'STABLE';
+}
+
+function riskAssessment(best: DecisionQuoteScore, evaluation: QuoteEvaluation | null): DecisionAgentAnalysis['riskAssessment'] {
+  const onTime = best.transitScore;
+  const percentile = evaluation?.percentile ?? null;
+  if ((onTime !== null && onTime < 70) || (percentile !== null && percentile > 75)) return 'HIGH';
+  if ((onTime !== null && onTime < 90) || (percentile !== null && percentile > 50)) return 'MEDIUM';
+  return 'LOW';
+}
+
+export function runDecisionAgent(shipment: Shipment, inputs: DecisionQuoteInput[], now: Date = new Date()): DecisionAgentResult {
+  if (inputs.length === 0) {
+    throw new DecisionAgentError("No quotes are linked to the shipment");
+  }
+
+  const weights = URGENCY_WEIGHTS[shipment.urgency] ?? URGENCY_WEIGHTS.medium;
+  const scoredQuotes = scoreQuotes(inputs, weights);
+  const best = scoredQuotes[0];
+  const bestInput = inputs.find(input => input.quote.id === best.quoteId)!;
+  const { evaluation, transit, outlook } = bestInput;
+  const trend = marketTrend(outlook);
+  const urgent = shipment.urgency === 'high';
+
+  // Reasons to wait, then reasons waiting is not an option
+  const deferReasons: string[] = [];
+  if (evaluation && (evaluation.recommendation === 'WAIT' || evaluation.recommendation === 'REJECT')) {
+    deferReasons.push(`${best.carrier} sits at the ${Math.round(evaluation.percentile)}th percentile of simulated rates (${evaluation.recommendation})`);
+  }
+  if (best.fitmentRejected) {
+    deferReasons.push("The fitment agent rejected every quote");
+  }
+  if (best.decisionScore < (urgent ? URGENT_MIN_BOOKING_SCORE : MIN_BOOKING_SCORE)) {
+    deferReasons.push(`The best quote scores ${best.decisionScore}, below the ${urgent ? URGENT_MIN_BOOKING_SCORE : MIN_BOOKING_SCORE} needed to book`);
+  }
+  if (trend === 'IMPROVING' && outlook) {
+    deferReasons.push(`${outlook.indexCode} is forecast to move ${outlook.expectedChangePercent.toFixed(1)}% over ${DECISION_WAIT_DAYS} days`);
+  }
+
+  const blockers: string[] = [];
+  if (urgent && best.decisionScore >= URGENT_MIN_BOOKING_SCORE && !best.fitmentRejected) {
+    blockers.push("High urgency: booking the best available quote");
+  }
+  if (transit?.onTimeIfDeferred != null && transit.onTimeIfDeferred < MIN_ON_TIME_IF_DEFERRED) {
+    blockers.push(`Waiting ${DECISION_WAIT_DAYS} days would leave a ${Math.round(transit.onTimeIfDeferred)}% chance of arriving on time`);
+  }
+
+  const decision = deferReasons.length > 0 && blockers.length === 0 ? 'defer' : 'book';
+  const holdingCosts = best.rate * DEFAULT_HOLDING_COST_RATE * DECISION_WAIT_DAYS;
+  const estimatedSavings = outlook ? Math.max(0, (-outlook.expectedChangePercent / 100) * best.rate) : 0;
+
+  const riskFactors: string[] = [];
+  if (best.transitScore !== null && best.transitScore < 90) {
+    riskFactors.push(`${Math.round(100 - best.transitScore)}% simulated chance of missing the delivery date`);
+  }
+  if (evaluation && evaluation.percentile > 50) {
+    riskFactors.push(`Rate above the simulated median (${Math.round(evaluation.percentile)}th percentile)`);
+  }
+  if (trend === 'DETERIORATING' && outlook) {
+    riskFactors.push(`${outlook.indexCode} is forecast to rise ${outlook.expectedChangePercent.toFixed(1)}%`);
+  }
+  if (best.fitmentScore === null) {
+    riskFactors.push("No vendor evaluation for the selected quote");
+  }
+  if (bestInput.quote.validUntil && new Date(bestInput.quote.validUntil).getTime() < now.getTime()) {
+    riskFactors.push("The quote has expired");
+  }
+
+  const reasoning = decision === 'defer'
+    ? deferReasons
+    : [
+        `${best.carrier} at $${best.rate.toLocaleString()} scores best (${best.decisionScore})`,
+        // Say why the reasons to wait were overruled
+        ...(deferReasons.length > 0 ? [`Not deferring despite: ${deferReasons.join("; ")}`, ...blockers] : [])
+      ];
+
+  const fitmentScores = scoredQuotes.map(quote => quote.fitmentScore).filter((score): score is number => score !== null);
+  const averageFitmentScore = mean(fitmentScores);
+  const deadlineDays = deadlineDaysFrom(shipment, now);
+
+  const analysis: DecisionAgentAnalysis = {
+    decision,
+    reasoning,
+    urgency: shipment.urgency,
+    deadlineDays: deadlineDays !== null ? round1(deadlineDays) : null,
+    weights,
+    scoredQuotes,
+    totalQuotesEvaluated: scoredQuotes.length,
+    averageFitmentScore: averageFitmentScore !== null ? round1(averageFitmentScore) : null,
+    topRecommendedQuote: best.quoteId,
+    riskAssessment: riskAssessment(best, evaluation),
+    transit,
+    analysedAt: now.toISOString(),
+    ...(decision === 'defer'
+      ? {
+          deferAnalysis: {
+            estimatedSavings: Math.round(estimatedSavings),
+            holdingCosts: Math.round(holdingCosts),
+            marketTrend: trend,
+            recommendedWaitDays: DECISION_WAIT_DAYS
+          }
+        }
+      : {
+          bookingAnalysis: {
+            selectedVendor: best.carrier,
+            totalCost: best.rate,
+            expectedDeliveryDate: transit ? new Date(now.getTime() + transit.p50Days * MS_PER_DAY).toISOString() : null,
+            riskFactors
+          }
+        })
+  };
+
+  return {
+    decision,
+    deferCost: decision === 'defer' ? Math.round(holdingCosts) : null,
+    deferReason: decision === 'defer' ? reasoning.join(". ") : null,
+    analysis
+  };
+}
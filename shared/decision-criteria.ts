@@ -0,0 +1,61 @@
+// Risk-adjusted criteria for ranking alternatives from their simulated cost and arrival distributions
+import type { DecisionCriterion } from "./schema";
+import type { AlternativeOutcome } from "./alternatives";
+import { StreamingSummary } from "./streaming-summary";
+
+export const DECISION_CRITERION_LABELS: Record<DecisionCriterion['type'], string> = {
+  expectedValue: "Expected cost",
+  cvar: "CVaR",
+  meanVariance: "Mean-variance",
+  onTime: "On-time probability"
+};
+
+// Only the on-time probability is maximised; every other criterion is a cost
+export function prefersHigher(criterion: DecisionCriterion): boolean {
+  return criterion.type === 'onTime';
+}
+
+// Dollars for the cost criteria, percent for on-time delivery
+export function criterionValue(outcome: AlternativeOutcome, criterion: DecisionCriterion): number {
+  switch (criterion.type) {
+    case 'expectedValue':
+      return outcome.costStats.mean;
+    case 'cvar':
+      return StreamingSummary.fromJSON(outcome.sketches.cost).tailMean(criterion.alpha);
+    case 'meanVariance':
+      // Certainty-equivalent cost under exponential utility with absolute risk aversion lambda, for a normal cost
+      return outcome.costStats.mean + (criterion.lambda * outcome.costStats.variance) / 2;
+    case 'onTime':
+      return StreamingSummary.fromJSON(outcome.sketches.arrival).cdf(criterion.deadlineDays) * 100;
+  }
+}
+
+export interface RankedOutcome {
+  outcome: AlternativeOutcome;
+  value: number;
+  rank: number; // 1 is best
+}
+
+// Best first; ties fall back to the lower expected cost
+export function rankOutcomes(outcomes: AlternativeOutcome[], criterion: DecisionCriterion): RankedOutcome[] {
+  const direction = prefersHigher(criterion) ? -1 : 1;
+  return outcomes
+    .map(outcome => ({ outcome, value: criterionValue(outcome, criterion) }))
+    .sort((a, b) => direction * (a.value - b.value) || a.outcome.costStats.mean - b.outcome.costStats.mean)
+    .map((ranked, i) => ({ ...ranked, rank: i + 1 }));
+}
+
+export function bestOutcome(outcomes: AlternativeOutcome[], criterion: DecisionCriterion): AlternativeOutcome | null {
+  return rankOutcomes(outcomes, criterion)[0]?.outcome ?? null;
+}
+
+// Each outcome's mean-variance rank (keyed by outcome key) at every lambda, to show where the ranking flips
+export function meanVarianceRankings(outcomes: AlternativeOutcome[], lambdas: number[]): Array<Record<string, number>> {
+  return lambdas.map(lambda => {
+    const row: Record<string, number> = { lambda };
+    rankOutcomes(outcomes, { type: 'meanVariance', lambda }).forEach(({ outcome, rank }) => {
+      row[outcome.key] = rank;
+    });
+    return row;
+  });
+}
@@ -0,0 +1,536 @@
+// Distribution library shared by the Monte Carlo engine and the factor/segment editors
+import { DISTRIBUTION_TYPES, type DistributionType, type DistributionTruncation } from "./schema";
+import type { RandomSource } from "./random";
+import { normalCdf, normalQuantile } from "./statistics";
+
+// A distribution with every parameter resolved (see defaultDistributionParameters)
+export interface DistributionDefinition {
+  distribution: DistributionType;
+  parameters: Record<string, number>;
+  samples?: number[];
+  truncation?: DistributionTruncation;
+}
+
+export interface DistributionParameterSpec {
+  key: string;
+  label: string;
+}
+
+export interface DistributionSpec {
+  label: string;
+  parameters: DistributionParameterSpec[];
+}
+
+export const DISTRIBUTION_SPECS: Record<DistributionType, DistributionSpec> = {
+  normal: {
+    label: "Normal",
+    parameters: [{ key: "mean", label: "Mean" }, { key: "stdDev", label: "Std Deviation (σ)" }]
+  },
+  lognormal: {
+    label: "Log-Normal",
+    parameters: [{ key: "mu", label: "Log Mean (μ)" }, { key: "sigma", label: "Log Std Dev (σ)" }]
+  },
+  triangle: {
+    label: "Triangular",
+    parameters: [{ key: "min", label: "Min" }, { key: "mode", label: "Mode" }, { key: "max", label: "Max" }]
+  },
+  exponential: {
+    label: "Exponential",
+    parameters: [{ key: "lambda", label: "Rate (λ)" }]
+  },
+  uniform: {
+    label: "Uniform",
+    parameters: [{ key: "min", label: "Min" }, { key: "max", label: "Max" }]
+  },
+  pert: {
+    label: "PERT",
+    parameters: [{ key: "min", label: "Min" }, { key: "mode", label: "Most Likely" }, { key: "max", label: "Max" }]
+  },
+  gamma: {
+    label: "Gamma",
+    parameters: [{ key: "shape", label: "Shape (k)" }, { key: "scale", label: "Scale (θ)" }]
+  },
+  weibull: {
+    label: "Weibull",
+    parameters: [{ key: "shape", label: "Shape (k)" }, { key: "scale", label: "Scale (λ)" }]
+  },
+  beta: {
+    label: "Beta",
+    parameters: [
+      { key: "alpha", label: "Alpha (α)" },
+      { key: "beta", label: "Beta (β)" },
+      { key: "min", label: "Lower Bound" },
+      { key: "max", label: "Upper Bound" }
+    ]
+  },
+  empirical: {
+    label: "Empirical",
+    parameters: []
+  }
+};
+
+export function isDistributionType(value: string): value is DistributionType {
+  return (DISTRIBUTION_TYPES as readonly string[]).includes(value);
+}
+
+// Parameters that centre a distribution on `center` (a multiplier or a number of days)
+export function defaultDistributionParameters(distribution: DistributionType, center: number): Record<string, number> {
+  switch (distribution) {
+    case 'normal':
+      return { mean: center, stdDev: center * 0.1 };
+    case 'lognormal':
+      return { mu: Math.log(center), sigma: 0.2 };
+    case 'triangle':
+    case 'pert':
+      return { min: center * 0.9, mode: center, max: center * 1.1 };
+    case 'exponential':
+      return { lambda: 1 / center };
+    case 'uniform':
+      return { min: center * 0.9, max: center * 1.1 };
+    case 'gamma':
+      // Shape 16 gives a 25% coefficient of variation
+      return { shape: 16, scale: center / 16 };
+    case 'weibull':
+      return { shape: 5, scale: center / Math.exp(lnGamma(1 + 1 / 5)) };
+    case 'beta':
+      return { alpha: 2, beta: 2, min: center * 0.8, max: center * 1.2 };
+    case 'empirical':
+      return {};
+  }
+}
+
+// Special functions
+
+const LANCZOS_COEFFICIENTS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7
+];
+
+const EPSILON = 1e-14;
+const TINY = 1e-300;
+const MAX_ITERATIONS = 200;
+
+function lnGamma(x: number): number {
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - lnGamma(1 - x);
+  }
+  x -= 1;
+  let sum = LANCZOS_COEFFICIENTS[0];
+  for (let i = 1; i < LANCZOS_COEFFICIENTS.length; i++) {
+    sum += LANCZOS_COEFFICIENTS[i] / (x + i);
+  }
+  const t = x + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+// Regularized lower incomplete gamma P(a, x): series below a + 1, continued fraction above
+function regularizedGammaP(a: number, x: number): number {
+  if (x <= 0) return 0;
+  const logPrefix = -x + a * Math.log(x) - lnGamma(a);
+
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < MAX_ITERATIONS; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * EPSILON) break;
+    }
+    return Math.min(1, sum * Math.exp(logPrefix));
+  }
+
+  let b = x + 1 - a;
+  let c = 1 / TINY;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < MAX_ITERATIONS; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = b + an / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+  return Math.max(0, 1 - Math.exp(logPrefix) * h);
+}
+
+function betaContinuedFraction(x: number, a: number, b: number): number {
+  const qab = a + b;
+  const qap = a + 1;
+  const qam = a - 1;
+  let c = 1;
+  let d = 1 - qab * x / qap;
+  if (Math.abs(d) < TINY) d = TINY;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m < MAX_ITERATIONS; m++) {
+    const m2 = 2 * m;
+    let aa = m * (b - m) * x / ((qam + m2) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    h *= d * c;
+
+    aa = -(a + m) * (qab + m) * x / ((a + m2) * (qap + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+  return h;
+}
+
+// Regularized incomplete beta I_x(a, b)
+function regularizedBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(lnGamma(a + b) - lnGamma(a) - lnGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  if (x < (a + 1) / (a + b + 2)) {
+    return front * betaContinuedFraction(x, a, b) / a;
+  }
+  return 1 - front * betaContinuedFraction(1 - x, b, a) / b;
+}
+
+// Safeguarded Newton iteration for distributions without a closed-form quantile
+function invertCdf(
+  u: number,
+  cdf: (x: number) => number,
+  pdf: (x: number) => number,
+  lower: number,
+  upper: number,
+  guess: number
+): number {
+  let lo = lower;
+  let hi = upper;
+  let x = guess;
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const error = cdf(x) - u;
+    if (Math.abs(error) < 1e-12) return x;
+    if (error > 0) hi = x; else lo = x;
+
+    const density = pdf(x);
+    let next = density > 0 ? x - error / density : NaN;
+    if (!(next > lo && next < hi)) {
+      // Newton left the bracket: bisect, or keep doubling while the upper end is still open
+      next = Number.isFinite(hi) ? (lo + hi) / 2 : Math.max(x * 2, 1);
+    }
+    if (Math.abs(next - x) <= 1e-12 * Math.max(1, Math.abs(x))) return next;
+    x = next;
+  }
+  return x;
+}
+
+// Samplers. The parametric forms for normal, lognormal, triangle and exponential are the
+// engine's original ones, so seeded runs keep reproducing the same draws.
+
+function normalRandom(rng: RandomSource, mean: number = 0, stdDev: number = 1): number {
+  let u = 0, v = 0;
+  while(u === 0) u = rng(); // Converting [0,1) to (0,1)
+  while(v === 0) v = rng();
+  const z = Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * v);
+  return z * stdDev + mean;
+}
+
+function triangularQuantile(u: number, min: number, mode: number, max: number): number {
+  const f = (mode - min) / (max - min);
+
+  if (u < f) {
+    return min + Math.sqrt(u * (max - min) * (mode - min));
+  } else {
+    return max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+  }
+}
+
+// Marsaglia–Tsang; shapes below 1 are boosted via Gamma(k) = Gamma(k + 1)·U^(1/k)
+function gammaRandom(rng: RandomSource, shape: number, scale: number): number {
+  if (shape < 1) {
+    let u = 0;
+    while (u === 0) u = rng();
+    return gammaRandom(rng, shape + 1, scale) * Math.pow(u, 1 / shape);
+  }
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  while (true) {
+    let x: number;
+    let v: number;
+    do {
+      x = normalRandom(rng);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = rng();
+    if (u < 1 - 0.0331 * x * x * x * x) return d * v * scale;
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v * scale;
+  }
+}
+
+function betaRandom(rng: RandomSource, alpha: number, beta: number): number {
+  const x = gammaRandom(rng, alpha, 1);
+  const y = gammaRandom(rng, beta, 1);
+  return x / (x + y);
+}
+
+function gammaPdf(x: number, shape: number, scale: number): number {
+  if (x <= 0) return shape < 1 ? Infinity : shape === 1 ? 1 / scale : 0;
+  return Math.exp((shape - 1) * Math.log(x) - x / scale - lnGamma(shape) - shape * Math.log(scale));
+}
+
+function betaPdf(x: number, alpha: number, beta: number): number {
+  if (x <= 0 || x >= 1) return 0;
+  return Math.exp(
+    (alpha - 1) * Math.log(x) + (beta - 1) * Math.log(1 - x) + lnGamma(alpha + beta) - lnGamma(alpha) - lnGamma(beta)
+  );
+}
+
+function gammaQuantile(u: number, shape: number, scale: number): number {
+  const standard = invertCdf(
+    u,
+    x => regularizedGammaP(shape, x),
+    x => gammaPdf(x, shape, 1),
+    0,
+    Infinity,
+    shape
+  );
+  return standard * scale;
+}
+
+function betaQuantile(u: number, alpha: number, beta: number): number {
+  return invertCdf(
+    u,
+    x => regularizedBeta(x, alpha, beta),
+    x => betaPdf(x, alpha, beta),
+    0,
+    1,
+    alpha / (alpha + beta)
+  );
+}
+
+// PERT is a beta distribution rescaled to [min, max] with shape weight 4 on the mode
+function pertShape({ min, mode, max }: Record<string, number>): { alpha: number; beta: number } {
+  const range = max - min;
+  return {
+    alpha: 1 + 4 * (mode - min) / range,
+    beta: 1 + 4 * (max - mode) / range
+  };
+}
+
+// Sorted copies of empirical samples, keyed by the samples array so each run sorts once
+const sortedSamplesCache = new WeakMap<number[], number[]>();
+
+function getSortedSamples(samples: number[]): number[] {
+  let sorted = sortedSamplesCache.get(samples);
+  if (!sorted) {
+    sorted = [...samples].sort((a, b) => a - b);
+    sortedSamplesCache.set(samples, sorted);
+  }
+  return sorted;
+}
+
+interface DistributionFunctions {
+  sample: (rng: RandomSource, p: Record<string, number>, samples: number[]) => number;
+  quantile: (u: number, p: Record<string, number>, samples: number[]) => number;
+  cdf: (x: number, p: Record<string, number>, samples: number[]) => number;
+  pdf: (x: number, p: Record<string, number>, samples: number[]) => number;
+}
+
+const DISTRIBUTIONS: Record<DistributionType, DistributionFunctions> = {
+  normal: {
+    sample: (rng, p) => normalRandom(rng, p.mean, p.stdDev),
+    quantile: (u, p) => p.mean + p.stdDev * normalQuantile(u),
+    cdf: (x, p) => normalCdf((x - p.mean) / p.stdDev),
+    pdf: (x, p) => Math.exp(-0.5 * ((x - p.mean) / p.stdDev) ** 2) / (p.stdDev * Math.sqrt(2 * Math.PI))
+  },
+  lognormal: {
+    sample: (rng, p) => Math.exp(p.mu + p.sigma * normalRandom(rng, 0, 1)),
+    quantile: (u, p) => Math.exp(p.mu + p.sigma * normalQuantile(u)),
+    cdf: (x, p) => x <= 0 ? 0 : normalCdf((Math.log(x) - p.mu) / p.sigma),
+    pdf: (x, p) => x <= 0
+      ? 0
+      : Math.exp(-0.5 * ((Math.log(x) - p.mu) / p.sigma) ** 2) / (x * p.sigma * Math.sqrt(2 * Math.PI))
+  },
+  triangle: {
+    sample: (rng, p) => triangularQuantile(rng(), p.min, p.mode, p.max),
+    quantile: (u, p) => triangularQuantile(u, p.min, p.mode, p.max),
+    cdf: (x, p) => {
+      if (x <= p.min) return 0;
+      if (x >= p.max) return 1;
+      const range = p.max - p.min;
+      return x <= p.mode
+        ? (x - p.min) ** 2 / (range * (p.mode - p.min))
+        : 1 - (p.max - x) ** 2 / (range * (p.max - p.mode));
+    },
+    pdf: (x, p) => {
+      if (x < p.min || x > p.max) return 0;
+      const range = p.max - p.min;
+      return x <= p.mode
+        ? 2 * (x - p.min) / (range * (p.mode - p.min))
+        : 2 * (p.max - x) / (range * (p.max - p.mode));
+    }
+  },
+  exponential: {
+    sample: (rng, p) => -Math.log(1 - rng()) / p.lambda,
+    quantile: (u, p) => -Math.log(1 - u) / p.lambda,
+    cdf: (x, p) => x <= 0 ? 0 : 1 - Math.exp(-p.lambda * x),
+    pdf: (x, p) => x < 0 ? 0 : p.lambda * Math.exp(-p.lambda * x)
+  },
+  uniform: {
+    sample: (rng, p) => p.min + (p.max - p.min) * rng(),
+    quantile: (u, p) => p.min + (p.max - p.min) * u,
+    cdf: (x, p) => Math.min(1, Math.max(0, (x - p.min) / (p.max - p.min))),
+    pdf: (x, p) => x < p.min || x > p.max ? 0 : 1 / (p.max - p.min)
+  },
+  pert: {
+    sample: (rng, p) => {
+      const { alpha, beta } = pertShape(p);
+      return p.min + (p.max - p.min) * betaRandom(rng, alpha, beta);
+    },
+    quantile: (u, p) => {
+      const { alpha, beta } = pertShape(p);
+      return p.min + (p.max - p.min) * betaQuantile(u, alpha, beta);
+    },
+    cdf: (x, p) => {
+      const { alpha, beta } = pertShape(p);
+      return regularizedBeta((x - p.min) / (p.max - p.min), alpha, beta);
+    },
+    pdf: (x, p) => {
+      const { alpha, beta } = pertShape(p);
+      return betaPdf((x - p.min) / (p.max - p.min), alpha, beta) / (p.max - p.min);
+    }
+  },
+  gamma: {
+    sample: (rng, p) => gammaRandom(rng, p.shape, p.scale),
+    quantile: (u, p) => gammaQuantile(u, p.shape, p.scale),
+    cdf: (x, p) => regularizedGammaP(p.shape, x / p.scale),
+    pdf: (x, p) => gammaPdf(x, p.shape, p.scale)
+  },
+  weibull: {
+    sample: (rng, p) => p.scale * Math.pow(-Math.log(1 - rng()), 1 / p.shape),
+    quantile: (u, p) => p.scale * Math.pow(-Math.log(1 - u), 1 / p.shape),
+    cdf: (x, p) => x <= 0 ? 0 : 1 - Math.exp(-Math.pow(x / p.scale, p.shape)),
+    pdf: (x, p) => x < 0
+      ? 0
+      : (p.shape / p.scale) * Math.pow(x / p.scale, p.shape - 1) * Math.exp(-Math.pow(x / p.scale, p.shape))
+  },
+  beta: {
+    sample: (rng, p) => p.min + (p.max - p.min) * betaRandom(rng, p.alpha, p.beta),
+    quantile: (u, p) => p.min + (p.max - p.min) * betaQuantile(u, p.alpha, p.beta),
+    cdf: (x, p) => regularizedBeta((x - p.min) / (p.max - p.min), p.alpha, p.beta),
+    pdf: (x, p) => betaPdf((x - p.min) / (p.max - p.min), p.alpha, p.beta) / (p.max - p.min)
+  },
+  empirical: {
+    // Bootstrap: every observed value is equally likely
+    sample: (rng, _p, samples) => samples[Math.floor(rng() * samples.length)],
+    quantile: (u, _p, samples) => {
+      const sorted = getSortedSamples(samples);
+      return sorted[Math.min(sorted.length - 1, Math.floor(u * sorted.length))];
+    },
+    cdf: (x, _p, samples) => {
+      // Binary search for the number of samples <= x
+      const sorted = getSortedSamples(samples);
+      let lo = 0;
+      let hi = sorted.length;
+      while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (sorted[mid] <= x) lo = mid + 1; else hi = mid;
+      }
+      return lo / sorted.length;
+    },
+    pdf: () => 0 // Discrete; distributionDensity bins the samples instead
+  }
+};
+
+function getTruncationBounds(definition: DistributionDefinition): { lower: number; upper: number } | null {
+  const { truncation } = definition;
+  if (!truncation || (truncation.min === undefined && truncation.max === undefined)) return null;
+
+  const { cdf } = DISTRIBUTIONS[definition.distribution];
+  const samples = definition.samples ?? [];
+  return {
+    lower: truncation.min !== undefined ? cdf(truncation.min, definition.parameters, samples) : 0,
+    upper: truncation.max !== undefined ? cdf(truncation.max, definition.parameters, samples) : 1
+  };
+}
+
+function clampToTruncation(value: number, truncation?: DistributionTruncation): number {
+  if (truncation?.min !== undefined && value < truncation.min) return truncation.min;
+  if (truncation?.max !== undefined && value > truncation.max) return truncation.max;
+  return value;
+}
+
+export function distributionQuantile(definition: DistributionDefinition, u: number): number {
+  const { quantile } = DISTRIBUTIONS[definition.distribution];
+  const samples = definition.samples ?? [];
+  const bounds = getTruncationBounds(definition);
+  if (!bounds) return quantile(u, definition.parameters, samples);
+
+  // Rescale u into the CDF mass left between the bounds
+  const scaled = bounds.lower + u * Math.max(0, bounds.upper - bounds.lower);
+  return clampToTruncation(quantile(scaled, definition.parameters, samples), definition.truncation);
+}
+
+export function distributionCdf(definition: DistributionDefinition, x: number): number {
+  const { cdf } = DISTRIBUTIONS[definition.distribution];
+  const value = cdf(x, definition.parameters, definition.samples ?? []);
+  const bounds = getTruncationBounds(definition);
+  if (!bounds) return value;
+
+  const mass = bounds.upper - bounds.lower;
+  if (mass <= 0) return x >= (definition.truncation?.min ?? -Infinity) ? 1 : 0;
+  return Math.min(1, Math.max(0, (value - bounds.lower) / mass));
+}
+
+// Draws one value; a copula `uniform` switches to inverse-CDF sampling so the draw follows it
+export function sampleDistribution(definition: DistributionDefinition, rng: RandomSource, uniform?: number): number {
+  if (uniform !== undefined || getTruncationBounds(definition)) {
+    return distributionQuantile(definition, uniform ?? rng());
+  }
+  return DISTRIBUTIONS[definition.distribution].sample(rng, definition.parameters, definition.samples ?? []);
+}
+
+// Density curve for previews, spanning the 0.5th-99.5th percentiles (or the truncation bounds)
+export function distributionDensity(
+  definition: DistributionDefinition,
+  points: number = 60
+): Array<{ value: number; density: number }> {
+  const lower = distributionQuantile(definition, 0.005);
+  const upper = distributionQuantile(definition, 0.995);
+  if (!Number.isFinite(lower) || !Number.isFinite(upper) || upper <= lower) return [];
+
+  if (definition.distribution === 'empirical') {
+    const samples = (definition.samples ?? []).filter(sample => sample >= lower && sample <= upper);
+    const bins = Math.min(20, Math.max(5, Math.round(Math.sqrt(samples.length))));
+    const width = (upper - lower) / bins;
+    const counts = new Array<number>(bins).fill(0);
+    for (const sample of samples) {
+      counts[Math.min(bins - 1, Math.floor((sample - lower) / width))]++;
+    }
+    return counts.map((count, i) => ({
+      value: lower + (i + 0.5) * width,
+      density: samples.length > 0 ? count / (samples.length * width) : 0
+    }));
+  }
+
+  const { pdf } = DISTRIBUTIONS[definition.distribution];
+  const bounds = getTruncationBounds(definition);
+  const mass = bounds ? bounds.upper - bounds.lower : 1;
+  const step = (upper - lower) / (points - 1);
+
+  return Array.from({ length: points }, (_, i) => {
+    const value = lower + i * step;
+    const density = pdf(value, definition.parameters, definition.samples ?? []);
+    return { value, density: mass > 0 && Number.isFinite(density) ? density / mass : 0 };
+  });
+}
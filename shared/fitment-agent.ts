@@ -0,0 +1,240 @@
+// Rule-based fitment agent: rates how well each quote fits the shipment on the six AgentFitmentFactors and turns
+// the weighted rating into ACCEPT, CONDITIONAL or REJECT. Pure so it can be checked without storage.
+import type { AgentFitmentFactors, InsertVendorEvaluation, Quote, QuoteEvaluation, Shipment } from "./schema";
+import type { TransitRisk } from "./decision-agent";
+import type { CarrierRecord } from "./carrier-scorecard";
+
+export const FITMENT_AGENT_NAME = "Fitment Evaluation Agent";
+
+const ACCEPT_RATING = 75;
+const REJECT_RATING = 50;
+const WEAK_FACTOR = 50; // An ACCEPT needs every factor at or above this
+const TRACK_RECORD_HALF_LIFE = 10; // Invoices at which the track record is halfway to full credit
+const MAX_BILLING_DEVIATION = 0.2; // Mean |log residual| at which billing accuracy scores zero
+const UNVERIFIED_REQUIREMENT_PENALTY = 15; // The carrier is not in master data, so its services are unknown
+const MISSING_SERVICE_PENALTY = 30; // Master data says the carrier does not offer it
+const UNSERVED_LANE_PENALTY = 20;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+type FitmentWeights = Record<keyof AgentFitmentFactors, number>;
+
+const FITMENT_WEIGHTS: Record<string, FitmentWeights> = {
+  high: {
+    priceScore: 0.15, transitTimeScore: 0.3, carrierReliabilityScore: 0.15,
+    capacityAvailabilityScore: 0.1, serviceQualityScore: 0.1, complianceScore: 0.2
+  },
+  medium: {
+    priceScore: 0.25, transitTimeScore: 0.2, carrierReliabilityScore: 0.15,
+    capacityAvailabilityScore: 0.1, serviceQualityScore: 0.1, complianceScore: 0.2
+  },
+  low: {
+    priceScore: 0.35, transitTimeScore: 0.1, carrierReliabilityScore: 0.15,
+    capacityAvailabilityScore: 0.1, serviceQualityScore: 0.1, complianceScore: 0.2
+  }
+};
+
+// The carrier's invoices on the quote's lane, from the lane ratio fit
+export interface CarrierHistory {
+  invoices: number;
+  premium: number | null; // Multiplier over the lane average; null while the carrier is pooled
+  billingDeviation: number | null; // Mean |ln(invoice / fitted)|; null without invoices
+}
+
+export interface FitmentQuoteInput {
+  quote: Quote;
+  evaluation: QuoteEvaluation | null; // null when the quote has no lane
+  transit: TransitRisk | null;
+  history: CarrierHistory | null;
+  carrier: CarrierRecord | null; // null when the carrier is not in master data
+  peerRates: number[]; // Every quote for the shipment, to rank quotes that have no lane
+}
+
+export class FitmentAgentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FitmentAgentError";
+  }
+}
+
+// Left in processData.fitmentError when the agent fails as the process enters agent evaluation
+export interface FitmentFailure {
+  message: string;
+  failedAt: string; // ISO timestamp
+}
+
+export type FitmentEvaluation = Omit<InsertVendorEvaluation, 'processId'> & { fitmentFactors: AgentFitmentFactors };
+
+function clampScore(value: number): number {
+  return Math.round(Math.min(100, Math.max(0, value)));
+}
+
+function humanise(key: string): string {
+  return key.replace(/_/g, ' ');
+}
+
+function percent(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function requirementEntries(shipment: Shipment): [string, unknown][] {
+  const requirements = shipment.specialRequirements;
+  if (!requirements || typeof requirements !== 'object') return [];
+  return Object.entries(requirements as Record<string, unknown>)
+    .filter(([, value]) => value !== false && value !== null && value !== undefined && value !== '');
+}
+
+// Truthy entries of the free-form specialRequirements object, e.g. "customs clearance: express"
+export function shipmentRequirements(shipment: Shipment): string[] {
+  return requirementEntries(shipment)
+    .map(([key, value]) => (value === true ? humanise(key) : `${humanise(key)}: ${humanise(String(value))}`));
+}
+
+// The carrier service each requirement needs, in the lower-case form carriers list services in
+export function requiredServices(shipment: Shipment): string[] {
+  return requirementEntries(shipment).map(([key]) => humanise(key).toLowerCase());
+}
+
+export function evaluateFitment(shipment: Shipment, input: FitmentQuoteInput, now: Date = new Date()): FitmentEvaluation {
+  const { quote, evaluation, transit, history, carrier } = input;
+  const scorecard = carrier && carrier.scorecard.bookings > 0 ? carrier.scorecard : null;
+  const strengths: string[] = [];
+  const concerns: string[] = [];
+
+  // Price: the quote's place in the lane's simulated rates, or among the other quotes without a lane
+  let priceScore: number;
+  if (evaluation) {
+    priceScore = 100 - evaluation.percentile;
+    if (evaluation.percentile <= 25) strengths.push(`Rate in the cheapest quarter of simulated rates (${Math.round(evaluation.percentile)}th percentile)`);
+    if (evaluation.recommendation === 'NEGOTIATE' || evaluation.recommendation === 'REJECT') {
+      concerns.push(`Rate at the ${Math.round(evaluation.percentile)}th percentile of simulated rates (${evaluation.recommendation})`);
+    }
+  } else {
+    const min = Math.min(...input.peerRates);
+    const max = Math.max(...input.peerRates);
+    priceScore = max > min ? (100 * (max - quote.rate)) / (max - min) : 50;
+    concerns.push("No lane to benchmark the rate against");
+  }
+
+  // Transit: simulated on-time probability, or the spread of transit times when there is no deadline
+  let transitTimeScore = 50;
+  if (transit) {
+    if (transit.onTimeProbability !== null) {
+      transitTimeScore = transit.onTimeProbability;
+      if (transit.onTimeProbability >= 95) strengths.push(`${Math.round(transit.onTimeProbability)}% simulated chance of arriving on time`);
+      if (transit.onTimeProbability < 80) concerns.push(`${Math.round(100 - transit.onTimeProbability)}% simulated chance of missing the delivery date`);
+    } else {
+      transitTimeScore = (100 * transit.p50Days) / transit.p90Days;
+    }
+  } else {
+    concerns.push("No lane simulation for transit risk");
+  }
+
+  // Reliability: the carrier's recorded on-time and roll rates, or else how much it has moved on this lane before
+  let carrierReliabilityScore = 40;
+  if (scorecard) {
+    carrierReliabilityScore = scorecard.reliabilityScore;
+    const onTime = `${percent(scorecard.onTimeRate!)} on time over ${scorecard.bookings} bookings in ${scorecard.windowDays} days`;
+    if (scorecard.reliabilityScore >= 75) strengths.push(onTime);
+    if (scorecard.reliabilityScore < 60) concerns.push(onTime);
+    if (scorecard.rollRate! > 0.1) concerns.push(`${percent(scorecard.rollRate!)} of bookings rolled to a later sailing`);
+  } else if (history && history.invoices > 0) {
+    carrierReliabilityScore = 40 + (60 * history.invoices) / (history.invoices + TRACK_RECORD_HALF_LIFE);
+    if (carrierReliabilityScore >= 70) strengths.push(`Track record of ${history.invoices} invoices on this lane`);
+  } else {
+    concerns.push(`No invoice history with ${quote.carrier} on this lane`);
+  }
+
+  // Service quality: recorded damage and invoice accuracy, or else how closely invoices follow the lane model
+  let serviceQualityScore = 50;
+  if (scorecard) {
+    serviceQualityScore = scorecard.serviceScore;
+    if (scorecard.damageRate! > 0.02) concerns.push(`Damage on ${percent(scorecard.damageRate!)} of bookings`);
+    if (scorecard.invoiceVariance !== null && scorecard.invoiceVariance > 0.03) {
+      concerns.push(`Invoices run ${percent(scorecard.invoiceVariance)} over the booked rate on average`);
+    }
+    if (scorecard.damageRate === 0 && scorecard.invoiceDeviation !== null && scorecard.invoiceDeviation < 0.02) {
+      strengths.push("No damage and invoices match booked rates");
+    }
+  } else if (history?.billingDeviation != null) {
+    serviceQualityScore = 100 * (1 - history.billingDeviation / MAX_BILLING_DEVIATION);
+    if (history.billingDeviation < 0.05) strengths.push("Consistent invoicing against the lane index");
+    if (history.billingDeviation > 0.1) concerns.push(`Invoices deviate ${Math.round(history.billingDeviation * 100)}% from the lane model on average`);
+  }
+  if (history?.premium != null) {
+    if (history.premium > 1.05) concerns.push(`Invoices run ${Math.round((history.premium - 1) * 100)}% above the lane average`);
+    if (history.premium < 0.97) strengths.push(`Invoices run ${Math.round((1 - history.premium) * 100)}% below the lane average`);
+  }
+
+  // Capacity: space is only held while the quote is valid
+  let capacityAvailabilityScore = 70;
+  if (quote.validUntil) {
+    const daysLeft = (new Date(quote.validUntil).getTime() - now.getTime()) / MS_PER_DAY;
+    if (daysLeft < 0) {
+      capacityAvailabilityScore = 0;
+      concerns.push("Quote has expired");
+    } else if (daysLeft < 3) {
+      const days = Math.max(1, Math.round(daysLeft));
+      capacityAvailabilityScore = 50;
+      concerns.push(`Quote expires in ${days} day${days === 1 ? '' : 's'}`);
+    } else {
+      capacityAvailabilityScore = 70 + daysLeft * 3;
+    }
+  } else {
+    concerns.push("Quote validity not stated");
+  }
+  if (carrier?.servesLane === false) {
+    capacityAvailabilityScore -= UNSERVED_LANE_PENALTY;
+    concerns.push(`${carrier.name} does not list this lane among those it serves`);
+  }
+
+  // Compliance: special requirements against the services in the carrier's master data, or left to confirm
+  const requirements = shipmentRequirements(shipment);
+  const services = requiredServices(shipment);
+  let complianceScore = 100;
+  if (requirements.length === 0) {
+    strengths.push("No special requirements to meet");
+  } else if (carrier) {
+    const missing = requirements.filter((_, i) => !carrier.services.includes(services[i]));
+    complianceScore -= Math.min(100, missing.length * MISSING_SERVICE_PENALTY);
+    if (missing.length === 0) {
+      strengths.push(`${carrier.name} offers every special requirement`);
+    } else {
+      concerns.push(`${carrier.name} does not list: ${missing.join(", ")}`);
+    }
+  } else {
+    complianceScore -= Math.min(60, requirements.length * UNVERIFIED_REQUIREMENT_PENALTY);
+    concerns.push(`Confirm with ${quote.carrier}: ${requirements.join(", ")}`);
+  }
+
+  const fitmentFactors: AgentFitmentFactors = {
+    priceScore: clampScore(priceScore),
+    transitTimeScore: clampScore(transitTimeScore),
+    carrierReliabilityScore: clampScore(carrierReliabilityScore),
+    capacityAvailabilityScore: clampScore(capacityAvailabilityScore),
+    serviceQualityScore: clampScore(serviceQualityScore),
+    complianceScore: clampScore(complianceScore)
+  };
+
+  const weights = FITMENT_WEIGHTS[shipment.urgency] ?? FITMENT_WEIGHTS.medium;
+  const ratingScore = Math.round((Object.keys(weights) as (keyof AgentFitmentFactors)[])
+    .reduce((sum, factor) => sum + weights[factor] * fitmentFactors[factor], 0) * 10) / 10;
+
+  const weakest = Math.min(...Object.values(fitmentFactors));
+  let recommendation: 'ACCEPT' | 'CONDITIONAL' | 'REJECT' = 'CONDITIONAL';
+  if (ratingScore < REJECT_RATING || fitmentFactors.capacityAvailabilityScore === 0 || evaluation?.recommendation === 'REJECT') {
+    recommendation = 'REJECT';
+  } else if (ratingScore >= ACCEPT_RATING && weakest >= WEAK_FACTOR) {
+    recommendation = 'ACCEPT';
+  }
+
+  return {
+    quoteId: quote.id,
+    agentName: FITMENT_AGENT_NAME,
+    ratingScore,
+    fitmentFactors,
+    strengths,
+    concerns,
+    recommendation
+  };
+}
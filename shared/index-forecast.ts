@@ -0,0 +1,433 @@
+// Index forecasting: drift + GBM, mean-reverting Ornstein–Uhlenbeck and seasonal decomposition, each fitted to log
+// index values and reduced to a lognormal distribution of the index at a horizon, plus rolling-origin backtests
+import { dateToDays, daysToDate, type IndexPoint } from "./index-series";
+import { normalQuantile } from "./statistics";
+
+export const FORECAST_MODELS = ['gbm', 'ou', 'seasonal'] as const;
+export type ForecastModelType = typeof FORECAST_MODELS[number];
+
+export const FORECAST_MODEL_LABELS: Record<ForecastModelType, string> = {
+  gbm: 'Drift + GBM',
+  ou: 'Mean-reverting (OU)',
+  seasonal: 'Seasonal decomposition'
+};
+
+const DAYS_PER_YEAR = 365;
+const SEASON_BUCKETS = 53; // Week of year, 0-52
+const MIN_OBSERVATIONS: Record<ForecastModelType, number> = { gbm: 3, ou: 10, seasonal: 26 };
+const MAX_BACKTEST_ORIGINS = 40;
+const BACKTEST_START = 0.6; // Origins start once this share of the series is available for fitting
+const PATH_STEP_DAYS = 7;
+
+export class IndexForecastError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IndexForecastError";
+  }
+}
+
+interface FittedModelBase {
+  lastDate: string;
+  lastValue: number;
+  observations: number;
+}
+
+// Rates are per year on the log index
+export interface GbmModel extends FittedModelBase {
+  type: 'gbm';
+  drift: number; // Mean log change per year, i.e. μ − σ²/2
+  volatility: number;
+}
+
+export interface OrnsteinUhlenbeckModel extends FittedModelBase {
+  type: 'ou';
+  meanReversion: number; // κ; the half-life is ln 2 / κ years
+  longRunLevel: number; // exp(θ), the index level the log process reverts to
+  volatility: number;
+}
+
+export interface SeasonalModel extends FittedModelBase {
+  type: 'seasonal';
+  originDate: string; // Trend time is measured in years from here
+  intercept: number;
+  trend: number; // Log change per year
+  seasonal: number[]; // Centred log offset per week of year
+  residualStdDev: number;
+}
+
+export type FittedForecastModel = GbmModel | OrnsteinUhlenbeckModel | SeasonalModel;
+
+// The index at the horizon is lognormal; samples are compared with currentIndex, the level the forecast starts from
+export interface IndexForecastDistribution {
+  model: ForecastModelType;
+  horizonDays: number;
+  currentIndex: number;
+  logMean: number;
+  logStdDev: number;
+}
+
+export interface ForecastPathPoint {
+  date: string;
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+export interface ForecastBacktest {
+  horizonDays: number;
+  count: number;
+  mae: number;
+  rmse: number;
+  mape: number; // %
+  coverage: number; // % of actuals inside the P10-P90 band; ~80 when the spread is well calibrated
+}
+
+export interface IndexForecastModelReport {
+  model: ForecastModelType;
+  fit: FittedForecastModel;
+  forecast: { mean: number; p10: number; p50: number; p90: number };
+  distribution: IndexForecastDistribution;
+  path: ForecastPathPoint[];
+  backtest: ForecastBacktest | null;
+}
+
+export interface IndexForecastReport {
+  asOf: string;
+  lastValue: number;
+  horizonDays: number;
+  selectedModel: ForecastModelType;
+  models: IndexForecastModelReport[];
+  skipped: { model: ForecastModelType; reason: string }[];
+}
+
+function clampUnit(u: number): number {
+  return Math.min(1 - 1e-12, Math.max(1e-12, u));
+}
+
+function dayOfYear(days: number): number {
+  const date = daysToDate(days);
+  return days - dateToDays(`${date.slice(0, 4)}-01-01`);
+}
+
+function seasonBucket(days: number): number {
+  return Math.min(SEASON_BUCKETS - 1, Math.floor(dayOfYear(days) / 7));
+}
+
+function fitGbm(points: IndexPoint[], base: FittedModelBase): GbmModel {
+  let totalChange = 0;
+  let totalYears = 0;
+  for (let i = 1; i < points.length; i++) {
+    totalChange += Math.log(points[i].value / points[i - 1].value);
+    totalYears += (dateToDays(points[i].date) - dateToDays(points[i - 1].date)) / DAYS_PER_YEAR;
+  }
+  if (!(totalYears > 0)) throw new IndexForecastError("Observations must span more than one date");
+  const drift = totalChange / totalYears;
+
+  // Each change is scaled by its own gap so irregular spacing still gives an annual variance
+  let squares = 0;
+  for (let i = 1; i < points.length; i++) {
+    const years = (dateToDays(points[i].date) - dateToDays(points[i - 1].date)) / DAYS_PER_YEAR;
+    if (years <= 0) continue;
+    squares += (Math.log(points[i].value / points[i - 1].value) - drift * years) ** 2 / years;
+  }
+  return { ...base, type: 'gbm', drift, volatility: Math.sqrt(squares / (points.length - 2)) };
+}
+
+// Exact discretisation of the OU process: x[t+Δ] = a + b·x[t] + ε at the series' average spacing Δ
+function fitOrnsteinUhlenbeck(points: IndexPoint[], base: FittedModelBase): OrnsteinUhlenbeckModel {
+  const logs = points.map(point => Math.log(point.value));
+  const spacingYears = (dateToDays(base.lastDate) - dateToDays(points[0].date)) / (points.length - 1) / DAYS_PER_YEAR;
+  if (!(spacingYears > 0)) throw new IndexForecastError("Observations must span more than one date");
+
+  const n = logs.length - 1;
+  let meanX = 0;
+  let meanY = 0;
+  for (let i = 0; i < n; i++) {
+    meanX += logs[i] / n;
+    meanY += logs[i + 1] / n;
+  }
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (logs[i] - meanX) * (logs[i + 1] - meanY);
+    variance += (logs[i] - meanX) ** 2;
+  }
+  if (!(variance > 0)) throw new IndexForecastError("Index is constant over the range; nothing to mean-revert");
+
+  // A unit root (b ≥ 1) is clamped to very slow reversion around the sample mean rather than rejected
+  const rawSlope = covariance / variance;
+  const slope = Math.min(0.9999, Math.max(1e-4, rawSlope));
+  const longRunLog = rawSlope === slope ? (meanY - slope * meanX) / (1 - slope) : logs.reduce((sum, x) => sum + x, 0) / logs.length;
+  const intercept = longRunLog * (1 - slope);
+
+  let residuals = 0;
+  for (let i = 0; i < n; i++) {
+    residuals += (logs[i + 1] - intercept - slope * logs[i]) ** 2;
+  }
+  const residualVariance = residuals / Math.max(1, n - 2);
+  const meanReversion = -Math.log(slope) / spacingYears;
+  return {
+    ...base,
+    type: 'ou',
+    meanReversion,
+    longRunLevel: Math.exp(longRunLog),
+    volatility: Math.sqrt((residualVariance * 2 * meanReversion) / (1 - slope * slope))
+  };
+}
+
+// Log index = linear trend + week-of-year offset + noise; needs a full year so every season is seen
+function fitSeasonal(points: IndexPoint[], base: FittedModelBase): SeasonalModel {
+  const originDate = points[0].date;
+  const origin = dateToDays(originDate);
+  const spanDays = dateToDays(base.lastDate) - origin;
+  if (spanDays < DAYS_PER_YEAR) {
+    throw new IndexForecastError(`Seasonal decomposition needs a year of history; the range covers ${Math.round(spanDays)} days`);
+  }
+
+  const times = points.map(point => (dateToDays(point.date) - origin) / DAYS_PER_YEAR);
+  const logs = points.map(point => Math.log(point.value));
+  const n = points.length;
+  const meanT = times.reduce((sum, t) => sum + t, 0) / n;
+  const meanX = logs.reduce((sum, x) => sum + x, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (times[i] - meanT) * (logs[i] - meanX);
+    variance += (times[i] - meanT) ** 2;
+  }
+  const trend = covariance / variance;
+  const intercept = meanX - trend * meanT;
+
+  const sums = new Array<number>(SEASON_BUCKETS).fill(0);
+  const counts = new Array<number>(SEASON_BUCKETS).fill(0);
+  const buckets = points.map(point => seasonBucket(dateToDays(point.date)));
+  for (let i = 0; i < n; i++) {
+    sums[buckets[i]] += logs[i] - intercept - trend * times[i];
+    counts[buckets[i]]++;
+  }
+  const offsets = sums.map((sum, bucket) => (counts[bucket] > 0 ? sum / counts[bucket] : 0));
+  const observed = offsets.filter((_, bucket) => counts[bucket] > 0);
+  const centre = observed.reduce((sum, offset) => sum + offset, 0) / observed.length;
+  const seasonal = offsets.map((offset, bucket) => (counts[bucket] > 0 ? offset - centre : 0));
+
+  let residuals = 0;
+  for (let i = 0; i < n; i++) {
+    residuals += (logs[i] - intercept - centre - trend * times[i] - seasonal[buckets[i]]) ** 2;
+  }
+  const degreesOfFreedom = Math.max(1, n - 2 - observed.length);
+  return {
+    ...base,
+    type: 'seasonal',
+    originDate,
+    intercept: intercept + centre,
+    trend,
+    seasonal,
+    residualStdDev: Math.sqrt(residuals / degreesOfFreedom)
+  };
+}
+
+// Points must be sorted by date
+export function fitForecastModel(model: ForecastModelType, points: IndexPoint[]): FittedForecastModel {
+  if (points.length < MIN_OBSERVATIONS[model]) {
+    throw new IndexForecastError(
+      `${FORECAST_MODEL_LABELS[model]} needs at least ${MIN_OBSERVATIONS[model]} observations; got ${points.length}`
+    );
+  }
+  const last = points[points.length - 1];
+  const base: FittedModelBase = { lastDate: last.date, lastValue: last.value, observations: points.length };
+  switch (model) {
+    case 'gbm':
+      return fitGbm(points, base);
+    case 'ou':
+      return fitOrnsteinUhlenbeck(points, base);
+    case 'seasonal':
+      return fitSeasonal(points, base);
+  }
+}
+
+// Horizon is counted in days from the model's last observation
+export function forecastDistribution(model: FittedForecastModel, horizonDays: number): IndexForecastDistribution {
+  const years = horizonDays / DAYS_PER_YEAR;
+  const current = Math.log(model.lastValue);
+  let logMean: number;
+  let logVariance: number;
+
+  switch (model.type) {
+    case 'gbm':
+      logMean = current + model.drift * years;
+      logVariance = model.volatility ** 2 * years;
+      break;
+    case 'ou': {
+      const longRun = Math.log(model.longRunLevel);
+      const kappa = model.meanReversion;
+      logMean = longRun + (current - longRun) * Math.exp(-kappa * years);
+      logVariance = (model.volatility ** 2 * (1 - Math.exp(-2 * kappa * years))) / (2 * kappa);
+      break;
+    }
+    case 'seasonal': {
+      const target = dateToDays(model.lastDate) + horizonDays;
+      const t = (target - dateToDays(model.originDate)) / DAYS_PER_YEAR;
+      logMean = model.intercept + model.trend * t + model.seasonal[seasonBucket(target)];
+      logVariance = model.residualStdDev ** 2;
+      break;
+    }
+  }
+
+  return {
+    model: model.type,
+    horizonDays,
+    currentIndex: model.lastValue,
+    logMean,
+    logStdDev: Math.sqrt(Math.max(0, logVariance))
+  };
+}
+
+export function forecastQuantile(distribution: IndexForecastDistribution, p: number): number {
+  return Math.exp(distribution.logMean + distribution.logStdDev * normalQuantile(clampUnit(p)));
+}
+
+export function forecastMean(distribution: IndexForecastDistribution): number {
+  return Math.exp(distribution.logMean + distribution.logStdDev ** 2 / 2);
+}
+
+// Sampled index over the starting level, from one uniform draw
+export function sampleIndexRatio(distribution: IndexForecastDistribution, u: number): number {
+  return forecastQuantile(distribution, u) / distribution.currentIndex;
+}
+
+export function forecastPath(model: FittedForecastModel, horizonDays: number): ForecastPathPoint[] {
+  const start = dateToDays(model.lastDate);
+  const path: ForecastPathPoint[] = [{ date: model.lastDate, p10: model.lastValue, p50: model.lastValue, p90: model.lastValue }];
+  for (let day = PATH_STEP_DAYS; day < horizonDays + PATH_STEP_DAYS; day += PATH_STEP_DAYS) {
+    const horizon = Math.min(day, horizonDays);
+    const distribution = forecastDistribution(model, horizon);
+    path.push({
+      date: daysToDate(start + horizon),
+      p10: forecastQuantile(distribution, 0.1),
+      p50: forecastQuantile(distribution, 0.5),
+      p90: forecastQuantile(distribution, 0.9)
+    });
+  }
+  return path;
+}
+
+// Rolling origin: refit on everything up to each origin, forecast the first observation at least horizonDays later
+// and score the median against it. Origins that cannot be fitted (e.g. too short for seasonality) are skipped.
+export function backtestForecastModel(
+  model: ForecastModelType,
+  points: IndexPoint[],
+  horizonDays: number
+): ForecastBacktest | null {
+  const first = Math.max(MIN_OBSERVATIONS[model], Math.floor(points.length * BACKTEST_START)) - 1;
+  const candidates: number[] = [];
+  let target = 0;
+  for (let origin = first; origin < points.length - 1; origin++) {
+    const targetDays = dateToDays(points[origin].date) + horizonDays;
+    if (target <= origin) target = origin + 1;
+    while (target < points.length && dateToDays(points[target].date) < targetDays) target++;
+    if (target >= points.length) break;
+    candidates.push(origin);
+  }
+  if (candidates.length === 0) return null;
+
+  const stride = Math.max(1, Math.ceil(candidates.length / MAX_BACKTEST_ORIGINS));
+  let count = 0;
+  let absolute = 0;
+  let squared = 0;
+  let percentage = 0;
+  let covered = 0;
+  for (let c = 0; c < candidates.length; c += stride) {
+    const origin = candidates[c];
+    const originDays = dateToDays(points[origin].date);
+    let t = origin + 1;
+    while (dateToDays(points[t].date) < originDays + horizonDays) t++;
+
+    let fitted: FittedForecastModel;
+    try {
+      fitted = fitForecastModel(model, points.slice(0, origin + 1));
+    } catch (error) {
+      if (error instanceof IndexForecastError) continue;
+      throw error;
+    }
+    const distribution = forecastDistribution(fitted, dateToDays(points[t].date) - originDays);
+    const actual = points[t].value;
+    const error = forecastQuantile(distribution, 0.5) - actual;
+    count++;
+    absolute += Math.abs(error);
+    squared += error * error;
+    percentage += Math.abs(error) / actual;
+    if (actual >= forecastQuantile(distribution, 0.1) && actual <= forecastQuantile(distribution, 0.9)) covered++;
+  }
+  if (count === 0) return null;
+
+  return {
+    horizonDays,
+    count,
+    mae: absolute / count,
+    rmse: Math.sqrt(squared / count),
+    mape: (percentage / count) * 100,
+    coverage: (covered / count) * 100
+  };
+}
+
+// Fits every model the series supports; the selection is the requested model, otherwise the lowest backtest RMSE
+// (models without a backtest rank last, in FORECAST_MODELS order)
+export function forecastIndexSeries(
+  points: IndexPoint[],
+  horizonDays: number,
+  requested?: ForecastModelType
+): IndexForecastReport {
+  if (points.length === 0) throw new IndexForecastError("No observations to forecast from");
+  const models: IndexForecastModelReport[] = [];
+  const skipped: IndexForecastReport['skipped'] = [];
+
+  for (let i = 0; i < FORECAST_MODELS.length; i++) {
+    const model = FORECAST_MODELS[i];
+    let fit: FittedForecastModel;
+    try {
+      fit = fitForecastModel(model, points);
+    } catch (error) {
+      if (!(error instanceof IndexForecastError)) throw error;
+      skipped.push({ model, reason: error.message });
+      continue;
+    }
+    const distribution = forecastDistribution(fit, horizonDays);
+    models.push({
+      model,
+      fit,
+      distribution,
+      forecast: {
+        mean: forecastMean(distribution),
+        p10: forecastQuantile(distribution, 0.1),
+        p50: forecastQuantile(distribution, 0.5),
+        p90: forecastQuantile(distribution, 0.9)
+      },
+      path: forecastPath(fit, horizonDays),
+      backtest: backtestForecastModel(model, points, horizonDays)
+    });
+  }
+
+  if (requested) {
+    if (!models.some(report => report.model === requested)) {
+      const reason = skipped.find(entry => entry.model === requested)?.reason;
+      throw new IndexForecastError(reason ?? `${FORECAST_MODEL_LABELS[requested]} could not be fitted`);
+    }
+  } else if (models.length === 0) {
+    throw new IndexForecastError(skipped.map(entry => entry.reason).join("; "));
+  }
+
+  const ranked = [...models].sort((a, b) => (a.backtest?.rmse ?? Infinity) - (b.backtest?.rmse ?? Infinity));
+  const last = points[points.length - 1];
+  return {
+    asOf: last.date,
+    lastValue: last.value,
+    horizonDays,
+    selectedModel: requested ?? ranked[0].model,
+    models,
+    skipped
+  };
+}
+
+export function selectedForecast(report: IndexForecastReport): IndexForecastModelReport {
+  return report.models.find(model => model.model === report.selectedModel) ?? report.models[0];
+}
@@ -0,0 +1,510 @@
+// Bulk index import: turns an uploaded CSV or JSON file into (code, date, value) rows, detecting its columns and date
+// format, and reports rows that are malformed, duplicated, out of order or out of range
+import type { IndexImportRequest } from "./schema";
+import { dateToDays } from "./index-series";
+
+export type DateOrder = 'ymd' | 'dmy' | 'mdy';
+
+export const IMPORT_ISSUE_KINDS = ['invalidDate', 'invalidValue', 'outOfRange', 'duplicate', 'outOfOrder', 'unknownIndex'] as const;
+export type ImportIssueKind = typeof IMPORT_ISSUE_KINDS[number];
+
+export interface ImportIssue {
+  row: number; // CSV line (the header is line 1) or 1-based JSON array position
+  code: string | null;
+  date: string | null;
+  kind: ImportIssueKind;
+  severity: 'error' | 'warning'; // Errors drop the row; warnings are still imported
+  message: string;
+}
+
+export interface ImportedObservation {
+  code: string;
+  date: string;
+  value: number;
+  row: number;
+}
+
+export interface ImportLayout {
+  format: 'csv' | 'json';
+  dateColumn: string;
+  valueColumn: string | null; // Long layout: one value per row, its index from codeColumn or the request
+  codeColumn: string | null;
+  seriesColumns: string[]; // Wide layout: one column per index, e.g. date,SCFI,CCFI
+  dateOrder: DateOrder;
+  ambiguousDates: boolean; // Every numeric date reads both ways, so dateOrder is a guess
+}
+
+export interface ParsedIndexImport {
+  layout: ImportLayout;
+  totalRows: number;
+  observations: ImportedObservation[]; // Importable rows, by code then date
+  issues: ImportIssue[];
+}
+
+export interface IndexImportSeriesSummary {
+  code: string;
+  rows: number;
+  from: string;
+  to: string;
+  new: number;
+  updated: number; // Date already stored with a different value
+  unchanged: number; // Date already stored with this value; re-importing a file changes nothing
+}
+
+export interface IndexImportReport {
+  dryRun: boolean;
+  layout: ImportLayout;
+  totalRows: number;
+  importableRows: number;
+  written: number; // Observations inserted or updated; always 0 on a dry run
+  errors: number;
+  warnings: number;
+  issues: ImportIssue[]; // First MAX_REPORTED_ISSUES, by row
+  series: IndexImportSeriesSummary[];
+}
+
+// Common alternative codes for the stored indices
+export const INDEX_CODE_ALIASES: Record<string, string> = { BDI: 'BALTIC' };
+
+export const MAX_REPORTED_ISSUES = 200;
+const MAX_ROWS = 50_000;
+const MAX_INDEX_VALUE = 1_000_000;
+const EARLIEST_DATE = '1950-01-01';
+const JUMP_WARNING = 0.5; // Absolute log change between consecutive observations, about +65% or -40%
+
+const DATE_HEADERS = ['date', 'day', 'week', 'weekending', 'period', 'time', 'timestamp', 'asof', 'observationdate'];
+const CODE_HEADERS = ['code', 'index', 'indexcode', 'symbol', 'ticker', 'series'];
+const VALUE_HEADERS = ['value', 'close', 'price', 'level', 'rate', 'points', 'indexvalue', 'last'];
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const ISO_DATE = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T ].*)?$/;
+const NUMERIC_DATE = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/;
+const DAY_MONTH_NAME = /^(\d{1,2})[ -]([A-Za-z]{3})[A-Za-z]*[ -](\d{4})$/;
+const MONTH_NAME_DAY = /^([A-Za-z]{3})[A-Za-z]* (\d{1,2}),? (\d{4})$/;
+
+export class IndexImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IndexImportError";
+  }
+}
+
+export interface RawRecord {
+  row: number;
+  cells: string[];
+}
+
+export interface RawTable {
+  format: 'csv' | 'json';
+  headers: string[] | null;
+  records: RawRecord[];
+  decimalComma: boolean; // Semicolon-separated files write 1.234,5
+}
+
+function normaliseHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+export function canonicalIndexCode(raw: string): string {
+  const code = raw.trim().toUpperCase();
+  return INDEX_CODE_ALIASES[code] ?? code;
+}
+
+export function parseNumber(raw: string, decimalComma = false): number | null {
+  const cleaned = decimalComma ? raw.replace(/[.\s]/g, '').replace(',', '.') : raw.replace(/[,\s]/g, '');
+  if (cleaned === '' || !/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(cleaned)) return null;
+  return Number(cleaned);
+}
+
+function looksLikeDate(raw: string): boolean {
+  return ISO_DATE.test(raw) || NUMERIC_DATE.test(raw) || DAY_MONTH_NAME.test(raw) || MONTH_NAME_DAY.test(raw);
+}
+
+function calendarDate(year: number, month: number, day: number): string | null {
+  const date = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === date ? date : null;
+}
+
+// YYYY-MM-DD, or null when the cell is not a real calendar date in any supported form
+export function parseImportDate(raw: string, order: DateOrder): string | null {
+  const value = raw.trim();
+  let match = ISO_DATE.exec(value);
+  if (match) return calendarDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = NUMERIC_DATE.exec(value);
+  if (match) {
+    const [first, second, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    if (order === 'mdy') return calendarDate(year, first, second);
+    return calendarDate(year, second, first);
+  }
+
+  match = DAY_MONTH_NAME.exec(value);
+  if (match) {
+    const month = MONTHS.indexOf(match[2].toLowerCase()) + 1;
+    return month > 0 ? calendarDate(Number(match[3]), month, Number(match[1])) : null;
+  }
+
+  match = MONTH_NAME_DAY.exec(value);
+  if (match) {
+    const month = MONTHS.indexOf(match[1].toLowerCase()) + 1;
+    return month > 0 ? calendarDate(Number(match[3]), month, Number(match[2])) : null;
+  }
+  return null;
+}
+
+// Quoted fields may contain delimiters, doubled quotes and newlines; the delimiter is whichever of , ; or tab
+// appears most on the first line
+function parseCsv(text: string): { records: RawRecord[]; delimiter: string } {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const count = (delimiter: string) => firstLine.split(delimiter).length;
+  const delimiter = [';', '\t'].reduce((best, candidate) => (count(candidate) > count(best) ? candidate : best), ',');
+
+  const records: RawRecord[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.some(value => value.trim() !== '')) {
+      records.push({ row: recordLine, cells: cells.map(value => value.trim()) });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === '') {
+      quoted = true;
+      cell = '';
+    } else if (char === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  endRecord();
+  return { records, delimiter };
+}
+
+function cellText(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value).trim();
+}
+
+// Accepts an array of objects or of arrays, bare or under an "observations", "data" or "rows" key
+function parseJsonTable(text: string): RawTable {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new IndexImportError(`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const container = parsed as Record<string, unknown> | null;
+  const items = Array.isArray(parsed)
+    ? parsed
+    : container && typeof container === 'object'
+      ? [container.observations, container.data, container.rows].find(Array.isArray)
+      : undefined;
+  if (!Array.isArray(items)) {
+    throw new IndexImportError('JSON must be an array of observations, or an object with an "observations" array');
+  }
+
+  if (items.every(Array.isArray)) {
+    return {
+      format: 'json',
+      headers: null,
+      records: items.map((item, i) => ({ row: i + 1, cells: (item as unknown[]).map(cellText) })),
+      decimalComma: false
+    };
+  }
+
+  const headers: string[] = [];
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      throw new IndexImportError(`Item ${i + 1} is not an object`);
+    }
+    const keys = Object.keys(item);
+    for (let k = 0; k < keys.length; k++) {
+      if (!headers.includes(keys[k])) headers.push(keys[k]);
+    }
+  }
+  return {
+    format: 'json',
+    headers,
+    records: items.map((item, i) => ({
+      row: i + 1,
+      cells: headers.map(header => cellText((item as Record<string, unknown>)[header]))
+    })),
+    decimalComma: false
+  };
+}
+
+// A first row with no date and no number in it is a header
+function splitHeader(records: RawRecord[]): { headers: string[] | null; records: RawRecord[] } {
+  const first = records[0];
+  if (!first) return { headers: null, records };
+  const isHeader = first.cells.every(cell => !looksLikeDate(cell) && parseNumber(cell) === null);
+  return isHeader ? { headers: first.cells, records: records.slice(1) } : { headers: null, records };
+}
+
+function readTable(request: IndexImportRequest): RawTable {
+  const text = request.content.replace(/^\uFEFF/, '');
+  const format = request.format === 'auto' ? (/^\s*[[{]/.test(text) ? 'json' : 'csv') : request.format;
+  if (format === 'json') {
+    const table = parseJsonTable(text);
+    return table.headers ? table : { ...table, ...splitHeader(table.records) };
+  }
+  return readDelimitedTable(text);
+}
+
+export function readDelimitedTable(text: string): RawTable {
+  const { records, delimiter } = parseCsv(text.replace(/^\uFEFF/, ''));
+  return { format: 'csv', ...splitHeader(records), decimalComma: delimiter === ';' };
+}
+
+function findColumn(headers: string[], names: string[], exclude: number[]): number {
+  return headers.findIndex((header, i) => !exclude.includes(i) && names.includes(normaliseHeader(header)));
+}
+
+// Columns by header name first, then by what the first record holds: a date, numbers, and text for codes
+function detectColumns(table: RawTable, knownCodes: Set<string>) {
+  const width = Math.max(table.headers?.length ?? 0, ...table.records.map(record => record.cells.length));
+  const headers = table.headers ?? Array.from({ length: width }, (_, i) => `column ${i + 1}`);
+  const sample = table.records[0]?.cells ?? [];
+
+  let date = table.headers ? findColumn(headers, DATE_HEADERS, []) : -1;
+  if (date < 0) date = sample.findIndex(looksLikeDate);
+  if (date < 0) throw new IndexImportError('No date column found; name it "date" or use dates like 2024-01-31');
+
+  let code = table.headers ? findColumn(headers, CODE_HEADERS, [date]) : -1;
+  let value = table.headers ? findColumn(headers, VALUE_HEADERS, [date, code]) : -1;
+  const series = value < 0 && table.headers
+    ? headers.map((header, i) => i).filter(i => i !== date && i !== code && knownCodes.has(canonicalIndexCode(headers[i])))
+    : [];
+
+  if (value < 0 && series.length === 0) {
+    value = sample.findIndex((cell, i) => i !== date && i !== code && parseNumber(cell, table.decimalComma) !== null);
+    if (value < 0) throw new IndexImportError('No value column found; name it "value" or use one column per index code');
+  }
+  if (code < 0 && value >= 0 && !table.headers) {
+    code = sample.findIndex((cell, i) => i !== date && i !== value && cell !== '' && parseNumber(cell, table.decimalComma) === null);
+  }
+  return { headers, date, code, value, series };
+}
+
+// Day-first unless some date only reads month-first; ISO dates are unambiguous either way
+function detectDateOrder(cells: string[], requested: IndexImportRequest['dateFormat']): { order: DateOrder; ambiguous: boolean } {
+  if (requested !== 'auto') return { order: requested, ambiguous: false };
+  let dayFirst = false;
+  let monthFirst = false;
+  let numeric = false;
+  for (let i = 0; i < cells.length; i++) {
+    const match = NUMERIC_DATE.exec(cells[i].trim());
+    if (!match) continue;
+    numeric = true;
+    if (Number(match[1]) > 12) dayFirst = true;
+    if (Number(match[2]) > 12) monthFirst = true;
+  }
+  if (!numeric) return { order: 'ymd', ambiguous: false };
+  if (monthFirst && !dayFirst) return { order: 'mdy', ambiguous: false };
+  return { order: 'dmy', ambiguous: !dayFirst };
+}
+
+function issueAt(
+  observation: ImportedObservation,
+  kind: ImportIssueKind,
+  severity: ImportIssue['severity'],
+  message: string
+): ImportIssue {
+  return { row: observation.row, code: observation.code, date: observation.date, kind, severity, message };
+}
+
+function formatChange(logChange: number): string {
+  const percent = (Math.exp(logChange) - 1) * 100;
+  return `${percent >= 0 ? '+' : ''}${percent.toFixed(1)}%`;
+}
+
+// `today` bounds dates from above; observations for codes outside knownCodes are rejected
+export function parseIndexImport(request: IndexImportRequest, knownCodes: string[], today: string): ParsedIndexImport {
+  const known = new Set(knownCodes);
+  const table = readTable(request);
+  if (table.records.length === 0) throw new IndexImportError('The file has no data rows');
+  if (table.records.length > MAX_ROWS) {
+    throw new IndexImportError(`The file has ${table.records.length} rows; at most ${MAX_ROWS} can be imported at once`);
+  }
+
+  const columns = detectColumns(table, known);
+  const defaultCode = request.code ? canonicalIndexCode(request.code) : null;
+  if (columns.series.length === 0 && columns.code < 0 && !defaultCode) {
+    throw new IndexImportError('No code column; choose the index this file belongs to');
+  }
+  const { order, ambiguous } = detectDateOrder(table.records.map(record => record.cells[columns.date] ?? ''), request.dateFormat);
+
+  const issues: ImportIssue[] = [];
+  const candidates: ImportedObservation[] = [];
+  const seriesIndexes = columns.series.length > 0 ? columns.series : [columns.value];
+
+  for (let r = 0; r < table.records.length; r++) {
+    const { row, cells } = table.records[r];
+    const rawDate = cells[columns.date] ?? '';
+    const date = parseImportDate(rawDate, order);
+
+    for (let s = 0; s < seriesIndexes.length; s++) {
+      const column = seriesIndexes[s];
+      const wide = columns.series.length > 0;
+      const rawValue = cells[column] ?? '';
+      if (wide && rawValue === '') continue; // Indices published on different days leave gaps in wide files
+
+      const code = wide
+        ? canonicalIndexCode(columns.headers[column])
+        : columns.code >= 0 && cells[columns.code] ? canonicalIndexCode(cells[columns.code]) : defaultCode;
+      const issue = (kind: ImportIssueKind, message: string, severity: ImportIssue['severity'] = 'error') =>
+        issues.push({ row, code, date, kind, severity, message });
+
+      if (!code) {
+        issue('unknownIndex', 'Missing index code');
+        continue;
+      }
+      if (!known.has(code)) {
+        issue('unknownIndex', `Unknown index ${code}`);
+        continue;
+      }
+      if (!date) {
+        issue('invalidDate', rawDate === '' ? 'Missing date' : `Cannot read "${rawDate}" as a ${order.toUpperCase()} date`);
+        continue;
+      }
+      const value = parseNumber(rawValue, table.decimalComma);
+      if (value === null) {
+        issue('invalidValue', rawValue === '' ? 'Missing value' : `"${rawValue}" is not a number`);
+        continue;
+      }
+      if (!(value > 0) || value > MAX_INDEX_VALUE) {
+        issue('outOfRange', `Value ${value} is outside 0–${MAX_INDEX_VALUE.toLocaleString()}`);
+        continue;
+      }
+      if (date > today || date < EARLIEST_DATE) {
+        issue('outOfRange', `Date ${date} is ${date > today ? 'in the future' : `before ${EARLIEST_DATE}`}`);
+        continue;
+      }
+      candidates.push({ code, date, value, row });
+    }
+  }
+
+  // Per series: the first row for a date wins, file order is checked against the series' main direction,
+  // and large moves between consecutive dates are flagged
+  const codes = Array.from(new Set(candidates.map(candidate => candidate.code))).sort();
+  const observations: ImportedObservation[] = [];
+  for (let c = 0; c < codes.length; c++) {
+    const inFileOrder = candidates.filter(candidate => candidate.code === codes[c]);
+    const kept = new Map<string, ImportedObservation>();
+    for (let i = 0; i < inFileOrder.length; i++) {
+      const observation = inFileOrder[i];
+      const first = kept.get(observation.date);
+      if (!first) {
+        kept.set(observation.date, observation);
+      } else if (first.value === observation.value) {
+        issues.push(issueAt(observation, 'duplicate', 'warning', `Repeats row ${first.row}; skipped`));
+      } else {
+        issues.push(issueAt(
+          observation,
+          'duplicate',
+          'error',
+          `Conflicts with row ${first.row} (${first.value}) for the same date; the first row is kept`
+        ));
+      }
+    }
+
+    const unique = Array.from(kept.values());
+    let ascending = 0;
+    for (let i = 1; i < unique.length; i++) {
+      ascending += unique[i].date > unique[i - 1].date ? 1 : -1;
+    }
+    for (let i = 1; i < unique.length; i++) {
+      const backwards = ascending >= 0 ? unique[i].date < unique[i - 1].date : unique[i].date > unique[i - 1].date;
+      if (backwards) {
+        issues.push(issueAt(
+          unique[i],
+          'outOfOrder',
+          'warning',
+          `Follows ${unique[i - 1].date} in a ${ascending >= 0 ? 'oldest' : 'newest'}-first file; imported in date order`
+        ));
+      }
+    }
+
+    const sorted = unique.sort((a, b) => (a.date < b.date ? -1 : 1));
+    for (let i = 1; i < sorted.length; i++) {
+      const change = Math.log(sorted[i].value / sorted[i - 1].value);
+      if (Math.abs(change) > JUMP_WARNING) {
+        const days = Math.round(dateToDays(sorted[i].date) - dateToDays(sorted[i - 1].date));
+        issues.push(issueAt(sorted[i], 'outOfRange', 'warning', `Moves ${formatChange(change)} from ${sorted[i - 1].date} in ${days} days`));
+      }
+    }
+    observations.push(...sorted);
+  }
+
+  return {
+    layout: {
+      format: table.format,
+      dateColumn: columns.headers[columns.date],
+      valueColumn: columns.series.length > 0 ? null : columns.headers[columns.value],
+      codeColumn: columns.code >= 0 ? columns.headers[columns.code] : null,
+      seriesColumns: columns.series.map(i => columns.headers[i]),
+      dateOrder: order,
+      ambiguousDates: ambiguous
+    },
+    totalRows: table.records.length,
+    observations,
+    issues: issues.sort((a, b) => a.row - b.row)
+  };
+}
+
+// Compares importable rows with what is stored (date -> value per code); only new and changed rows need writing
+export function classifyImport(
+  parsed: ParsedIndexImport,
+  stored: Map<string, Map<string, number>>
+): { series: IndexImportSeriesSummary[]; changes: ImportedObservation[] } {
+  const series: IndexImportSeriesSummary[] = [];
+  const changes: ImportedObservation[] = [];
+  for (let i = 0; i < parsed.observations.length; i++) {
+    const observation = parsed.observations[i];
+    let summary = series[series.length - 1];
+    if (!summary || summary.code !== observation.code) {
+      summary = { code: observation.code, rows: 0, from: observation.date, to: observation.date, new: 0, updated: 0, unchanged: 0 };
+      series.push(summary);
+    }
+    summary.rows++;
+    summary.to = observation.date;
+
+    const existing = stored.get(observation.code)?.get(observation.date);
+    if (existing === undefined) {
+      summary.new++;
+      changes.push(observation);
+    } else if (existing !== observation.value) {
+      summary.updated++;
+      changes.push(observation);
+    } else {
+      summary.unchanged++;
+    }
+  }
+  return { series, changes };
+}
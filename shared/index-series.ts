@@ -0,0 +1,80 @@
+// Market index time series: volatility derived from stored observations, and synthetic history for demo data
+import { createSeededRandom } from "./random";
+import { normalQuantile } from "./statistics";
+
+export interface IndexPoint {
+  date: string; // YYYY-MM-DD
+  value: number;
+}
+
+export interface IndexVolatility {
+  volatility: number; // Annualised standard deviation of log returns, the unit of Lane.historicalVolatility
+  periodsPerYear: number; // Inferred from the average spacing, e.g. ~52 for a weekly index
+  observations: number;
+  from: string;
+  to: string;
+}
+
+const MS_PER_DAY = 86_400_000;
+const DAYS_PER_YEAR = 365;
+
+export function dateToDays(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`) / MS_PER_DAY;
+}
+
+export function daysToDate(days: number): string {
+  return new Date(days * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+// Points must be sorted by date
+export function logReturns(points: IndexPoint[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < points.length; i++) {
+    returns.push(Math.log(points[i].value / points[i - 1].value));
+  }
+  return returns;
+}
+
+// Needs at least three points (two returns); irregular gaps are treated as one average period each
+export function deriveIndexVolatility(points: IndexPoint[]): IndexVolatility | null {
+  if (points.length < 3) return null;
+
+  const returns = logReturns(points);
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+
+  const first = points[0].date;
+  const last = points[points.length - 1].date;
+  const averageSpacing = (dateToDays(last) - dateToDays(first)) / returns.length;
+  if (!(averageSpacing > 0)) return null;
+  const periodsPerYear = DAYS_PER_YEAR / averageSpacing;
+
+  return {
+    volatility: Math.sqrt(variance * periodsPerYear),
+    periodsPerYear,
+    observations: points.length,
+    from: first,
+    to: last
+  };
+}
+
+// Weekly geometric random walk ending at `latest` on `endDate`, walked backwards so the newest point is exact
+export function generateIndexHistory(
+  latest: number,
+  endDate: string,
+  weeks: number,
+  annualVolatility: number,
+  seed: number
+): IndexPoint[] {
+  const rng = createSeededRandom(seed);
+  const weeklyVolatility = annualVolatility / Math.sqrt(52);
+  const endDays = dateToDays(endDate);
+  const points: IndexPoint[] = [];
+
+  let value = latest;
+  for (let week = 0; week < weeks; week++) {
+    points.push({ date: daysToDate(endDays - week * 7), value: Math.round(value * 100) / 100 });
+    value /= Math.exp(weeklyVolatility * normalQuantile(Math.min(1 - 1e-12, Math.max(1e-12, rng()))));
+  }
+  return points.reverse();
+}
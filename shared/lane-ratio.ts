@@ -0,0 +1,241 @@
+// Lane ratio regression: realised freight invoices against the lane's base index. The model is
+// ln(amount) = ln(laneRatio) + ln(index) + carrier premium + noise, with premia centred on the invoice mix.
+import type { RateFactor } from "./schema";
+import { createSeededRandom } from "./random";
+import { normalQuantile } from "./statistics";
+import { dateToDays, deriveIndexVolatility, type IndexPoint, type IndexVolatility } from "./index-series";
+import { parseImportDate, parseNumber, readDelimitedTable, type DateOrder } from "./index-import";
+
+export interface InvoicePoint {
+  date: string;
+  carrier: string;
+  amount: number;
+}
+
+export interface CarrierPremium {
+  carrier: string;
+  invoices: number;
+  premium: number; // Multiplier on ratio × index; 1 for pooled carriers
+  standardError: number; // Of the log premium
+  pooled: boolean; // Too few invoices for its own premium
+}
+
+export interface FittedInvoice extends InvoicePoint {
+  indexValue: number;
+  fitted: number;
+}
+
+export interface LaneRatioFit {
+  invoices: number;
+  matched: number; // Invoices with an index observation on or shortly before their date
+  from: string;
+  to: string;
+  laneRatio: number;
+  ratioStandardError: number; // Of ln(laneRatio)
+  residualStdDev: number; // Log residual per invoice: basis risk the index does not explain
+  rSquared: number; // Share of ln(amount) variance explained by index and carriers
+  elasticity: { slope: number; rSquared: number } | null; // Free fit of ln(amount) on ln(index); 1 means full pass-through
+  rmse: number; // $ per container
+  mape: number; // %
+  rateVolatility: IndexVolatility | null; // Annualised: base index volatility over the invoices' span × elasticity
+  carriers: CarrierPremium[];
+  points: FittedInvoice[];
+}
+
+export class LaneRatioFitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LaneRatioFitError";
+  }
+}
+
+const MIN_INVOICES = 3;
+export const MIN_CARRIER_INVOICES = 3;
+const MAX_INDEX_STALENESS_DAYS = 14; // An invoice older than this past the last index print is left unmatched
+const MAX_FACTOR_SAMPLES = 200;
+
+// Latest observation on or before each date; both lists sorted ascending
+function indexAsOf(index: IndexPoint[], dates: string[]): (number | null)[] {
+  const values: (number | null)[] = [];
+  let cursor = -1;
+  for (let i = 0; i < dates.length; i++) {
+    while (cursor + 1 < index.length && index[cursor + 1].date <= dates[i]) cursor++;
+    const point = index[cursor];
+    values.push(point && dateToDays(dates[i]) - dateToDays(point.date) <= MAX_INDEX_STALENESS_DAYS ? point.value : null);
+  }
+  return values;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+export function fitLaneRatio(invoices: InvoicePoint[], index: IndexPoint[], minCarrierInvoices = MIN_CARRIER_INVOICES): LaneRatioFit {
+  const sorted = [...invoices].sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+  const indexValues = indexAsOf(index, sorted.map(invoice => invoice.date));
+  const matched = sorted
+    .map((invoice, i) => ({ ...invoice, indexValue: indexValues[i] }))
+    .filter((invoice): invoice is InvoicePoint & { indexValue: number } => invoice.indexValue !== null);
+  if (matched.length < MIN_INVOICES) {
+    throw new LaneRatioFitError(
+      `${matched.length} of ${sorted.length} invoices fall on dates with index history; at least ${MIN_INVOICES} are needed`
+    );
+  }
+
+  // y = ln(amount / index); each carrier's premium is its mean y less the overall mean
+  const y = matched.map(invoice => Math.log(invoice.amount / invoice.indexValue));
+  const counts = new Map<string, number>();
+  matched.forEach(invoice => counts.set(invoice.carrier, (counts.get(invoice.carrier) ?? 0) + 1));
+  const grouped = (carrier: string) => (counts.get(carrier) ?? 0) >= minCarrierInvoices ? carrier : null;
+
+  const sums = new Map<string, number>();
+  matched.forEach((invoice, i) => {
+    const group = grouped(invoice.carrier);
+    if (group) sums.set(group, (sums.get(group) ?? 0) + y[i]);
+  });
+  const pooledY = y.filter((_, i) => !grouped(matched[i].carrier));
+  const groupMean = (carrier: string | null) => carrier ? sums.get(carrier)! / counts.get(carrier)! : mean(pooledY);
+
+  const intercept = mean(y);
+  const premiumOf = (carrier: string) => {
+    const group = grouped(carrier);
+    return group ? groupMean(group) - intercept : 0;
+  };
+  // Pooled invoices keep their own level in the intercept: their deviation stays in the residuals
+  const residuals = y.map((value, i) => value - intercept - premiumOf(matched[i].carrier));
+  const groups = new Set(matched.map(invoice => grouped(invoice.carrier))).size;
+  const residualVariance = residuals.reduce((sum, r) => sum + r * r, 0) / Math.max(1, matched.length - groups);
+  const residualStdDev = Math.sqrt(residualVariance);
+
+  const logAmounts = matched.map(invoice => Math.log(invoice.amount));
+  const logIndex = matched.map(invoice => Math.log(invoice.indexValue));
+  const meanLogAmount = mean(logAmounts);
+  const totalSquares = logAmounts.reduce((sum, value) => sum + (value - meanLogAmount) ** 2, 0);
+  const residualSquares = residuals.reduce((sum, r) => sum + r * r, 0);
+
+  const meanLogIndex = mean(logIndex);
+  let covariance = 0;
+  let indexVariance = 0;
+  for (let i = 0; i < matched.length; i++) {
+    covariance += (logIndex[i] - meanLogIndex) * (logAmounts[i] - meanLogAmount);
+    indexVariance += (logIndex[i] - meanLogIndex) ** 2;
+  }
+  const slope = indexVariance > 0 ? covariance / indexVariance : null;
+  const elasticity = slope !== null && totalSquares > 0
+    ? { slope, rSquared: (slope * slope * indexVariance) / totalSquares }
+    : null;
+
+  const points: FittedInvoice[] = matched.map((invoice, i) => ({
+    date: invoice.date,
+    carrier: invoice.carrier,
+    amount: invoice.amount,
+    indexValue: invoice.indexValue,
+    fitted: invoice.indexValue * Math.exp(intercept + premiumOf(invoice.carrier))
+  }));
+  const errors = points.map(point => point.fitted - point.amount);
+
+  // Single invoices are too noisy to difference week on week, so the rate's volatility is the index's over the
+  // invoice period scaled by the pass-through the invoices show
+  const indexVolatility = deriveIndexVolatility(index.filter(point => point.date >= matched[0].date && point.date <= matched[matched.length - 1].date));
+  const rateVolatility: IndexVolatility | null = indexVolatility
+    ? { ...indexVolatility, volatility: indexVolatility.volatility * Math.max(0, elasticity?.slope ?? 1) }
+    : null;
+
+  const carriers: CarrierPremium[] = Array.from(counts.keys())
+    .map(carrier => ({
+      carrier,
+      invoices: counts.get(carrier)!,
+      premium: Math.exp(premiumOf(carrier)),
+      standardError: grouped(carrier) ? residualStdDev / Math.sqrt(counts.get(carrier)!) : 0,
+      pooled: !grouped(carrier)
+    }))
+    .sort((a, b) => b.invoices - a.invoices);
+
+  return {
+    invoices: sorted.length,
+    matched: matched.length,
+    from: matched[0].date,
+    to: matched[matched.length - 1].date,
+    laneRatio: Math.exp(intercept),
+    ratioStandardError: residualStdDev / Math.sqrt(matched.length),
+    residualStdDev,
+    rSquared: totalSquares > 0 ? 1 - residualSquares / totalSquares : 0,
+    elasticity,
+    rmse: Math.sqrt(mean(errors.map(error => error * error))),
+    mape: mean(errors.map((error, i) => Math.abs(error) / points[i].amount)) * 100,
+    rateVolatility,
+    carriers,
+    points
+  };
+}
+
+// Empirical factor that draws a carrier in proportion to its share of invoices and applies its premium
+export function carrierPremiumFactor(fit: LaneRatioFit, name: string): RateFactor {
+  const total = fit.carriers.reduce((sum, carrier) => sum + carrier.invoices, 0);
+  const size = Math.min(MAX_FACTOR_SAMPLES, total);
+  const samples: number[] = [];
+  fit.carriers.forEach(carrier => {
+    const copies = Math.max(1, Math.round((carrier.invoices / total) * size));
+    for (let i = 0; i < copies; i++) samples.push(Math.round(carrier.premium * 10000) / 10000);
+  });
+  return {
+    name,
+    type: 'carrierPremium',
+    meanMultiplier: mean(samples),
+    distribution: 'empirical',
+    parameters: {},
+    samples,
+    enabled: true
+  };
+}
+
+export interface InvoiceCsvResult {
+  invoices: InvoicePoint[];
+  issues: { row: number; message: string }[];
+}
+
+const INVOICE_DATE_HEADERS = ['date', 'invoicedate', 'bookingdate', 'shipdate', 'etd'];
+const INVOICE_CARRIER_HEADERS = ['carrier', 'line', 'shippingline', 'vendor', 'scac'];
+const INVOICE_AMOUNT_HEADERS = ['amount', 'rate', 'paid', 'price', 'cost', 'total', 'value'];
+
+// CSV with date, carrier and amount columns found by header name; rows that cannot be read are reported
+export function parseInvoiceCsv(text: string, dateOrder: DateOrder = 'ymd'): InvoiceCsvResult {
+  const table = readDelimitedTable(text);
+  if (!table.headers) return { invoices: [], issues: [{ row: 1, message: 'Needs a header row naming date, carrier and amount' }] };
+  const normalised = table.headers.map(header => header.toLowerCase().replace(/[^a-z0-9]/g, ''));
+  const column = (names: string[]) => normalised.findIndex(header => names.includes(header));
+  const [dateColumn, carrierColumn, amountColumn] = [column(INVOICE_DATE_HEADERS), column(INVOICE_CARRIER_HEADERS), column(INVOICE_AMOUNT_HEADERS)];
+  const missing = [[dateColumn, 'date'], [carrierColumn, 'carrier'], [amountColumn, 'amount']]
+    .filter(([index]) => index === -1)
+    .map(([, name]) => name);
+  if (missing.length > 0) return { invoices: [], issues: [{ row: 1, message: `No ${missing.join(', ')} column` }] };
+
+  const invoices: InvoicePoint[] = [];
+  const issues: InvoiceCsvResult['issues'] = [];
+  table.records.forEach(({ row, cells }) => {
+    const date = parseImportDate(cells[dateColumn] ?? '', dateOrder);
+    const carrier = (cells[carrierColumn] ?? '').trim();
+    const amount = parseNumber((cells[amountColumn] ?? '').replace(/^[$€£]|\s*(USD|EUR)$/gi, ''), table.decimalComma);
+    if (!date) issues.push({ row, message: `Cannot read date "${cells[dateColumn] ?? ''}"` });
+    else if (!carrier) issues.push({ row, message: 'Missing carrier' });
+    else if (amount === null || amount <= 0) issues.push({ row, message: `Amount "${cells[amountColumn] ?? ''}" is not a positive number` });
+    else invoices.push({ date, carrier, amount });
+  });
+  return { invoices, issues };
+}
+
+// Weekly demo invoices priced off an index series: ratio × index × carrier premium × lognormal noise
+export function generateFreightInvoices(
+  index: IndexPoint[],
+  laneRatio: number,
+  carriers: { carrier: string; premium: number }[],
+  noise: number,
+  seed: number
+): InvoicePoint[] {
+  const rng = createSeededRandom(seed);
+  return index.map(point => {
+    const { carrier, premium } = carriers[Math.floor(rng() * carriers.length)];
+    const z = normalQuantile(Math.min(1 - 1e-12, Math.max(1e-12, rng())));
+    return { date: point.date, carrier, amount: Math.round(point.value * laneRatio * premium * Math.exp(noise * z)) };
+  });
+}
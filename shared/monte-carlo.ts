@@ -0,0 +1,403 @@
+// Monte Carlo simulation engine shared by the browser worker and the server job runner
+import type {
+  RateFactor, TransitSegment, CongestionScenario, CorrelationMatrix, DistributionType, SimulationResult
+} from "./schema";
+import { createSeededRandom, deriveSeed, type RandomSource } from "./random";
+import type { Statistics } from "./statistics";
+import {
+  sampleDistribution, defaultDistributionParameters, isDistributionType, type DistributionDefinition
+} from "./distributions";
+import { createGaussianCopula, sampleCopulaUniforms, factorVariable, segmentVariable, type GaussianCopula } from "./copula";
+import {
+  ConvergenceTracker, type AutoIterationSettings, type ConvergencePoint, type ConvergenceSummary
+} from "./convergence";
+import { ResultSummary } from "./result-summary";
+import type { StreamingSummaryData } from "./streaming-summary";
+import { sampleIndexRatio, type IndexForecastDistribution } from "./index-forecast";
+
+export interface SimulationParams {
+  iterations: number;
+  baseRate: number;
+  factors: RateFactor[];
+  segments: TransitSegment[];
+  seed?: number; // Same seed + same inputs = identical results
+  startDate?: number; // Epoch ms used for arrival dates; defaults to now
+  departureWeek?: number; // Index into each congestion scenario's weekly delayPattern; defaults to 0
+  correlation?: CorrelationMatrix | null; // Factors/segments left out of the matrix are sampled independently
+  autoIterations?: AutoIterationSettings; // Stop before `iterations` once P90 landed cost is stable
+  indexForecast?: IndexForecastDistribution | null; // Scales baseRate by the index's sampled move to the booking date
+}
+
+export interface SimulationProgress {
+  progress: number;
+  completedIterations: number;
+  convergence?: ConvergencePoint | null; // Set when a new point was added to the convergence curve
+}
+
+export interface SimulationRunOptions {
+  batchSize?: number;
+  controller?: SimulationController;
+  convergence?: ConvergenceTracker; // Pass one in to read the convergence curve after the run
+  retainResults?: boolean; // false resolves with an empty array; stream iterations through onResult instead
+  onResult?: (result: SimulationResult) => void;
+  onProgress?: (progress: SimulationProgress) => void;
+  onPause?: (partialResults: readonly SimulationResult[], progress: SimulationProgress) => void;
+}
+
+export class SimulationCancelledError extends Error {
+  constructor(public completedIterations: number) {
+    super(`Simulation cancelled after ${completedIterations} iterations`);
+    this.name = "SimulationCancelledError";
+  }
+}
+
+// Pause/resume/cancel handle checked by the batch loop between batches
+export class SimulationController {
+  private paused = false;
+  private cancelled = false;
+  private resumeListener: (() => void) | null = null;
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  get isCancelled(): boolean {
+    return this.cancelled;
+  }
+
+  pause() {
+    if (!this.cancelled) this.paused = true;
+  }
+
+  resume() {
+    this.paused = false;
+    const listener = this.resumeListener;
+    this.resumeListener = null;
+    listener?.();
+  }
+
+  cancel() {
+    this.cancelled = true;
+    // Wake a paused loop so it can observe the cancellation
+    this.resume();
+  }
+
+  onResume(listener: () => void) {
+    this.resumeListener = listener;
+  }
+}
+
+// Compact summary persisted on `simulations.results`
+export interface SimulationSummary {
+  rateStats: Statistics;
+  transitStats: Statistics;
+  costStats: Statistics;
+  duration: number;
+  iterations: number;
+  seed?: number;
+  convergence?: ConvergenceSummary;
+  sketches?: SimulationSketches; // Absent on summaries stored before streaming summaries existed
+}
+
+// Compact quantile sketches of each output, so later analysis can place any value in the distribution
+export interface SimulationSketches {
+  rate: StreamingSummaryData;
+  transit: StreamingSummaryData;
+  cost: StreamingSummaryData;
+}
+
+// Factors centre on meanMultiplier, which replaces each distribution's location parameter
+export const FACTOR_CENTRE_PARAMETERS: Partial<Record<DistributionType, string>> = {
+  normal: 'mean',
+  lognormal: 'mu',
+  triangle: 'mode',
+  pert: 'mode'
+};
+
+// Resolved distribution for a rate factor, or null when its configuration cannot be sampled
+export function getFactorDistribution(factor: RateFactor): DistributionDefinition | null {
+  const { distribution, meanMultiplier, parameters } = factor;
+  if (!isDistributionType(distribution)) return null;
+  if (distribution === 'empirical' && !factor.samples?.length) return null;
+  
+  const resolved = { ...defaultDistributionParameters(distribution, meanMultiplier), ...parameters };
+  switch (distribution) {
+    case 'normal':
+      resolved.mean = meanMultiplier;
+      resolved.stdDev = parameters.stdDev || 0.02;
+      break;
+    case 'lognormal':
+      resolved.mu = Math.log(meanMultiplier);
+      resolved.sigma = parameters.sigma || 0.05;
+      break;
+    case 'triangle':
+    case 'pert':
+      resolved.mode = meanMultiplier;
+      break;
+    case 'exponential':
+      resolved.lambda = parameters.lambda || 1.0;
+      break;
+  }
+  
+  return { distribution, parameters: resolved, samples: factor.samples, truncation: factor.truncation };
+}
+
+// Resolved distribution for a transit segment; unknown types fall back to normal around the baseline
+export function getSegmentDistribution(segment: TransitSegment): DistributionDefinition {
+  const { distribution, baselineDays, parameters } = segment;
+  if (!isDistributionType(distribution) || (distribution === 'empirical' && !segment.samples?.length)) {
+    return { distribution: 'normal', parameters: defaultDistributionParameters('normal', baselineDays) };
+  }
+  
+  return {
+    distribution,
+    parameters: { ...defaultDistributionParameters(distribution, baselineDays), ...parameters },
+    samples: segment.samples,
+    truncation: segment.truncation
+  };
+}
+
+function simulateRateFactor(factor: RateFactor, rng: RandomSource, uniform?: number): number {
+  if (!factor.enabled) return 1.0;
+  
+  const definition = getFactorDistribution(factor);
+  if (!definition) return factor.meanMultiplier;
+  return sampleDistribution(definition, rng, uniform);
+}
+
+function simulateTransitSegment(segment: TransitSegment, rng: RandomSource, uniform?: number): number {
+  const days = sampleDistribution(getSegmentDistribution(segment), rng, uniform);
+  // Normal tails can go negative; every leg takes at least a tenth of a day
+  return segment.distribution === 'normal' ? Math.max(0.1, days) : days;
+}
+
+// Probabilities are percentages; whatever is left below 100% means no congestion this iteration
+function sampleCongestionScenario(scenarios: CongestionScenario[], rng: RandomSource): CongestionScenario | null {
+  const total = scenarios.reduce((sum, scenario) => sum + Math.max(0, scenario.probability), 0);
+  let draw = rng() * Math.max(total, 100);
+  
+  for (const scenario of scenarios) {
+    draw -= Math.max(0, scenario.probability);
+    if (draw < 0) return scenario;
+  }
+  return null;
+}
+
+function getCongestionDelay(scenario: CongestionScenario, departureWeek: number): number {
+  const { delayPattern } = scenario;
+  if (!delayPattern || delayPattern.length === 0) return 0;
+  
+  // Departures beyond the pattern reuse its last week
+  const week = Math.min(Math.max(0, Math.floor(departureWeek)), delayPattern.length - 1);
+  return Math.max(0, delayPattern[week] || 0);
+}
+
+// Copula column for each factor and segment, or -1 when it is sampled independently
+interface CorrelatedSampling {
+  copula: GaussianCopula;
+  factorColumns: number[];
+  segmentColumns: number[];
+}
+
+function createCorrelatedSampling(params: SimulationParams): CorrelatedSampling | null {
+  if (!params.correlation || params.correlation.variables.length === 0) return null;
+  
+  // Throws CorrelationMatrixError before any iteration runs
+  const copula = createGaussianCopula(params.correlation, params.factors, params.segments);
+  return {
+    copula,
+    factorColumns: params.factors.map(factor => copula.variables.indexOf(factorVariable(factor.name))),
+    segmentColumns: params.segments.map(segment => copula.variables.indexOf(segmentVariable(segment.name)))
+  };
+}
+
+function runSingleIteration(
+  params: SimulationParams,
+  rng: RandomSource,
+  startDate: Date,
+  correlated: CorrelatedSampling | null = null
+): SimulationResult {
+  const { baseRate, factors, segments } = params;
+  const departureWeek = params.departureWeek ?? 0;
+  const uniforms = correlated ? sampleCopulaUniforms(correlated.copula, rng) : null;
+  const uniformFor = (column: number | undefined) =>
+    uniforms && column !== undefined && column >= 0 ? uniforms[column] : undefined;
+  
+  // Simulate rate with all factors, starting from the index level sampled at the booking date when one is planned
+  let finalRate = params.indexForecast ? baseRate * sampleIndexRatio(params.indexForecast, rng()) : baseRate;
+  for (let i = 0; i < factors.length; i++) {
+    const multiplier = simulateRateFactor(factors[i], rng, uniformFor(correlated?.factorColumns[i]));
+    finalRate *= multiplier;
+  }
+  
+  // Simulate transit time for all segments, overlaying a sampled congestion scenario where configured
+  let totalTransitDays = 0;
+  let congestionDelayDays = 0;
+  let congestionScenario: string | null = null;
+  let worstCongestionDelay = 0;
+  for (let i = 0; i < segments.length; i++) {
+    const segment = segments[i];
+    totalTransitDays += simulateTransitSegment(segment, rng, uniformFor(correlated?.segmentColumns[i]));
+    
+    if (!segment.congestionScenarios || segment.congestionScenarios.length === 0) continue;
+    
+    const scenario = sampleCongestionScenario(segment.congestionScenarios, rng);
+    if (!scenario) continue;
+    
+    const delay = getCongestionDelay(scenario, departureWeek);
+    totalTransitDays += delay;
+    congestionDelayDays += delay;
+    
+    // Label the iteration with the scenario that cost it the most time
+    if (congestionScenario === null || delay > worstCongestionDelay) {
+      congestionScenario = scenario.name;
+      worstCongestionDelay = delay;
+    }
+  }
+  
+  // Calculate delay costs (simplified model)
+  const expectedDays = segments.reduce((sum, seg) => sum + seg.baselineDays, 0);
+  const delayDays = Math.max(0, totalTransitDays - expectedDays);
+  const delayCostPerDay = finalRate * 0.001; // 0.1% per day delay
+  const delayCost = delayDays * delayCostPerDay;
+  
+  const arrivalDate = new Date(startDate.getTime() + totalTransitDays * 24 * 60 * 60 * 1000);
+  
+  return {
+    iteration: 0, // Will be set by caller
+    rate: finalRate,
+    transitDays: totalTransitDays,
+    arrivalDate,
+    delayCost,
+    totalLandedCost: finalRate + delayCost,
+    congestionScenario,
+    congestionDelayDays
+  };
+}
+
+export function runMonteCarloSimulation(
+  params: SimulationParams,
+  options: SimulationRunOptions = {}
+): Promise<SimulationResult[]> {
+  return new Promise((resolve, reject) => {
+    try {
+      const results: SimulationResult[] = [];
+      const rng = params.seed !== undefined ? createSeededRandom(params.seed) : Math.random;
+      const startDate = new Date(params.startDate ?? Date.now());
+      const correlated = createCorrelatedSampling(params);
+      const batchSize = options.batchSize ?? 100;
+      const totalBatches = Math.ceil(params.iterations / batchSize);
+      const { controller } = options;
+      const retainResults = options.retainResults ?? true;
+      const tracker = options.convergence ?? (params.autoIterations ? new ConvergenceTracker() : undefined);
+      
+      let completedIterations = 0;
+      
+      const processBatch = (batchIndex: number) => {
+        try {
+          if (controller?.isCancelled) {
+            reject(new SimulationCancelledError(completedIterations));
+            return;
+          }
+          
+          if (controller?.isPaused) {
+            options.onPause?.(results, {
+              progress: (completedIterations / params.iterations) * 100,
+              completedIterations
+            });
+            controller.onResume(() => setTimeout(() => processBatch(batchIndex), 0));
+            return;
+          }
+          
+          const batchStart = batchIndex * batchSize;
+          const batchEnd = Math.min(batchStart + batchSize, params.iterations);
+          
+          for (let i = batchStart; i < batchEnd; i++) {
+            const result = runSingleIteration(params, rng, startDate, correlated);
+            result.iteration = i;
+            if (retainResults) results.push(result);
+            options.onResult?.(result);
+            tracker?.add(result.totalLandedCost);
+            completedIterations++;
+          }
+          
+          const isLastBatch = batchIndex >= totalBatches - 1;
+          tracker?.checkpoint();
+          const converged = !!params.autoIterations && !!tracker?.isConverged(params.autoIterations);
+          // The stored curve always ends on the point the run stopped at
+          const convergence = tracker?.record(isLastBatch || converged) ?? null;
+          
+          // Report progress
+          const progress = converged ? 100 : (completedIterations / params.iterations) * 100;
+          options.onProgress?.({ progress, completedIterations, convergence });
+          
+          if (!isLastBatch && !converged) {
+            // Schedule next batch asynchronously so the host stays responsive
+            setTimeout(() => processBatch(batchIndex + 1), 0);
+          } else {
+            // Simulation complete
+            resolve(results);
+          }
+        } catch (error) {
+          reject(error);
+        }
+      }
+      
+      // Start first batch
+      processBatch(0);
+      
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
+
+// Fixed split so a seeded parallel run reproduces regardless of how many workers the machine has
+const MAX_PARALLEL_SHARDS = 8;
+const MIN_SHARD_ITERATIONS = 2500;
+
+// Splits a run into independently seeded shards; one shard runs exactly like the unsplit run
+export function planSimulationShards(params: SimulationParams): SimulationParams[] {
+  const shardCount = Math.max(1, Math.min(MAX_PARALLEL_SHARDS, Math.floor(params.iterations / MIN_SHARD_ITERATIONS)));
+  const baseSize = Math.floor(params.iterations / shardCount);
+
+  return Array.from({ length: shardCount }, (_, index) => ({
+    ...params,
+    iterations: baseSize + (index < params.iterations % shardCount ? 1 : 0),
+    seed: params.seed !== undefined ? deriveSeed(params.seed, index) : undefined
+  }));
+}
+
+export function summarizeResults(
+  results: SimulationResult[],
+  duration: number,
+  seed?: number,
+  convergence?: ConvergenceSummary
+): SimulationSummary {
+  const summary = new ResultSummary();
+  results.forEach(result => summary.add(result));
+  return summarizeStreamedResults(summary, duration, seed, convergence);
+}
+
+// Persisted statistics always come from streaming summaries, so browser and server runs report alike
+export function summarizeStreamedResults(
+  summary: ResultSummary,
+  duration: number,
+  seed?: number,
+  convergence?: ConvergenceSummary
+): SimulationSummary {
+  return {
+    rateStats: summary.rate.overall.statistics(),
+    transitStats: summary.transit.overall.statistics(),
+    costStats: summary.cost.overall.statistics(),
+    duration,
+    iterations: summary.count,
+    seed,
+    convergence,
+    sketches: {
+      rate: summary.rate.overall.toJSON(),
+      transit: summary.transit.overall.toJSON(),
+      cost: summary.cost.overall.toJSON()
+    }
+  };
+}
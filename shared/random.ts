@@ -0,0 +1,42 @@
+// Pluggable random sources for Monte Carlo sampling.
+// Every sampler takes a RandomSource so a run can be replayed from its seed.
+
+export type RandomSource = () => number;
+
+export const MAX_SEED = 2147483647; // Fits the signed integer `seed` column
+
+// Mulberry32: small, fast 32-bit PRNG with good statistical quality for simulation use
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function generateSeed(): number {
+  return Math.floor(Math.random() * MAX_SEED) + 1;
+}
+
+export function parseSeed(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (trimmed === "") return undefined;
+
+  const seed = Number(trimmed);
+  if (!Number.isInteger(seed) || seed < 0 || seed > MAX_SEED) return undefined;
+  return seed;
+}
+
+// Independent seed for sub-stream `stream` of a run (shards of a parallel run); stream 0 keeps the run's seed
+export function deriveSeed(seed: number, stream: number): number {
+  if (stream === 0) return seed;
+
+  let hash = Math.imul(seed ^ Math.imul(stream, 0x9E3779B1), 0x85EBCA6B);
+  hash = Math.imul(hash ^ (hash >>> 13), 0xC2B2AE35);
+  hash ^= hash >>> 16;
+  return (hash >>> 0) % MAX_SEED + 1;
+}
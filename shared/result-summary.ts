@@ -0,0 +1,104 @@
+// Streaming summaries of simulation results: what workers send back instead of SimulationResult[]
+import type { SimulationResult } from "./schema";
+import { StreamingSummary, type StreamingSummaryData } from "./streaming-summary";
+
+// Key for iterations that drew no congestion scenario
+export const NO_CONGESTION_KEY = "";
+
+export interface MetricSummaryData {
+  overall: StreamingSummaryData;
+  byScenario: Record<string, StreamingSummaryData>;
+}
+
+export interface ResultSummaryData {
+  rate: MetricSummaryData;
+  transit: MetricSummaryData;
+  cost: MetricSummaryData;
+}
+
+// One metric, overall and split by the congestion scenario drawn in each iteration
+export class MetricSummary {
+  readonly overall = new StreamingSummary();
+  readonly byScenario = new Map<string, StreamingSummary>();
+
+  add(value: number, scenario: string | null) {
+    this.overall.add(value);
+
+    const key = scenario || NO_CONGESTION_KEY;
+    let summary = this.byScenario.get(key);
+    if (!summary) {
+      summary = new StreamingSummary();
+      this.byScenario.set(key, summary);
+    }
+    summary.add(value);
+  }
+
+  merge(other: MetricSummary) {
+    this.overall.merge(other.overall);
+    other.byScenario.forEach((summary, key) => {
+      const existing = this.byScenario.get(key);
+      if (existing) {
+        existing.merge(summary);
+      } else {
+        const copy = new StreamingSummary();
+        copy.merge(summary);
+        this.byScenario.set(key, copy);
+      }
+    });
+  }
+
+  get hasScenarios(): boolean {
+    return Array.from(this.byScenario.keys()).some(key => key !== NO_CONGESTION_KEY);
+  }
+
+  toJSON(): MetricSummaryData {
+    const byScenario: Record<string, StreamingSummaryData> = {};
+    this.byScenario.forEach((summary, key) => {
+      byScenario[key] = summary.toJSON();
+    });
+    return { overall: this.overall.toJSON(), byScenario };
+  }
+
+  static fromJSON(data: MetricSummaryData): MetricSummary {
+    const metric = new MetricSummary();
+    metric.overall.merge(StreamingSummary.fromJSON(data.overall));
+    Object.entries(data.byScenario).forEach(([key, summary]) => {
+      metric.byScenario.set(key, StreamingSummary.fromJSON(summary));
+    });
+    return metric;
+  }
+}
+
+export class ResultSummary {
+  readonly rate = new MetricSummary();
+  readonly transit = new MetricSummary();
+  readonly cost = new MetricSummary();
+
+  get count(): number {
+    return this.rate.overall.size;
+  }
+
+  add(result: SimulationResult) {
+    this.rate.add(result.rate, result.congestionScenario);
+    this.transit.add(result.transitDays, result.congestionScenario);
+    this.cost.add(result.totalLandedCost, result.congestionScenario);
+  }
+
+  merge(other: ResultSummary) {
+    this.rate.merge(other.rate);
+    this.transit.merge(other.transit);
+    this.cost.merge(other.cost);
+  }
+
+  toJSON(): ResultSummaryData {
+    return { rate: this.rate.toJSON(), transit: this.transit.toJSON(), cost: this.cost.toJSON() };
+  }
+
+  static fromJSON(data: ResultSummaryData): ResultSummary {
+    const summary = new ResultSummary();
+    summary.rate.merge(MetricSummary.fromJSON(data.rate));
+    summary.transit.merge(MetricSummary.fromJSON(data.transit));
+    summary.cost.merge(MetricSummary.fromJSON(data.cost));
+    return summary;
+  }
+}
@@ -1,7 +1,8 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, real, integer, jsonb, timestamp, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, real, integer, jsonb, timestamp, boolean, date, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { IndexForecastDistribution } from "./index-forecast";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -20,6 +21,7 @@ export const lanes = pgTable("lanes", {
   historicalVolatility: real("historical_volatility").notNull(),
   segments: jsonb("segments").notNull(),
   factors: jsonb("factors").notNull(),
+  correlationMatrix: jsonb("correlation_matrix"), // CorrelationMatrix; null samples factors and segments independently
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -30,6 +32,8 @@ export const simulations = pgTable("simulations", {
   rateDistribution: jsonb("rate_distribution").notNull(),
   transitDistribution: jsonb("transit_distribution").notNull(),
   status: text("status").notNull().default("pending"),
+  seed: integer("seed"), // PRNG seed; re-running with it reproduces the results exactly
+  autoTolerance: real("auto_tolerance"), // Auto mode: stop once P90 landed cost is stable within this relative tolerance
   results: jsonb("results"),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -38,6 +42,8 @@ export const quotes = pgTable("quotes", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   laneId: varchar("lane_id").references(() => lanes.id),
   carrier: text("carrier").notNull(),
+  customer: text("customer"), // Selects a customer-specific recommendation policy, if one exists
+  shipmentId: varchar("shipment_id").references(() => shipments.id), // Chosen alternatives feed this shipment's workflow
   rate: real("rate").notNull(),
   validUntil: timestamp("valid_until"),
   evaluation: jsonb("evaluation"),
@@ -45,13 +51,26 @@ export const quotes = pgTable("quotes", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// One saved run of the alternatives simulation or optimiser for a quote; its outcomes are stored as alternatives
+export const alternativeAnalysisRuns = pgTable("alternative_analysis_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  quoteId: varchar("quote_id").references(() => quotes.id).notNull(),
+  kind: text("kind").notNull(), // simulate, optimise
+  parameters: jsonb("parameters").notNull(), // The validated request
+  summary: jsonb("summary").notNull(), // AlternativeAnalysisRunSummary
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const alternatives = pgTable("alternatives", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   quoteId: varchar("quote_id").references(() => quotes.id),
+  analysisRunId: varchar("analysis_run_id").references(() => alternativeAnalysisRuns.id),
   type: text("type").notNull(),
   parameters: jsonb("parameters").notNull(),
   simulation: jsonb("simulation").notNull(),
   score: real("score").notNull(),
+  chosen: boolean("chosen").notNull().default(false), // At most one chosen strategy per quote
+  chosenAt: timestamp("chosen_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -66,6 +85,62 @@ export const marketIndices = pgTable("market_indices", {
   lastUpdated: timestamp("last_updated").defaultNow(),
 });
 
+// Dated values of a market index. One row per (code, date): re-ingesting a day overwrites its value.
+export const indexObservations = pgTable("index_observations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: text("code").notNull(), // MarketIndex code
+  date: date("date", { mode: "string" }).notNull(), // YYYY-MM-DD
+  value: real("value").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [unique("index_observations_code_date").on(table.code, table.date)]);
+
+// Weighted, optionally lagged blend of stored indices. Only the definition is stored; its history and snapshot are
+// computed from the components on read, and its code can be used as a lane's baseIndex.
+export const compositeIndices = pgTable("composite_indices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: text("code").notNull().unique(),
+  name: text("name").notNull(),
+  components: jsonb("components").notNull(), // CompositeIndexComponent[]
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Realised freight paid on a lane, regressed against its base index to estimate laneRatio and carrier premia
+export const freightInvoices = pgTable("freight_invoices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  laneId: varchar("lane_id").references(() => lanes.id).notNull(),
+  date: date("date", { mode: "string" }).notNull(), // YYYY-MM-DD the rate was booked
+  carrier: text("carrier").notNull(),
+  amount: real("amount").notNull(), // Paid rate per container
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Percentile cut-offs and risk bands that turn a quote evaluation into a verdict.
+// Scoped to a lane, a customer, both, or neither (the global default); edits bump the version.
+export const recommendationPolicies = pgTable("recommendation_policies", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  laneId: varchar("lane_id").references(() => lanes.id),
+  customer: text("customer"),
+  rules: jsonb("rules").notNull(), // RecommendationPolicyRules
+  active: boolean("active").notNull().default(true),
+  version: integer("version").notNull().default(1),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Immutable snapshot of every policy version, kept so past evaluations stay explainable
+export const recommendationPolicyVersions = pgTable("recommendation_policy_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  policyId: varchar("policy_id").notNull(),
+  version: integer("version").notNull(),
+  name: text("name").notNull(),
+  laneId: varchar("lane_id"),
+  customer: text("customer"),
+  rules: jsonb("rules").notNull(),
+  active: boolean("active").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Insert schemas
 export const insertLaneSchema = createInsertSchema(lanes).omit({
   id: true,
@@ -87,11 +162,60 @@ export const insertAlternativeSchema = createInsertSchema(alternatives).omit({
   createdAt: true,
 });
 
+export const insertAlternativeAnalysisRunSchema = createInsertSchema(alternativeAnalysisRuns).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertMarketIndexSchema = createInsertSchema(marketIndices).omit({
   id: true,
   lastUpdated: true,
 });
 
+export const insertIndexObservationSchema = createInsertSchema(indexObservations).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const compositeIndexComponentSchema = z.object({
+  code: z.string().trim().min(1),
+  weight: z.number().positive().max(100), // Relative: the composite divides by the sum of its weights
+  lagDays: z.number().int().min(0).max(365).default(0) // Uses the component's value this many days earlier
+});
+
+export const insertCompositeIndexSchema = createInsertSchema(compositeIndices).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  code: z.string().trim().regex(/^[A-Z0-9_-]{2,20}$/, "Codes are 2-20 uppercase letters, digits, _ or -"),
+  name: z.string().trim().min(1),
+  components: z.array(compositeIndexComponentSchema).min(1).max(10)
+    .refine(
+      components => new Set(components.map(component => `${component.code}:${component.lagDays}`)).size === components.length,
+      { message: "Each component code and lag may appear only once" }
+    )
+});
+
+// The code is fixed once created, since lanes reference it
+export const updateCompositeIndexSchema = insertCompositeIndexSchema.omit({ code: true }).partial();
+
+export const insertFreightInvoiceSchema = createInsertSchema(freightInvoices).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertRecommendationPolicySchema = createInsertSchema(recommendationPolicies).omit({
+  id: true,
+  version: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertRecommendationPolicyVersionSchema = createInsertSchema(recommendationPolicyVersions).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Normalized schema for creating quotes from frontend (handles string to number/date conversions)
 export const createQuoteSchema = insertQuoteSchema.extend({
   rate: z.coerce.number().gt(0, "Rate must be greater than 0"),
@@ -116,36 +240,269 @@ export type Quote = typeof quotes.$inferSelect;
 export type InsertQuote = z.infer<typeof insertQuoteSchema>;
 export type Alternative = typeof alternatives.$inferSelect;
 export type InsertAlternative = z.infer<typeof insertAlternativeSchema>;
+export type AlternativeAnalysisRun = typeof alternativeAnalysisRuns.$inferSelect;
+export type InsertAlternativeAnalysisRun = z.infer<typeof insertAlternativeAnalysisRunSchema>;
 export type MarketIndex = typeof marketIndices.$inferSelect;
 export type InsertMarketIndex = z.infer<typeof insertMarketIndexSchema>;
+export type IndexObservation = typeof indexObservations.$inferSelect;
+export type InsertIndexObservation = z.infer<typeof insertIndexObservationSchema>;
+export type CompositeIndex = typeof compositeIndices.$inferSelect;
+export type InsertCompositeIndex = z.infer<typeof insertCompositeIndexSchema>;
+export type CompositeIndexComponent = z.infer<typeof compositeIndexComponentSchema>;
+export type FreightInvoice = typeof freightInvoices.$inferSelect;
+export type InsertFreightInvoice = z.infer<typeof insertFreightInvoiceSchema>;
+export type RecommendationPolicy = typeof recommendationPolicies.$inferSelect;
+export type InsertRecommendationPolicy = z.infer<typeof insertRecommendationPolicySchema>;
+export type RecommendationPolicyVersion = typeof recommendationPolicyVersions.$inferSelect;
+export type InsertRecommendationPolicyVersion = z.infer<typeof insertRecommendationPolicyVersionSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
 
 // Simulation-specific types
+export const DISTRIBUTION_TYPES = [
+  'normal', 'lognormal', 'triangle', 'exponential', 'uniform', 'pert', 'gamma', 'weibull', 'beta', 'empirical'
+] as const;
+
+export type DistributionType = typeof DISTRIBUTION_TYPES[number];
+
+// Optional bounds applied to any distribution by renormalising its CDF between them
+export interface DistributionTruncation {
+  min?: number;
+  max?: number;
+}
+
 export interface RateFactor {
   name: string;
   type: 'carrierPremium' | 'seasonality' | 'capacityUtilization' | 'fuelSurcharge';
   meanMultiplier: number;
-  distribution: 'normal' | 'lognormal' | 'triangle' | 'exponential';
+  distribution: DistributionType;
   parameters: Record<string, number>;
+  samples?: number[]; // Empirical distribution only: observed multipliers to bootstrap from
+  truncation?: DistributionTruncation;
   enabled: boolean;
 }
 
 export interface TransitSegment {
   name: string;
   baselineDays: number;
-  distribution: 'normal' | 'lognormal';
+  distribution: DistributionType;
   parameters: Record<string, number>;
+  samples?: number[]; // Empirical distribution only: observed durations in days
+  truncation?: DistributionTruncation;
   congestionScenarios: CongestionScenario[];
 }
 
+// Parameters per distribution. Optional ones fall back to defaults derived from the
+// factor's meanMultiplier or the segment's baselineDays.
+const positiveNumber = z.number().positive();
+
+export const distributionParameterSchemas = {
+  normal: z.object({ mean: z.number().optional(), stdDev: positiveNumber.optional() }),
+  lognormal: z.object({ mu: z.number().optional(), sigma: positiveNumber.optional() }),
+  triangle: z.object({ min: z.number().optional(), mode: z.number().optional(), max: z.number().optional() }),
+  exponential: z.object({ lambda: positiveNumber.optional() }),
+  uniform: z.object({ min: z.number(), max: z.number() })
+    .refine(p => p.min < p.max, { message: "min must be below max" }),
+  pert: z.object({ min: z.number(), mode: z.number(), max: z.number() })
+    .refine(p => p.min < p.max && p.mode >= p.min && p.mode <= p.max, { message: "Expected min <= mode <= max with min < max" }),
+  gamma: z.object({ shape: positiveNumber, scale: positiveNumber }),
+  weibull: z.object({ shape: positiveNumber, scale: positiveNumber }),
+  beta: z.object({ alpha: positiveNumber, beta: positiveNumber, min: z.number().optional(), max: z.number().optional() }),
+  empirical: z.object({})
+} satisfies Record<DistributionType, z.ZodTypeAny>;
+
+export type DistributionParameters = {
+  [K in DistributionType]: z.infer<typeof distributionParameterSchemas[K]>;
+};
+
+export const distributionTruncationSchema = z.object({
+  min: z.number().optional(),
+  max: z.number().optional()
+}).refine(t => t.min === undefined || t.max === undefined || t.min < t.max, {
+  message: "Truncation min must be below max"
+});
+
+// Validates the distribution fields shared by rate factors and transit segments, leaving the rest untouched
+export const distributionConfigSchema = z.object({
+  distribution: z.enum(DISTRIBUTION_TYPES),
+  parameters: z.record(z.number()),
+  samples: z.array(z.number()).optional(),
+  truncation: distributionTruncationSchema.optional()
+}).passthrough().superRefine((config, ctx) => {
+  const result = distributionParameterSchemas[config.distribution].safeParse(config.parameters);
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      ctx.addIssue({ ...issue, path: ["parameters", ...issue.path] });
+    }
+  }
+  if (config.distribution === "empirical" && (!config.samples || config.samples.length === 0)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["samples"], message: "Empirical distributions need at least one sample" });
+  }
+});
+
+export const laneDistributionsSchema = z.object({
+  factors: z.array(distributionConfigSchema),
+  segments: z.array(distributionConfigSchema)
+});
+
+// How alternatives are ranked from their simulated distributions
+export const decisionCriterionSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("expectedValue") }),
+  z.object({ type: z.literal("cvar"), alpha: z.number().min(0.5).max(0.999).default(0.95) }), // Mean cost in the worst 1 - alpha
+  z.object({ type: z.literal("meanVariance"), lambda: z.number().min(0).max(1).default(0.001) }), // Risk aversion per dollar
+  z.object({ type: z.literal("onTime"), deadlineDays: z.number().positive() })
+]);
+
+// How a wait prices the index at its booking date: a fitted forecast model ("auto" picks the best backtest), or
+// "lane" for a random walk at the lane's volatility and indexDrift
+export const indexModelSchema = z.enum(["auto", "lane", "gbm", "ou", "seasonal"]);
+
+// Strategies to simulate for a quote; book-now is always included
+export const alternativeAnalysisRequestSchema = z.object({
+  iterations: z.number().int().min(1000).max(100000).default(10000),
+  seed: z.number().int().nonnegative().optional(),
+  waitDays: z.number().min(0).max(90).nullable().default(7), // null skips the wait strategy
+  split: z.object({
+    nowPercent: z.number().min(0).max(100),
+    delayDays: z.number().min(0).max(90)
+  }).nullable().default({ nowPercent: 30, delayDays: 7 }),
+  rerouteLaneIds: z.array(z.string()).default([]),
+  holdingCostRate: z.number().min(0).max(0.1).optional(), // Fraction of the quoted rate per day held
+  indexDrift: z.number().min(-5).max(5).optional(), // Annualised
+  indexModel: indexModelSchema.default("auto"),
+  deadlineDays: z.number().positive().optional(),
+  criterion: decisionCriterionSchema.default({ type: "expectedValue" })
+});
+
+export type AlternativeAnalysisRequest = z.infer<typeof alternativeAnalysisRequestSchema>;
+
+// Inclusive grid searched by the alternative optimiser
+export const gridRangeSchema = z.object({
+  min: z.number().min(0),
+  max: z.number().min(0),
+  step: z.number().positive()
+}).refine(range => range.min <= range.max, { message: "min must not exceed max" });
+
+// Risk constraint an optimised alternative must satisfy; "none" leaves every grid point eligible
+export const riskConstraintSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("none") }),
+  z.object({ type: z.literal("p90Budget"), budget: z.number().positive() }),
+  z.object({
+    type: z.literal("onTime"),
+    deadlineDays: z.number().positive(),
+    minProbability: z.number().min(0).max(100).default(95) // Percent
+  })
+]);
+
+export const alternativeOptimisationRequestSchema = z.object({
+  iterations: z.number().int().min(1000).max(50000).default(5000),
+  seed: z.number().int().nonnegative().optional(),
+  waitDays: gridRangeSchema.default({ min: 0, max: 28, step: 7 }), // Also the delays tried for split shipments
+  splitPercent: gridRangeSchema.default({ min: 0, max: 100, step: 10 }), // Share shipped now
+  rerouteLaneIds: z.array(z.string()).default([]),
+  holdingCostRate: z.number().min(0).max(0.1).optional(),
+  indexDrift: z.number().min(-5).max(5).optional(),
+  indexModel: indexModelSchema.default("auto"),
+  constraint: riskConstraintSchema.default({ type: "none" }),
+  criterion: decisionCriterionSchema.default({ type: "expectedValue" }) // Objective among points meeting the constraint
+}).refine(request => request.waitDays.max <= 90, { message: "Wait days are limited to 90", path: ["waitDays"] })
+  .refine(request => request.splitPercent.max <= 100, { message: "Split percent cannot exceed 100", path: ["splitPercent"] });
+
+export type GridRange = z.infer<typeof gridRangeSchema>;
+export type RiskConstraint = z.infer<typeof riskConstraintSchema>;
+export type AlternativeOptimisationRequest = z.infer<typeof alternativeOptimisationRequestSchema>;
+export type DecisionCriterion = z.infer<typeof decisionCriterionSchema>;
+export type IndexModel = z.infer<typeof indexModelSchema>;
+
+// Calendar date as YYYY-MM-DD, rejecting impossible days such as 2024-02-30
+export const isoDateSchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD")
+  .refine(value => {
+    const parsed = new Date(`${value}T00:00:00Z`);
+    return !isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === value;
+  }, { message: "Not a calendar date" });
+
+export const indexObservationBatchSchema = z.object({
+  observations: z.array(z.object({
+    date: isoDateSchema,
+    value: z.number().positive()
+  })).min(1).max(5000)
+});
+
+// Inclusive date range for index history and the volatility derived from it
+export const indexHistoryQuerySchema = z.object({
+  from: isoDateSchema.optional(),
+  to: isoDateSchema.optional()
+}).refine(range => !range.from || !range.to || range.from <= range.to, { message: "from must not be after to" });
+
+// Uploaded index file; a dry run reports what would change without writing anything
+export const indexImportRequestSchema = z.object({
+  content: z.string().min(1).max(5_000_000),
+  format: z.enum(["auto", "csv", "json"]).default("auto"),
+  code: z.string().min(1).optional(), // Index for files without a code column or per-index columns
+  dateFormat: z.enum(["auto", "ymd", "dmy", "mdy"]).default("auto"), // Order of day and month in numeric dates
+  dryRun: z.boolean().default(true)
+});
+
+// Horizon in days from the latest observation; without a model the best backtest is selected
+export const indexForecastQuerySchema = z.object({
+  horizon: z.coerce.number().int().min(1).max(365).default(30),
+  model: z.enum(["gbm", "ou", "seasonal"]).optional(),
+  from: isoDateSchema.optional(),
+  to: isoDateSchema.optional()
+}).refine(range => !range.from || !range.to || range.from <= range.to, { message: "from must not be after to" });
+
+export const freightInvoiceBatchSchema = z.object({
+  invoices: z.array(z.object({
+    date: isoDateSchema,
+    carrier: z.string().trim().min(1),
+    amount: z.number().positive()
+  })).min(1).max(5000),
+  replace: z.boolean().default(false) // Drop the lane's existing invoices first
+});
+
+// Which parts of a lane ratio fit to write back onto the lane
+export const laneRatioApplySchema = z.object({
+  from: isoDateSchema.optional(),
+  to: isoDateSchema.optional(),
+  laneRatio: z.boolean().default(true),
+  historicalVolatility: z.boolean().default(true),
+  carrierPremium: z.boolean().default(true)
+}).refine(range => !range.from || !range.to || range.from <= range.to, { message: "from must not be after to" });
+
+export type IndexObservationBatch = z.infer<typeof indexObservationBatchSchema>;
+export type IndexHistoryQuery = z.infer<typeof indexHistoryQuerySchema>;
+export type IndexForecastQuery = z.infer<typeof indexForecastQuerySchema>;
+export type IndexImportRequest = z.infer<typeof indexImportRequestSchema>;
+export type FreightInvoiceBatch = z.infer<typeof freightInvoiceBatchSchema>;
+export type LaneRatioApplyRequest = z.infer<typeof laneRatioApplySchema>;
+
+// Gaussian copula correlation between rate factors and transit segments
+export interface CorrelationMatrix {
+  variables: string[]; // "factor:<name>" or "segment:<name>", one per row/column
+  matrix: number[][];
+}
+
 export interface CongestionScenario {
   name: string;
-  probability: number;
+  probability: number; // Percent chance per iteration (0-100)
   delayPattern: number[];
   description: string;
 }
 
+// Inputs snapshotted onto a simulation row so the run can be replayed from its seed
+export interface SimulationRateInputs {
+  baseRate: number;
+  factors: RateFactor[];
+  correlationMatrix?: CorrelationMatrix | null; // Also covers transit segments
+  indexForecast?: IndexForecastDistribution | null; // Index at the planned booking date; absent books at today's rate
+}
+
+export interface SimulationTransitInputs {
+  segments: TransitSegment[];
+  departureWeek?: number;
+}
+
 export interface SimulationResult {
   iteration: number;
   rate: number;
@@ -153,8 +510,60 @@ export interface SimulationResult {
   arrivalDate: Date;
   delayCost: number;
   totalLandedCost: number;
+  congestionScenario: string | null; // Scenario adding the most delay this iteration, if any was drawn
+  congestionDelayDays: number;
 }
 
+// A quote's rate percentile within the simulated distribution drives both the verdict and the risk score.
+// Verdicts: above rejectAbove -> REJECT, above negotiateAbove -> NEGOTIATE, within [waitFrom, waitTo]
+// while the quote is not well under the market baseline -> WAIT, otherwise BOOK_NOW.
+export const riskBandSchema = z.object({
+  upToPercentile: z.number().gt(0).max(100),
+  minScore: z.number().min(0).max(10),
+  maxScore: z.number().min(0).max(10)
+}).refine(band => band.minScore <= band.maxScore, { message: "minScore must not exceed maxScore" });
+
+export const recommendationPolicyRulesSchema = z.object({
+  rejectAbove: z.number().min(0).max(100),
+  negotiateAbove: z.number().min(0).max(100),
+  waitFrom: z.number().min(0).max(100),
+  waitTo: z.number().min(0).max(100),
+  waitMinMarketVariance: z.number(), // Fraction: -0.05 keeps quotes 5%+ under the baseline out of WAIT
+  riskBands: z.array(riskBandSchema).min(1) // Ascending; the score interpolates linearly across each band
+}).superRefine((rules, ctx) => {
+  if (rules.negotiateAbove > rules.rejectAbove) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["negotiateAbove"], message: "negotiateAbove must not exceed rejectAbove" });
+  }
+  if (rules.waitFrom > rules.waitTo) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["waitTo"], message: "waitTo must not be below waitFrom" });
+  }
+  rules.riskBands.forEach((band, i) => {
+    if (i > 0 && band.upToPercentile <= rules.riskBands[i - 1].upToPercentile) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["riskBands", i, "upToPercentile"], message: "Risk bands must be in ascending percentile order" });
+    }
+  });
+  if (rules.riskBands[rules.riskBands.length - 1]?.upToPercentile !== 100) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["riskBands"], message: "The last risk band must end at the 100th percentile" });
+  }
+});
+
+export type RiskBand = z.infer<typeof riskBandSchema>;
+export type RecommendationPolicyRules = z.infer<typeof recommendationPolicyRulesSchema>;
+
+// Used when no stored policy applies to a quote
+export const DEFAULT_RECOMMENDATION_RULES: RecommendationPolicyRules = {
+  rejectAbove: 90,
+  negotiateAbove: 75,
+  waitFrom: 10,
+  waitTo: 40,
+  waitMinMarketVariance: -0.05,
+  riskBands: [
+    { upToPercentile: 25, minScore: 2, maxScore: 4 },
+    { upToPercentile: 75, minScore: 4, maxScore: 7 },
+    { upToPercentile: 100, minScore: 7, maxScore: 10 }
+  ]
+};
+
 export interface QuoteEvaluation {
   marketVariance: number;
   modelVariance: number;
@@ -162,6 +571,28 @@ export interface QuoteEvaluation {
   riskScore: number;
   recommendation: 'BOOK_NOW' | 'WAIT' | 'NEGOTIATE' | 'REJECT';
   confidence: number;
+  // Audit trail: what the verdict was computed against
+  simulationId: string;
+  simulationIterations: number;
+  marketBaseline: number; // indexValue * laneRatio at evaluation time
+  modelMean: number; // Mean simulated rate
+  evaluatedAt: string; // ISO timestamp
+  policyId: string | null; // null when the built-in default rules applied
+  policyName: string;
+  policyVersion: number; // 0 for the built-in default rules
+  // Absent on evaluations made before carrier scorecards
+  expectedRate?: number; // The rate adjusted by the carrier's usual invoice variance; what the percentile is of
+  carrier?: QuoteCarrierRecord | null; // null when the carrier is not in master data
+}
+
+// The carrier's scorecard as a quote evaluation used it
+export interface QuoteCarrierRecord {
+  carrierId: string;
+  name: string;
+  bookings: number; // In the scorecard window
+  onTimeRate: number | null; // 0-1
+  expectedInvoiceVariance: number; // Relative; shrunk toward 0 for carriers with few invoices
+  reliabilityScore: number; // 0-100
 }
 
 // New tables for agentic process automation
@@ -191,6 +622,7 @@ export const automationProcesses = pgTable("automation_processes", {
   deferCost: real("defer_cost"),
   deferReason: text("defer_reason"),
   processData: jsonb("process_data"), // Store various process-specific data
+  stageHistory: jsonb("stage_history"), // StageHistoryEntry[], oldest first; written only by transitions
   completedAt: timestamp("completed_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -230,6 +662,64 @@ export const processActions = pgTable("process_actions", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// A request for quotes on a shipment's lane, sent to a list of carriers
+export const rfqs = pgTable("rfqs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  shipmentId: varchar("shipment_id").references(() => shipments.id).notNull(),
+  laneId: varchar("lane_id").references(() => lanes.id).notNull(),
+  deadline: timestamp("deadline").notNull(),
+  responseQuota: integer("response_quota").notNull(), // Quotes that close the RFQ before its deadline
+  notes: text("notes"),
+  status: text("status").notNull().default("open"), // open, closed
+  closedReason: text("closed_reason"), // quota_reached, all_responded, deadline_passed, closed_manually
+  closedAt: timestamp("closed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One carrier's invitation to an RFQ; the token authorises its response without a login
+export const rfqInvitations = pgTable("rfq_invitations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  rfqId: varchar("rfq_id").references(() => rfqs.id).notNull(),
+  carrier: text("carrier").notNull(),
+  contactEmail: text("contact_email"),
+  token: text("token").notNull().unique(),
+  status: text("status").notNull().default("pending"), // pending, quoted, declined, expired
+  quoteId: varchar("quote_id").references(() => quotes.id),
+  declineReason: text("decline_reason"),
+  respondedAt: timestamp("responded_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Carrier master data. Quotes, invoices and RFQs name carriers in free text and are matched to it by name.
+export const carriers = pgTable("carriers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  scac: text("scac"), // Standard Carrier Alpha Code
+  contacts: jsonb("contacts").notNull(), // CarrierContact[]
+  services: text("services").array().notNull(), // Lower-case special handling offered, e.g. "temperature controlled"
+  laneIds: text("lane_ids").array().notNull(), // Lanes served; empty when not recorded
+  active: boolean("active").notNull().default(true),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// What actually happened on one booking with a carrier; rolling windows of these make its scorecard
+export const bookingOutcomes = pgTable("booking_outcomes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  carrierId: varchar("carrier_id").references(() => carriers.id).notNull(),
+  quoteId: varchar("quote_id").references(() => quotes.id).unique(), // The booked quote; null for bookings made elsewhere
+  shipmentId: varchar("shipment_id").references(() => shipments.id),
+  laneId: varchar("lane_id").references(() => lanes.id),
+  bookedRate: real("booked_rate").notNull(),
+  invoicedAmount: real("invoiced_amount"), // null until the carrier invoices
+  deliveredAt: timestamp("delivered_at").notNull(),
+  onTime: boolean("on_time").notNull(),
+  rolled: boolean("rolled").notNull().default(false), // Cargo bumped to a later sailing
+  damaged: boolean("damaged").notNull().default(false),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Insert schemas for new tables
 export const insertShipmentSchema = createInsertSchema(shipments).omit({
   id: true,
@@ -241,6 +731,35 @@ export const insertAutomationProcessSchema = createInsertSchema(automationProces
   createdAt: true,
 });
 
+// Stages move only through POST /api/automation-processes/:id/transitions; new processes start at quote_collection.
+// The decision and quote count the transition guards read are set only by the workflow and its agents.
+export const createAutomationProcessSchema = insertAutomationProcessSchema.omit({
+  currentStage: true,
+  stageHistory: true,
+  completedAt: true,
+  quotesCollected: true,
+  agentDecision: true,
+  deferCost: true,
+  deferReason: true,
+});
+
+export const updateAutomationProcessSchema = createAutomationProcessSchema.omit({
+  shipmentId: true,
+}).partial();
+
+export const WORKFLOW_STAGES = [
+  'quote_collection', 'agent_evaluation', 'decision_analysis', 'booking_execution', 'document_generation', 'approval_pending', 'completed'
+] as const;
+
+export const WORKFLOW_EVENTS = [
+  'start_evaluation', 'request_decision', 'book', 'defer', 'generate_documents', 'submit_for_approval', 'complete', 'reconsider'
+] as const;
+
+export const workflowTransitionSchema = z.object({
+  event: z.enum(WORKFLOW_EVENTS),
+  note: z.string().trim().max(500).optional()
+});
+
 export const insertVendorEvaluationSchema = createInsertSchema(vendorEvaluations).omit({
   id: true,
   evaluatedAt: true,
@@ -256,6 +775,101 @@ export const insertProcessActionSchema = createInsertSchema(processActions).omit
   createdAt: true,
 });
 
+export const insertRfqSchema = createInsertSchema(rfqs).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertRfqInvitationSchema = createInsertSchema(rfqInvitations).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const rfqCarrierSchema = z.object({
+  carrier: z.string().trim().min(1).max(100),
+  contactEmail: z.string().trim().email().optional()
+});
+
+export const createRfqSchema = z.object({
+  laneId: z.string().min(1),
+  carriers: z.array(rfqCarrierSchema).min(1).max(50),
+  deadline: z.coerce.date(),
+  responseQuota: z.number().int().min(1).optional(), // Defaults to every invited carrier
+  notes: z.string().trim().max(1000).optional()
+}).refine(
+  request => new Set(request.carriers.map(entry => entry.carrier.toLowerCase())).size === request.carriers.length,
+  { message: "Each carrier can only be invited once", path: ["carriers"] }
+).refine(
+  request => request.responseQuota === undefined || request.responseQuota <= request.carriers.length,
+  { message: "The response quota cannot exceed the number of carriers invited", path: ["responseQuota"] }
+);
+
+export const carrierContactSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  role: z.string().trim().max(100).optional(),
+  email: z.string().trim().email().optional(),
+  phone: z.string().trim().max(40).optional()
+});
+
+export const insertCarrierSchema = createInsertSchema(carriers).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1).max(100),
+  scac: z.string().trim().regex(/^[A-Z]{2,4}$/, "SCAC codes are 2-4 uppercase letters").nullable().optional(),
+  contacts: z.array(carrierContactSchema).max(20).default([]),
+  services: z.array(z.string().trim().min(1).max(100).transform(service => service.toLowerCase())).max(30).default([]),
+  laneIds: z.array(z.string().min(1)).max(200).default([]),
+  notes: z.string().trim().max(1000).nullable().optional()
+});
+
+export const updateCarrierSchema = insertCarrierSchema.partial();
+
+export const insertBookingOutcomeSchema = createInsertSchema(bookingOutcomes).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Recording an outcome against a booked quote fills the lane, shipment and booked rate from it
+export const recordBookingOutcomeSchema = z.object({
+  quoteId: z.string().min(1).optional(),
+  laneId: z.string().min(1).optional(),
+  shipmentId: z.string().min(1).optional(),
+  bookedRate: z.number().positive().max(1_000_000).optional(),
+  invoicedAmount: z.number().positive().max(1_000_000).optional(),
+  deliveredAt: z.coerce.date(),
+  onTime: z.boolean().optional(), // Defaults to delivery by the shipment's required date
+  rolled: z.boolean().default(false),
+  damaged: z.boolean().default(false),
+  notes: z.string().trim().max(1000).optional()
+}).refine(
+  request => request.quoteId !== undefined || request.bookedRate !== undefined,
+  { message: "A booked rate is required when no quote is given", path: ["bookedRate"] }
+);
+
+// Outcomes are usually completed later, e.g. once the invoice arrives
+export const updateBookingOutcomeSchema = z.object({
+  invoicedAmount: z.number().positive().max(1_000_000).nullable(),
+  deliveredAt: z.coerce.date(),
+  onTime: z.boolean(),
+  rolled: z.boolean(),
+  damaged: z.boolean(),
+  notes: z.string().trim().max(1000).nullable()
+}).partial();
+
+// What a carrier posts to its tokenised RFQ link
+export const rfqResponseSchema = z.discriminatedUnion("response", [
+  z.object({
+    response: z.literal("quote"),
+    rate: z.number().positive().max(1_000_000),
+    validUntil: z.coerce.date().optional()
+  }),
+  z.object({
+    response: z.literal("decline"),
+    reason: z.string().trim().max(500).optional()
+  })
+]);
+
 // Frontend schema for shipment creation with proper form coercion
 export const createShipmentSchema = insertShipmentSchema.extend({
   weight: z.coerce.number().gt(0, "Weight must be greater than 0"),
@@ -295,6 +909,59 @@ export type ProcessDocument = typeof processDocuments.$inferSelect;
 export type InsertProcessDocument = z.infer<typeof insertProcessDocumentSchema>;
 export type ProcessAction = typeof processActions.$inferSelect;
 export type InsertProcessAction = z.infer<typeof insertProcessActionSchema>;
+export type Rfq = typeof rfqs.$inferSelect;
+export type InsertRfq = z.infer<typeof insertRfqSchema>;
+export type RfqInvitation = typeof rfqInvitations.$inferSelect;
+export type InsertRfqInvitation = z.infer<typeof insertRfqInvitationSchema>;
+export type CreateRfqRequest = z.infer<typeof createRfqSchema>;
+export type RfqResponse = z.infer<typeof rfqResponseSchema>;
+export type Carrier = typeof carriers.$inferSelect;
+export type InsertCarrier = z.infer<typeof insertCarrierSchema>;
+export type CarrierContact = z.infer<typeof carrierContactSchema>;
+export type BookingOutcome = typeof bookingOutcomes.$inferSelect;
+export type InsertBookingOutcome = z.infer<typeof insertBookingOutcomeSchema>;
+export type RecordBookingOutcomeRequest = z.infer<typeof recordBookingOutcomeSchema>;
+export type UpdateBookingOutcomeRequest = z.infer<typeof updateBookingOutcomeSchema>;
+export type CreateAutomationProcess = z.infer<typeof createAutomationProcessSchema>;
+export type UpdateAutomationProcess = z.infer<typeof updateAutomationProcessSchema>;
+export type WorkflowStage = typeof WORKFLOW_STAGES[number];
+export type WorkflowEvent = typeof WORKFLOW_EVENTS[number];
+export type WorkflowTransitionRequest = z.infer<typeof workflowTransitionSchema>;
+
+// One visit to a stage; exitedAt is null while the process is in it
+export interface StageHistoryEntry {
+  stage: WorkflowStage;
+  enteredAt: string; // ISO timestamp
+  exitedAt: string | null;
+  event: WorkflowEvent | null; // The transition that entered the stage; null for the initial stage
+  note?: string;
+}
+
+// An RFQ with its invitations, as the shipment workflow lists them
+export interface RfqWithInvitations extends Rfq {
+  laneName: string;
+  invitations: RfqInvitation[];
+  quotesReceived: number;
+}
+
+// What a carrier sees through its RFQ link: the shipment terms, never the other carriers
+export interface RfqCarrierView {
+  carrier: string;
+  status: string; // The invitation's status
+  rfqStatus: string;
+  deadline: string; // ISO timestamp
+  lane: { name: string; origin: string; destination: string };
+  shipment: {
+    referenceNumber: string;
+    commodity: string;
+    weight: number;
+    volume: number;
+    requiredDeliveryDate: string | null;
+    specialRequirements: string[];
+  };
+  notes: string | null;
+  quote: { rate: number; validUntil: string | null } | null; // The carrier's submitted quote
+}
 
 // Additional interfaces for the agentic workflow
 export interface AgentFitmentFactors {
@@ -306,11 +973,39 @@ export interface AgentFitmentFactors {
   complianceScore: number; // 0-100
 }
 
+// One quote as the decision agent scored it; each component is 0-100 and null when there was nothing to score
+export interface DecisionQuoteScore {
+  quoteId: string;
+  carrier: string;
+  rate: number;
+  laneId: string | null;
+  priceScore: number; // 100 - the quote's percentile in its lane simulation, or its rank among the quotes without a lane
+  fitmentScore: number | null; // Mean vendor evaluation rating for the quote in this process
+  transitScore: number | null; // Simulated on-time probability against requiredDeliveryDate
+  decisionScore: number; // Urgency-weighted mean of the components that are present
+  marketRecommendation: QuoteEvaluation['recommendation'] | null;
+  fitmentRejected: boolean; // A vendor evaluation recommends REJECT; ranked after every other quote
+}
+
+// Written to automationProcesses.processData.decisionAnalysis by the decision agent
 export interface DecisionAgentAnalysis {
+  decision: 'book' | 'defer';
+  reasoning: string[];
+  urgency: string;
+  deadlineDays: number | null; // Days from the analysis to requiredDeliveryDate
+  weights: { price: number; fitment: number; transit: number }; // Before renormalising over the scores present
+  scoredQuotes: DecisionQuoteScore[]; // Best first
   totalQuotesEvaluated: number;
-  averageFitmentScore: number;
+  averageFitmentScore: number | null;
   topRecommendedQuote: string; // quote ID
   riskAssessment: 'LOW' | 'MEDIUM' | 'HIGH';
+  transit: {
+    simulationId: string;
+    p50Days: number;
+    p90Days: number;
+    onTimeProbability: number | null;
+    onTimeIfDeferred: number | null; // After waiting recommendedWaitDays
+  } | null;
   deferAnalysis?: {
     estimatedSavings: number;
     holdingCosts: number;
@@ -320,7 +1015,8 @@ export interface DecisionAgentAnalysis {
   bookingAnalysis?: {
     selectedVendor: string;
     totalCost: number;
-    expectedDeliveryDate: Date;
+    expectedDeliveryDate: string | null; // ISO date at the simulated median transit; null without a lane
     riskFactors: string[];
   };
+  analysedAt: string; // ISO timestamp
 }
@@ -0,0 +1,84 @@
+// Deterministic merge of a sharded Monte Carlo run. Shards report one summary per batch in whatever order they
+// happen to finish; batches are folded in (batch, shard) order, one round at a time, so a seeded run judges
+// convergence, stops and reports the same numbers wherever and however fast its shards run.
+import { planSimulationShards, type SimulationParams } from "./monte-carlo";
+import { ConvergenceTracker, type ConvergencePoint, type ConvergenceSummary } from "./convergence";
+import { ResultSummary, type ResultSummaryData } from "./result-summary";
+
+// Iterations per shard batch; a round is one batch from every shard that still has one
+export const SHARD_BATCH_SIZE = 100;
+
+export interface ShardedRunProgress {
+  progress: number;
+  completedIterations: number;
+  convergence: ConvergencePoint | null; // Set when a completed round added a point to the stored curve
+}
+
+export class ShardedRunMerger {
+  readonly shards: SimulationParams[];
+  // Every completed round, merged in order
+  readonly summary = new ResultSummary();
+  private tracker = new ConvergenceTracker();
+  private pending: ResultSummary[][];
+  private batchCounts: number[];
+  private round = 0;
+  private received = 0;
+  private converged = false;
+
+  constructor(private params: SimulationParams) {
+    // Auto mode is judged on the merged run, so shards always run to their share of the cap
+    this.shards = planSimulationShards({ ...params, autoIterations: undefined });
+    this.pending = this.shards.map(() => []);
+    this.batchCounts = this.shards.map(shard => Math.ceil(shard.iterations / SHARD_BATCH_SIZE));
+  }
+
+  // Every round is merged, or auto mode converged at the last one
+  get isDone(): boolean {
+    return this.converged || this.round >= Math.max(...this.batchCounts);
+  }
+
+  get stoppedEarly(): boolean {
+    return this.summary.count < this.params.iterations;
+  }
+
+  // Batches arrive serialised, as they do from a worker, so in-process and worker runs fold identical summaries
+  addBatch(shardIndex: number, batch: ResultSummaryData): ShardedRunProgress | null {
+    if (this.isDone) return null;
+
+    const delta = ResultSummary.fromJSON(batch);
+    this.received += delta.count;
+    this.pending[shardIndex].push(delta);
+
+    let convergence: ConvergencePoint | null = null;
+    while (!this.isDone && this.roundReady()) {
+      this.shards.forEach((_, index) => {
+        if (this.round >= this.batchCounts[index]) return;
+        const next = this.pending[index].shift()!;
+        this.summary.merge(next);
+        this.tracker.merge(next.cost.overall);
+      });
+      this.round++;
+
+      this.tracker.checkpoint();
+      const { autoIterations } = this.params;
+      this.converged = !!autoIterations && this.tracker.isConverged(autoIterations);
+      // The stored curve always ends on the point the run stopped at
+      convergence = this.tracker.record(this.isDone) ?? convergence;
+    }
+
+    // Progress counts every batch received; the merged rounds can lag behind when shards outnumber workers
+    return {
+      progress: this.isDone ? 100 : (this.received / this.params.iterations) * 100,
+      completedIterations: this.isDone ? this.summary.count : this.received,
+      convergence
+    };
+  }
+
+  getConvergence(): ConvergenceSummary {
+    return this.tracker.getSummary(this.params.autoIterations, this.stoppedEarly);
+  }
+
+  private roundReady(): boolean {
+    return this.pending.every((queue, index) => this.round >= this.batchCounts[index] || queue.length > 0);
+  }
+}
@@ -0,0 +1,406 @@
+import { StreamingSummary } from "./streaming-summary";
+
+export { StreamingSummary } from "./streaming-summary";
+
+// Raw values, or a streaming summary built by a worker or the server when there are too many to keep
+export type StatisticsSource = number[] | StreamingSummary;
+
+export interface Statistics {
+  mean: number;
+  median: number;
+  mode: number | null;
+  stdDev: number;
+  variance: number;
+  min: number;
+  max: number;
+  range: number;
+  p5: number;
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+  p95: number;
+  skewness: number;
+  kurtosis: number;
+  count: number;
+}
+
+export function calculateStatistics(data: StatisticsSource): Statistics {
+  if (data instanceof StreamingSummary) {
+    return data.statistics();
+  }
+
+  if (data.length === 0) {
+    throw new Error("Cannot calculate statistics for empty dataset");
+  }
+
+  const sorted = sortValues(data);
+  const n = data.length;
+
+  // Basic measures
+  const sum = data.reduce((acc, val) => acc + val, 0);
+  const mean = sum / n;
+  const min = sorted[0];
+  const max = sorted[n - 1];
+  const range = max - min;
+
+  // Median (P50)
+  const median = percentile(sorted, 50);
+
+  // Mode (most frequent value)
+  const mode = calculateMode(data);
+
+  // Variance and Standard Deviation
+  const variance = data.reduce((acc, val) => acc + Math.pow(val - mean, 2), 0) / (n - 1);
+  const stdDev = Math.sqrt(variance);
+
+  // Percentiles
+  const p5 = percentile(sorted, 5);
+  const p10 = percentile(sorted, 10);
+  const p25 = percentile(sorted, 25);
+  const p50 = median;
+  const p75 = percentile(sorted, 75);
+  const p90 = percentile(sorted, 90);
+  const p95 = percentile(sorted, 95);
+
+  // Skewness (measure of asymmetry)
+  const skewness = calculateSkewness(data, mean, stdDev);
+
+  // Kurtosis (measure of tail heaviness)
+  const kurtosis = calculateKurtosis(data, mean, stdDev);
+
+  return {
+    mean,
+    median,
+    mode,
+    stdDev,
+    variance,
+    min,
+    max,
+    range,
+    p5,
+    p10,
+    p25,
+    p50,
+    p75,
+    p90,
+    p95,
+    skewness,
+    kurtosis,
+    count: n
+  };
+}
+
+// Builds a mergeable summary in one pass; use it instead of arrays for large runs
+export function summarizeData(data: number[]): StreamingSummary {
+  const summary = new StreamingSummary();
+  data.forEach(value => summary.add(value));
+  return summary;
+}
+
+// Value at percentile p (0-100)
+export function calculatePercentile(data: StatisticsSource, p: number): number {
+  if (p < 0 || p > 100) {
+    throw new Error("Percentile must be between 0 and 100");
+  }
+  if (data instanceof StreamingSummary) {
+    return data.size > 0 ? data.quantile(p / 100) : 0;
+  }
+  return percentile(sortValues(data), p);
+}
+
+// Fraction of values at or below `value`
+export function calculateCdf(value: number, data: StatisticsSource): number {
+  if (data instanceof StreamingSummary) {
+    return data.size > 0 ? data.cdf(value) : 0;
+  }
+  if (data.length === 0) return 0;
+
+  let atOrBelow = 0;
+  for (const item of data) {
+    if (item <= value) atOrBelow++;
+  }
+  return atOrBelow / data.length;
+}
+
+// Typed-array sort: numeric by default and much faster than sorting a copied number[]
+function sortValues(data: number[]): Float64Array {
+  return Float64Array.from(data).sort();
+}
+
+function percentile(sortedData: ArrayLike<number>, p: number): number {
+  if (p < 0 || p > 100) {
+    throw new Error("Percentile must be between 0 and 100");
+  }
+
+  const n = sortedData.length;
+  if (n === 0) return 0;
+  if (n === 1) return sortedData[0];
+
+  const index = (p / 100) * (n - 1);
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+
+  if (lower === upper) {
+    return sortedData[lower];
+  }
+
+  const weight = index - lower;
+  return sortedData[lower] * (1 - weight) + sortedData[upper] * weight;
+}
+
+function calculateMode(data: number[]): number | null {
+  const frequency = new Map<number, number>();
+  
+  data.forEach(value => {
+    frequency.set(value, (frequency.get(value) || 0) + 1);
+  });
+
+  let maxFreq = 0;
+  let mode = null;
+
+  frequency.forEach((freq, value) => {
+    if (freq > maxFreq) {
+      maxFreq = freq;
+      mode = value;
+    }
+  });
+
+  // Only return mode if it appears more than once
+  return maxFreq > 1 ? mode : null;
+}
+
+function calculateSkewness(data: number[], mean: number, stdDev: number): number {
+  if (stdDev === 0) return 0;
+
+  const n = data.length;
+  const sum = data.reduce((acc, val) => {
+    return acc + Math.pow((val - mean) / stdDev, 3);
+  }, 0);
+
+  return (n / ((n - 1) * (n - 2))) * sum;
+}
+
+function calculateKurtosis(data: number[], mean: number, stdDev: number): number {
+  if (stdDev === 0) return 0;
+
+  const n = data.length;
+  const sum = data.reduce((acc, val) => {
+    return acc + Math.pow((val - mean) / stdDev, 4);
+  }, 0);
+
+  const numerator = n * (n + 1) * sum;
+  const denominator = (n - 1) * (n - 2) * (n - 3);
+  const adjustment = 3 * Math.pow(n - 1, 2) / ((n - 2) * (n - 3));
+
+  return (numerator / denominator) - adjustment;
+}
+
+export interface HistogramBin {
+  binStart: number;
+  binEnd: number;
+  count: number;
+  frequency: number;
+  density: number;
+}
+
+// `range` pins the bin edges, e.g. so per-scenario histograms line up with the overall one
+export function generateHistogram(
+  data: StatisticsSource,
+  bins: number = 30,
+  range?: { min: number; max: number }
+): HistogramBin[] {
+  const isSummary = data instanceof StreamingSummary;
+  const n = isSummary ? data.size : data.length;
+  if (n === 0) return [];
+
+  let min = range?.min ?? Infinity;
+  let max = range?.max ?? -Infinity;
+  if (!range) {
+    if (isSummary) {
+      ({ min, max } = data.statistics());
+    } else {
+      // A loop rather than Math.min(...data), which overflows the call stack on large arrays
+      for (const value of data) {
+        if (value < min) min = value;
+        if (value > max) max = value;
+      }
+    }
+  }
+  const binWidth = (max - min) / bins;
+
+  const histogram: HistogramBin[] = Array.from({ length: bins }, (_, i) => ({
+    binStart: min + i * binWidth,
+    binEnd: i === bins - 1 ? max : min + (i + 1) * binWidth,
+    count: 0,
+    frequency: 0,
+    density: 0
+  }));
+
+  if (isSummary) {
+    // Counts come from the summary's CDF; the first bin also takes everything at or below its start
+    histogram.forEach((bin, i) => {
+      const below = i === 0 ? 0 : data.cdf(bin.binStart);
+      const upTo = i === bins - 1 && !range ? 1 : data.cdf(bin.binEnd);
+      bin.frequency = upTo - below;
+      bin.count = Math.round(bin.frequency * n);
+    });
+  } else {
+    // Count values in each bin
+    for (const value of data) {
+      if (range && (value < min || value > max)) continue;
+      const binIndex = binWidth > 0 ? Math.min(Math.floor((value - min) / binWidth), bins - 1) : 0;
+      histogram[binIndex].count++;
+    }
+    histogram.forEach(bin => {
+      bin.frequency = bin.count / n;
+    });
+  }
+
+  // Calculate density
+  histogram.forEach(bin => {
+    bin.density = binWidth > 0 ? bin.frequency / binWidth : 0;
+  });
+
+  return histogram;
+}
+
+export function calculatePercentileRank(value: number, data: StatisticsSource): number {
+  if (data instanceof StreamingSummary) {
+    if (data.size === 0) return 0;
+    // Share strictly below `value`, approximated by the summary's CDF
+    return value > data.statistics().max ? 100 : data.cdf(value) * 100;
+  }
+
+  const n = data.length;
+  if (n === 0) return 0;
+
+  // Single pass: the rank is the share of values strictly below `value`
+  let below = 0;
+  for (const item of data) {
+    if (item < value) below++;
+  }
+  return (below / n) * 100;
+}
+
+export function calculateConfidenceInterval(
+  data: StatisticsSource, 
+  confidenceLevel: number = 0.95
+): { lower: number; upper: number; margin: number } {
+  const stats = calculateStatistics(data);
+  const alpha = 1 - confidenceLevel;
+  
+  // For large samples (n > 30), use normal distribution
+  // For smaller samples, this is an approximation
+  const zScore = getZScore(1 - alpha / 2);
+  const standardError = stats.stdDev / Math.sqrt(stats.count);
+  const margin = zScore * standardError;
+  
+  return {
+    lower: stats.mean - margin,
+    upper: stats.mean + margin,
+    margin
+  };
+}
+
+function getZScore(probability: number): number {
+  // Approximation of inverse normal CDF for common confidence levels
+  const lookup: Record<number, number> = {
+    0.975: 1.96,  // 95% confidence
+    0.995: 2.576, // 99% confidence
+    0.90: 1.28,   // 80% confidence
+    0.95: 1.645   // 90% confidence
+  };
+  
+  return lookup[probability] || 1.96; // Default to 95%
+}
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26 erf approximation, |error| < 1.5e-7)
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+}
+
+// Inverse standard normal CDF (Acklam's rational approximation, relative error < 1.2e-9)
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02, 1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
+  const b = [-5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02, 6.680131188771972e+01, -1.328068155288572e+01];
+  const c = [-7.784894002430293e-03, -3.223964580411365e-01, -2.400758277161838e+00, -2.549732539343734e+00, 4.374664141464968e+00, 2.938163982698783e+00];
+  const d = [7.784695709041462e-03, 3.224671290700398e-01, 2.445134137142996e+00, 3.754408661907416e+00];
+  const pLow = 0.02425;
+
+  if (p < pLow) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+
+  if (p > 1 - pLow) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+export function detectOutliers(data: StatisticsSource): {
+  outliers: number[]; // Empty for a summary, which no longer holds individual values
+  outlierFraction: number;
+  lowerBound: number;
+  upperBound: number;
+  method: string;
+} {
+  const isSummary = data instanceof StreamingSummary;
+  const sorted = isSummary ? null : sortValues(data);
+  const quartile = (p: number) => sorted ? percentile(sorted, p) : (data as StreamingSummary).quantile(p / 100);
+  const p25 = quartile(25);
+  const p75 = quartile(75);
+  const iqr = p75 - p25;
+  
+  // IQR method
+  const lowerBound = p25 - 1.5 * iqr;
+  const upperBound = p75 + 1.5 * iqr;
+  
+  if (isSummary) {
+    const below = data.cdf(lowerBound);
+    const above = 1 - data.cdf(upperBound);
+    return {
+      outliers: [],
+      outlierFraction: data.size > 0 ? below + above : 0,
+      lowerBound,
+      upperBound,
+      method: 'IQR'
+    };
+  }
+
+  const outliers = data.filter(value => value < lowerBound || value > upperBound);
+  
+  return {
+    outliers,
+    outlierFraction: data.length > 0 ? outliers.length / data.length : 0,
+    lowerBound,
+    upperBound,
+    method: 'IQR'
+  };
+}
+
+export function rollingStatistics(data: number[], windowSize: number): Statistics[] {
+  const results: Statistics[] = [];
+  
+  for (let i = windowSize - 1; i < data.length; i++) {
+    const window = data.slice(i - windowSize + 1, i + 1);
+    results.push(calculateStatistics(window));
+  }
+  
+  return results;
+}
@@ -0,0 +1,297 @@
+// Mergeable streaming summary of one metric: exact moments plus a t-digest for quantiles.
+// Workers build one per shard and ship it instead of raw samples; summaries merge in any order.
+import type { Statistics } from "./statistics";
+
+// Plain form that survives postMessage/JSON
+export interface StreamingSummaryData {
+  count: number;
+  mean: number;
+  m2: number;
+  m3: number;
+  m4: number;
+  min: number;
+  max: number;
+  means: number[];
+  weights: number[];
+}
+
+// Centroid budget: quantile error is typically well under 0.1% of the range at the P5-P95 tails
+export const DEFAULT_COMPRESSION = 200;
+
+// Unmerged values held before a compression pass, as a multiple of the compression
+const BUFFER_FACTOR = 5;
+
+// Midpoint-rule slices when integrating the quantile function over a tail
+const TAIL_MEAN_STEPS = 200;
+
+export class StreamingSummary {
+  private count = 0;
+  private mean = 0;
+  // Central moment sums (Welford / Terriberry), combined across summaries with Pébay's formulas
+  private m2 = 0;
+  private m3 = 0;
+  private m4 = 0;
+  private min = Infinity;
+  private max = -Infinity;
+  private means: number[] = [];
+  private weights: number[] = [];
+  private pendingMeans: number[] = [];
+  private pendingWeights: number[] = [];
+
+  constructor(private compression: number = DEFAULT_COMPRESSION) {}
+
+  get size(): number {
+    return this.count;
+  }
+
+  add(value: number) {
+    const previousCount = this.count;
+    this.count++;
+    const n = this.count;
+    const delta = value - this.mean;
+    const deltaN = delta / n;
+    const deltaN2 = deltaN * deltaN;
+    const term = delta * deltaN * previousCount;
+
+    this.mean += deltaN;
+    this.m4 += term * deltaN2 * (n * n - 3 * n + 3) + 6 * deltaN2 * this.m2 - 4 * deltaN * this.m3;
+    this.m3 += term * deltaN * (n - 2) - 3 * deltaN * this.m2;
+    this.m2 += term;
+    if (value < this.min) this.min = value;
+    if (value > this.max) this.max = value;
+
+    this.pendingMeans.push(value);
+    this.pendingWeights.push(1);
+    if (this.pendingMeans.length >= BUFFER_FACTOR * this.compression) this.compress();
+  }
+
+  merge(other: StreamingSummary) {
+    if (other.count === 0) return;
+    if (this.count === 0) {
+      this.mean = other.mean;
+      this.m2 = other.m2;
+      this.m3 = other.m3;
+      this.m4 = other.m4;
+    } else {
+      const na = this.count;
+      const nb = other.count;
+      const n = na + nb;
+      const delta = other.mean - this.mean;
+      const delta2 = delta * delta;
+
+      const m4 = this.m4 + other.m4
+        + delta2 * delta2 * na * nb * (na * na - na * nb + nb * nb) / (n * n * n)
+        + 6 * delta2 * (na * na * other.m2 + nb * nb * this.m2) / (n * n)
+        + 4 * delta * (na * other.m3 - nb * this.m3) / n;
+      const m3 = this.m3 + other.m3
+        + delta2 * delta * na * nb * (na - nb) / (n * n)
+        + 3 * delta * (na * other.m2 - nb * this.m2) / n;
+
+      this.m4 = m4;
+      this.m3 = m3;
+      this.m2 += other.m2 + delta2 * na * nb / n;
+      this.mean += delta * nb / n;
+    }
+
+    this.count += other.count;
+    this.min = Math.min(this.min, other.min);
+    this.max = Math.max(this.max, other.max);
+
+    this.pendingMeans.push(...other.means, ...other.pendingMeans);
+    this.pendingWeights.push(...other.weights, ...other.pendingWeights);
+    this.compress();
+  }
+
+  // Value below which a fraction q of the data falls, interpolated like a sorted-array percentile
+  quantile(q: number): number {
+    if (this.count === 0) return NaN;
+    this.compress();
+
+    const { means, weights, count } = this;
+    if (q <= 0 || count === 1) return this.min;
+    if (q >= 1) return this.max;
+
+    // Centroid i sits at rank (weight before it + half its own weight); rank 0.5 is the min, count - 0.5 the max
+    const rank = q * (count - 1) + 0.5;
+    let previousRank = 0.5;
+    let previousValue = this.min;
+    let cumulative = 0;
+
+    for (let i = 0; i < means.length; i++) {
+      const centre = cumulative + weights[i] / 2;
+      if (rank <= centre) {
+        return interpolate(rank, previousRank, previousValue, centre, means[i]);
+      }
+      previousRank = centre;
+      previousValue = means[i];
+      cumulative += weights[i];
+    }
+
+    return interpolate(rank, previousRank, previousValue, count - 0.5, this.max);
+  }
+
+  // Fraction of the data at or below `value`; the inverse of quantile()
+  cdf(value: number): number {
+    if (this.count === 0) return NaN;
+    if (value < this.min) return 0;
+    if (value >= this.max) return 1;
+    this.compress();
+
+    const { means, weights, count } = this;
+    let previousRank = 0.5;
+    let previousValue = this.min;
+    let cumulative = 0;
+    let rank = count - 0.5;
+
+    for (let i = 0; i <= means.length; i++) {
+      const centre = i < means.length ? cumulative + weights[i] / 2 : count - 0.5;
+      const centreValue = i < means.length ? means[i] : this.max;
+      if (value < centreValue) {
+        rank = interpolate(value, previousValue, previousRank, centreValue, centre);
+        break;
+      }
+      previousRank = centre;
+      previousValue = centreValue;
+      if (i < means.length) cumulative += weights[i];
+    }
+
+    return Math.min(1, Math.max(0, (rank - 0.5) / (count - 1)));
+  }
+
+  // Mean of the values above the alpha quantile (CVaR of a cost), integrating the quantile function over the tail
+  tailMean(alpha: number): number {
+    if (this.count === 0) return NaN;
+    if (alpha <= 0) return this.mean;
+    if (alpha >= 1) return this.max;
+
+    let sum = 0;
+    for (let i = 0; i < TAIL_MEAN_STEPS; i++) {
+      sum += this.quantile(alpha + ((i + 0.5) * (1 - alpha)) / TAIL_MEAN_STEPS);
+    }
+    return sum / TAIL_MEAN_STEPS;
+  }
+
+  // Same fields as calculateStatistics(); mode is not tracked since continuous samples never repeat
+  statistics(): Statistics {
+    if (this.count === 0) {
+      throw new Error("Cannot calculate statistics for empty dataset");
+    }
+
+    const n = this.count;
+    const variance = n > 1 ? this.m2 / (n - 1) : 0;
+    const stdDev = Math.sqrt(variance);
+    const p50 = this.quantile(0.5);
+
+    // Bias-corrected sample skewness and excess kurtosis, matching calculateStatistics()
+    let skewness = 0;
+    let kurtosis = 0;
+    if (stdDev > 0 && n > 3) {
+      skewness = (n / ((n - 1) * (n - 2))) * this.m3 / Math.pow(stdDev, 3);
+      kurtosis = (n * (n + 1) * this.m4 / Math.pow(stdDev, 4)) / ((n - 1) * (n - 2) * (n - 3))
+        - 3 * Math.pow(n - 1, 2) / ((n - 2) * (n - 3));
+    }
+
+    return {
+      mean: this.mean,
+      median: p50,
+      mode: null,
+      stdDev,
+      variance,
+      min: this.min,
+      max: this.max,
+      range: this.max - this.min,
+      p5: this.quantile(0.05),
+      p10: this.quantile(0.10),
+      p25: this.quantile(0.25),
+      p50,
+      p75: this.quantile(0.75),
+      p90: this.quantile(0.90),
+      p95: this.quantile(0.95),
+      skewness,
+      kurtosis,
+      count: n
+    };
+  }
+
+  toJSON(): StreamingSummaryData {
+    this.compress();
+    return {
+      count: this.count,
+      mean: this.mean,
+      m2: this.m2,
+      m3: this.m3,
+      m4: this.m4,
+      min: this.min,
+      max: this.max,
+      means: [...this.means],
+      weights: [...this.weights]
+    };
+  }
+
+  static fromJSON(data: StreamingSummaryData, compression: number = DEFAULT_COMPRESSION): StreamingSummary {
+    const summary = new StreamingSummary(compression);
+    summary.count = data.count;
+    summary.mean = data.mean;
+    summary.m2 = data.m2;
+    summary.m3 = data.m3;
+    summary.m4 = data.m4;
+    // JSON turns ±Infinity into null for an empty summary
+    summary.min = data.count > 0 ? data.min : Infinity;
+    summary.max = data.count > 0 ? data.max : -Infinity;
+    summary.means = [...data.means];
+    summary.weights = [...data.weights];
+    return summary;
+  }
+
+  // Merging t-digest pass with the k1 (arcsine) scale: centroids stay small near the tails
+  private compress() {
+    if (this.pendingMeans.length === 0) return;
+
+    const allMeans = this.means.concat(this.pendingMeans);
+    const allWeights = this.weights.concat(this.pendingWeights);
+    this.pendingMeans = [];
+    this.pendingWeights = [];
+
+    const order = allMeans.map((_, i) => i).sort((a, b) => allMeans[a] - allMeans[b]);
+    const total = allWeights.reduce((sum, weight) => sum + weight, 0);
+    const scale = this.compression / (2 * Math.PI);
+    const limitAfter = (q: number) => {
+      const k = scale * Math.asin(2 * q - 1) + 1;
+      return k >= scale * Math.PI / 2 ? 1 : (Math.sin(k / scale) + 1) / 2;
+    };
+
+    const means: number[] = [];
+    const weights: number[] = [];
+    let currentMean = allMeans[order[0]];
+    let currentWeight = allWeights[order[0]];
+    let cumulative = 0;
+    let limit = limitAfter(0);
+
+    for (let j = 1; j < order.length; j++) {
+      const mean = allMeans[order[j]];
+      const weight = allWeights[order[j]];
+
+      if ((cumulative + currentWeight + weight) / total <= limit) {
+        currentWeight += weight;
+        currentMean += (mean - currentMean) * weight / currentWeight;
+      } else {
+        means.push(currentMean);
+        weights.push(currentWeight);
+        cumulative += currentWeight;
+        limit = limitAfter(cumulative / total);
+        currentMean = mean;
+        currentWeight = weight;
+      }
+    }
+
+    means.push(currentMean);
+    weights.push(currentWeight);
+    this.means = means;
+    this.weights = weights;
+  }
+}
+
+function interpolate(x: number, x0: number, y0: number, x1: number, y1: number): number {
+  if (x1 === x0) return y1;
+  return y0 + (y1 - y0) * (x - x0) / (x1 - x0);
+}
@@ -0,0 +1,148 @@
+// Automation process state machine: the documented stages, the events that move between them and the guards on
+// each event. Pure so the server can enforce it and the client can describe it.
+import type {
+  AutomationProcess, InsertAutomationProcess, ProcessDocument, StageHistoryEntry, WorkflowEvent, WorkflowStage
+} from "./schema";
+
+export interface WorkflowTransition {
+  event: WorkflowEvent;
+  from: WorkflowStage;
+  to: WorkflowStage;
+  label: string;
+}
+
+export const WORKFLOW_STAGE_LABELS: Record<WorkflowStage, string> = {
+  quote_collection: "Quote Collection",
+  agent_evaluation: "AI Agent Evaluation",
+  decision_analysis: "Decision Analysis",
+  booking_execution: "Booking Execution",
+  document_generation: "Documentation",
+  approval_pending: "Approval Pending",
+  completed: "Completed"
+};
+
+// A deferral skips booking and documents and goes straight to sign-off, from where it can be reconsidered
+export const WORKFLOW_TRANSITIONS: WorkflowTransition[] = [
+  { event: 'start_evaluation', from: 'quote_collection', to: 'agent_evaluation', label: "Start Evaluation" },
+  { event: 'request_decision', from: 'agent_evaluation', to: 'decision_analysis', label: "Request Decision" },
+  { event: 'book', from: 'decision_analysis', to: 'booking_execution', label: "Book" },
+  { event: 'defer', from: 'decision_analysis', to: 'approval_pending', label: "Defer" },
+  { event: 'generate_documents', from: 'booking_execution', to: 'document_generation', label: "Generate Documents" },
+  { event: 'submit_for_approval', from: 'document_generation', to: 'approval_pending', label: "Submit for Approval" },
+  { event: 'complete', from: 'approval_pending', to: 'completed', label: "Complete Process" },
+  { event: 'reconsider', from: 'approval_pending', to: 'decision_analysis', label: "Reconsider Deferral" }
+];
+
+// What the guards look at beyond the process row itself
+export interface WorkflowGuardContext {
+  quotesCollected: number; // Quotes linked to the process's shipment
+  documents: ProcessDocument[];
+}
+
+export interface TransitionCheck extends WorkflowTransition {
+  allowed: boolean;
+  failures: string[]; // Why the guard refuses the event; empty when allowed
+}
+
+// What GET /api/automation-processes/:id/transitions returns
+export interface ProcessTransitions {
+  stage: WorkflowStage;
+  transitions: TransitionCheck[];
+  history: StageHistoryEntry[];
+}
+
+export class WorkflowTransitionError extends Error {
+  constructor(message: string, public failures: string[] = []) {
+    super(message);
+    this.name = "WorkflowTransitionError";
+  }
+}
+
+function guardFailures(event: WorkflowEvent, process: AutomationProcess, context: WorkflowGuardContext): string[] {
+  const decisionFailure = (expected: 'book' | 'defer') => !process.agentDecision
+    ? ["No decision has been made"]
+    : process.agentDecision !== expected ? [`The decision is to ${process.agentDecision}, not ${expected}`] : [];
+
+  switch (event) {
+    case 'start_evaluation':
+      return context.quotesCollected > 0 ? [] : ["No quotes are linked to the shipment yet"];
+    case 'book':
+      return decisionFailure('book');
+    case 'defer':
+    case 'reconsider':
+      return decisionFailure('defer');
+    case 'submit_for_approval':
+      return context.documents.length > 0 ? [] : ["No documents have been generated"];
+    case 'complete': {
+      // A deferral has no documents to approve
+      if (process.agentDecision === 'defer') return [];
+      if (context.documents.length === 0) return ["No documents have been generated"];
+      const unapproved = context.documents.filter(document => document.status !== 'approved');
+      return unapproved.length === 0
+        ? []
+        : [`${unapproved.length} of ${context.documents.length} documents are not approved: ${unapproved.map(document => document.documentName).join(", ")}`];
+    }
+    default:
+      return [];
+  }
+}
+
+export function availableTransitions(process: AutomationProcess, context: WorkflowGuardContext): TransitionCheck[] {
+  return WORKFLOW_TRANSITIONS
+    .filter(transition => transition.from === process.currentStage)
+    .map(transition => {
+      const failures = guardFailures(transition.event, process, context);
+      return { ...transition, allowed: failures.length === 0, failures };
+    });
+}
+
+// Throws unless the event leaves the current stage and its guard passes
+export function checkTransition(process: AutomationProcess, event: WorkflowEvent, context: WorkflowGuardContext): TransitionCheck {
+  const check = availableTransitions(process, context).find(transition => transition.event === event);
+  if (!check) {
+    const from = WORKFLOW_STAGE_LABELS[process.currentStage as WorkflowStage] ?? process.currentStage;
+    throw new WorkflowTransitionError(`"${event}" is not a valid transition from ${from}`);
+  }
+  if (!check.allowed) {
+    throw new WorkflowTransitionError(`Cannot ${check.label.toLowerCase()}: ${check.failures.join("; ")}`, check.failures);
+  }
+  return check;
+}
+
+// Rows written before stages were tracked start their history at creation
+export function stageHistoryOf(process: AutomationProcess): StageHistoryEntry[] {
+  const history = process.stageHistory as StageHistoryEntry[] | null;
+  if (history && history.length > 0) return history;
+  return [{
+    stage: process.currentStage as WorkflowStage,
+    enteredAt: (process.createdAt ?? new Date()).toISOString(),
+    exitedAt: null,
+    event: null
+  }];
+}
+
+export function initialStageHistory(now: Date): StageHistoryEntry[] {
+  return [{ stage: 'quote_collection', enteredAt: now.toISOString(), exitedAt: null, event: null }];
+}
+
+// The row updates for a checked transition: closes the current stage, opens the next and, on reconsidering a
+// deferral, clears the decision so a new one has to be made
+export function transitionUpdates(
+  process: AutomationProcess,
+  transition: WorkflowTransition,
+  now: Date,
+  note?: string
+): Partial<InsertAutomationProcess> {
+  const timestamp = now.toISOString();
+  const history = stageHistoryOf(process).map((entry, i, all) =>
+    i === all.length - 1 && entry.exitedAt === null ? { ...entry, exitedAt: timestamp } : entry
+  );
+  history.push({ stage: transition.to, enteredAt: timestamp, exitedAt: null, event: transition.event, ...(note ? { note } : {}) });
+
+  return {
+    currentStage: transition.to,
+    stageHistory: history,
+    completedAt: transition.to === 'completed' ? now : null,
+    ...(transition.event === 'reconsider' ? { agentDecision: null, deferCost: null, deferReason: null } : {})
+  };
+}